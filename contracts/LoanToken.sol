@@ -23,6 +23,9 @@ contract LoanToken is Ownable, ReentrancyGuard {
     string public symbol;
     uint8 public constant decimals = 0; // Whole units only for loan positions
     uint256 public totalSupply;
+    // 2: controllerTransfer unfreezes the shortfall. Tokens deployed before
+    // this have no VERSION and leave frozenTokens above the balance.
+    uint256 public constant VERSION = 2;
 
     // ============ ERC-3643 Components ============
     IIdentityRegistry public identityRegistry;
@@ -461,6 +464,14 @@ contract LoanToken is Ownable, ReentrancyGuard {
         require(isControllable, "NOT_CONTROLLABLE");
         require(_totalBalances[from] >= value, "INSUFFICIENT_BALANCE");
         
+        // Frozen tokens never exceed the balance, so unfreeze the shortfall
+        uint256 remaining = _totalBalances[from] - value;
+        if (frozenTokens[from] > remaining) {
+            uint256 unfrozen = frozenTokens[from] - remaining;
+            frozenTokens[from] = remaining;
+            emit TokensUnfrozen(from, unfrozen);
+        }
+        
         // Force transfer bypassing compliance (for regulatory enforcement)
         _transferByPartition(PRIMARY_PARTITION, from, to, value);
         
@@ -0,0 +1,121 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title SettlementCash
+ * @notice Tokenised deposit used as the cash leg for delivery-versus-payment
+ * @dev Balances are USD cents (2 decimals). The settlement agent places holds
+ * on a buyer's balance when a trade is approved; held funds can't be
+ * transferred by the holder. At execution the agent either pays the hold to
+ * the seller or releases it. A paid hold can be reversed by the agent if the
+ * token leg fails, restoring the hold.
+ */
+contract SettlementCash is ERC20, Ownable {
+    enum HoldStatus {
+        None,
+        Held,
+        Paid,
+        Released
+    }
+
+    struct Hold {
+        address holder;
+        address payee; // Set once paid
+        uint256 amount;
+        HoldStatus status;
+    }
+
+    address public settlementAgent;
+
+    mapping(bytes32 => Hold) public holds;
+    mapping(address => uint256) public heldBalanceOf;
+
+    event SettlementAgentChanged(address indexed agent);
+    event HoldPlaced(bytes32 indexed holdId, address indexed holder, uint256 amount);
+    event HoldReleased(bytes32 indexed holdId);
+    event HoldPaid(bytes32 indexed holdId, address indexed payee);
+    event HoldReversed(bytes32 indexed holdId);
+
+    modifier onlyAgent() {
+        require(msg.sender == settlementAgent, "SettlementCash: caller is not the settlement agent");
+        _;
+    }
+
+    constructor(address _settlementAgent) ERC20("Settlement USD", "sUSD") Ownable(msg.sender) {
+        settlementAgent = _settlementAgent;
+        emit SettlementAgentChanged(_settlementAgent);
+    }
+
+    function decimals() public pure override returns (uint8) {
+        return 2;
+    }
+
+    function setSettlementAgent(address agent) external onlyOwner {
+        settlementAgent = agent;
+        emit SettlementAgentChanged(agent);
+    }
+
+    /// @notice Issue deposit tokens (bank/issuer funding a participant)
+    function mint(address to, uint256 amount) external onlyOwner {
+        _mint(to, amount);
+    }
+
+    function availableBalanceOf(address account) public view returns (uint256) {
+        return balanceOf(account) - heldBalanceOf[account];
+    }
+
+    function placeHold(bytes32 holdId, address holder, uint256 amount) external onlyAgent {
+        require(holds[holdId].status == HoldStatus.None, "SettlementCash: hold exists");
+        require(availableBalanceOf(holder) >= amount, "SettlementCash: insufficient available balance");
+
+        holds[holdId] = Hold(holder, address(0), amount, HoldStatus.Held);
+        heldBalanceOf[holder] += amount;
+        emit HoldPlaced(holdId, holder, amount);
+    }
+
+    function releaseHold(bytes32 holdId) external onlyAgent {
+        Hold storage hold = holds[holdId];
+        require(hold.status == HoldStatus.Held, "SettlementCash: not held");
+
+        hold.status = HoldStatus.Released;
+        heldBalanceOf[hold.holder] -= hold.amount;
+        emit HoldReleased(holdId);
+    }
+
+    function payHold(bytes32 holdId, address payee) external onlyAgent {
+        Hold storage hold = holds[holdId];
+        require(hold.status == HoldStatus.Held, "SettlementCash: not held");
+
+        hold.status = HoldStatus.Paid;
+        hold.payee = payee;
+        heldBalanceOf[hold.holder] -= hold.amount;
+        _transfer(hold.holder, payee, hold.amount);
+        emit HoldPaid(holdId, payee);
+    }
+
+    /// @notice Undo a payment whose token leg failed; funds go back on hold
+    function reversePayment(bytes32 holdId) external onlyAgent {
+        Hold storage hold = holds[holdId];
+        require(hold.status == HoldStatus.Paid, "SettlementCash: not paid");
+
+        _transfer(hold.payee, hold.holder, hold.amount);
+        hold.status = HoldStatus.Held;
+        hold.payee = address(0);
+        heldBalanceOf[hold.holder] += hold.amount;
+        emit HoldReversed(holdId);
+    }
+
+    /// @dev Held funds can't leave the holder except through payHold
+    function _update(address from, address to, uint256 value) internal override {
+        if (from != address(0) && msg.sender != settlementAgent) {
+            require(
+                balanceOf(from) - heldBalanceOf[from] >= value,
+                "SettlementCash: amount exceeds available balance"
+            );
+        }
+        super._update(from, to, value);
+    }
+}
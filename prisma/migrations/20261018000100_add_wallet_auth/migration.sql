@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "WorkflowRole" AS ENUM ('trader', 'checker', 'agent');
+
+-- CreateTable
+CREATE TABLE "AuthNonce" (
+    "id" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuthNonce_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AuthSession" (
+    "id" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuthSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RoleAssignment" (
+    "id" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "role" "WorkflowRole" NOT NULL,
+    "grantedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoleAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuthNonce_nonce_key" ON "AuthNonce"("nonce");
+
+-- CreateIndex
+CREATE INDEX "AuthNonce_walletAddress_idx" ON "AuthNonce"("walletAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuthSession_tokenHash_key" ON "AuthSession"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "AuthSession_walletAddress_idx" ON "AuthSession"("walletAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoleAssignment_walletAddress_role_key" ON "RoleAssignment"("walletAddress", "role");
+
+-- CreateIndex
+CREATE INDEX "RoleAssignment_walletAddress_idx" ON "RoleAssignment"("walletAddress");
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "RoleAssignment" ADD COLUMN "organization" TEXT;
+
+-- CreateTable
+CREATE TABLE "TradeWorkflowPolicy" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "requiredApprovals" INTEGER NOT NULL DEFAULT 1,
+    "notionalThreshold" BIGINT,
+    "approvalsAboveThreshold" INTEGER NOT NULL DEFAULT 2,
+    "segregateOrganizations" BOOLEAN NOT NULL DEFAULT true,
+    "updatedBy" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TradeWorkflowPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradeWorkflowPolicy_loanId_key" ON "TradeWorkflowPolicy"("loanId");
+
+-- AddForeignKey
+ALTER TABLE "TradeWorkflowPolicy" ADD CONSTRAINT "TradeWorkflowPolicy_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
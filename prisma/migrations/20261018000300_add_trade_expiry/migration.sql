@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN "expiresAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "TradeWorkflowPolicy" ADD COLUMN "approvedTtlMinutes" INTEGER,
+ADD COLUMN "proposedTtlMinutes" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ParticipantTypeTradePolicy" (
+    "participantType" "ParticipantType" NOT NULL,
+    "proposedTtlMinutes" INTEGER,
+    "approvedTtlMinutes" INTEGER,
+    "updatedBy" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ParticipantTypeTradePolicy_pkey" PRIMARY KEY ("participantType")
+);
+
+-- CreateIndex
+CREATE INDEX "Trade_status_expiresAt_idx" ON "Trade"("status", "expiresAt");
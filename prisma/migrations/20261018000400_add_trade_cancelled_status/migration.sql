@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "TradeStatus" ADD VALUE 'cancelled';
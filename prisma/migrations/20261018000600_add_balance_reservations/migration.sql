@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "TokenBalance" ADD COLUMN "reservedAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN "reservedUnits" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: trades already in flight hold their units
+UPDATE "Trade" SET "reservedUnits" = "units" WHERE "status" IN ('proposed', 'approved');
+
+UPDATE "TokenBalance" AS tb
+SET "reservedAmount" = r."total"
+FROM (
+    SELECT "sellerId", "tokenAddress", SUM("reservedUnits") AS "total"
+    FROM "Trade"
+    WHERE "reservedUnits" > 0
+    GROUP BY "sellerId", "tokenAddress"
+) AS r
+WHERE tb."participantId" = r."sellerId" AND tb."tokenAddress" = r."tokenAddress";
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN "orderId" TEXT;
+
+-- CreateTable
+CREATE TABLE "BlockOrder" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "totalUnits" INTEGER NOT NULL,
+    "pricePerUnit" BIGINT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cancelledAt" TIMESTAMP(3),
+    "cancelledBy" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "BlockOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Trade_orderId_idx" ON "Trade"("orderId");
+
+-- CreateIndex
+CREATE INDEX "BlockOrder_tokenAddress_idx" ON "BlockOrder"("tokenAddress");
+
+-- CreateIndex
+CREATE INDEX "BlockOrder_sellerId_idx" ON "BlockOrder"("sellerId");
+
+-- AddForeignKey
+ALTER TABLE "Trade" ADD CONSTRAINT "Trade_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "BlockOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BlockOrder" ADD CONSTRAINT "BlockOrder_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BlockOrder" ADD CONSTRAINT "BlockOrder_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "Participant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
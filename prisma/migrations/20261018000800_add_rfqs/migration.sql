@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "RfqStatus" AS ENUM ('open', 'accepted', 'cancelled', 'expired');
+
+-- CreateTable
+CREATE TABLE "Rfq" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "units" INTEGER NOT NULL,
+    "status" "RfqStatus" NOT NULL DEFAULT 'open',
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedQuoteId" TEXT,
+    "tradeId" TEXT,
+    "cancelledAt" TIMESTAMP(3),
+    "version" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "Rfq_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RfqInvitee" (
+    "id" TEXT NOT NULL,
+    "rfqId" TEXT NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "validation" JSONB,
+
+    CONSTRAINT "RfqInvitee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RfqQuote" (
+    "id" TEXT NOT NULL,
+    "rfqId" TEXT NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "pricePerUnit" BIGINT NOT NULL,
+    "validUntil" TIMESTAMP(3) NOT NULL,
+    "submittedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RfqQuote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Rfq_status_expiresAt_idx" ON "Rfq"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "Rfq_tokenAddress_idx" ON "Rfq"("tokenAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RfqInvitee_rfqId_buyerId_key" ON "RfqInvitee"("rfqId", "buyerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RfqQuote_rfqId_buyerId_key" ON "RfqQuote"("rfqId", "buyerId");
+
+-- AddForeignKey
+ALTER TABLE "Rfq" ADD CONSTRAINT "Rfq_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Rfq" ADD CONSTRAINT "Rfq_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "Participant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RfqInvitee" ADD CONSTRAINT "RfqInvitee_rfqId_fkey" FOREIGN KEY ("rfqId") REFERENCES "Rfq"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RfqInvitee" ADD CONSTRAINT "RfqInvitee_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "Participant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RfqQuote" ADD CONSTRAINT "RfqQuote_rfqId_fkey" FOREIGN KEY ("rfqId") REFERENCES "Rfq"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RfqQuote" ADD CONSTRAINT "RfqQuote_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "Participant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "OrderSide" AS ENUM ('bid', 'ask');
+
+-- CreateTable
+CREATE TABLE "LimitOrder" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "side" "OrderSide" NOT NULL,
+    "units" INTEGER NOT NULL,
+    "pricePerUnit" BIGINT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cancelledAt" TIMESTAMP(3),
+    "version" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "LimitOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderBookMatch" (
+    "id" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "bidOrderId" TEXT NOT NULL,
+    "askOrderId" TEXT NOT NULL,
+    "units" INTEGER NOT NULL,
+    "pricePerUnit" BIGINT NOT NULL,
+    "tradeId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderBookMatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LimitOrder_tokenAddress_side_cancelledAt_idx" ON "LimitOrder"("tokenAddress", "side", "cancelledAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderBookMatch_tradeId_key" ON "OrderBookMatch"("tradeId");
+
+-- CreateIndex
+CREATE INDEX "OrderBookMatch_bidOrderId_idx" ON "OrderBookMatch"("bidOrderId");
+
+-- CreateIndex
+CREATE INDEX "OrderBookMatch_askOrderId_idx" ON "OrderBookMatch"("askOrderId");
+
+-- AddForeignKey
+ALTER TABLE "LimitOrder" ADD CONSTRAINT "LimitOrder_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LimitOrder" ADD CONSTRAINT "LimitOrder_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderBookMatch" ADD CONSTRAINT "OrderBookMatch_bidOrderId_fkey" FOREIGN KEY ("bidOrderId") REFERENCES "LimitOrder"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderBookMatch" ADD CONSTRAINT "OrderBookMatch_askOrderId_fkey" FOREIGN KEY ("askOrderId") REFERENCES "LimitOrder"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderBookMatch" ADD CONSTRAINT "OrderBookMatch_tradeId_fkey" FOREIGN KEY ("tradeId") REFERENCES "Trade"("id") ON DELETE SET NULL ON UPDATE CASCADE;
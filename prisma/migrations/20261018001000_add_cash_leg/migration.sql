@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "CashLockStatus" AS ENUM ('locked', 'settled', 'released');
+
+-- CreateTable
+CREATE TABLE "CashAccount" (
+    "id" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "balance" BIGINT NOT NULL DEFAULT 0,
+    "lockedAmount" BIGINT NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CashAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CashLock" (
+    "id" TEXT NOT NULL,
+    "tradeId" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "status" "CashLockStatus" NOT NULL DEFAULT 'locked',
+    "externalRef" TEXT,
+    "paymentRef" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "settledAt" TIMESTAMP(3),
+    "releasedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CashLock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CashAccount_participantId_key" ON "CashAccount"("participantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CashLock_tradeId_key" ON "CashLock"("tradeId");
+
+-- CreateIndex
+CREATE INDEX "CashLock_status_idx" ON "CashLock"("status");
+
+-- AddForeignKey
+ALTER TABLE "CashAccount" ADD CONSTRAINT "CashAccount_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashLock" ADD CONSTRAINT "CashLock_tradeId_fkey" FOREIGN KEY ("tradeId") REFERENCES "Trade"("id") ON DELETE CASCADE ON UPDATE CASCADE;
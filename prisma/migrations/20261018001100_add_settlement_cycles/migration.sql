@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN     "settlementCycleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SettlementCycle" (
+    "id" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "runBy" TEXT NOT NULL,
+    "netPositions" JSONB NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SettlementCycle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Trade_settlementCycleId_idx" ON "Trade"("settlementCycleId");
+
+-- CreateIndex
+CREATE INDEX "SettlementCycle_tokenAddress_createdAt_idx" ON "SettlementCycle"("tokenAddress", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Trade" ADD CONSTRAINT "Trade_settlementCycleId_fkey" FOREIGN KEY ("settlementCycleId") REFERENCES "SettlementCycle"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "ChainEvent" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "eventName" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChainEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "IndexerCheckpoint" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IndexerCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TokenHolding" (
+    "id" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "balance" INTEGER NOT NULL,
+    "frozenAmount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TokenHolding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TokenPartitionBalance" (
+    "id" TEXT NOT NULL,
+    "holdingId" TEXT NOT NULL,
+    "partition" TEXT NOT NULL,
+    "balance" INTEGER NOT NULL,
+
+    CONSTRAINT "TokenPartitionBalance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChainEvent_chainId_txHash_logIndex_key" ON "ChainEvent"("chainId", "txHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "ChainEvent_chainId_tokenAddress_blockNumber_idx" ON "ChainEvent"("chainId", "tokenAddress", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IndexerCheckpoint_chainId_tokenAddress_key" ON "IndexerCheckpoint"("chainId", "tokenAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenHolding_tokenAddress_walletAddress_key" ON "TokenHolding"("tokenAddress", "walletAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenPartitionBalance_holdingId_partition_key" ON "TokenPartitionBalance"("holdingId", "partition");
+
+-- AddForeignKey
+ALTER TABLE "TokenPartitionBalance" ADD CONSTRAINT "TokenPartitionBalance_holdingId_fkey" FOREIGN KEY ("holdingId") REFERENCES "TokenHolding"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationRunStatus" AS ENUM ('running', 'completed', 'failed');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationBreakType" AS ENUM ('missing_holder', 'amount_mismatch', 'frozen_mismatch', 'unknown_holder', 'supply_mismatch');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationBreakStatus" AS ENUM ('open', 'assigned', 'resolved');
+
+-- CreateTable
+CREATE TABLE "ReconciliationRun" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "status" "ReconciliationRunStatus" NOT NULL DEFAULT 'running',
+    "triggeredBy" TEXT NOT NULL,
+    "tokensChecked" INTEGER NOT NULL DEFAULT 0,
+    "holdersChecked" INTEGER NOT NULL DEFAULT 0,
+    "breakCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReconciliationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReconciliationBreak" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "lastSeenRunId" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "walletAddress" TEXT,
+    "participantId" TEXT,
+    "type" "ReconciliationBreakType" NOT NULL,
+    "partition" TEXT,
+    "ledgerAmount" INTEGER,
+    "chainAmount" INTEGER,
+    "details" TEXT NOT NULL,
+    "status" "ReconciliationBreakStatus" NOT NULL DEFAULT 'open',
+    "assignedTo" TEXT,
+    "assignedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolution" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReconciliationBreak_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationRun_startedAt_idx" ON "ReconciliationRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationBreak_status_idx" ON "ReconciliationBreak"("status");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationBreak_key_status_idx" ON "ReconciliationBreak"("key", "status");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationBreak_runId_idx" ON "ReconciliationBreak"("runId");
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationBreak" ADD CONSTRAINT "ReconciliationBreak_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ReconciliationRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationBreak" ADD CONSTRAINT "ReconciliationBreak_lastSeenRunId_fkey" FOREIGN KEY ("lastSeenRunId") REFERENCES "ReconciliationRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN     "partition" "TokenPartition" NOT NULL DEFAULT 'PRIMARY';
+
+-- AlterTable
+ALTER TABLE "SettlementCycle" ADD COLUMN     "partition" "TokenPartition" NOT NULL DEFAULT 'PRIMARY';
+
+-- CreateTable
+CREATE TABLE "TokenBalancePartition" (
+    "id" TEXT NOT NULL,
+    "tokenBalanceId" TEXT NOT NULL,
+    "partition" "TokenPartition" NOT NULL,
+    "balance" INTEGER NOT NULL,
+
+    CONSTRAINT "TokenBalancePartition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenBalancePartition_tokenBalanceId_partition_key" ON "TokenBalancePartition"("tokenBalanceId", "partition");
+
+-- AddForeignKey
+ALTER TABLE "TokenBalancePartition" ADD CONSTRAINT "TokenBalancePartition_tokenBalanceId_fkey" FOREIGN KEY ("tokenBalanceId") REFERENCES "TokenBalance"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing balances were all issued and traded in the primary partition
+INSERT INTO "TokenBalancePartition" ("id", "tokenBalanceId", "partition", "balance")
+SELECT 'tbp_' || "id", "id", 'PRIMARY', "balance" FROM "TokenBalance" WHERE "balance" > 0;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "TokenAdminActionType" AS ENUM ('freeze_address', 'unfreeze_address', 'freeze_tokens', 'unfreeze_tokens', 'pause', 'unpause', 'forced_transfer');
+
+-- CreateEnum
+CREATE TYPE "TokenAdminReasonCode" AS ENUM ('regulatory_order', 'court_order', 'sanctions', 'aml_investigation', 'lost_wallet', 'error_correction', 'other');
+
+-- CreateTable
+CREATE TABLE "TokenAdminAction" (
+    "id" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "action" "TokenAdminActionType" NOT NULL,
+    "reasonCode" "TokenAdminReasonCode" NOT NULL,
+    "reason" TEXT,
+    "actor" TEXT NOT NULL,
+    "wallet" TEXT,
+    "toWallet" TEXT,
+    "units" INTEGER,
+    "partition" "TokenPartition",
+    "mode" TEXT NOT NULL,
+    "txHash" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TokenAdminAction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TokenAdminAction_tokenAddress_createdAt_idx" ON "TokenAdminAction"("tokenAddress", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TokenAdminAction_wallet_idx" ON "TokenAdminAction"("wallet");
+
+-- Audit rows are append-only: reject any UPDATE at the database level
+CREATE FUNCTION "TokenAdminAction_reject_update"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'TokenAdminAction rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "TokenAdminAction_immutable"
+    BEFORE UPDATE ON "TokenAdminAction"
+    FOR EACH ROW EXECUTE FUNCTION "TokenAdminAction_reject_update"();
@@ -0,0 +1,39 @@
+-- AlterEnum
+ALTER TYPE "WorkflowRole" ADD VALUE 'kyc_provider';
+
+-- CreateEnum
+CREATE TYPE "WalletRecoveryStatus" AS ENUM ('requested', 'identity_verified', 'approved', 'executed', 'rejected');
+
+-- CreateTable
+CREATE TABLE "WalletRecovery" (
+    "id" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "lostWallet" TEXT NOT NULL,
+    "newWallet" TEXT NOT NULL,
+    "status" "WalletRecoveryStatus" NOT NULL DEFAULT 'requested',
+    "statement" TEXT NOT NULL,
+    "requestedBy" TEXT NOT NULL,
+    "verifiedBy" TEXT,
+    "verifiedAt" TIMESTAMP(3),
+    "verificationRef" TEXT,
+    "approvals" JSONB NOT NULL DEFAULT '[]',
+    "executedBy" TEXT,
+    "executedAt" TIMESTAMP(3),
+    "txHashes" TEXT[],
+    "rejectedBy" TEXT,
+    "rejectionReason" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WalletRecovery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WalletRecovery_participantId_idx" ON "WalletRecovery"("participantId");
+
+-- CreateIndex
+CREATE INDEX "WalletRecovery_status_idx" ON "WalletRecovery"("status");
+
+-- AddForeignKey
+ALTER TABLE "WalletRecovery" ADD CONSTRAINT "WalletRecovery_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
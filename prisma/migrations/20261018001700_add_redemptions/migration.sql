@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "RedemptionTrigger" AS ENUM ('maturity', 'prepayment');
+
+-- CreateEnum
+CREATE TYPE "RedemptionStatus" AS ENUM ('processing', 'completed', 'failed');
+
+-- CreateTable
+CREATE TABLE "Redemption" (
+    "id" TEXT NOT NULL,
+    "tokenizationId" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "trigger" "RedemptionTrigger" NOT NULL,
+    "status" "RedemptionStatus" NOT NULL DEFAULT 'processing',
+    "amount" BIGINT NOT NULL,
+    "totalUnits" INTEGER NOT NULL,
+    "mode" TEXT NOT NULL,
+    "cashLegMode" TEXT NOT NULL,
+    "burnTxHash" TEXT,
+    "triggeredBy" TEXT NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Redemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RedemptionPayout" (
+    "id" TEXT NOT NULL,
+    "redemptionId" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "walletAddress" TEXT,
+    "units" INTEGER NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "txHash" TEXT,
+
+    CONSTRAINT "RedemptionPayout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Redemption_tokenizationId_idx" ON "Redemption"("tokenizationId");
+
+-- CreateIndex
+CREATE INDEX "Redemption_status_idx" ON "Redemption"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RedemptionPayout_redemptionId_participantId_key" ON "RedemptionPayout"("redemptionId", "participantId");
+
+-- AddForeignKey
+ALTER TABLE "Redemption" ADD CONSTRAINT "Redemption_tokenizationId_fkey" FOREIGN KEY ("tokenizationId") REFERENCES "Tokenization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RedemptionPayout" ADD CONSTRAINT "RedemptionPayout_redemptionId_fkey" FOREIGN KEY ("redemptionId") REFERENCES "Redemption"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RedemptionPayout" ADD CONSTRAINT "RedemptionPayout_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "PrimaryAllocationStatus" AS ENUM ('processing', 'completed', 'failed');
+
+-- CreateTable
+CREATE TABLE "PrimaryAllocation" (
+    "id" TEXT NOT NULL,
+    "tokenizationId" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "status" "PrimaryAllocationStatus" NOT NULL DEFAULT 'processing',
+    "mode" TEXT NOT NULL,
+    "totalUnits" INTEGER NOT NULL,
+    "allocatedUnits" INTEGER NOT NULL,
+    "unallocatedUnits" INTEGER NOT NULL,
+    "allocatedBy" TEXT NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PrimaryAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PrimaryAllocationLine" (
+    "id" TEXT NOT NULL,
+    "allocationId" TEXT NOT NULL,
+    "lenderPositionId" TEXT NOT NULL,
+    "lenderName" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "percentage" DOUBLE PRECISION NOT NULL,
+    "exactUnits" DOUBLE PRECISION NOT NULL,
+    "units" INTEGER NOT NULL,
+    "residual" DOUBLE PRECISION NOT NULL,
+    "txHash" TEXT,
+
+    CONSTRAINT "PrimaryAllocationLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PrimaryAllocation_tokenizationId_idx" ON "PrimaryAllocation"("tokenizationId");
+
+-- CreateIndex
+CREATE INDEX "PrimaryAllocation_status_idx" ON "PrimaryAllocation"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PrimaryAllocationLine_allocationId_lenderPositionId_key" ON "PrimaryAllocationLine"("allocationId", "lenderPositionId");
+
+-- AddForeignKey
+ALTER TABLE "PrimaryAllocation" ADD CONSTRAINT "PrimaryAllocation_tokenizationId_fkey" FOREIGN KEY ("tokenizationId") REFERENCES "Tokenization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PrimaryAllocationLine" ADD CONSTRAINT "PrimaryAllocationLine_allocationId_fkey" FOREIGN KEY ("allocationId") REFERENCES "PrimaryAllocation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PrimaryAllocationLine" ADD CONSTRAINT "PrimaryAllocationLine_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
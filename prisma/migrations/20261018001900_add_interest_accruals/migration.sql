@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "InterestAccrual" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "accrualDate" TIMESTAMP(3) NOT NULL,
+    "principal" BIGINT NOT NULL,
+    "rateBps" INTEGER NOT NULL,
+    "dayCount" TEXT NOT NULL,
+    "dayFraction" DOUBLE PRECISION NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "accruedToDate" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InterestAccrual_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InterestAccrualShare" (
+    "id" TEXT NOT NULL,
+    "accrualId" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "units" INTEGER NOT NULL,
+    "amount" BIGINT NOT NULL,
+
+    CONSTRAINT "InterestAccrualShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InterestAccrual_loanId_accrualDate_key" ON "InterestAccrual"("loanId", "accrualDate");
+
+-- CreateIndex
+CREATE INDEX "InterestAccrualShare_participantId_idx" ON "InterestAccrualShare"("participantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InterestAccrualShare_accrualId_participantId_key" ON "InterestAccrualShare"("accrualId", "participantId");
+
+-- AddForeignKey
+ALTER TABLE "InterestAccrual" ADD CONSTRAINT "InterestAccrual_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterestAccrualShare" ADD CONSTRAINT "InterestAccrualShare_accrualId_fkey" FOREIGN KEY ("accrualId") REFERENCES "InterestAccrual"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterestAccrualShare" ADD CONSTRAINT "InterestAccrualShare_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "InterestAccrual" ALTER COLUMN "rateBps" SET DATA TYPE DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "ReferenceRateFixing" (
+    "id" TEXT NOT NULL,
+    "rateName" TEXT NOT NULL,
+    "fixingDate" TIMESTAMP(3) NOT NULL,
+    "rateBps" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReferenceRateFixing_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FloatingRateTerms" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "resetFrequencyMonths" INTEGER NOT NULL DEFAULT 3,
+    "floorBps" INTEGER,
+    "lookbackDays" INTEGER NOT NULL DEFAULT 0,
+    "observationShift" BOOLEAN NOT NULL DEFAULT false,
+    "updatedBy" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FloatingRateTerms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoanRateReset" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "referenceRate" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "referenceRateBps" DOUBLE PRECISION NOT NULL,
+    "floorBps" INTEGER,
+    "spreadBps" INTEGER NOT NULL,
+    "allInRateBps" DOUBLE PRECISION NOT NULL,
+    "lookbackDays" INTEGER NOT NULL,
+    "observationShift" BOOLEAN NOT NULL,
+    "fixingsUsed" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoanRateReset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReferenceRateFixing_rateName_fixingDate_key" ON "ReferenceRateFixing"("rateName", "fixingDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FloatingRateTerms_loanId_key" ON "FloatingRateTerms"("loanId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoanRateReset_loanId_periodStart_key" ON "LoanRateReset"("loanId", "periodStart");
+
+-- AddForeignKey
+ALTER TABLE "FloatingRateTerms" ADD CONSTRAINT "FloatingRateTerms_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoanRateReset" ADD CONSTRAINT "LoanRateReset_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
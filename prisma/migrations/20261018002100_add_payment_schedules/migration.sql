@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "PaymentSchedule" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "businessDayConvention" TEXT NOT NULL,
+    "calendar" TEXT NOT NULL,
+    "generatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InterestPeriod" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "unadjustedEndDate" TIMESTAMP(3) NOT NULL,
+    "paymentDate" TIMESTAMP(3) NOT NULL,
+    "days" INTEGER NOT NULL,
+    "isStub" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "InterestPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentSchedule_loanId_key" ON "PaymentSchedule"("loanId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InterestPeriod_scheduleId_sequence_key" ON "InterestPeriod"("scheduleId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "PaymentSchedule" ADD CONSTRAINT "PaymentSchedule_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterestPeriod" ADD CONSTRAINT "InterestPeriod_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "PaymentSchedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "DistributionType" AS ENUM ('interest', 'principal');
+
+-- CreateEnum
+CREATE TYPE "DistributionStatus" AS ENUM ('scheduled', 'payable', 'paid');
+
+-- CreateTable
+CREATE TABLE "Distribution" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "type" "DistributionType" NOT NULL,
+    "status" "DistributionStatus" NOT NULL DEFAULT 'scheduled',
+    "amount" BIGINT NOT NULL,
+    "recordDate" TIMESTAMP(3) NOT NULL,
+    "paymentDate" TIMESTAMP(3) NOT NULL,
+    "totalUnits" INTEGER,
+    "cashLegMode" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "snapshotAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+
+    CONSTRAINT "Distribution_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DistributionPayable" (
+    "id" TEXT NOT NULL,
+    "distributionId" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "walletAddress" TEXT,
+    "units" INTEGER NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "paidAt" TIMESTAMP(3),
+
+    CONSTRAINT "DistributionPayable_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Distribution_loanId_idx" ON "Distribution"("loanId");
+
+-- CreateIndex
+CREATE INDEX "Distribution_tokenAddress_idx" ON "Distribution"("tokenAddress");
+
+-- CreateIndex
+CREATE INDEX "Distribution_status_idx" ON "Distribution"("status");
+
+-- CreateIndex
+CREATE INDEX "DistributionPayable_participantId_idx" ON "DistributionPayable"("participantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DistributionPayable_distributionId_participantId_key" ON "DistributionPayable"("distributionId", "participantId");
+
+-- AddForeignKey
+ALTER TABLE "Distribution" ADD CONSTRAINT "Distribution_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DistributionPayable" ADD CONSTRAINT "DistributionPayable_distributionId_fkey" FOREIGN KEY ("distributionId") REFERENCES "Distribution"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DistributionPayable" ADD CONSTRAINT "DistributionPayable_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "PositionSnapshotTrigger" AS ENUM ('on_demand', 'scheduled', 'record_date');
+
+-- CreateTable
+CREATE TABLE "PositionSnapshot" (
+    "id" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "asOf" TIMESTAMP(3) NOT NULL,
+    "trigger" "PositionSnapshotTrigger" NOT NULL,
+    "reference" TEXT,
+    "takenBy" TEXT NOT NULL,
+    "totalUnits" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PositionSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PositionSnapshotLine" (
+    "id" TEXT NOT NULL,
+    "snapshotId" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "walletAddress" TEXT,
+    "units" INTEGER NOT NULL,
+
+    CONSTRAINT "PositionSnapshotLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PositionSnapshot_tokenAddress_asOf_idx" ON "PositionSnapshot"("tokenAddress", "asOf");
+
+-- CreateIndex
+CREATE INDEX "PositionSnapshotLine_participantId_idx" ON "PositionSnapshotLine"("participantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PositionSnapshotLine_snapshotId_participantId_key" ON "PositionSnapshotLine"("snapshotId", "participantId");
+
+-- AddForeignKey
+ALTER TABLE "PositionSnapshotLine" ADD CONSTRAINT "PositionSnapshotLine_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "PositionSnapshot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PositionSnapshotLine" ADD CONSTRAINT "PositionSnapshotLine_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
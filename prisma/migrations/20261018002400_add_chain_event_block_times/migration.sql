@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ChainEvent" ADD COLUMN "blockTimestamp" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ChainEvent_chainId_tokenAddress_blockTimestamp_idx" ON "ChainEvent"("chainId", "tokenAddress", "blockTimestamp");
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "TokenAdminActionStatus" AS ENUM ('pending', 'completed');
+
+-- AlterTable
+ALTER TABLE "TokenAdminAction" ADD COLUMN "status" "TokenAdminActionStatus" NOT NULL DEFAULT 'completed';
+
+-- CreateIndex
+CREATE INDEX "TokenAdminAction_tokenAddress_status_idx" ON "TokenAdminAction"("tokenAddress", "status");
@@ -7,7 +7,25 @@ async function main() {
 
   // Clear existing data (for development)
   console.log('Clearing existing data...');
+  await prisma.rfq.deleteMany();
+  await prisma.orderBookMatch.deleteMany();
+  await prisma.limitOrder.deleteMany();
   await prisma.trade.deleteMany();
+  await prisma.blockOrder.deleteMany();
+  await prisma.settlementCycle.deleteMany();
+  await prisma.chainEvent.deleteMany();
+  await prisma.indexerCheckpoint.deleteMany();
+  await prisma.tokenHolding.deleteMany();
+  await prisma.reconciliationBreak.deleteMany();
+  await prisma.reconciliationRun.deleteMany();
+  await prisma.tokenAdminAction.deleteMany();
+  await prisma.walletRecovery.deleteMany();
+  await prisma.redemption.deleteMany();
+  await prisma.primaryAllocation.deleteMany();
+  await prisma.interestAccrual.deleteMany();
+  await prisma.distribution.deleteMany();
+  await prisma.positionSnapshot.deleteMany();
+  await prisma.referenceRateFixing.deleteMany();
   await prisma.tokenBalance.deleteMany();
   await prisma.identityClaim.deleteMany();
   await prisma.participant.deleteMany();
@@ -20,6 +38,7 @@ async function main() {
   await prisma.document.deleteMany();
   await prisma.loan.deleteMany();
   await prisma.trustedIssuer.deleteMany();
+  await prisma.roleAssignment.deleteMany();
 
   // Create trusted issuers
   console.log('Creating trusted issuers...');
@@ -309,6 +328,7 @@ async function main() {
         tokenAddress: loan.tokenization!.tokenAddress!,
         balance: 40, // After selling 10
         frozenAmount: 0,
+        partitions: { create: { partition: 'PRIMARY', balance: 40 } },
       },
     }),
     prisma.tokenBalance.create({
@@ -317,6 +337,7 @@ async function main() {
         tokenAddress: loan.tokenization!.tokenAddress!,
         balance: 40, // After buying 10
         frozenAmount: 0,
+        partitions: { create: { partition: 'PRIMARY', balance: 40 } },
       },
     }),
     prisma.tokenBalance.create({
@@ -325,11 +346,34 @@ async function main() {
         tokenAddress: loan.tokenization!.tokenAddress!,
         balance: 20,
         frozenAmount: 0,
+        partitions: { create: { partition: 'PRIMARY', balance: 20 } },
       },
     }),
   ]);
   console.log('Created token balances');
 
+  // Internal cash ledger for the DvP cash leg (mock mode)
+  console.log('Creating cash accounts...');
+  await prisma.cashAccount.createMany({
+    data: participants.slice(0, 3).map((p) => ({
+      participantId: p.id,
+      balance: BigInt(10000000000), // $100M in cents
+    })),
+  });
+  console.log('Created cash accounts');
+
+  // Workflow roles for the demo wallets (sessions still require a SIWE signature)
+  console.log('Creating workflow role assignments...');
+  await prisma.roleAssignment.createMany({
+    data: [
+      { walletAddress: '0x1234567890abcdef1234567890abcdef12345678', role: 'trader', organization: 'Goldman Sachs Asset Management' },
+      { walletAddress: '0xabcdef0123456789abcdef0123456789abcdef01', role: 'trader', organization: 'BlackRock Fixed Income' },
+      { walletAddress: '0x9876543210fedcba9876543210fedcba98765432', role: 'checker', organization: 'Deutsche Bank Trading' },
+      { walletAddress: '0x1111222233334444555566667777888899990000', role: 'agent', organization: 'Facility Agent' },
+    ],
+  });
+  console.log('Created workflow role assignments');
+
   console.log('\nDatabase seeding complete!');
   console.log('Summary:');
   console.log(`  - ${issuers.length} Trusted Issuers`);
@@ -0,0 +1,69 @@
+const { ethers } = require("hardhat");
+const fs = require("fs");
+const path = require("path");
+
+/**
+ * Deploy the DvP cash leg (SettlementCash tokenised deposit)
+ *
+ * The settlement agent defaults to the deployer; set CASH_LEG_AGENT_ADDRESS
+ * to hand it to another key. Optionally funds demo wallets listed in
+ * CASH_FUND_WALLETS (comma-separated) with CASH_FUND_AMOUNT_USD each.
+ */
+
+async function main() {
+  console.log("\n============================================");
+  console.log("LMA Loan Tokenization - Cash Leg Deployment");
+  console.log("============================================\n");
+
+  const [deployer] = await ethers.getSigners();
+  const agent = process.env.CASH_LEG_AGENT_ADDRESS || deployer.address;
+  console.log("Deployer address:", deployer.address);
+  console.log("Settlement agent:", agent, "\n");
+
+  // ============ 1. Deploy SettlementCash ============
+  console.log("1. Deploying SettlementCash...");
+  const SettlementCash = await ethers.getContractFactory("SettlementCash");
+  const cash = await SettlementCash.deploy(agent);
+  await cash.waitForDeployment();
+  const cashAddress = await cash.getAddress();
+  console.log("   SettlementCash:", cashAddress);
+
+  // ============ 2. Fund demo wallets ============
+  const wallets = (process.env.CASH_FUND_WALLETS || "")
+    .split(",")
+    .map((w) => w.trim())
+    .filter(Boolean);
+  const amountCents = BigInt(Math.round(Number(process.env.CASH_FUND_AMOUNT_USD || "1000000") * 100));
+
+  if (wallets.length > 0) {
+    console.log("\n2. Funding demo wallets...");
+    for (const wallet of wallets) {
+      const tx = await cash.mint(wallet, amountCents);
+      await tx.wait();
+      console.log(`   ${wallet}: ${ethers.formatUnits(amountCents, 2)} sUSD`);
+    }
+  }
+
+  // ============ Save Deployment Info ============
+  const deploymentsPath = path.join(__dirname, "..", "deployments.json");
+  const deployments = fs.existsSync(deploymentsPath)
+    ? JSON.parse(fs.readFileSync(deploymentsPath, "utf8"))
+    : { contracts: {} };
+  deployments.contracts = { ...deployments.contracts, SettlementCash: cashAddress };
+  fs.writeFileSync(deploymentsPath, JSON.stringify(deployments, null, 2));
+  console.log("\nSaved SettlementCash address to deployments.json");
+
+  console.log("\nAdd these to your .env.local file:\n");
+  console.log("CASH_LEG_MODE=erc20");
+  console.log(`CASH_TOKEN_ADDRESS=${cashAddress}`);
+  console.log("CASH_LEG_RPC_URL=http://127.0.0.1:8545");
+  console.log("CASH_LEG_AGENT_PRIVATE_KEY=<private key of the settlement agent>");
+  console.log("");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Deployment failed:", error);
+    process.exit(1);
+  });
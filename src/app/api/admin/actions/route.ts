@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getTokenAdminActions } from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+
+// GET /api/admin/actions?tokenAddress=&wallet=&limit=
+// Audit log of issuer admin actions, newest first
+export async function GET(req: NextRequest) {
+  try {
+    assertRole(await requireActor(req), 'agent');
+    const { searchParams } = new URL(req.url);
+    const limit = Number(searchParams.get('limit') ?? 100);
+
+    const actions = await getTokenAdminActions({
+      tokenAddress: searchParams.get('tokenAddress') ?? undefined,
+      wallet: searchParams.get('wallet') ?? undefined,
+      limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, 500) : 100,
+    });
+    return NextResponse.json({ success: true, actions });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+
+import { TOKEN_PARTITIONS, type TokenAdminReasonCode, type TokenPartition } from '@/lib/types/loan';
+import { performTokenAdminAction, reasonError } from '@/lib/services/token-admin';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type ForcedTransferRequest = {
+  tokenAddress: string;
+  from: string;
+  to: string;
+  units: number;
+  partition?: TokenPartition;
+  reasonCode: TokenAdminReasonCode;
+  reason?: string;
+};
+
+// POST /api/admin/forced-transfer
+// Move units between holders without the sender's consent (controllerTransfer),
+// e.g. under a court order. Units reserved for open trades cannot be moved.
+async function forcedTransfer(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const body = (await req.json()) as Partial<ForcedTransferRequest>;
+
+    if (!body.tokenAddress || !body.from || !body.to) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: tokenAddress, from, to' },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(body.units) || body.units! <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'units must be a positive integer' },
+        { status: 400 }
+      );
+    }
+    if (body.from.toLowerCase() === body.to.toLowerCase()) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be different wallets' },
+        { status: 400 }
+      );
+    }
+    const partition = body.partition ?? 'PRIMARY';
+    if (!TOKEN_PARTITIONS.includes(partition)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid partition: ${partition}` },
+        { status: 400 }
+      );
+    }
+    const invalidReason = reasonError(body.reasonCode, body.reason);
+    if (invalidReason) {
+      return NextResponse.json({ success: false, error: invalidReason }, { status: 400 });
+    }
+
+    const action = await performTokenAdminAction({
+      tokenAddress: body.tokenAddress,
+      actor,
+      reasonCode: body.reasonCode!,
+      reason: body.reason,
+      request: {
+        action: 'forced_transfer',
+        wallet: body.from,
+        toWallet: body.to,
+        units: body.units!,
+        partition,
+      },
+    });
+
+    return NextResponse.json({ success: true, action }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => forcedTransfer(req));
+}
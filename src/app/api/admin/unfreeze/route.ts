@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+
+import type { TokenAdminReasonCode } from '@/lib/types/loan';
+import { performTokenAdminAction, reasonError } from '@/lib/services/token-admin';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type UnfreezeRequest = {
+  tokenAddress: string;
+  wallet: string;
+  units?: number;
+  reasonCode: TokenAdminReasonCode;
+  reason?: string;
+};
+
+// POST /api/admin/unfreeze
+// Lift an address freeze, or release `units` previously frozen with it.
+async function unfreeze(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const body = (await req.json()) as Partial<UnfreezeRequest>;
+
+    if (!body.tokenAddress || !body.wallet) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: tokenAddress, wallet' },
+        { status: 400 }
+      );
+    }
+    if (body.units !== undefined && (!Number.isInteger(body.units) || body.units <= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'units must be a positive integer' },
+        { status: 400 }
+      );
+    }
+    const invalidReason = reasonError(body.reasonCode, body.reason);
+    if (invalidReason) {
+      return NextResponse.json({ success: false, error: invalidReason }, { status: 400 });
+    }
+
+    const action = await performTokenAdminAction({
+      tokenAddress: body.tokenAddress,
+      actor,
+      reasonCode: body.reasonCode!,
+      reason: body.reason,
+      request:
+        body.units === undefined
+          ? { action: 'unfreeze_address', wallet: body.wallet }
+          : { action: 'unfreeze_tokens', wallet: body.wallet, units: body.units },
+    });
+
+    return NextResponse.json({ success: true, action }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => unfreeze(req));
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+
+import type { TokenAdminReasonCode } from '@/lib/types/loan';
+import { performTokenAdminAction, reasonError } from '@/lib/services/token-admin';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type UnpauseRequest = {
+  tokenAddress: string;
+  reasonCode: TokenAdminReasonCode;
+  reason?: string;
+};
+
+// POST /api/admin/unpause
+// Let transfers of a paused token resume.
+async function unpause(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const body = (await req.json()) as Partial<UnpauseRequest>;
+
+    if (!body.tokenAddress) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: tokenAddress' },
+        { status: 400 }
+      );
+    }
+    const invalidReason = reasonError(body.reasonCode, body.reason);
+    if (invalidReason) {
+      return NextResponse.json({ success: false, error: invalidReason }, { status: 400 });
+    }
+
+    const action = await performTokenAdminAction({
+      tokenAddress: body.tokenAddress,
+      actor,
+      reasonCode: body.reasonCode!,
+      reason: body.reason,
+      request: { action: 'unpause' },
+    });
+
+    return NextResponse.json({ success: true, action }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => unpause(req));
+}
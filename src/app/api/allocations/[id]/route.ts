@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getPrimaryAllocationById } from '@/lib/store/loans';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/allocations/[id]
+// An allocation with its per-lender lines and rounding residuals.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const allocation = await getPrimaryAllocationById(id);
+    if (!allocation) {
+      return NextResponse.json(
+        { success: false, error: 'Allocation not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, allocation });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
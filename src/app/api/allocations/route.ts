@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getPrimaryAllocations, getTokenizationForAllocation } from '@/lib/store/loans';
+import { allocatePrimaryUnits, planPrimaryAllocation } from '@/lib/services/primary-allocation';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type AllocateRequest = {
+  tokenAddress: string;
+  participants?: Record<string, string>; // lender position id -> participant id
+  dryRun?: boolean; // Return the plan without issuing anything
+};
+
+// GET /api/allocations?tokenAddress=
+export async function GET(req: NextRequest) {
+  try {
+    const tokenAddress = new URL(req.url).searchParams.get('tokenAddress') ?? undefined;
+    const allocations = await getPrimaryAllocations({ tokenAddress });
+    return NextResponse.json({ success: true, allocations });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST /api/allocations
+// Issue a minted token's units to the loan's lenders by their percentages
+// (agent only). With dryRun the plan, residuals and any eligibility issues
+// are returned instead. Retrying resumes an allocation that failed part-way.
+async function allocate(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const body = (await req.json()) as Partial<AllocateRequest>;
+
+    if (!body.tokenAddress) {
+      return NextResponse.json(
+        { success: false, error: 'Required: tokenAddress' },
+        { status: 400 }
+      );
+    }
+
+    const tokenization = await getTokenizationForAllocation(body.tokenAddress);
+    if (!tokenization) {
+      return NextResponse.json(
+        { success: false, error: 'Token not found' },
+        { status: 404 }
+      );
+    }
+    const unknownPosition = Object.keys(body.participants ?? {}).find(
+      (id) => !tokenization.lenders.some((l) => l.lenderPositionId === id)
+    );
+    if (unknownPosition) {
+      return NextResponse.json(
+        { success: false, error: `Lender position ${unknownPosition} is not on this loan` },
+        { status: 400 }
+      );
+    }
+
+    if (body.dryRun) {
+      const plan = await planPrimaryAllocation({
+        tokenAddress: body.tokenAddress,
+        participants: body.participants,
+      });
+      return NextResponse.json({ success: true, plan });
+    }
+
+    const allocation = await allocatePrimaryUnits({
+      tokenAddress: body.tokenAddress,
+      participants: body.participants,
+      actor,
+    });
+    return NextResponse.json({ success: true, allocation }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => allocate(req));
+}
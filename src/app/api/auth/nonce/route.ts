@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+
+import { issueNonce } from '@/lib/services/wallet-auth';
+
+type NonceRequest = {
+  wallet: string;
+};
+
+// POST /api/auth/nonce
+// Issue a single-use SIWE nonce for a wallet to sign.
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json()) as Partial<NonceRequest>;
+
+    if (!body.wallet) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: wallet' },
+        { status: 400 }
+      );
+    }
+
+    const { nonce, expiresAt } = await issueNonce(body.wallet);
+    return NextResponse.json({ success: true, nonce, expiresAt });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    const status = message.startsWith('Invalid') ? 400 : 500;
+    return NextResponse.json({ success: false, error: message }, { status });
+  }
+}
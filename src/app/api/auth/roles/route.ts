@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+
+import { prisma } from '@/lib/db/prisma';
+import type { TradeWorkflowRole } from '@/lib/types/loan';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { normalizeWallet } from '@/lib/services/wallet-auth';
+
+type RoleAssignmentRequest = {
+  wallet: string;
+  role: TradeWorkflowRole;
+  organization?: string;
+};
+
+function isWorkflowRole(value: unknown): value is TradeWorkflowRole {
+  return (
+    value === 'trader' || value === 'checker' || value === 'agent' || value === 'kyc_provider'
+  );
+}
+
+// GET /api/auth/roles
+// List role assignments (agent only).
+export async function GET(req: Request) {
+  try {
+    assertRole(await requireActor(req), 'agent');
+
+    const assignments = await prisma.roleAssignment.findMany({
+      orderBy: [{ walletAddress: 'asc' }, { role: 'asc' }],
+    });
+    return NextResponse.json({ success: true, assignments });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+// POST /api/auth/roles
+// Grant a workflow role to a wallet (agent only). `organization` groups
+// colleagues for four-eyes segregation.
+export async function POST(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const body = (await req.json()) as Partial<RoleAssignmentRequest>;
+
+    if (!body.wallet || !isAddress(body.wallet) || !isWorkflowRole(body.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Required: wallet (address), role (trader|checker|agent|kyc_provider)' },
+        { status: 400 }
+      );
+    }
+
+    const walletAddress = normalizeWallet(body.wallet);
+    const organization = body.organization?.trim() || null;
+    const assignment = await prisma.roleAssignment.upsert({
+      where: { walletAddress_role: { walletAddress, role: body.role } },
+      update: { organization },
+      create: { walletAddress, role: body.role, organization, grantedBy: actor.wallet },
+    });
+
+    return NextResponse.json({ success: true, assignment }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+// DELETE /api/auth/roles
+// Revoke a workflow role from a wallet (agent only).
+export async function DELETE(req: Request) {
+  try {
+    assertRole(await requireActor(req), 'agent');
+    const body = (await req.json()) as Partial<RoleAssignmentRequest>;
+
+    if (!body.wallet || !isWorkflowRole(body.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Required: wallet, role (trader|checker|agent|kyc_provider)' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.roleAssignment.deleteMany({
+      where: { walletAddress: normalizeWallet(body.wallet), role: body.role },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
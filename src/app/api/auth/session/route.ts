@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+
+import {
+  SESSION_COOKIE,
+  getSession,
+  getSessionToken,
+  revokeSession,
+} from '@/lib/services/wallet-auth';
+
+// GET /api/auth/session
+// Return the verified wallet and its workflow roles for the current session.
+export async function GET(req: Request) {
+  try {
+    const token = getSessionToken(req);
+    const session = token ? await getSession(token) : null;
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized: no active session' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ success: true, session });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// DELETE /api/auth/session
+// Sign out: revoke the session server-side and clear the cookie.
+export async function DELETE(req: Request) {
+  try {
+    const token = getSessionToken(req);
+    if (token) await revokeSession(token);
+
+    const res = NextResponse.json({ success: true });
+    res.cookies.delete(SESSION_COOKIE);
+    return res;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
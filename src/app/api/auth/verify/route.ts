@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+
+import { SESSION_COOKIE, verifySignedMessage } from '@/lib/services/wallet-auth';
+import { workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+
+type VerifyRequest = {
+  message: string;
+  signature: `0x${string}`;
+};
+
+// POST /api/auth/verify
+// Verify a signed SIWE message and open a server-side session (httpOnly cookie).
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json()) as Partial<VerifyRequest>;
+
+    if (!body.message || !body.signature) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: message, signature' },
+        { status: 400 }
+      );
+    }
+
+    const { token, session } = await verifySignedMessage({
+      message: body.message,
+      signature: body.signature,
+      domain: process.env.AUTH_DOMAIN || new URL(req.url).host,
+    });
+
+    const res = NextResponse.json({ success: true, session });
+    res.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      expires: session.expiresAt,
+    });
+    return res;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
@@ -1,12 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { TOKEN_PARTITIONS } from '@/lib/types/loan';
 import { prisma } from '@/lib/db/prisma';
+import { getPositionsAsOf } from '@/lib/store/loans';
 
-// GET /api/balances?tokenAddress=0x...
+// GET /api/balances?tokenAddress=0x...[&asOf=ISO]
+// Per holder, with the units held in each partition (PRIMARY / SECONDARY).
+// With asOf, the units each holder held at that time instead, replayed from
+// the indexed chain events or worked back from the platform's records (see
+// getPositionsAsOf); partitions and holds are not kept historically.
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const tokenAddress = searchParams.get('tokenAddress');
+    const asOfParam = searchParams.get('asOf');
 
     if (!tokenAddress) {
       return NextResponse.json(
@@ -15,6 +22,26 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    if (asOfParam) {
+      const asOf = new Date(asOfParam);
+      if (Number.isNaN(asOf.getTime()) || asOf.getTime() > Date.now()) {
+        return NextResponse.json(
+          { error: 'asOf must be an ISO date that is not in the future' },
+          { status: 400 }
+        );
+      }
+
+      const positions = await getPositionsAsOf(tokenAddress, asOf);
+      return NextResponse.json(
+        positions.map((p) => ({
+          participant: { id: p.participantId, name: p.participantName, walletAddress: p.walletAddress ?? null },
+          tokenAddress,
+          balance: p.units,
+          asOf,
+        }))
+      );
+    }
+
     const balances = await prisma.tokenBalance.findMany({
       where: { tokenAddress },
       include: {
@@ -28,6 +55,7 @@ export async function GET(req: NextRequest) {
             accreditedInvestor: true,
           },
         },
+        partitions: { select: { partition: true, balance: true } },
       },
       orderBy: [{ balance: 'desc' }],
     });
@@ -38,7 +66,14 @@ export async function GET(req: NextRequest) {
         tokenAddress: b.tokenAddress,
         balance: b.balance,
         frozenAmount: b.frozenAmount,
-        available: Math.max(0, b.balance - b.frozenAmount),
+        reservedAmount: b.reservedAmount,
+        available: Math.max(0, b.balance - b.frozenAmount - b.reservedAmount),
+        partitions: Object.fromEntries(
+          TOKEN_PARTITIONS.map((partition) => [
+            partition,
+            b.partitions.find((p) => p.partition === partition)?.balance ?? 0,
+          ])
+        ),
         updatedAt: b.updatedAt,
       }))
     );
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+
+import { adjustCashAccount, getCashAccounts, getParticipantByWallet } from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { getCashLegMode } from '@/lib/services/cash-leg';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type FundCashAccountRequest = {
+  participant: string; // Wallet
+  amount: number; // USD; negative withdraws
+};
+
+// GET /api/cash/accounts
+// Internal cash ledger balances (mock-mode DvP cash leg).
+export async function GET() {
+  try {
+    const accounts = await getCashAccounts();
+    return NextResponse.json({ success: true, mode: getCashLegMode(), accounts });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST /api/cash/accounts
+// Agent deposits to / withdraws from a participant's internal cash account.
+async function fundCashAccount(req: Request) {
+  try {
+    assertRole(await requireActor(req), 'agent');
+
+    if (getCashLegMode() !== 'internal') {
+      return NextResponse.json(
+        { success: false, error: 'Cash accounts are funded on-chain when CASH_LEG_MODE=erc20' },
+        { status: 409 }
+      );
+    }
+
+    const body = (await req.json()) as Partial<FundCashAccountRequest>;
+    if (!body.participant || typeof body.amount !== 'number' || !Number.isFinite(body.amount)) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: participant, amount' },
+        { status: 400 }
+      );
+    }
+
+    const participant = await getParticipantByWallet(body.participant);
+    if (!participant) {
+      return NextResponse.json(
+        { success: false, error: 'Participant is not registered' },
+        { status: 404 }
+      );
+    }
+
+    await adjustCashAccount(participant.id, body.amount);
+
+    return NextResponse.json({ success: true, accounts: await getCashAccounts() });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => fundCashAccount(req));
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getDistributionById } from '@/lib/store/loans';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/distributions/[id]
+// A distribution with its per-holder payables.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const distribution = await getDistributionById(id);
+    if (!distribution) {
+      return NextResponse.json(
+        { success: false, error: 'Distribution not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, distribution });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
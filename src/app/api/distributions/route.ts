@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import type { DistributionStatus, DistributionType } from '@/lib/types/loan';
+import { getDistributions, getTokenForDistribution } from '@/lib/store/loans';
+import { distributePayment } from '@/lib/services/distribution';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type DistributeRequest = {
+  nelId: string;
+  type: DistributionType;
+  amount: number; // USD paid by the borrower
+  recordDate?: string; // ISO; defaults to now
+  paymentDate?: string; // ISO; defaults to the record date
+};
+
+// GET /api/distributions?nelId=&tokenAddress=&status=
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const distributions = await getDistributions({
+      nelId: searchParams.get('nelId') ?? undefined,
+      tokenAddress: searchParams.get('tokenAddress') ?? undefined,
+      status: (searchParams.get('status') as DistributionStatus | null) ?? undefined,
+    });
+    return NextResponse.json({ success: true, distributions });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST /api/distributions
+// Pass a borrower payment through to the token holders (agent only). Holders
+// are those of record at the record date (which may be in the past) and are
+// paid at the payment date; dates already reached are acted on straight away.
+async function distribute(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const body = (await req.json()) as Partial<DistributeRequest>;
+
+    if (!body.nelId || (body.type !== 'interest' && body.type !== 'principal')) {
+      return NextResponse.json(
+        { success: false, error: 'Required: nelId, type (interest|principal), amount' },
+        { status: 400 }
+      );
+    }
+    if (!(typeof body.amount === 'number' && Number.isFinite(body.amount) && body.amount > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const recordDate = body.recordDate ? new Date(body.recordDate) : undefined;
+    const paymentDate = body.paymentDate ? new Date(body.paymentDate) : undefined;
+    if ([recordDate, paymentDate].some((d) => d && Number.isNaN(d.getTime()))) {
+      return NextResponse.json(
+        { success: false, error: 'recordDate and paymentDate must be ISO dates' },
+        { status: 400 }
+      );
+    }
+    if (paymentDate && paymentDate < (recordDate ?? new Date())) {
+      return NextResponse.json(
+        { success: false, error: 'paymentDate cannot be before the record date' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getTokenForDistribution(body.nelId))) {
+      return NextResponse.json(
+        { success: false, error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const distribution = await distributePayment({
+      nelId: body.nelId,
+      type: body.type,
+      amount: body.amount,
+      recordDate,
+      paymentDate,
+      actor,
+    });
+    return NextResponse.json({ success: true, distribution }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => distribute(req));
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+
+import { upsertReferenceRateFixings } from '@/lib/store/loans';
+import { parseFixingsCsv } from '@/lib/services/rate-reset';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+// POST /api/fixings/import
+// Load fixings from a CSV body (agent only):
+//   rate_name,fixing_date,rate_percent
+//   SOFR,2026-10-15,4.31
+// Existing fixings for the same rate and date are overwritten. Nothing is
+// imported if any row is malformed.
+async function importFixings(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const { fixings, errors } = parseFixingsCsv(await req.text());
+
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: 'Malformed CSV', errors }, { status: 400 });
+    }
+    if (fixings.length === 0) {
+      return NextResponse.json({ success: false, error: 'No fixings in CSV' }, { status: 400 });
+    }
+
+    const imported = await upsertReferenceRateFixings({
+      fixings,
+      source: 'csv',
+      updatedBy: actor.wallet,
+    });
+    return NextResponse.json({ success: true, imported });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => importFixings(req));
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  deleteReferenceRateFixing,
+  getReferenceRateFixings,
+  upsertReferenceRateFixings,
+} from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type FixingRequest = {
+  rateName: string;
+  fixingDate: string; // YYYY-MM-DD
+  rateBps: number;
+};
+
+function parseDay(value: string | null | undefined): Date | undefined {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// GET /api/fixings?rateName=&from=&to=
+export async function GET(req: NextRequest) {
+  try {
+    const searchParams = new URL(req.url).searchParams;
+    const fixings = await getReferenceRateFixings({
+      rateName: searchParams.get('rateName')?.toUpperCase() || undefined,
+      from: parseDay(searchParams.get('from')),
+      to: parseDay(searchParams.get('to')),
+    });
+    return NextResponse.json({ success: true, fixings });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// PUT /api/fixings
+// Add or correct one fixing (agent only). Periods already reset keep their rate.
+async function putFixing(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const body = (await req.json()) as Partial<FixingRequest>;
+
+    const fixingDate = parseDay(body.fixingDate);
+    if (!body.rateName?.trim() || !fixingDate || !Number.isFinite(body.rateBps)) {
+      return NextResponse.json(
+        { success: false, error: 'Required: rateName, fixingDate (YYYY-MM-DD), rateBps' },
+        { status: 400 }
+      );
+    }
+
+    await upsertReferenceRateFixings({
+      fixings: [{ rateName: body.rateName.trim().toUpperCase(), fixingDate, rateBps: body.rateBps! }],
+      source: 'api',
+      updatedBy: actor.wallet,
+    });
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function PUT(req: Request) {
+  return withIdempotency(req, () => putFixing(req));
+}
+
+// DELETE /api/fixings?rateName=&fixingDate=
+export async function DELETE(req: NextRequest) {
+  try {
+    assertRole(await requireActor(req), 'agent');
+    const searchParams = new URL(req.url).searchParams;
+    const rateName = searchParams.get('rateName')?.toUpperCase();
+    const fixingDate = parseDay(searchParams.get('fixingDate'));
+    if (!rateName || !fixingDate) {
+      return NextResponse.json(
+        { success: false, error: 'Required: rateName, fixingDate (YYYY-MM-DD)' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await deleteReferenceRateFixing(rateName, fixingDate))) {
+      return NextResponse.json(
+        { success: false, error: 'Fixing not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
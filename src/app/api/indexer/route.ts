@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+
+import { getIndexerCheckpoints } from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { isIndexerConfigured, runChainIndexer } from '@/lib/services/chain-indexer';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+// GET /api/indexer
+// Per-token checkpoints: the last block whose events are reflected in balances.
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      configured: isIndexerConfigured(),
+      checkpoints: await getIndexerCheckpoints(),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST /api/indexer
+// Agent runs an indexing pass now (the scheduler also runs it periodically).
+async function runIndexer(req: Request) {
+  try {
+    assertRole(await requireActor(req), 'agent');
+
+    if (!isIndexerConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Chain indexer is not configured (INDEXER_RPC_URL)' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, summary: await runChainIndexer() });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => runIndexer(req));
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAccruedInterest, getInterestAccruals, getLoan } from '@/lib/store/loans';
+import { accrueInterest } from '@/lib/services/interest-accrual';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/loans/[nelId]/accruals?from=&to= - Accrued-to-date (per loan and
+// per token holder) and the daily accrual history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ nelId: string }> }
+) {
+  try {
+    const { nelId } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const from = parseDate(searchParams.get('from'));
+    const to = parseDate(searchParams.get('to'));
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be ISO dates' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getLoan(nelId))) {
+      return NextResponse.json(
+        { success: false, error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const [accrued, accruals] = await Promise.all([
+      getAccruedInterest(nelId),
+      getInterestAccruals(nelId, { from, to }),
+    ]);
+    return NextResponse.json({ success: true, accrued, accruals });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST /api/loans/[nelId]/accruals - Agent brings the loan's accrual up to
+// yesterday without waiting for the scheduler
+async function accrue(request: Request, nelId: string) {
+  try {
+    assertRole(await requireActor(request), 'agent');
+
+    if (!(await getLoan(nelId))) {
+      return NextResponse.json(
+        { success: false, error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const days = await accrueInterest({ nelId });
+    const accrued = await getAccruedInterest(nelId);
+    return NextResponse.json({ success: true, days, accrued });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ nelId: string }> }
+) {
+  const { nelId } = await params;
+  return withIdempotency(request, () => accrue(request, nelId));
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFloatingRateTerms, getLoan, getRateResets, upsertFloatingRateTerms } from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { defaultFloatingRateTerms } from '@/lib/services/rate-reset';
+import type { FloatingRateTerms } from '@/lib/types/loan';
+
+// GET /api/loans/[nelId]/rates - Floating-rate reset terms and the loan's rate history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ nelId: string }> }
+) {
+  try {
+    const { nelId } = await params;
+    const loan = await getLoan(nelId);
+
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const { interestType, referenceRate, spread } = loan.terms;
+    const floating = interestType === 'floating' && !!referenceRate;
+    const terms = floating
+      ? (await getFloatingRateTerms(nelId)) ?? defaultFloatingRateTerms(referenceRate!)
+      : undefined;
+    const resets = await getRateResets(nelId);
+    return NextResponse.json({
+      success: true,
+      floating,
+      referenceRate,
+      spreadBps: spread,
+      currentRateBps: loan.terms.interestRateBps,
+      terms,
+      resets,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// PUT /api/loans/[nelId]/rates - Agent sets how a floating-rate loan resets;
+// periods already reset keep their rate
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ nelId: string }> }
+) {
+  try {
+    const actor = assertRole(await requireActor(request), 'agent');
+    const { nelId } = await params;
+    const body = (await request.json()) as Partial<FloatingRateTerms> & { floorBps?: number | null };
+
+    const loan = await getLoan(nelId);
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+    if (loan.terms.interestType !== 'floating' || !loan.terms.referenceRate) {
+      return NextResponse.json(
+        { success: false, error: 'Loan does not have a floating rate' },
+        { status: 409 }
+      );
+    }
+
+    const current = (await getFloatingRateTerms(nelId)) ?? defaultFloatingRateTerms(loan.terms.referenceRate);
+    const terms: FloatingRateTerms = {
+      method: body.method ?? current.method,
+      resetFrequencyMonths: body.resetFrequencyMonths ?? current.resetFrequencyMonths,
+      floorBps: body.floorBps === null ? undefined : body.floorBps ?? current.floorBps,
+      lookbackDays: body.lookbackDays ?? current.lookbackDays,
+      observationShift: body.observationShift ?? current.observationShift,
+    };
+
+    if (terms.method !== 'term' && terms.method !== 'compounded') {
+      return NextResponse.json(
+        { success: false, error: 'method must be term or compounded' },
+        { status: 400 }
+      );
+    }
+
+    if (![1, 3, 6, 12].includes(terms.resetFrequencyMonths)) {
+      return NextResponse.json(
+        { success: false, error: 'resetFrequencyMonths must be 1, 3, 6 or 12' },
+        { status: 400 }
+      );
+    }
+
+    if (!(Number.isInteger(terms.lookbackDays) && terms.lookbackDays >= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'lookbackDays must be a non-negative whole number' },
+        { status: 400 }
+      );
+    }
+
+    if (terms.floorBps !== undefined && !Number.isInteger(terms.floorBps)) {
+      return NextResponse.json(
+        { success: false, error: 'floorBps must be whole basis points' },
+        { status: 400 }
+      );
+    }
+
+    if (terms.observationShift && terms.method !== 'compounded') {
+      return NextResponse.json(
+        { success: false, error: 'observationShift applies to compounded rates only' },
+        { status: 400 }
+      );
+    }
+
+    await upsertFloatingRateTerms(nelId, terms, actor.wallet);
+    return NextResponse.json({ success: true, terms });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
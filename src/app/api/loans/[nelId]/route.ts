@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getLoan, updateLoan } from '@/lib/store/loans';
+import { getLoan, getPaymentSchedule, updateLoan } from '@/lib/store/loans';
 import type { DigitalCreditInstrument } from '@/lib/types/loan';
 
-// GET /api/loans/[nelId] - Get a single loan by NEL ID
+// GET /api/loans/[nelId] - Get a single loan by NEL ID, with its payment schedule
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ nelId: string }> }
@@ -18,7 +18,8 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(loan);
+    const paymentSchedule = await getPaymentSchedule(nelId);
+    return NextResponse.json({ ...loan, paymentSchedule: paymentSchedule ?? null });
   } catch (error) {
     console.error('[API] Error fetching loan:', error);
     return NextResponse.json(
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLoan, getPaymentSchedule } from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { listHolidayCalendars } from '@/lib/services/business-days';
+import { generatePaymentSchedule } from '@/lib/services/payment-schedule';
+import {
+  BUSINESS_DAY_CONVENTIONS,
+  PAYMENT_FREQUENCIES,
+  type BusinessDayConvention,
+  type PaymentFrequency,
+} from '@/lib/types/loan';
+
+// GET /api/loans/[nelId]/schedule - Interest periods and payment dates
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ nelId: string }> }
+) {
+  try {
+    const { nelId } = await params;
+    const loan = await getLoan(nelId);
+
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const schedule = await getPaymentSchedule(nelId);
+    return NextResponse.json({ success: true, schedule: schedule ?? null });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// PUT /api/loans/[nelId]/schedule - Agent regenerates the schedule; settings
+// left out keep their current value
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ nelId: string }> }
+) {
+  try {
+    const actor = assertRole(await requireActor(request), 'agent');
+    const { nelId } = await params;
+    const body = (await request.json()) as {
+      frequency?: PaymentFrequency;
+      businessDayConvention?: BusinessDayConvention;
+      calendar?: string;
+    };
+
+    const loan = await getLoan(nelId);
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const current = await getPaymentSchedule(nelId);
+    const frequency = body.frequency ?? current?.frequency;
+    const businessDayConvention = body.businessDayConvention ?? current?.businessDayConvention;
+    const calendar = (body.calendar ?? current?.calendar ?? loan.terms.currency).toUpperCase();
+
+    if (frequency !== undefined && !PAYMENT_FREQUENCIES.includes(frequency)) {
+      return NextResponse.json(
+        { success: false, error: `frequency must be one of ${PAYMENT_FREQUENCIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (businessDayConvention !== undefined && !BUSINESS_DAY_CONVENTIONS.includes(businessDayConvention)) {
+      return NextResponse.json(
+        { success: false, error: `businessDayConvention must be one of ${BUSINESS_DAY_CONVENTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const calendars = listHolidayCalendars();
+    if (!calendars.includes(calendar)) {
+      return NextResponse.json(
+        { success: false, error: `No holiday calendar for ${calendar}; available: ${calendars.join(', ') || 'none'}` },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await generatePaymentSchedule({ nelId, frequency, businessDayConvention, calendar, actor });
+    return NextResponse.json({ success: true, schedule });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLoan, upsertTradeWorkflowPolicy } from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { getApprovalPolicy } from '@/lib/services/trade-workflow-policy';
+import type { TradeApprovalPolicy } from '@/lib/types/loan';
+
+// GET /api/loans/[nelId]/workflow-policy - Four-eyes approval policy for a loan
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ nelId: string }> }
+) {
+  try {
+    const { nelId } = await params;
+    const loan = await getLoan(nelId);
+
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const policy = await getApprovalPolicy(nelId);
+    return NextResponse.json({ success: true, policy });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// PUT /api/loans/[nelId]/workflow-policy - Agent configures the approval policy
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ nelId: string }> }
+) {
+  try {
+    const actor = assertRole(await requireActor(request), 'agent');
+    const { nelId } = await params;
+    const body = (await request.json()) as Partial<TradeApprovalPolicy>;
+
+    const loan = await getLoan(nelId);
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const current = await getApprovalPolicy(nelId);
+    const policy: TradeApprovalPolicy = {
+      requiredApprovals: body.requiredApprovals ?? current.requiredApprovals,
+      notionalThreshold: body.notionalThreshold === null
+        ? undefined
+        : body.notionalThreshold ?? current.notionalThreshold,
+      approvalsAboveThreshold: body.approvalsAboveThreshold ?? current.approvalsAboveThreshold,
+      segregateOrganizations: body.segregateOrganizations ?? current.segregateOrganizations,
+      proposedTtlMinutes: body.proposedTtlMinutes === null
+        ? undefined
+        : body.proposedTtlMinutes ?? current.proposedTtlMinutes,
+      approvedTtlMinutes: body.approvedTtlMinutes === null
+        ? undefined
+        : body.approvedTtlMinutes ?? current.approvedTtlMinutes,
+    };
+
+    if (
+      !Number.isInteger(policy.requiredApprovals) ||
+      policy.requiredApprovals < 1 ||
+      !Number.isInteger(policy.approvalsAboveThreshold) ||
+      policy.approvalsAboveThreshold < 1
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Approval counts must be positive integers' },
+        { status: 400 }
+      );
+    }
+
+    if (policy.notionalThreshold !== undefined && !(policy.notionalThreshold >= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'notionalThreshold must be a non-negative amount' },
+        { status: 400 }
+      );
+    }
+
+    const ttls = [policy.proposedTtlMinutes, policy.approvedTtlMinutes];
+    if (ttls.some((m) => m !== undefined && !(Number.isInteger(m) && m > 0))) {
+      return NextResponse.json(
+        { success: false, error: 'TTLs must be positive whole minutes' },
+        { status: 400 }
+      );
+    }
+
+    await upsertTradeWorkflowPolicy(nelId, policy, actor.wallet);
+    return NextResponse.json({ success: true, policy });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
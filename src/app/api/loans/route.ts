@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAllLoans, addLoan, getPortfolioSummary } from '@/lib/store/loans';
 import type { DigitalCreditInstrument } from '@/lib/types/loan';
+import { generatePaymentSchedule } from '@/lib/services/payment-schedule';
 import { logger } from '@/lib/utils/logger';
 
 // GET /api/loans - Get all loans
@@ -49,6 +50,16 @@ export async function POST(request: NextRequest) {
 
     logger.api.info('Loan created', { nelId: body.nelId });
 
+    // A loan without a schedule can be given one later through /schedule
+    try {
+      await generatePaymentSchedule({ nelId: body.nelId });
+    } catch (err) {
+      logger.api.warn('Payment schedule not generated', {
+        nelId: body.nelId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
     return NextResponse.json(
       { success: true, nelId: body.nelId },
       { status: 201 }
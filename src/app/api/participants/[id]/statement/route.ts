@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getHolderStatement } from '@/lib/store/loans';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/participants/[id]/statement?from=&to=
+// The holder's token positions and the distributions paid or owed to them,
+// by payment date.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(req.url).searchParams;
+    const from = parseDate(searchParams.get('from'));
+    const to = parseDate(searchParams.get('to'));
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be ISO dates' },
+        { status: 400 }
+      );
+    }
+
+    const statement = await getHolderStatement(id, { from, to });
+    if (!statement) {
+      return NextResponse.json(
+        { success: false, error: 'Participant not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, statement });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
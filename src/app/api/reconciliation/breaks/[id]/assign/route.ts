@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+
+import { assignReconciliationBreak, getReconciliationBreakById } from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type AssignBreakRequest = {
+  // Wallet to assign to; defaults to the caller
+  assignee?: string;
+  version?: number;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/reconciliation/breaks/[id]/assign
+// Agent takes (or hands over) an unresolved break for investigation.
+async function assignBreak(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const { id } = await params;
+
+    const body = (await req.json().catch(() => ({}))) as Partial<AssignBreakRequest>;
+
+    const found = await getReconciliationBreakById(id);
+    if (!found) {
+      return NextResponse.json(
+        { success: false, error: 'Break not found' },
+        { status: 404 }
+      );
+    }
+
+    await assignReconciliationBreak({
+      id,
+      assignee: body.assignee ?? actor.wallet,
+      expectedVersion: body.version ?? found.version,
+    });
+
+    return NextResponse.json({ success: true, break: await getReconciliationBreakById(id) });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => assignBreak(req, ctx));
+}
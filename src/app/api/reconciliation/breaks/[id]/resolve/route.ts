@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+
+import { getReconciliationBreakById, resolveReconciliationBreak } from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type ResolveBreakRequest = {
+  resolution: string;
+  version?: number;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/reconciliation/breaks/[id]/resolve
+// Close a break with a note on what was done. Once assigned, only the
+// assignee can resolve it. A break that persists is reopened by the next run.
+async function resolveBreak(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const { id } = await params;
+
+    const body = (await req.json()) as Partial<ResolveBreakRequest>;
+    if (!body.resolution?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: resolution' },
+        { status: 400 }
+      );
+    }
+
+    const found = await getReconciliationBreakById(id);
+    if (!found) {
+      return NextResponse.json(
+        { success: false, error: 'Break not found' },
+        { status: 404 }
+      );
+    }
+
+    if (found.assignedTo && found.assignedTo.toLowerCase() !== actor.wallet.toLowerCase()) {
+      throw new Error('Forbidden: break is assigned to another agent');
+    }
+
+    await resolveReconciliationBreak({
+      id,
+      resolvedBy: actor.wallet,
+      resolution: body.resolution.trim(),
+      expectedVersion: body.version ?? found.version,
+    });
+
+    return NextResponse.json({ success: true, break: await getReconciliationBreakById(id) });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => resolveBreak(req, ctx));
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import type { ReconciliationBreakStatus } from '@/lib/types/loan';
+import { getReconciliationBreaks } from '@/lib/store/loans';
+
+const STATUSES: ReconciliationBreakStatus[] = ['open', 'assigned', 'resolved'];
+
+// GET /api/reconciliation/breaks?status=&tokenAddress=&assignedTo=
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status') ?? undefined;
+
+    if (status && !STATUSES.includes(status as ReconciliationBreakStatus)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const breaks = await getReconciliationBreaks({
+      status: status as ReconciliationBreakStatus | undefined,
+      tokenAddress: searchParams.get('tokenAddress') ?? undefined,
+      assignedTo: searchParams.get('assignedTo') ?? undefined,
+    });
+    return NextResponse.json({ success: true, breaks });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
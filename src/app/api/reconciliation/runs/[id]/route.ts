@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getReconciliationRunById } from '@/lib/store/loans';
+
+// GET /api/reconciliation/runs/[id]
+// A run and the breaks it found, including ones carried over from earlier runs.
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await getReconciliationRunById(id);
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Reconciliation run not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
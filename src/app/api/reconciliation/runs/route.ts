@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+
+import { getReconciliationRuns } from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { isIndexerConfigured } from '@/lib/services/chain-indexer';
+import { runReconciliation } from '@/lib/services/reconciliation';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+// GET /api/reconciliation/runs
+// Run history, newest first.
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, runs: await getReconciliationRuns() });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST /api/reconciliation/runs
+// Agent reconciles the ledger against the chain now (the scheduler also runs it).
+async function startRun(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+
+    if (!isIndexerConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Reconciliation needs the chain indexer (INDEXER_RPC_URL)' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, run: await runReconciliation(actor.wallet) },
+      { status: 201 }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => startRun(req));
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+
+import { getWalletRecoveryById } from '@/lib/store/loans';
+import { approveWalletRecovery, RECOVERY_REQUIRED_APPROVALS } from '@/lib/services/wallet-recovery';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type ApproveRecoveryRequest = {
+  version?: number;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/recoveries/[id]/approve
+// One of the RECOVERY_REQUIRED_APPROVALS agent sign-offs on a verified recovery.
+async function approveRecovery(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const { id } = await params;
+    const body = (await req.json().catch(() => ({}))) as Partial<ApproveRecoveryRequest>;
+
+    const recovery = await getWalletRecoveryById(id);
+    if (!recovery) {
+      return NextResponse.json(
+        { success: false, error: 'Recovery not found' },
+        { status: 404 }
+      );
+    }
+
+    const approved = await approveWalletRecovery({
+      recovery,
+      actor,
+      expectedVersion: body.version ?? recovery.version,
+    });
+    return NextResponse.json({
+      success: true,
+      recovery: approved,
+      approvalsRemaining: Math.max(0, RECOVERY_REQUIRED_APPROVALS - approved.approvals.length),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => approveRecovery(req, ctx));
+}
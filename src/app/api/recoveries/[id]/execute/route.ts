@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+
+import { getWalletRecoveryById } from '@/lib/store/loans';
+import { executeWalletRecovery } from '@/lib/services/wallet-recovery';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type ExecuteRecoveryRequest = {
+  version?: number;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/recoveries/[id]/execute
+// Move the holdings of an approved recovery to the new wallet (recoveryAddress
+// per token) and switch the participant over. `openTrades` counts the
+// proposed/approved trades that now settle against the new wallet.
+async function executeRecovery(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const { id } = await params;
+    const body = (await req.json().catch(() => ({}))) as Partial<ExecuteRecoveryRequest>;
+
+    const recovery = await getWalletRecoveryById(id);
+    if (!recovery) {
+      return NextResponse.json(
+        { success: false, error: 'Recovery not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await executeWalletRecovery({
+      recovery,
+      actor,
+      expectedVersion: body.version ?? recovery.version,
+    });
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => executeRecovery(req, ctx));
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+
+import { getWalletRecoveryById } from '@/lib/store/loans';
+import { rejectWalletRecovery } from '@/lib/services/wallet-recovery';
+import { assertAnyRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type RejectRecoveryRequest = {
+  reason: string;
+  version?: number;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/recoveries/[id]/reject
+// Turn down a recovery that has not been executed, e.g. when the identity
+// check fails. The investor has to file a new request.
+async function rejectRecovery(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertAnyRole(await requireActor(req), ['agent', 'kyc_provider']);
+    const { id } = await params;
+    const body = (await req.json()) as Partial<RejectRecoveryRequest>;
+
+    if (!body.reason?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: reason' },
+        { status: 400 }
+      );
+    }
+
+    const recovery = await getWalletRecoveryById(id);
+    if (!recovery) {
+      return NextResponse.json(
+        { success: false, error: 'Recovery not found' },
+        { status: 404 }
+      );
+    }
+
+    const rejected = await rejectWalletRecovery({
+      recovery,
+      actor,
+      expectedVersion: body.version ?? recovery.version,
+      reason: body.reason.trim(),
+    });
+    return NextResponse.json({ success: true, recovery: rejected });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => rejectRecovery(req, ctx));
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+
+import { getWalletRecoveryById } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/recoveries/[id]
+// Visible to agents, KYC providers and the wallet that filed it.
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const actor = await requireActor(req);
+    const { id } = await params;
+
+    const recovery = await getWalletRecoveryById(id);
+    if (!recovery) {
+      return NextResponse.json(
+        { success: false, error: 'Recovery not found' },
+        { status: 404 }
+      );
+    }
+
+    const isStaff = actor.roles.includes('agent') || actor.roles.includes('kyc_provider');
+    if (!isStaff && recovery.requestedBy.toLowerCase() !== actor.wallet.toLowerCase()) {
+      throw new Error('Forbidden: not your recovery request');
+    }
+
+    return NextResponse.json({ success: true, recovery });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
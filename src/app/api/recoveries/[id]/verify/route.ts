@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+
+import { getWalletRecoveryById } from '@/lib/store/loans';
+import { verifyWalletRecovery } from '@/lib/services/wallet-recovery';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type VerifyRecoveryRequest = {
+  verificationRef?: string;
+  version?: number;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/recoveries/[id]/verify
+// KYC provider confirms, after re-verifying the investor, that the new wallet
+// belongs to the same identity. `verificationRef` points at their case file.
+async function verifyRecovery(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertRole(await requireActor(req), 'kyc_provider');
+    const { id } = await params;
+    const body = (await req.json().catch(() => ({}))) as Partial<VerifyRecoveryRequest>;
+
+    const recovery = await getWalletRecoveryById(id);
+    if (!recovery) {
+      return NextResponse.json(
+        { success: false, error: 'Recovery not found' },
+        { status: 404 }
+      );
+    }
+
+    const verified = await verifyWalletRecovery({
+      recovery,
+      actor,
+      expectedVersion: body.version ?? recovery.version,
+      verificationRef: body.verificationRef?.trim() || undefined,
+    });
+    return NextResponse.json({ success: true, recovery: verified });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => verifyRecovery(req, ctx));
+}
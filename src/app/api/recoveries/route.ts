@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+
+import type { WalletRecoveryStatus } from '@/lib/types/loan';
+import { getWalletRecoveries } from '@/lib/store/loans';
+import { fileWalletRecovery } from '@/lib/services/wallet-recovery';
+import { assertAnyRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+const STATUSES: WalletRecoveryStatus[] = ['requested', 'identity_verified', 'approved', 'executed', 'rejected'];
+
+type FileRecoveryRequest = {
+  lostWallet: string;
+  statement: string;
+};
+
+// GET /api/recoveries?status=
+// Recovery requests for agents and KYC providers to work through.
+export async function GET(req: Request) {
+  try {
+    assertAnyRole(await requireActor(req), ['agent', 'kyc_provider']);
+    const status = new URL(req.url).searchParams.get('status') ?? undefined;
+
+    if (status && !STATUSES.includes(status as WalletRecoveryStatus)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const recoveries = await getWalletRecoveries({ status: status as WalletRecoveryStatus | undefined });
+    return NextResponse.json({ success: true, recoveries });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+// POST /api/recoveries
+// An investor who lost their wallet signs in with the replacement wallet and
+// asks for the lost wallet's holdings to be moved to it.
+async function fileRecovery(req: Request) {
+  try {
+    const actor = await requireActor(req);
+    const body = (await req.json()) as Partial<FileRecoveryRequest>;
+
+    if (!body.lostWallet || !isAddress(body.lostWallet) || !body.statement?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Required: lostWallet (address), statement' },
+        { status: 400 }
+      );
+    }
+    if (body.lostWallet.toLowerCase() === actor.wallet.toLowerCase()) {
+      return NextResponse.json(
+        { success: false, error: 'Sign in with the new wallet, not the lost one' },
+        { status: 400 }
+      );
+    }
+
+    const recovery = await fileWalletRecovery({
+      actor,
+      lostWallet: body.lostWallet,
+      statement: body.statement.trim(),
+    });
+    return NextResponse.json({ success: true, recovery }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => fileRecovery(req));
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getRedemptionById } from '@/lib/store/loans';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/redemptions/[id]
+// A redemption with its per-holder payouts.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const redemption = await getRedemptionById(id);
+    if (!redemption) {
+      return NextResponse.json(
+        { success: false, error: 'Redemption not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, redemption });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
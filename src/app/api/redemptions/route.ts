@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import type { RedemptionTrigger } from '@/lib/types/loan';
+import { getRedemptions, getTokenizationForRedemption } from '@/lib/store/loans';
+import { redeemToken } from '@/lib/services/redemption';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type RedeemRequest = {
+  tokenAddress: string;
+  trigger: RedemptionTrigger;
+  amount?: number; // USD; defaults to the face value of the units outstanding
+};
+
+// GET /api/redemptions?tokenAddress=
+export async function GET(req: NextRequest) {
+  try {
+    const tokenAddress = new URL(req.url).searchParams.get('tokenAddress') ?? undefined;
+    const redemptions = await getRedemptions({ tokenAddress });
+    return NextResponse.json({ success: true, redemptions });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST /api/redemptions
+// Pay off a token (agent only): `prepayment` at any time, `maturity` once the
+// loan has matured (the maturity job does this on its own). Retrying resumes
+// a redemption that failed part-way.
+async function redeem(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const body = (await req.json()) as Partial<RedeemRequest>;
+
+    if (!body.tokenAddress || (body.trigger !== 'maturity' && body.trigger !== 'prepayment')) {
+      return NextResponse.json(
+        { success: false, error: 'Required: tokenAddress, trigger (maturity|prepayment)' },
+        { status: 400 }
+      );
+    }
+    if (body.amount !== undefined && !(Number.isFinite(body.amount) && body.amount > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getTokenizationForRedemption(body.tokenAddress))) {
+      return NextResponse.json(
+        { success: false, error: 'Token not found' },
+        { status: 404 }
+      );
+    }
+
+    const redemption = await redeemToken({
+      tokenAddress: body.tokenAddress,
+      trigger: body.trigger,
+      amount: body.amount,
+      actor,
+    });
+    return NextResponse.json({ success: true, redemption }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => redeem(req));
+}
@@ -286,6 +286,7 @@ export async function POST(request: Request) {
           tokenAddress: loan.tokenization!.tokenAddress!,
           balance: 40,
           frozenAmount: 0,
+          partitions: { create: { partition: 'PRIMARY', balance: 40 } },
         },
       }),
       prisma.tokenBalance.create({
@@ -294,6 +295,7 @@ export async function POST(request: Request) {
           tokenAddress: loan.tokenization!.tokenAddress!,
           balance: 40,
           frozenAmount: 0,
+          partitions: { create: { partition: 'PRIMARY', balance: 40 } },
         },
       }),
       prisma.tokenBalance.create({
@@ -302,6 +304,7 @@ export async function POST(request: Request) {
           tokenAddress: loan.tokenization!.tokenAddress!,
           balance: 20,
           frozenAmount: 0,
+          partitions: { create: { partition: 'PRIMARY', balance: 20 } },
         },
       }),
     ]);
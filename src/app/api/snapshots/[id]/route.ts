@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getPositionSnapshotById } from '@/lib/store/loans';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/snapshots/[id]
+// A position snapshot with every holder's units.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const snapshot = await getPositionSnapshotById(id);
+    if (!snapshot) {
+      return NextResponse.json(
+        { success: false, error: 'Snapshot not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, snapshot });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getPositionSnapshots, tokenExists } from '@/lib/store/loans';
+import { takePositionSnapshot } from '@/lib/services/position-snapshot';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type SnapshotRequest = {
+  tokenAddress: string;
+  asOf?: string; // ISO; defaults to now
+  reference?: string; // Free-text label, e.g. a vote or notice
+};
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/snapshots?tokenAddress=&from=&to=
+// Position snapshots by as-of time, newest first.
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const from = parseDate(searchParams.get('from'));
+    const to = parseDate(searchParams.get('to'));
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be ISO dates' },
+        { status: 400 }
+      );
+    }
+
+    const snapshots = await getPositionSnapshots({
+      tokenAddress: searchParams.get('tokenAddress') ?? undefined,
+      from,
+      to,
+    });
+    return NextResponse.json({ success: true, snapshots });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST /api/snapshots
+// Agent freezes a token's cap table as of now or an earlier time.
+async function snapshot(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+    const body = (await req.json()) as Partial<SnapshotRequest>;
+
+    if (!body.tokenAddress) {
+      return NextResponse.json(
+        { success: false, error: 'Required: tokenAddress' },
+        { status: 400 }
+      );
+    }
+
+    const asOf = body.asOf ? new Date(body.asOf) : undefined;
+    if (asOf && (Number.isNaN(asOf.getTime()) || asOf.getTime() > Date.now())) {
+      return NextResponse.json(
+        { success: false, error: 'asOf must be an ISO date that is not in the future' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await tokenExists(body.tokenAddress))) {
+      return NextResponse.json(
+        { success: false, error: 'Token not found' },
+        { status: 404 }
+      );
+    }
+
+    const snapshot = await takePositionSnapshot({
+      tokenAddress: body.tokenAddress,
+      asOf,
+      trigger: 'on_demand',
+      reference: body.reference?.trim() || undefined,
+      actor,
+    });
+    return NextResponse.json({ success: true, snapshot }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => snapshot(req));
+}
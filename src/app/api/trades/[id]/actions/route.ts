@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getTradeById } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { getApprovalPolicy } from '@/lib/services/trade-workflow-policy';
+import { getAvailableActions } from '@/lib/services/trade-state-machine';
+
+// GET /api/trades/[id]/actions
+// Workflow actions the signed-in wallet may take on this trade right now.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor(req);
+    const { id } = await params;
+
+    const trade = await getTradeById(id);
+    if (!trade) {
+      return NextResponse.json(
+        { success: false, error: 'Trade not found' },
+        { status: 404 }
+      );
+    }
+
+    const actions = await getAvailableActions(trade, actor, await getApprovalPolicy(trade.loanId));
+
+    return NextResponse.json({
+      success: true,
+      tradeId: trade.id,
+      status: trade.status,
+      version: trade.version,
+      actions,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+
+import { cancelLimitOrder, getLimitOrderById } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertOpenedBy } from '@/lib/services/trade-workflow-policy';
+import { assertActionRole } from '@/lib/services/trade-state-machine';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type CancelLimitOrderRequest = {
+  version?: number;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trades/book/orders/[id]/cancel
+// Pull the unmatched remainder off the book. Trades already proposed from
+// earlier matches are unaffected.
+async function cancelBookOrder(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertActionRole(await requireActor(req), 'cancel');
+    const { id } = await params;
+
+    const body = (await req.json().catch(() => ({}))) as Partial<CancelLimitOrderRequest>;
+
+    const order = await getLimitOrderById(id);
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    assertOpenedBy(order, actor, 'order');
+
+    await cancelLimitOrder({ id: order.id, expectedVersion: body.version ?? order.version });
+
+    return NextResponse.json({ success: true, order: await getLimitOrderById(order.id) });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => cancelBookOrder(req, ctx));
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import type { OrderSide } from '@/lib/types/loan';
+import {
+  addLimitOrder,
+  getLimitOrderById,
+  getLimitOrders,
+  getParticipantByWallet,
+} from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertActionRole } from '@/lib/services/trade-state-machine';
+import { matchLimitOrder } from '@/lib/services/order-book';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type PlaceOrderRequest = {
+  tokenAddress: string;
+  side: OrderSide;
+  participant: string; // Wallet of the buyer (bid) or seller (ask)
+  units: number;
+  pricePerUnit: number;
+};
+
+const SIDES: OrderSide[] = ['bid', 'ask'];
+
+// GET /api/trades/book/orders?tokenAddress=&mine=true
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const tokenAddress = searchParams.get('tokenAddress') ?? undefined;
+    const createdBy = searchParams.get('mine') === 'true'
+      ? (await requireActor(req)).wallet
+      : undefined;
+
+    const orders = await getLimitOrders({ tokenAddress, createdBy });
+    return NextResponse.json({ success: true, orders });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+// POST /api/trades/book/orders
+// Place a limit order. It is matched immediately against the opposite side;
+// each match becomes a proposed trade and any remainder rests on the book.
+async function placeOrder(req: Request) {
+  try {
+    const actor = assertActionRole(await requireActor(req), 'propose');
+
+    const body = (await req.json()) as Partial<PlaceOrderRequest>;
+    const { tokenAddress, side, participant, units, pricePerUnit } = body;
+
+    if (
+      !tokenAddress ||
+      !side ||
+      !participant ||
+      typeof units !== 'number' ||
+      typeof pricePerUnit !== 'number'
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required fields: tokenAddress, side, participant, units, pricePerUnit',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!SIDES.includes(side)) {
+      return NextResponse.json(
+        { success: false, error: "side must be 'bid' or 'ask'" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(units) || units <= 0 || !(pricePerUnit > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'units must be a positive integer and pricePerUnit positive' },
+        { status: 400 }
+      );
+    }
+
+    const owner = await getParticipantByWallet(participant);
+    if (!owner) {
+      return NextResponse.json(
+        { success: false, error: 'Participant is not registered' },
+        { status: 404 }
+      );
+    }
+
+    const id = await addLimitOrder({
+      tokenAddress,
+      participantId: owner.id,
+      side,
+      units,
+      pricePerUnit,
+      createdBy: actor.wallet,
+    });
+
+    const placed = await getLimitOrderById(id);
+    if (!placed) throw new Error(`Order not found after insert: ${id}`);
+
+    const { matches, skipped } = await matchLimitOrder(placed, actor);
+
+    return NextResponse.json(
+      { success: true, order: await getLimitOrderById(id), matches, skipped },
+      { status: 201 }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => placeOrder(req));
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getOrderBookDepth } from '@/lib/services/order-book';
+
+// GET /api/trades/book?tokenAddress=
+// Aggregated bid/ask depth for one token.
+export async function GET(req: NextRequest) {
+  try {
+    const tokenAddress = new URL(req.url).searchParams.get('tokenAddress');
+    if (!tokenAddress) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required query param: tokenAddress' },
+        { status: 400 }
+      );
+    }
+
+    const book = await getOrderBookDepth(tokenAddress);
+    return NextResponse.json({ success: true, book });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
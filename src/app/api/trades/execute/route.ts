@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
 
-import type { Trade } from '@/lib/types/loan';
+import { TOKEN_PARTITIONS, type Trade, type TokenPartition } from '@/lib/types/loan';
 import { getParticipantByWallet, addTrade } from '@/lib/store/loans';
 import { validateTransferServer } from '@/lib/services/trade-validation-server';
+import { withIdempotency } from '@/lib/services/idempotency';
 
 type ExecuteTradeRequest = {
   tokenAddress: string;
@@ -11,11 +12,12 @@ type ExecuteTradeRequest = {
   buyer: string;
   units: number;
   pricePerUnit: number;
+  partition?: TokenPartition;
 };
 
 // POST /api/trades/execute
 // Mock-mode execution: validates using DB-backed balances, persists trade, and updates TokenBalance.
-export async function POST(req: Request) {
+async function executeTrade(req: Request) {
   try {
     const body = (await req.json()) as Partial<ExecuteTradeRequest>;
 
@@ -42,11 +44,19 @@ export async function POST(req: Request) {
       );
     }
 
+    if (body.partition !== undefined && !TOKEN_PARTITIONS.includes(body.partition)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid partition: ${body.partition}` },
+        { status: 400 }
+      );
+    }
+
     const validation = await validateTransferServer({
       tokenAddress,
       seller,
       buyer,
       units,
+      partition: body.partition,
     });
 
     if (!validation.canTransfer) {
@@ -94,6 +104,7 @@ export async function POST(req: Request) {
       pricePerUnit,
       totalValue: units * pricePerUnit,
       status: 'settled',
+      partition: body.partition ?? 'PRIMARY',
       validation,
       createdAt: new Date(now.getTime() - settlementTime * 1000),
       settledAt: now,
@@ -109,3 +120,7 @@ export async function POST(req: Request) {
     return NextResponse.json({ success: false, error: message }, { status: 500 });
   }
 }
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => executeTrade(req));
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from 'next/server';
+
+import type { Trade, TransferValidation } from '@/lib/types/loan';
+import { getBlockOrderById } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertOpenedBy } from '@/lib/services/trade-workflow-policy';
+import { assertActionRole } from '@/lib/services/trade-state-machine';
+import { createProposedTrade } from '@/lib/services/trade-proposal';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type Allocation = {
+  buyer: string;
+  units: number;
+  pricePerUnit?: number; // Defaults to the order's price
+};
+
+type AllocateOrderRequest = {
+  allocations: Allocation[];
+  version?: number;
+};
+
+type AllocationResult = Allocation & {
+  success: boolean;
+  trade?: Trade;
+  error?: string;
+  status?: number;
+  validation?: TransferValidation;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trades/orders/[id]/allocate
+// Split part of a block across buyers. Each allocation becomes its own
+// proposed child trade, validated independently: one buyer failing
+// compliance does not block the others.
+async function allocateOrder(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertActionRole(await requireActor(req), 'propose');
+    const { id } = await params;
+
+    const body = (await req.json()) as Partial<AllocateOrderRequest>;
+    const allocations = body.allocations;
+
+    if (
+      !Array.isArray(allocations) ||
+      allocations.length === 0 ||
+      allocations.some(
+        (a) => !a?.buyer || !Number.isInteger(a.units) || a.units <= 0
+      )
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'allocations must be a non-empty list of { buyer, units }' },
+        { status: 400 }
+      );
+    }
+
+    const order = await getBlockOrderById(id);
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    assertOpenedBy(order, actor, 'order');
+
+    if (body.version !== undefined && body.version !== order.version) {
+      throw new Error(
+        `Conflict: order is at version ${order.version}, request was made against ${body.version}`
+      );
+    }
+
+    const seller = order.seller.walletAddress;
+    if (!seller) {
+      return NextResponse.json(
+        { success: false, error: 'Order seller has no walletAddress' },
+        { status: 400 }
+      );
+    }
+
+    const requested = allocations.reduce((sum, a) => sum + a.units, 0);
+    if (requested > order.remainingUnits) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Conflict: order has ${order.remainingUnits} units remaining (${requested} requested)`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Sequential so each child's capacity and reservation claims see the previous ones
+    const results: AllocationResult[] = [];
+    for (const allocation of allocations) {
+      try {
+        const result = await createProposedTrade({
+          actor,
+          tokenAddress: order.tokenAddress,
+          seller,
+          buyer: allocation.buyer,
+          units: allocation.units,
+          pricePerUnit: allocation.pricePerUnit ?? order.pricePerUnit,
+          orderId: order.id,
+        });
+        results.push(
+          result.ok
+            ? { ...allocation, success: true, trade: result.trade }
+            : {
+                ...allocation,
+                success: false,
+                error: result.error,
+                status: result.status,
+                validation: result.validation,
+              }
+        );
+      } catch (err) {
+        const error = err instanceof Error ? err.message : 'Unknown error';
+        results.push({ ...allocation, success: false, error, status: workflowErrorStatus(error) });
+      }
+    }
+
+    const allocated = results.some((r) => r.success);
+    const updated = await getBlockOrderById(order.id);
+
+    return NextResponse.json(
+      { success: allocated, order: updated ?? order, allocations: results },
+      { status: allocated ? 200 : results[0].status ?? 409 }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => allocateOrder(req, ctx));
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+
+import { cancelBlockOrder, getBlockOrderById } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertOpenedBy } from '@/lib/services/trade-workflow-policy';
+import { assertActionRole } from '@/lib/services/trade-state-machine';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type CancelOrderRequest = {
+  version?: number;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trades/orders/[id]/cancel
+// Withdraw the unallocated remainder. Child trades already proposed or
+// approved are not touched; cancel those individually if needed.
+async function cancelOrder(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertActionRole(await requireActor(req), 'cancel');
+    const { id } = await params;
+
+    const body = (await req.json().catch(() => ({}))) as Partial<CancelOrderRequest>;
+
+    const order = await getBlockOrderById(id);
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    assertOpenedBy(order, actor, 'order');
+
+    if (order.cancelledAt) {
+      return NextResponse.json(
+        { success: false, error: 'Order is already cancelled' },
+        { status: 409 }
+      );
+    }
+
+    await cancelBlockOrder({
+      id: order.id,
+      cancelledBy: actor.wallet,
+      expectedVersion: body.version ?? order.version,
+    });
+
+    const updated = await getBlockOrderById(order.id);
+    return NextResponse.json({ success: true, order: updated ?? order });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => cancelOrder(req, ctx));
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getBlockOrderById } from '@/lib/store/loans';
+
+// GET /api/trades/orders/[id]
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const order = await getBlockOrderById(id);
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, order });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
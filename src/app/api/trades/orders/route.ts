@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import type { BlockOrderStatus } from '@/lib/types/loan';
+import { addBlockOrder, getBlockOrderById, getBlockOrders, getParticipantByWallet } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertActionRole } from '@/lib/services/trade-state-machine';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type CreateOrderRequest = {
+  tokenAddress: string;
+  seller: string;
+  units: number;
+  pricePerUnit: number;
+};
+
+const ORDER_STATUSES: BlockOrderStatus[] = ['open', 'partially_filled', 'filled', 'cancelled'];
+
+// GET /api/trades/orders?tokenAddress=&status=
+// Block orders with their child trades and fill state.
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const tokenAddress = searchParams.get('tokenAddress') ?? undefined;
+    const rawStatus = searchParams.get('status');
+
+    if (rawStatus && !ORDER_STATUSES.includes(rawStatus as BlockOrderStatus)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid status filter' },
+        { status: 400 }
+      );
+    }
+
+    const orders = await getBlockOrders({
+      tokenAddress,
+      status: (rawStatus as BlockOrderStatus | null) ?? undefined,
+    });
+    return NextResponse.json({ success: true, orders });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST /api/trades/orders
+// Trader opens a block for one seller, to be allocated across buyers later.
+async function createOrder(req: Request) {
+  try {
+    // Opening an order commits to proposing its children
+    const actor = assertActionRole(await requireActor(req), 'propose');
+
+    const body = (await req.json()) as Partial<CreateOrderRequest>;
+    const { tokenAddress, seller, units, pricePerUnit } = body;
+
+    if (
+      !tokenAddress ||
+      !seller ||
+      typeof units !== 'number' ||
+      typeof pricePerUnit !== 'number'
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: tokenAddress, seller, units, pricePerUnit' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(units) || units <= 0 || pricePerUnit <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'units must be a positive integer and pricePerUnit positive' },
+        { status: 400 }
+      );
+    }
+
+    const sellerParticipant = await getParticipantByWallet(seller);
+    if (!sellerParticipant) {
+      return NextResponse.json(
+        { success: false, error: 'Seller is not a registered participant' },
+        { status: 404 }
+      );
+    }
+
+    const id = await addBlockOrder({
+      tokenAddress,
+      sellerId: sellerParticipant.id,
+      totalUnits: units,
+      pricePerUnit,
+      createdBy: actor.wallet,
+    });
+
+    return NextResponse.json(
+      { success: true, order: await getBlockOrderById(id) },
+      { status: 201 }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => createOrder(req));
+}
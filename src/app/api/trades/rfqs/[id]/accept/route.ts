@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+
+import { getRfqById } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertOpenedBy } from '@/lib/services/trade-workflow-policy';
+import { assertActionRole } from '@/lib/services/trade-state-machine';
+import { acceptRfqQuote } from '@/lib/services/rfq';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type AcceptQuoteRequest = {
+  quoteId: string;
+  version?: number;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trades/rfqs/[id]/accept
+// Issuer accepts one quote; this proposes the trade at the quoted price.
+async function acceptQuote(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertActionRole(await requireActor(req), 'propose');
+    const { id } = await params;
+
+    const body = (await req.json()) as Partial<AcceptQuoteRequest>;
+    if (!body.quoteId) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: quoteId' },
+        { status: 400 }
+      );
+    }
+
+    const rfq = await getRfqById(id);
+    if (!rfq) {
+      return NextResponse.json(
+        { success: false, error: 'RFQ not found' },
+        { status: 404 }
+      );
+    }
+
+    assertOpenedBy(rfq, actor, 'RFQ');
+
+    if (body.version !== undefined && body.version !== rfq.version) {
+      throw new Error(
+        `Conflict: RFQ is at version ${rfq.version}, request was made against ${body.version}`
+      );
+    }
+
+    const result = await acceptRfqQuote({ rfq, quoteId: body.quoteId, actor });
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error, validation: result.validation },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      trade: result.trade,
+      rfq: await getRfqById(rfq.id),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => acceptQuote(req, ctx));
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+
+import { cancelRfq, getRfqById } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertOpenedBy } from '@/lib/services/trade-workflow-policy';
+import { assertActionRole } from '@/lib/services/trade-state-machine';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type CancelRfqRequest = {
+  version?: number;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trades/rfqs/[id]/cancel
+// Issuer withdraws an open RFQ; outstanding quotes lapse with it.
+async function cancelRfqRequest(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertActionRole(await requireActor(req), 'cancel');
+    const { id } = await params;
+
+    const body = (await req.json().catch(() => ({}))) as Partial<CancelRfqRequest>;
+
+    const rfq = await getRfqById(id);
+    if (!rfq) {
+      return NextResponse.json(
+        { success: false, error: 'RFQ not found' },
+        { status: 404 }
+      );
+    }
+
+    assertOpenedBy(rfq, actor, 'RFQ');
+
+    await cancelRfq({ id: rfq.id, expectedVersion: body.version ?? rfq.version });
+
+    return NextResponse.json({ success: true, rfq: await getRfqById(rfq.id) });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => cancelRfqRequest(req, ctx));
+}
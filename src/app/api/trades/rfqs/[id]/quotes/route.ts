@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+
+import { getRfqById, upsertRfqQuote } from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { viewRfqFor } from '@/lib/services/rfq';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type SubmitQuoteRequest = {
+  pricePerUnit: number;
+  validForMinutes?: number; // Defaults to the rest of the RFQ window
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trades/rfqs/[id]/quotes
+// Invited buyer submits (or replaces) their quote. The quoting wallet must be
+// the invited participant's wallet.
+async function submitQuote(req: Request, { params }: RouteContext) {
+  try {
+    const actor = assertRole(await requireActor(req), 'trader');
+    const { id } = await params;
+
+    const body = (await req.json()) as Partial<SubmitQuoteRequest>;
+    const pricePerUnit = body.pricePerUnit;
+
+    if (typeof pricePerUnit !== 'number' || !(pricePerUnit > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'pricePerUnit must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const rfq = await getRfqById(id);
+    const invitee = rfq?.invitees.find(
+      (i) => i.buyer.walletAddress?.toLowerCase() === actor.wallet.toLowerCase()
+    );
+    if (!rfq || !invitee) {
+      return NextResponse.json(
+        { success: false, error: 'RFQ not found' },
+        { status: 404 }
+      );
+    }
+
+    const validUntil =
+      typeof body.validForMinutes === 'number' && body.validForMinutes > 0
+        ? new Date(Math.min(Date.now() + body.validForMinutes * 60 * 1000, rfq.expiresAt.getTime()))
+        : rfq.expiresAt;
+
+    await upsertRfqQuote({
+      rfqId: rfq.id,
+      buyerId: invitee.buyer.id,
+      pricePerUnit,
+      validUntil,
+      submittedBy: actor.wallet,
+    });
+
+    const updated = await getRfqById(rfq.id);
+    return NextResponse.json({
+      success: true,
+      rfq: updated && viewRfqFor(updated, actor.wallet),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request, ctx: RouteContext) {
+  return withIdempotency(req, () => submitQuote(req, ctx));
+}
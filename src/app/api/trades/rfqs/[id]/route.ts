@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getRfqById } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { viewRfqFor } from '@/lib/services/rfq';
+
+// GET /api/trades/rfqs/[id]
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor(req);
+    const { id } = await params;
+
+    const rfq = await getRfqById(id);
+    const visible = rfq && viewRfqFor(rfq, actor.wallet);
+    if (!visible) {
+      // Same answer whether it doesn't exist or the wallet isn't party to it
+      return NextResponse.json(
+        { success: false, error: 'RFQ not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, rfq: visible });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import type { Rfq, RfqStatus } from '@/lib/types/loan';
+import { addRfq, getParticipantByWallet, getRfqById, getRfqs } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertActionRole } from '@/lib/services/trade-state-machine';
+import { resolveQuoteWindowMinutes, screenRfqBuyers, viewRfqFor } from '@/lib/services/rfq';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+type CreateRfqRequest = {
+  tokenAddress: string;
+  seller: string;
+  units: number;
+  buyers: string[];
+  quoteWindowMinutes?: number;
+};
+
+const RFQ_STATUSES: RfqStatus[] = ['open', 'accepted', 'cancelled', 'expired'];
+
+// GET /api/trades/rfqs?status=
+// RFQs the signed-in wallet issued or was invited to (quotes are sealed per buyer).
+export async function GET(req: NextRequest) {
+  try {
+    const actor = await requireActor(req);
+
+    const { searchParams } = new URL(req.url);
+    const rawStatus = searchParams.get('status');
+    if (rawStatus && !RFQ_STATUSES.includes(rawStatus as RfqStatus)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid status filter' },
+        { status: 400 }
+      );
+    }
+
+    const rfqs = await getRfqs({ status: (rawStatus as RfqStatus | null) ?? undefined });
+    const visible = rfqs
+      .map((rfq) => viewRfqFor(rfq, actor.wallet))
+      .filter((rfq): rfq is Rfq => rfq !== undefined);
+
+    return NextResponse.json({ success: true, rfqs: visible });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+// POST /api/trades/rfqs
+// Seller-side trader asks selected buyers to quote. Buyers failing the
+// transfer checks are left out and reported back.
+async function createRfq(req: Request) {
+  try {
+    const actor = assertActionRole(await requireActor(req), 'propose');
+
+    const body = (await req.json()) as Partial<CreateRfqRequest>;
+    const { tokenAddress, seller, units, buyers } = body;
+
+    if (
+      !tokenAddress ||
+      !seller ||
+      typeof units !== 'number' ||
+      !Array.isArray(buyers) ||
+      buyers.length === 0
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: tokenAddress, seller, units, buyers' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(units) || units <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'units must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const sellerParticipant = await getParticipantByWallet(seller);
+    if (!sellerParticipant) {
+      return NextResponse.json(
+        { success: false, error: 'Seller is not a registered participant' },
+        { status: 404 }
+      );
+    }
+
+    const screening = await screenRfqBuyers({ tokenAddress, seller, units, buyers });
+    if (screening.eligible.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No eligible buyers to invite', ineligible: screening.ineligible },
+        { status: 409 }
+      );
+    }
+
+    const windowMinutes = resolveQuoteWindowMinutes(body.quoteWindowMinutes);
+    const id = await addRfq({
+      tokenAddress,
+      sellerId: sellerParticipant.id,
+      units,
+      createdBy: actor.wallet,
+      expiresAt: new Date(Date.now() + windowMinutes * 60 * 1000),
+      invitees: screening.eligible.map((e) => ({ buyerId: e.buyer.id, validation: e.validation })),
+    });
+
+    return NextResponse.json(
+      { success: true, rfq: await getRfqById(id), ineligible: screening.ineligible },
+      { status: 201 }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => createRfq(req));
+}
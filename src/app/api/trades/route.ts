@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getTrades, addTrade } from '@/lib/store/loans';
 import type { Trade } from '@/lib/types/loan';
 import { logger } from '@/lib/utils/logger';
+import { withIdempotency } from '@/lib/services/idempotency';
 
 function toDate(value: unknown): Date | undefined {
   if (value == null) return undefined;
@@ -49,6 +50,7 @@ export async function GET(req: NextRequest) {
       'settled',
       'rejected',
       'expired',
+      'cancelled',
     ];
     const status = rawStatus && allowedStatuses.includes(rawStatus as Trade['status'])
       ? (rawStatus as Trade['status'])
@@ -76,7 +78,7 @@ export async function GET(req: NextRequest) {
 }
 
 // POST /api/trades - Record a new trade
-export async function POST(request: NextRequest) {
+async function recordTrade(request: NextRequest) {
   try {
     const rawBody = await request.json();
     const body = normalizeTradeInput(rawBody);
@@ -116,3 +118,7 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export async function POST(request: NextRequest) {
+  return withIdempotency(request, () => recordTrade(request));
+}
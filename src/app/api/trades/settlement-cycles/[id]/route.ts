@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getSettlementCycleById } from '@/lib/store/loans';
+
+// GET /api/trades/settlement-cycles/[id]
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const cycle = await getSettlementCycleById(id);
+    if (!cycle) {
+      return NextResponse.json(
+        { success: false, error: 'Settlement cycle not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, cycle });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { TOKEN_PARTITIONS, type TokenPartition } from '@/lib/types/loan';
+import { getSettlementCycles } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertActionRole } from '@/lib/services/trade-state-machine';
+import { withIdempotency } from '@/lib/services/idempotency';
+import { runSettlementCycle } from '@/lib/services/settlement-cycle';
+
+type RunCycleRequest = {
+  tokenAddress: string;
+  partition?: TokenPartition; // Defaults to PRIMARY
+};
+
+// GET /api/trades/settlement-cycles?tokenAddress=
+// Past cycles with the net positions they applied and the trades they settled.
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const tokenAddress = searchParams.get('tokenAddress') ?? undefined;
+
+    const cycles = await getSettlementCycles({ tokenAddress });
+    return NextResponse.json({ success: true, cycles });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST /api/trades/settlement-cycles
+// Agent nets and settles every ready approved trade for a token in one batch.
+async function runCycle(req: Request) {
+  try {
+    // A cycle executes each trade it settles
+    const actor = assertActionRole(await requireActor(req), 'execute');
+
+    const body = (await req.json()) as Partial<RunCycleRequest>;
+    if (!body.tokenAddress) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: tokenAddress' },
+        { status: 400 }
+      );
+    }
+
+    if (body.partition !== undefined && !TOKEN_PARTITIONS.includes(body.partition)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid partition: ${body.partition}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await runSettlementCycle({
+      tokenAddress: body.tokenAddress,
+      partition: body.partition,
+      actor,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+          skipped: result.skipped,
+          failures: result.failures,
+        },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, cycle: result.cycle, skipped: result.skipped },
+      { status: 201 }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => runCycle(req));
+}
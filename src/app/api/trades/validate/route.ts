@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 
+import { TOKEN_PARTITIONS, type TokenPartition } from "@/lib/types/loan";
 import { validateTransferServer } from "@/lib/services/trade-validation-server";
 
 type ValidateTradeRequest = {
@@ -7,6 +8,7 @@ type ValidateTradeRequest = {
   seller: string;
   buyer: string;
   units: number;
+  partition?: TokenPartition;
 };
 
 export async function POST(req: Request) {
@@ -28,11 +30,19 @@ export async function POST(req: Request) {
       );
     }
 
+    if (body.partition !== undefined && !TOKEN_PARTITIONS.includes(body.partition)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid partition: ${body.partition}` },
+        { status: 400 }
+      );
+    }
+
     const validation = await validateTransferServer({
       tokenAddress,
       seller,
       buyer,
       units,
+      partition: body.partition,
     });
 
     return NextResponse.json({ success: true, validation });
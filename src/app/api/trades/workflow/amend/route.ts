@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+
+import { amendTradeTerms, getTradeById } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertExpectedVersion, diffTradeTerms, recordAmendment } from '@/lib/services/trade-workflow';
+import { getApprovalPolicy } from '@/lib/services/trade-workflow-policy';
+import { resolveTradeExpiry } from '@/lib/services/trade-expiry';
+import { assertActionRole, checkTransition } from '@/lib/services/trade-state-machine';
+import { withIdempotency } from '@/lib/services/idempotency';
+import { releaseCashQuietly } from '@/lib/services/cash-leg';
+
+type AmendTradeRequest = {
+  tradeId: string;
+  version?: number;
+  units?: number;
+  pricePerUnit?: number;
+  reason?: string;
+};
+
+// POST /api/trades/workflow/amend
+// Proposing trader changes the terms of an open trade. The new terms are
+// revalidated and the trade goes back to `proposed` for fresh approval.
+async function amendTrade(req: Request) {
+  try {
+    const actor = assertActionRole(await requireActor(req), 'amend');
+
+    const body = (await req.json()) as Partial<AmendTradeRequest>;
+    const tradeId = body.tradeId;
+
+    if (!tradeId) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: tradeId' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (body.units !== undefined && (!Number.isInteger(body.units) || body.units <= 0)) ||
+      (body.pricePerUnit !== undefined && !(body.pricePerUnit > 0))
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'units must be a positive integer and pricePerUnit positive' },
+        { status: 400 }
+      );
+    }
+
+    const trade = await getTradeById(tradeId);
+    if (!trade) {
+      return NextResponse.json(
+        { success: false, error: 'Trade not found' },
+        { status: 404 }
+      );
+    }
+
+    assertExpectedVersion(trade, body.version);
+
+    const units = body.units ?? trade.units;
+    const pricePerUnit = body.pricePerUnit ?? trade.pricePerUnit;
+    const terms = { units, pricePerUnit, totalValue: units * pricePerUnit };
+
+    const changes = diffTradeTerms(trade, terms);
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Amendment does not change any terms' },
+        { status: 400 }
+      );
+    }
+
+    const check = await checkTransition('amend', {
+      trade,
+      actor,
+      policy: await getApprovalPolicy(trade.loanId),
+      now: new Date(),
+      units,
+    });
+    if (!check.ok) {
+      return NextResponse.json(
+        { success: false, error: check.error, validation: check.validation },
+        { status: check.status }
+      );
+    }
+
+    const workflow = recordAmendment({
+      workflow: trade.workflow,
+      from: trade.status,
+      actor,
+      changes,
+      reason: body.reason,
+    });
+
+    await amendTradeTerms({
+      id: trade.id,
+      expectedVersion: trade.version ?? 0,
+      terms,
+      workflow,
+      validation: check.validation,
+      expiresAt: await resolveTradeExpiry({
+        loanId: trade.loanId,
+        tokenAddress: trade.tokenAddress,
+        participantTypes: [trade.seller.type, trade.buyer.type],
+        status: 'proposed',
+      }),
+    });
+    // Back to proposed: cash is locked again for the new terms on re-approval
+    await releaseCashQuietly(trade.id);
+
+    const updated = await getTradeById(trade.id);
+    return NextResponse.json({ success: true, trade: updated ?? trade });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => amendTrade(req));
+}
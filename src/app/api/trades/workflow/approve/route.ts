@@ -1,20 +1,26 @@
 import { NextResponse } from 'next/server';
 
 import { getTradeById, updateTradeWorkflowAndStatus } from '@/lib/store/loans';
-import { validateTransferServer } from '@/lib/services/trade-validation-server';
-import { assertRole, requireDemoActor } from '@/lib/services/trade-workflow-auth';
-import { appendWorkflowEvent } from '@/lib/services/trade-workflow';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertExpectedVersion, recordApproval } from '@/lib/services/trade-workflow';
+import { getApprovalPolicy, requiredApprovalsFor } from '@/lib/services/trade-workflow-policy';
+import { resolveTradeExpiry } from '@/lib/services/trade-expiry';
+import { assertActionRole, checkTransition } from '@/lib/services/trade-state-machine';
+import { withIdempotency } from '@/lib/services/idempotency';
+import { lockCashForTrade, releaseCashQuietly } from '@/lib/services/cash-leg';
 
 type ApproveTradeRequest = {
   tradeId: string;
+  version?: number;
 };
 
 // POST /api/trades/workflow/approve
 // Checker approves a proposed trade (revalidates server-side).
-export async function POST(req: Request) {
+// Four-eyes: the checker must not have acted on the trade already; the loan's
+// policy may require several distinct approvals before the trade is approved.
+async function approveTrade(req: Request) {
   try {
-    const actor = requireDemoActor(req);
-    assertRole(actor, 'checker');
+    const actor = assertActionRole(await requireActor(req), 'approve');
 
     const body = (await req.json()) as Partial<ApproveTradeRequest>;
     const tradeId = body.tradeId;
@@ -34,56 +40,64 @@ export async function POST(req: Request) {
       );
     }
 
-    if (trade.status !== 'proposed') {
-      return NextResponse.json(
-        { success: false, error: `Trade not in proposed state (status=${trade.status})` },
-        { status: 409 }
-      );
-    }
-
-    const seller = trade.seller.walletAddress;
-    const buyer = trade.buyer.walletAddress;
+    assertExpectedVersion(trade, body.version);
 
-    if (!seller || !buyer) {
+    const policy = await getApprovalPolicy(trade.loanId);
+    const check = await checkTransition('approve', { trade, actor, policy, now: new Date() });
+    if (!check.ok) {
       return NextResponse.json(
-        { success: false, error: 'Trade is missing seller/buyer walletAddress' },
-        { status: 400 }
+        { success: false, error: check.error, validation: check.validation },
+        { status: check.status }
       );
     }
+    const validation = check.validation;
 
-    const validation = await validateTransferServer({
-      tokenAddress: trade.tokenAddress,
-      seller,
-      buyer,
-      units: trade.units,
+    const { workflow, status } = recordApproval({
+      workflow: trade.workflow,
+      actor,
+      requiredApprovals: requiredApprovalsFor(policy, trade.totalValue),
     });
 
-    if (!validation.canTransfer) {
-      return NextResponse.json(
-        { success: false, error: validation.reasonDescription, validation },
-        { status: 409 }
-      );
-    }
+    // Approval restarts the clock: the agent gets the approved-state TTL to execute
+    const expiresAt = status === 'approved'
+      ? await resolveTradeExpiry({
+          loanId: trade.loanId,
+          tokenAddress: trade.tokenAddress,
+          participantTypes: [trade.seller.type, trade.buyer.type],
+          status: 'approved',
+        })
+      : undefined;
 
-    const workflow = appendWorkflowEvent({
-      workflow: trade.workflow,
-      from: trade.status,
-      to: 'approved',
-      actor: { role: actor.role, wallet: actor.wallet },
-    });
+    // DvP: the final approval locks the buyer's cash until execution
+    if (status === 'approved') {
+      await lockCashForTrade(trade);
+    }
 
-    await updateTradeWorkflowAndStatus({
-      id: trade.id,
-      status: 'approved',
-      workflow,
-      validation,
-    });
+    try {
+      await updateTradeWorkflowAndStatus({
+        id: trade.id,
+        expectedVersion: trade.version ?? 0,
+        status,
+        workflow,
+        validation,
+        expiresAt,
+      });
+    } catch (err) {
+      if (status === 'approved') await releaseCashQuietly(trade.id);
+      throw err;
+    }
 
     const updated = await getTradeById(trade.id);
     return NextResponse.json({ success: true, trade: updated ?? trade });
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Unknown error';
-    const status = message.startsWith('Forbidden') ? 403 : 500;
-    return NextResponse.json({ success: false, error: message }, { status });
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
   }
 }
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => approveTrade(req));
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+
+import { getTradeById, updateTradeWorkflowAndStatus } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { appendWorkflowEvent, assertExpectedVersion } from '@/lib/services/trade-workflow';
+import { getApprovalPolicy } from '@/lib/services/trade-workflow-policy';
+import { assertActionRole, checkTransition } from '@/lib/services/trade-state-machine';
+import { withIdempotency } from '@/lib/services/idempotency';
+import { releaseCashQuietly } from '@/lib/services/cash-leg';
+
+type CancelTradeRequest = {
+  tradeId: string;
+  version?: number;
+  reason?: string;
+};
+
+// POST /api/trades/workflow/cancel
+// Proposing trader withdraws a trade that has not been executed yet.
+async function cancelTrade(req: Request) {
+  try {
+    const actor = assertActionRole(await requireActor(req), 'cancel');
+
+    const body = (await req.json()) as Partial<CancelTradeRequest>;
+    const tradeId = body.tradeId;
+
+    if (!tradeId) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: tradeId' },
+        { status: 400 }
+      );
+    }
+
+    const trade = await getTradeById(tradeId);
+    if (!trade) {
+      return NextResponse.json(
+        { success: false, error: 'Trade not found' },
+        { status: 404 }
+      );
+    }
+
+    assertExpectedVersion(trade, body.version);
+
+    const check = await checkTransition('cancel', {
+      trade,
+      actor,
+      policy: await getApprovalPolicy(trade.loanId),
+      now: new Date(),
+    });
+    if (!check.ok) {
+      return NextResponse.json(
+        { success: false, error: check.error, validation: check.validation },
+        { status: check.status }
+      );
+    }
+
+    const workflow = appendWorkflowEvent({
+      workflow: trade.workflow,
+      from: trade.status,
+      to: 'cancelled',
+      actor,
+      reason: body.reason,
+    });
+
+    await updateTradeWorkflowAndStatus({
+      id: trade.id,
+      expectedVersion: trade.version ?? 0,
+      status: 'cancelled',
+      workflow,
+      expiresAt: null,
+    });
+    await releaseCashQuietly(trade.id);
+
+    const updated = await getTradeById(trade.id);
+    return NextResponse.json({ success: true, trade: updated ?? trade });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => cancelTrade(req));
+}
@@ -1,21 +1,24 @@
 import { NextResponse } from 'next/server';
-import { v4 as uuidv4 } from 'uuid';
 
-import { getTradeById, settleApprovedTrade } from '@/lib/store/loans';
-import { validateTransferServer } from '@/lib/services/trade-validation-server';
-import { assertRole, requireDemoActor } from '@/lib/services/trade-workflow-auth';
-import { appendWorkflowEvent } from '@/lib/services/trade-workflow';
+import { getTradeById } from '@/lib/store/loans';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertExpectedVersion } from '@/lib/services/trade-workflow';
+import { getApprovalPolicy } from '@/lib/services/trade-workflow-policy';
+import { assertActionRole, checkTransition } from '@/lib/services/trade-state-machine';
+import { withIdempotency } from '@/lib/services/idempotency';
+import { executeTrade } from '@/lib/services/trade-execution';
 
 type ExecuteWorkflowTradeRequest = {
   tradeId: string;
+  version?: number;
 };
 
 // POST /api/trades/workflow/execute
-// Agent executes an approved trade (revalidates + settles + mutates balances).
-export async function POST(req: Request) {
+// Agent executes an approved trade (revalidates + settles units against the buyer's cash).
+// In real mode the trade may come back `executed` (202) while its transfer awaits a receipt.
+async function executeApprovedTrade(req: Request) {
   try {
-    const actor = requireDemoActor(req);
-    assertRole(actor, 'agent');
+    const actor = assertActionRole(await requireActor(req), 'execute');
 
     const body = (await req.json()) as Partial<ExecuteWorkflowTradeRequest>;
     const tradeId = body.tradeId;
@@ -35,56 +38,36 @@ export async function POST(req: Request) {
       );
     }
 
-    if (trade.status !== 'approved') {
-      return NextResponse.json(
-        { success: false, error: `Trade not in approved state (status=${trade.status})` },
-        { status: 409 }
-      );
-    }
-
-    const seller = trade.seller.walletAddress;
-    const buyer = trade.buyer.walletAddress;
+    assertExpectedVersion(trade, body.version);
 
-    if (!seller || !buyer) {
-      return NextResponse.json(
-        { success: false, error: 'Trade is missing seller/buyer walletAddress' },
-        { status: 400 }
-      );
-    }
-
-    const validation = await validateTransferServer({
-      tokenAddress: trade.tokenAddress,
-      seller,
-      buyer,
-      units: trade.units,
+    const check = await checkTransition('execute', {
+      trade,
+      actor,
+      policy: await getApprovalPolicy(trade.loanId),
+      now: new Date(),
     });
-
-    if (!validation.canTransfer) {
+    if (!check.ok) {
       return NextResponse.json(
-        { success: false, error: validation.reasonDescription, validation },
-        { status: 409 }
+        { success: false, error: check.error, validation: check.validation },
+        { status: check.status }
       );
     }
 
-    const workflow = appendWorkflowEvent({
-      workflow: trade.workflow,
-      from: trade.status,
-      to: 'settled',
-      actor: { role: actor.role, wallet: actor.wallet },
-    });
-
-    const settled = await settleApprovedTrade({
-      id: trade.id,
-      workflow,
-      validation,
-      txHash: '0x' + uuidv4().replace(/-/g, ''),
-      settlementTime: 2.5,
-    });
+    const executed = await executeTrade({ trade, actor, validation: check.validation });
 
-    return NextResponse.json({ success: true, trade: settled });
+    return NextResponse.json(
+      { success: true, trade: executed },
+      { status: executed.status === 'executed' ? 202 : 200 }
+    );
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Unknown error';
-    const status = message.startsWith('Forbidden') ? 403 : 500;
-    return NextResponse.json({ success: false, error: message }, { status });
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
   }
 }
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => executeApprovedTrade(req));
+}
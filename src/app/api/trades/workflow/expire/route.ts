@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { expireStaleTrades } from '@/lib/services/trade-expiry';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+// POST /api/trades/workflow/expire
+// Agent triggers an expiry sweep now (the scheduler also runs it periodically).
+async function expireTrades(req: Request) {
+  try {
+    assertRole(await requireActor(req), 'agent');
+
+    const expired = await expireStaleTrades();
+
+    return NextResponse.json({
+      success: true,
+      expired: expired.length,
+      tradeIds: expired.map((t) => t.id),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => expireTrades(req));
+}
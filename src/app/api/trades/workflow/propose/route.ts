@@ -1,11 +1,10 @@
 import { NextResponse } from 'next/server';
-import { v4 as uuidv4 } from 'uuid';
 
-import type { Trade } from '@/lib/types/loan';
-import { addTrade, getParticipantByWallet, getTradeById } from '@/lib/store/loans';
-import { validateTransferServer } from '@/lib/services/trade-validation-server';
-import { assertRole, requireDemoActor } from '@/lib/services/trade-workflow-auth';
-import { appendWorkflowEvent } from '@/lib/services/trade-workflow';
+import { TOKEN_PARTITIONS, type TokenPartition } from '@/lib/types/loan';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { assertActionRole } from '@/lib/services/trade-state-machine';
+import { createProposedTrade } from '@/lib/services/trade-proposal';
+import { withIdempotency } from '@/lib/services/idempotency';
 
 type ProposeTradeRequest = {
   tokenAddress: string;
@@ -13,14 +12,14 @@ type ProposeTradeRequest = {
   buyer: string;
   units: number;
   pricePerUnit: number;
+  partition?: TokenPartition; // Defaults to PRIMARY
 };
 
 // POST /api/trades/workflow/propose
 // Trader proposes a trade after validation. Does NOT move balances.
-export async function POST(req: Request) {
+async function proposeTrade(req: Request) {
   try {
-    const actor = requireDemoActor(req);
-    assertRole(actor, 'trader');
+    const actor = assertActionRole(await requireActor(req), 'propose');
 
     const body = (await req.json()) as Partial<ProposeTradeRequest>;
 
@@ -47,72 +46,39 @@ export async function POST(req: Request) {
       );
     }
 
-    const validation = await validateTransferServer({
+    if (body.partition !== undefined && !TOKEN_PARTITIONS.includes(body.partition)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid partition: ${body.partition}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await createProposedTrade({
+      actor,
       tokenAddress,
       seller,
       buyer,
       units,
+      pricePerUnit,
+      partition: body.partition,
     });
-
-    if (!validation.canTransfer) {
+    if (!result.ok) {
       return NextResponse.json(
-        { success: false, error: validation.reasonDescription, validation },
-        { status: 409 }
+        { success: false, error: result.error, validation: result.validation },
+        { status: result.status }
       );
     }
 
-    const [sellerParticipant, buyerParticipant] = await Promise.all([
-      getParticipantByWallet(seller),
-      getParticipantByWallet(buyer),
-    ]);
-
-    const trade: Trade = {
-      id: uuidv4(),
-      loanId: 'mock-loan-id',
-      tokenAddress,
-      seller:
-        sellerParticipant ??
-        ({
-          id: uuidv4(),
-          name: 'Unknown Seller',
-          type: 'fund',
-          walletAddress: seller,
-          kycStatus: 'approved',
-          accreditedInvestor: true,
-          jurisdiction: 'US',
-        } as const),
-      buyer:
-        buyerParticipant ??
-        ({
-          id: uuidv4(),
-          name: 'Unknown Buyer',
-          type: 'fund',
-          walletAddress: buyer,
-          kycStatus: 'approved',
-          accreditedInvestor: true,
-          jurisdiction: 'US',
-        } as const),
-      units,
-      pricePerUnit,
-      totalValue: units * pricePerUnit,
-      status: 'proposed',
-      validation,
-      workflow: appendWorkflowEvent({
-        workflow: undefined,
-        from: 'none',
-        to: 'proposed',
-        actor: { role: actor.role, wallet: actor.wallet },
-      }),
-      createdAt: new Date(),
-    };
-
-    const id = await addTrade(trade);
-    const created = await getTradeById(id);
-
-    return NextResponse.json({ success: true, trade: created ?? { ...trade, id } });
+    return NextResponse.json({ success: true, trade: result.trade });
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Unknown error';
-    const status = message.startsWith('Forbidden') ? 403 : 500;
-    return NextResponse.json({ success: false, error: message }, { status });
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
   }
 }
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => proposeTrade(req));
+}
@@ -1,20 +1,23 @@
 import { NextResponse } from 'next/server';
 
 import { getTradeById, updateTradeWorkflowAndStatus } from '@/lib/store/loans';
-import { assertRole, requireDemoActor } from '@/lib/services/trade-workflow-auth';
-import { appendWorkflowEvent } from '@/lib/services/trade-workflow';
+import { requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { appendWorkflowEvent, assertExpectedVersion } from '@/lib/services/trade-workflow';
+import { getApprovalPolicy } from '@/lib/services/trade-workflow-policy';
+import { assertActionRole, checkTransition } from '@/lib/services/trade-state-machine';
+import { withIdempotency } from '@/lib/services/idempotency';
 
 type RejectTradeRequest = {
   tradeId: string;
+  version?: number;
   reason?: string;
 };
 
 // POST /api/trades/workflow/reject
 // Checker rejects a proposed trade.
-export async function POST(req: Request) {
+async function rejectTrade(req: Request) {
   try {
-    const actor = requireDemoActor(req);
-    assertRole(actor, 'checker');
+    const actor = assertActionRole(await requireActor(req), 'reject');
 
     const body = (await req.json()) as Partial<RejectTradeRequest>;
     const tradeId = body.tradeId;
@@ -34,10 +37,18 @@ export async function POST(req: Request) {
       );
     }
 
-    if (trade.status !== 'proposed') {
+    assertExpectedVersion(trade, body.version);
+
+    const check = await checkTransition('reject', {
+      trade,
+      actor,
+      policy: await getApprovalPolicy(trade.loanId),
+      now: new Date(),
+    });
+    if (!check.ok) {
       return NextResponse.json(
-        { success: false, error: `Trade not in proposed state (status=${trade.status})` },
-        { status: 409 }
+        { success: false, error: check.error, validation: check.validation },
+        { status: check.status }
       );
     }
 
@@ -45,12 +56,13 @@ export async function POST(req: Request) {
       workflow: trade.workflow,
       from: trade.status,
       to: 'rejected',
-      actor: { role: actor.role, wallet: actor.wallet },
+      actor,
       reason: body.reason,
     });
 
     await updateTradeWorkflowAndStatus({
       id: trade.id,
+      expectedVersion: trade.version ?? 0,
       status: 'rejected',
       workflow,
     });
@@ -59,7 +71,13 @@ export async function POST(req: Request) {
     return NextResponse.json({ success: true, trade: updated ?? trade });
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Unknown error';
-    const status = message.startsWith('Forbidden') ? 403 : 500;
-    return NextResponse.json({ success: false, error: message }, { status });
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
   }
 }
+
+export async function POST(req: Request) {
+  return withIdempotency(req, () => rejectTrade(req));
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+
+import type { Participant, TradeTtlPolicy } from '@/lib/types/loan';
+import {
+  getParticipantTypeTtlPolicies,
+  upsertParticipantTypeTtlPolicy,
+} from '@/lib/store/loans';
+import { assertRole, requireActor, workflowErrorStatus } from '@/lib/services/trade-workflow-auth';
+import { withIdempotency } from '@/lib/services/idempotency';
+
+const PARTICIPANT_TYPES: Participant['type'][] = [
+  'bank',
+  'fund',
+  'insurance',
+  'pension',
+  'corporate',
+  'sovereign',
+];
+
+type TtlPolicyRequest = TradeTtlPolicy & {
+  participantType: Participant['type'];
+};
+
+function isValidTtl(minutes: number | undefined): boolean {
+  return minutes === undefined || (Number.isInteger(minutes) && minutes > 0);
+}
+
+// GET /api/trades/workflow/ttl-policy
+// Trade TTLs configured per participant type.
+export async function GET() {
+  try {
+    const policies = await getParticipantTypeTtlPolicies();
+    return NextResponse.json({ success: true, policies });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// PUT /api/trades/workflow/ttl-policy
+// Agent sets the proposed/approved TTL (minutes) for a participant type.
+async function updateTtlPolicy(req: Request) {
+  try {
+    const actor = assertRole(await requireActor(req), 'agent');
+
+    const body = (await req.json()) as Partial<TtlPolicyRequest>;
+
+    if (!body.participantType || !PARTICIPANT_TYPES.includes(body.participantType)) {
+      return NextResponse.json(
+        { success: false, error: `participantType must be one of: ${PARTICIPANT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidTtl(body.proposedTtlMinutes) || !isValidTtl(body.approvedTtlMinutes)) {
+      return NextResponse.json(
+        { success: false, error: 'TTLs must be positive whole minutes' },
+        { status: 400 }
+      );
+    }
+
+    await upsertParticipantTypeTtlPolicy(
+      body.participantType,
+      { proposedTtlMinutes: body.proposedTtlMinutes, approvedTtlMinutes: body.approvedTtlMinutes },
+      actor.wallet
+    );
+
+    return NextResponse.json({ success: true, policies: await getParticipantTypeTtlPolicies() });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: workflowErrorStatus(message) }
+    );
+  }
+}
+
+export async function PUT(req: Request) {
+  return withIdempotency(req, () => updateTtlPolicy(req));
+}
@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react';
 import { TrendingDown, TrendingUp, Loader2 } from 'lucide-react';
 import type { PortfolioSummary } from '@/lib/store/loans';
-import type { Trade } from '@/lib/types/loan';
+import { TOKEN_PARTITIONS, type TokenPartition, type Trade } from '@/lib/types/loan';
 import { Card } from '@/components/ui/card';
 
 export default function PortfolioDashboard() {
@@ -17,7 +17,9 @@ export default function PortfolioDashboard() {
       participant: { name: string; walletAddress: string | null };
       balance: number;
       frozenAmount: number;
+      reservedAmount: number;
       available: number;
+      partitions: Record<TokenPartition, number>;
     }>
   >([]);
   const [loading, setLoading] = useState(true);
@@ -278,17 +280,31 @@ export default function PortfolioDashboard() {
                 key={b.participant.walletAddress ?? b.participant.name}
                 className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded border border-gray-200"
               >
-                <span className="text-gray-800">
-                  {b.participant.name}
-                </span>
+                <div>
+                  <span className="text-gray-800">
+                    {b.participant.name}
+                  </span>
+                  <div className="text-xs text-gray-500">
+                    {TOKEN_PARTITIONS.map((partition) => (
+                      <span key={partition} className="mr-3">
+                        {partition}: {b.partitions?.[partition] ?? 0}
+                      </span>
+                    ))}
+                  </div>
+                </div>
                 <span className="font-semibold text-gray-900">
                   {b.available} units
+                  {b.reservedAmount > 0 && (
+                    <span className="ml-2 text-xs font-normal text-amber-700">
+                      ({b.reservedAmount} reserved)
+                    </span>
+                  )}
                 </span>
               </div>
             ))}
           </div>
           <p className="text-xs text-gray-500 mt-3">
-            Source: database (TokenBalance)
+            Source: database (TokenBalance, per partition)
           </p>
         </Card>
       )}
@@ -1,10 +1,18 @@
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useState } from 'react';
 import { Check, X, Clock, Loader2 } from 'lucide-react';
 import { useBlockchainService } from '@/hooks/useBlockchainService';
 import { useSmartAccount } from '@/hooks/useSmartAccount';
-import type { Trade, TransferValidation } from '@/lib/types/loan';
+import { useWorkflowSession } from '@/hooks/useWorkflowSession';
+import {
+  TOKEN_PARTITIONS,
+  type TokenPartition,
+  type Trade,
+  type TradeActionOption,
+  type TradeWorkflowRole,
+  type TransferValidation,
+} from '@/lib/types/loan';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 
@@ -19,15 +27,14 @@ export default function TransferSimulator({
   tokenSymbol,
   unitValue,
 }: TransferSimulatorProps) {
-  const [role, setRole] = useState<'trader' | 'checker' | 'agent'>('trader');
+  const [selectedRole, setRole] = useState<TradeWorkflowRole>('trader');
   const [units, setUnits] = useState(5);
+  const [partition, setPartition] = useState<TokenPartition>('PRIMARY');
   const [price, setPrice] = useState(unitValue);
   const [action, setAction] = useState<
     | 'validating'
     | 'proposing'
-    | 'approving'
-    | 'rejecting'
-    | 'settling'
+    | 'acting'
     | 'loadingInbox'
     | null
   >(null);
@@ -38,30 +45,33 @@ export default function TransferSimulator({
   } | null>(null);
 
   const [inbox, setInbox] = useState<Trade[]>([]);
+  // Allowed next actions per inbox trade, as reported by the server state machine
+  const [inboxActions, setInboxActions] = useState<Record<string, TradeActionOption[]>>({});
 
   // Use blockchain service hook for mock/real mode switching
   const { mode, isReady, isLoading: serviceLoading } = useBlockchainService();
   const { smartAccountAddress } = useSmartAccount();
+  const {
+    session,
+    isLoading: sessionLoading,
+    error: sessionError,
+    signIn,
+  } = useWorkflowSession();
+
+  // Roles come from the server-side role assignment for the signed-in wallet;
+  // KYC providers only take part in wallet recovery, not trades
+  const availableRoles: TradeWorkflowRole[] = (session?.roles ?? []).filter((r) => r !== 'kyc_provider');
+  const role: TradeWorkflowRole | undefined = availableRoles.includes(selectedRole)
+    ? selectedRole
+    : availableRoles[0];
 
   const sellerAddress = mode === 'real' && smartAccountAddress
     ? smartAccountAddress
     : '0x1234567890abcdef1234567890abcdef12345678';
   const buyerAddress = '0xabcdef0123456789abcdef0123456789abcdef01';
 
-  const demoActorWallet = useMemo(() => {
-    if (role === 'trader') return sellerAddress;
-    if (role === 'checker') return '0x9876543210fedcba9876543210fedcba98765432';
-    return '0x1111222233334444555566667777888899990000';
-  }, [role, sellerAddress]);
-
-  const workflowHeaders = useMemo(
-    () => ({
-      'Content-Type': 'application/json',
-      'x-demo-role': role,
-      'x-demo-wallet': demoActorWallet,
-    }),
-    [role, demoActorWallet]
-  );
+  // The session cookie identifies the actor; no role/wallet headers are sent.
+  const workflowHeaders = { 'Content-Type': 'application/json' };
 
   const fetchInbox = async () => {
     const status = role === 'checker' ? 'proposed' : role === 'agent' ? 'approved' : null;
@@ -71,8 +81,18 @@ export default function TransferSimulator({
     try {
       const res = await fetch(`/api/trades?status=${status}`);
       if (!res.ok) throw new Error(await res.text());
-      const trades = (await res.json()) as Trade[];
+      const trades = ((await res.json()) as Trade[]).slice(0, 5);
+
+      const actionEntries = await Promise.all(
+        trades.map(async (t) => {
+          const actionsRes = await fetch(`/api/trades/${t.id}/actions`);
+          const json = (await actionsRes.json()) as { actions?: TradeActionOption[] };
+          return [t.id, actionsRes.ok ? json.actions ?? [] : []] as const;
+        })
+      );
+
       setInbox(trades);
+      setInboxActions(Object.fromEntries(actionEntries));
     } catch (e) {
       setSimulationResult({
         error: e instanceof Error ? e.message : 'Failed to load inbox',
@@ -95,6 +115,7 @@ export default function TransferSimulator({
           seller: sellerAddress,
           buyer: buyerAddress,
           units,
+          partition,
         }),
       });
 
@@ -135,6 +156,7 @@ export default function TransferSimulator({
           seller: sellerAddress,
           buyer: buyerAddress,
           units,
+          partition,
           pricePerUnit: price,
         }),
       });
@@ -161,77 +183,24 @@ export default function TransferSimulator({
     }
   };
 
-  const handleApprove = async (tradeId: string) => {
-    setAction('approving');
-    try {
-      const res = await fetch('/api/trades/workflow/approve', {
-        method: 'POST',
-        headers: workflowHeaders,
-        body: JSON.stringify({ tradeId }),
-      });
-      const json = (await res.json()) as
-        | { success: true; trade: Trade }
-        | { success: false; error?: string; validation?: TransferValidation };
-      if (!res.ok || !json.success) {
-        setSimulationResult({
-          error: 'error' in json && json.error ? json.error : 'Approve failed',
-          validation: 'validation' in json ? json.validation : undefined,
-        });
-        return;
-      }
-      setSimulationResult({ trade: json.trade, validation: json.trade.validation });
-      await fetchInbox();
-    } catch (e) {
-      setSimulationResult({
-        error: e instanceof Error ? e.message : 'Approve failed',
-      });
-    } finally {
-      setAction(null);
-    }
-  };
-
-  const handleReject = async (tradeId: string) => {
-    setAction('rejecting');
-    try {
-      const res = await fetch('/api/trades/workflow/reject', {
-        method: 'POST',
-        headers: workflowHeaders,
-        body: JSON.stringify({ tradeId, reason: 'Rejected by checker' }),
-      });
-      const json = (await res.json()) as
-        | { success: true; trade: Trade }
-        | { success: false; error?: string };
-      if (!res.ok || !json.success) {
-        setSimulationResult({
-          error: 'error' in json && json.error ? json.error : 'Reject failed',
-        });
-        return;
-      }
-      setSimulationResult({ trade: json.trade, validation: json.trade.validation });
-      await fetchInbox();
-    } catch (e) {
-      setSimulationResult({
-        error: e instanceof Error ? e.message : 'Reject failed',
-      });
-    } finally {
-      setAction(null);
-    }
-  };
-
-  const handleSettle = async (tradeId: string) => {
-    setAction('settling');
+  const handleAction = async (trade: Trade, option: TradeActionOption) => {
+    setAction('acting');
     try {
-      const res = await fetch('/api/trades/workflow/execute', {
+      const res = await fetch(option.endpoint, {
         method: 'POST',
         headers: workflowHeaders,
-        body: JSON.stringify({ tradeId }),
+        body: JSON.stringify({
+          tradeId: trade.id,
+          version: trade.version,
+          ...(option.action === 'reject' ? { reason: 'Rejected by checker' } : {}),
+        }),
       });
       const json = (await res.json()) as
         | { success: true; trade: Trade }
         | { success: false; error?: string; validation?: TransferValidation };
       if (!res.ok || !json.success) {
         setSimulationResult({
-          error: 'error' in json && json.error ? json.error : 'Execute failed',
+          error: 'error' in json && json.error ? json.error : `${option.label} failed`,
           validation: 'validation' in json ? json.validation : undefined,
         });
         return;
@@ -240,7 +209,7 @@ export default function TransferSimulator({
       await fetchInbox();
     } catch (e) {
       setSimulationResult({
-        error: e instanceof Error ? e.message : 'Execute failed',
+        error: e instanceof Error ? e.message : `${option.label} failed`,
       });
     } finally {
       setAction(null);
@@ -253,13 +222,42 @@ export default function TransferSimulator({
   const isValidating = action === 'validating';
   const canExecute = validation?.canTransfer === true;
   const isProposing = action === 'proposing';
-  const isApproving = action === 'approving';
-  const isRejecting = action === 'rejecting';
-  const isSettling = action === 'settling';
+  const isActing = action === 'acting';
   const isLoadingInbox = action === 'loadingInbox';
 
+  const roleOptions = availableRoles.map((r) => (
+    <option key={r} value={r}>
+      {r === 'trader' ? 'Trader (Maker)' : r === 'checker' ? 'Checker' : 'Agent'}
+    </option>
+  ));
+
   return (
     <div className="space-y-4">
+      {/* Sign-in (SIWE) */}
+      {!result && !role && (
+        <Card className="p-6">
+          <h3 className="font-semibold text-gray-900 mb-2">Trade Workflow Sign-In</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            {session
+              ? 'Your wallet has no workflow role assigned. Ask an agent to grant one.'
+              : 'Sign a message with your wallet to act as trader, checker or agent.'}
+          </p>
+          {sessionError && <p className="text-sm text-red-700 mb-3">{sessionError}</p>}
+          {!session && (
+            <Button onClick={signIn} disabled={sessionLoading} className="w-full">
+              {sessionLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Signing in...
+                </>
+              ) : (
+                'Sign In with Wallet'
+              )}
+            </Button>
+          )}
+        </Card>
+      )}
+
       {/* Input Section */}
       {!result && role === 'trader' && (
         <Card className="p-6">
@@ -268,15 +266,13 @@ export default function TransferSimulator({
             <select
               value={role}
               onChange={(e) => {
-                setRole(e.target.value as typeof role);
+                setRole(e.target.value as TradeWorkflowRole);
                 setSimulationResult(null);
               }}
               className="text-sm border border-gray-300 rounded-md px-2 py-1"
               disabled={isValidating || serviceLoading}
             >
-              <option value="trader">Trader (Maker)</option>
-              <option value="checker">Checker</option>
-              <option value="agent">Agent</option>
+              {roleOptions}
             </select>
           </div>
 
@@ -301,6 +297,27 @@ export default function TransferSimulator({
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Partition
+              </label>
+              <select
+                value={partition}
+                onChange={(e) => {
+                  setPartition(e.target.value as TokenPartition);
+                  setSimulationResult(null);
+                }}
+                disabled={isValidating || isProposing}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {TOKEN_PARTITIONS.map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Price per Unit (USD)
@@ -380,7 +397,7 @@ export default function TransferSimulator({
         </Card>
       )}
 
-      {!result && role !== 'trader' && (
+      {!result && role && role !== 'trader' && (
         <Card className="p-6">
           <div className="flex items-center justify-between mb-4">
             <h3 className="font-semibold text-gray-900">
@@ -389,16 +406,14 @@ export default function TransferSimulator({
             <select
               value={role}
               onChange={(e) => {
-                setRole(e.target.value as typeof role);
+                setRole(e.target.value as TradeWorkflowRole);
                 setSimulationResult(null);
                 setInbox([]);
               }}
               className="text-sm border border-gray-300 rounded-md px-2 py-1"
-              disabled={isLoadingInbox || isApproving || isRejecting || isSettling}
+              disabled={isLoadingInbox || isActing}
             >
-              <option value="trader">Trader (Maker)</option>
-              <option value="checker">Checker</option>
-              <option value="agent">Agent</option>
+              {roleOptions}
             </select>
           </div>
 
@@ -427,14 +442,14 @@ export default function TransferSimulator({
               </p>
             ) : (
               <div className="space-y-2">
-                {inbox.slice(0, 5).map((t) => (
+                {inbox.map((t) => (
                   <div
                     key={t.id}
                     className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border border-gray-200"
                   >
                     <div className="min-w-0">
                       <p className="text-sm font-semibold text-gray-900 truncate">
-                        {t.units} units • {t.status.toUpperCase()}
+                        {t.units} {t.partition ?? 'PRIMARY'} units • {t.status.toUpperCase()}
                       </p>
                       <p className="text-xs text-gray-500 font-mono truncate">
                         {t.id}
@@ -442,32 +457,25 @@ export default function TransferSimulator({
                     </div>
 
                     <div className="flex gap-2">
-                      {role === 'checker' ? (
-                        <>
+                      {(inboxActions[t.id] ?? [])
+                        .filter((a) => a.role === role && a.action !== 'amend')
+                        .map((a) => (
                           <Button
-                            onClick={() => handleApprove(t.id)}
-                            disabled={isApproving || isRejecting || isLoadingInbox}
-                            className="bg-blue-600 hover:bg-blue-700"
+                            key={a.action}
+                            onClick={() => handleAction(t, a)}
+                            disabled={isActing || isLoadingInbox}
+                            className={
+                              a.action === 'reject' || a.action === 'cancel'
+                                ? undefined
+                                : 'bg-blue-600 hover:bg-blue-700'
+                            }
+                            variant={
+                              a.action === 'reject' || a.action === 'cancel' ? 'outline' : 'default'
+                            }
                           >
-                            Approve
+                            {a.label}
                           </Button>
-                          <Button
-                            onClick={() => handleReject(t.id)}
-                            disabled={isApproving || isRejecting || isLoadingInbox}
-                            variant="outline"
-                          >
-                            Reject
-                          </Button>
-                        </>
-                      ) : (
-                        <Button
-                          onClick={() => handleSettle(t.id)}
-                          disabled={isSettling || isLoadingInbox}
-                          className="bg-blue-600 hover:bg-blue-700"
-                        >
-                          Execute
-                        </Button>
-                      )}
+                        ))}
                     </div>
                   </div>
                 ))}
@@ -602,6 +610,7 @@ export default function TransferSimulator({
             onClick={() => {
               setSimulationResult(null);
               setUnits(5);
+              setPartition('PRIMARY');
               setPrice(unitValue);
               setAction(null);
             }}
@@ -452,14 +452,15 @@ export function useValidateTransfer(
   identityRegistryAddress: string,
   from: string,
   to: string,
-  value: bigint
+  value: bigint,
+  partition: `0x${string}` = PRIMARY_PARTITION
 ): TransferValidation | null {
-  const { data: canTransferResult } = useCanTransfer(tokenAddress, to, value);
+  const { data: canTransferResult } = useCanTransfer(tokenAddress, to, value, partition);
   const { data: senderVerified } = useIsVerified(identityRegistryAddress, from);
   const { data: receiverVerified } = useIsVerified(identityRegistryAddress, to);
   const { data: senderFrozen } = useIsFrozen(tokenAddress, from);
   const { data: receiverFrozen } = useIsFrozen(tokenAddress, to);
-  const { data: senderBalance } = useBalanceByPartition(tokenAddress, PRIMARY_PARTITION, from);
+  const { data: senderBalance } = useBalanceByPartition(tokenAddress, partition, from);
   const { data: paused } = useIsPaused(tokenAddress);
   const { data: senderCountry } = useInvestorCountry(identityRegistryAddress, from);
   const { data: receiverCountry } = useInvestorCountry(identityRegistryAddress, to);
@@ -0,0 +1,127 @@
+'use client';
+
+/**
+ * useWorkflowSession Hook
+ *
+ * Signs the user into the trade workflow with their Privy embedded wallet
+ * (Sign-In with Ethereum). The server issues a nonce, the wallet signs an
+ * EIP-4361 message, and the server opens an httpOnly session cookie.
+ *
+ * Workflow roles (trader/checker/agent) come from the server-side role
+ * assignment table - the client can no longer choose its own role.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useWallets } from '@privy-io/react-auth';
+import { createWalletClient, custom, getAddress } from 'viem';
+import { createSiweMessage } from 'viem/siwe';
+import type { TradeWorkflowRole } from '@/lib/types/loan';
+import { logger } from '@/lib/utils/logger';
+
+export interface WorkflowSession {
+  wallet: string;
+  roles: TradeWorkflowRole[];
+  organization?: string;
+  expiresAt: string;
+}
+
+interface UseWorkflowSessionReturn {
+  session: WorkflowSession | null;
+  isLoading: boolean;
+  error: string | null;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export function useWorkflowSession(): UseWorkflowSessionReturn {
+  const { wallets } = useWallets();
+  const [session, setSession] = useState<WorkflowSession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/session');
+      const json = await res.json();
+      setSession(res.ok && json.success ? json.session : null);
+    } catch {
+      setSession(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const signIn = useCallback(async () => {
+    const embeddedWallet = wallets.find((w) => w.walletClientType === 'privy') ?? wallets[0];
+    if (!embeddedWallet) {
+      setError('No wallet available - log in first');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const address = getAddress(embeddedWallet.address);
+
+      const nonceRes = await fetch('/api/auth/nonce', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ wallet: address }),
+      });
+      const nonceJson = await nonceRes.json();
+      if (!nonceRes.ok || !nonceJson.success) {
+        throw new Error(nonceJson.error ?? 'Failed to get sign-in nonce');
+      }
+
+      const provider = await embeddedWallet.getEthereumProvider();
+      const walletClient = createWalletClient({
+        transport: custom(provider),
+        account: address,
+      });
+
+      const chainId = Number(embeddedWallet.chainId.split(':').pop()) || 1;
+      const message = createSiweMessage({
+        address,
+        chainId,
+        domain: window.location.host,
+        nonce: nonceJson.nonce,
+        uri: window.location.origin,
+        version: '1',
+        statement: 'Sign in to the LMA loan trade workflow.',
+        expirationTime: new Date(nonceJson.expiresAt),
+      });
+
+      const signature = await walletClient.signMessage({ account: address, message });
+
+      const verifyRes = await fetch('/api/auth/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature }),
+      });
+      const verifyJson = await verifyRes.json();
+      if (!verifyRes.ok || !verifyJson.success) {
+        throw new Error(verifyJson.error ?? 'Sign-in failed');
+      }
+
+      setSession(verifyJson.session);
+      logger.ui.info('Workflow session opened', { roles: verifyJson.session.roles });
+    } catch (err) {
+      logger.ui.error('Workflow sign-in failed', { error: String(err) });
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallets]);
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' });
+    setSession(null);
+  }, []);
+
+  return { session, isLoading, error, signIn, signOut };
+}
@@ -0,0 +1,9 @@
+// Next.js instrumentation hook - runs once when the server process starts
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  if (process.env.SCHEDULER_ENABLED === 'false') return;
+
+  const { startScheduler } = await import('@/lib/services/scheduler');
+  startScheduler();
+}
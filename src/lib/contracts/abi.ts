@@ -106,6 +106,19 @@ export const LoanTokenABI = [
     "stateMutability": "nonpayable",
     "type": "function"
   },
+  {
+    "inputs": [
+      { "internalType": "address", "name": "from", "type": "address" },
+      { "internalType": "address", "name": "to", "type": "address" },
+      { "internalType": "uint256", "name": "value", "type": "uint256" },
+      { "internalType": "bytes", "name": "data", "type": "bytes" },
+      { "internalType": "bytes", "name": "operatorData", "type": "bytes" }
+    ],
+    "name": "controllerTransfer",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
   {
     "inputs": [
       { "internalType": "uint256", "name": "value", "type": "uint256" },
@@ -214,6 +227,13 @@ export const LoanTokenABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [],
+    "name": "VERSION",
+    "outputs": [{ "internalType": "uint256", "name": "", "type": "uint256" }],
+    "stateMutability": "view",
+    "type": "function"
+  },
   {
     "inputs": [{ "internalType": "address", "name": "addr", "type": "address" }],
     "name": "getFrozenTokens",
@@ -235,6 +255,61 @@ export const LoanTokenABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [
+      { "internalType": "address", "name": "addr", "type": "address" },
+      { "internalType": "bool", "name": "freeze", "type": "bool" }
+    ],
+    "name": "freezeAddress",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      { "internalType": "address", "name": "addr", "type": "address" },
+      { "internalType": "uint256", "name": "amount", "type": "uint256" }
+    ],
+    "name": "freezeTokens",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      { "internalType": "address", "name": "addr", "type": "address" },
+      { "internalType": "uint256", "name": "amount", "type": "uint256" }
+    ],
+    "name": "unfreezeTokens",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "pause",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "unpause",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      { "internalType": "address", "name": "lostWallet", "type": "address" },
+      { "internalType": "address", "name": "newWallet", "type": "address" },
+      { "internalType": "address", "name": "investorIdentity", "type": "address" }
+    ],
+    "name": "recoveryAddress",
+    "outputs": [{ "internalType": "bool", "name": "", "type": "bool" }],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
   {
     "anonymous": false,
     "inputs": [
@@ -255,6 +330,57 @@ export const LoanTokenABI = [
     ],
     "name": "TransferByPartition",
     "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "address", "name": "from", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256" },
+      { "indexed": false, "internalType": "bytes32", "name": "partition", "type": "bytes32" }
+    ],
+    "name": "Redeemed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": false, "internalType": "address", "name": "controller", "type": "address" },
+      { "indexed": true, "internalType": "address", "name": "from", "type": "address" },
+      { "indexed": true, "internalType": "address", "name": "to", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "value", "type": "uint256" },
+      { "indexed": false, "internalType": "bytes", "name": "data", "type": "bytes" },
+      { "indexed": false, "internalType": "bytes", "name": "operatorData", "type": "bytes" }
+    ],
+    "name": "ControllerTransfer",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "address", "name": "addr", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256" }
+    ],
+    "name": "TokensFrozen",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "address", "name": "addr", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256" }
+    ],
+    "name": "TokensUnfrozen",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "address", "name": "lostWallet", "type": "address" },
+      { "indexed": true, "internalType": "address", "name": "newWallet", "type": "address" },
+      { "indexed": true, "internalType": "address", "name": "investorIdentity", "type": "address" }
+    ],
+    "name": "RecoverySuccess",
+    "type": "event"
   }
 ] as const;
 
@@ -675,3 +801,63 @@ export const TrustedIssuersRegistryABI = [
     type: "event"
   },
 ] as const;
+
+// DvP cash leg: SettlementCash tokenised deposit (holds placed by the settlement agent)
+export const SettlementCashABI = [
+  {
+    inputs: [{ name: "account", type: "address" }],
+    name: "availableBalanceOf",
+    outputs: [{ type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ name: "account", type: "address" }],
+    name: "balanceOf",
+    outputs: [{ type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ name: "", type: "address" }],
+    name: "heldBalanceOf",
+    outputs: [{ type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ name: "", type: "bytes32" }],
+    name: "holds",
+    outputs: [{ name: "holder", type: "address" }, { name: "payee", type: "address" }, { name: "amount", type: "uint256" }, { name: "status", type: "uint8" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ name: "holdId", type: "bytes32" }, { name: "payee", type: "address" }],
+    name: "payHold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ name: "holdId", type: "bytes32" }, { name: "holder", type: "address" }, { name: "amount", type: "uint256" }],
+    name: "placeHold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ name: "holdId", type: "bytes32" }],
+    name: "releaseHold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ name: "holdId", type: "bytes32" }],
+    name: "reversePayment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+] as const;
@@ -16,6 +16,7 @@ import type {
   TransferValidation,
   Trade,
   Participant,
+  TokenPartition,
 } from '../types/loan';
 
 // Use a more flexible type for smart account client to avoid version conflicts
@@ -43,11 +44,13 @@ export interface BlockchainService {
     totalUnits?: number
   ): Promise<TokenizationData>;
 
+  // The mock service has no partitions; its callers check partition balances in the DB
   validateTransfer(
     tokenAddress: string,
     fromAddress: string,
     toAddress: string,
-    units: number
+    units: number,
+    partition?: TokenPartition
   ): Promise<TransferValidation>;
 
   executeTransfer(
@@ -55,7 +58,8 @@ export interface BlockchainService {
     fromAddress: string,
     toAddress: string,
     units: number,
-    pricePerUnit: number
+    pricePerUnit: number,
+    partition?: TokenPartition
   ): Promise<Trade>;
 
   // Read operations
@@ -175,22 +179,24 @@ function createRealService(
       return realService.mintLoanToken(nelId, terms, documentHash, totalUnits);
     },
 
-    async validateTransfer(tokenAddress, fromAddress, toAddress, units) {
+    async validateTransfer(tokenAddress, fromAddress, toAddress, units, partition) {
       return realService.validateTransfer(
         tokenAddress,
         fromAddress,
         toAddress,
-        units
+        units,
+        partition
       );
     },
 
-    async executeTransfer(tokenAddress, fromAddress, toAddress, units, pricePerUnit) {
+    async executeTransfer(tokenAddress, fromAddress, toAddress, units, pricePerUnit, partition) {
       const trade = await realService.executeTransfer(
         tokenAddress,
         fromAddress,
         toAddress,
         units,
-        pricePerUnit
+        pricePerUnit,
+        partition
       );
       trades.push(trade);
       return trade;
@@ -15,15 +15,16 @@ import type {
   TransferValidation,
   Trade,
   ComplianceCheck,
+  TokenPartition,
 } from '../types/loan';
 import { logger } from '../utils/logger';
+import { partitionId } from '../utils/partitions';
 
 // Use a flexible type for smart account client to avoid version conflicts
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type SmartAccountClientType = any;
 
-// Partition constants (must match contract)
-const PRIMARY_PARTITION = '0x5052494d415259000000000000000000000000000000000000000000000000000' as `0x${string}`;
+const PRIMARY_PARTITION = partitionId('PRIMARY');
 
 // ERC-3643 Claim Topics (must match ClaimTopicsRegistry)
 export const CLAIM_TOPICS = {
@@ -166,7 +167,8 @@ export class RealBlockchainService {
     tokenAddress: string,
     fromAddress: string,
     toAddress: string,
-    units: number
+    units: number,
+    partition: TokenPartition = 'PRIMARY'
   ): Promise<TransferValidation> {
     const checks: ComplianceCheck[] = [];
 
@@ -175,15 +177,17 @@ export class RealBlockchainService {
       from: fromAddress.slice(0, 10) + '...',
       to: toAddress.slice(0, 10) + '...',
       units,
+      partition,
     });
 
     try {
-      // Call canTransferByPartition on the token contract
+      // canTransferByPartition checks msg.sender's balance, so call it as the sender
       const [reasonCode, appCode] = await this.publicClient.readContract({
         address: tokenAddress as `0x${string}`,
         abi: LoanTokenABI,
         functionName: 'canTransferByPartition',
-        args: [PRIMARY_PARTITION, toAddress as `0x${string}`, BigInt(units), '0x'],
+        args: [partitionId(partition), toAddress as `0x${string}`, BigInt(units), '0x'],
+        account: fromAddress as `0x${string}`,
       });
 
       const canTransfer = reasonCode === '0x51'; // SUCCESS code
@@ -243,7 +247,7 @@ export class RealBlockchainService {
         address: tokenAddress as `0x${string}`,
         abi: LoanTokenABI,
         functionName: 'balanceOfByPartition',
-        args: [PRIMARY_PARTITION, fromAddress as `0x${string}`],
+        args: [partitionId(partition), fromAddress as `0x${string}`],
       });
 
       const hasBalance = balance >= BigInt(units);
@@ -251,8 +255,8 @@ export class RealBlockchainService {
         name: 'Balance Check',
         passed: hasBalance,
         details: hasBalance
-          ? `Available: ${balance.toString()} units`
-          : `Insufficient: ${balance.toString()} < ${units}`,
+          ? `Available: ${balance.toString()} ${partition} units`
+          : `Insufficient: ${balance.toString()} ${partition} units < ${units}`,
       });
 
       const result = {
@@ -297,13 +301,15 @@ export class RealBlockchainService {
     fromAddress: string,
     toAddress: string,
     units: number,
-    pricePerUnit: number
+    pricePerUnit: number,
+    partition: TokenPartition = 'PRIMARY'
   ): Promise<Trade> {
     logger.blockchain.info('Executing transfer', {
       tokenAddress: tokenAddress.slice(0, 10) + '...',
       from: fromAddress.slice(0, 10) + '...',
       to: toAddress.slice(0, 10) + '...',
       units,
+      partition,
       totalValue: units * pricePerUnit,
     });
 
@@ -312,7 +318,8 @@ export class RealBlockchainService {
       tokenAddress,
       fromAddress,
       toAddress,
-      units
+      units,
+      partition
     );
 
     if (!validation.canTransfer) {
@@ -327,7 +334,7 @@ export class RealBlockchainService {
       abi: LoanTokenABI,
       functionName: 'transferByPartition',
       args: [
-        PRIMARY_PARTITION,
+        partitionId(partition),
         toAddress as `0x${string}`,
         BigInt(units),
         '0x',
@@ -384,6 +391,7 @@ export class RealBlockchainService {
       pricePerUnit,
       totalValue: units * pricePerUnit,
       status: 'settled',
+      partition,
       validation,
       createdAt: new Date(startTime),
       settledAt: new Date(endTime),
@@ -431,13 +439,14 @@ export class RealBlockchainService {
    */
   async getBalance(
     tokenAddress: string,
-    holderAddress: string
+    holderAddress: string,
+    partition: TokenPartition = 'PRIMARY'
   ): Promise<number> {
     const balance = await this.publicClient.readContract({
       address: tokenAddress as `0x${string}`,
       abi: LoanTokenABI,
       functionName: 'balanceOfByPartition',
-      args: [PRIMARY_PARTITION, holderAddress as `0x${string}`],
+      args: [partitionId(partition), holderAddress as `0x${string}`],
     });
 
     return Number(balance);
@@ -151,6 +151,9 @@ const tradeHistory: Trade[] = [];
 const frozenAddresses: Set<string> = new Set();
 const frozenTokens: Map<string, number> = new Map();
 
+// Tokens paused by the issuer
+const pausedTokens: Set<string> = new Set();
+
 export async function mintLoanToken(
   nelId: string,
   terms: { borrowerName: string; facilityAmount: number; interestRateBps: number; maturityDate: Date },
@@ -311,6 +314,19 @@ export async function validateTransfer(
     reasonCode = '0x55';
     reasonDescription = senderFrozen ? 'Sender address frozen' : 'Receiver address frozen';
   }
+
+  // ERC-3643: Token Pause
+  const tokenPaused = pausedTokens.has(tokenAddress);
+  checks.push({
+    name: 'Token Pause Status (ERC-3643)',
+    passed: !tokenPaused,
+    details: tokenPaused ? 'Token is paused by the issuer' : 'Token is not paused'
+  });
+  if (tokenPaused && canTransfer) {
+    canTransfer = false;
+    reasonCode = '0x55';
+    reasonDescription = 'Funds locked - Token paused';
+  }
   
   // ERC-3643 Check 4: Compliance Module - Lockup Period
   const lockupExpired = !fromParticipant?.lockupEndDate || 
@@ -468,6 +484,16 @@ export function unfreezeTokensForAddress(address: string, amount: number): void
   console.log(`[ERC-3643] Unfroze ${amount} tokens for ${address}`);
 }
 
+// ERC-3643: Pause/Unpause Token
+export function setTokenPaused(tokenAddress: string, paused: boolean): void {
+  if (paused) {
+    pausedTokens.add(tokenAddress);
+  } else {
+    pausedTokens.delete(tokenAddress);
+  }
+  console.log(`[ERC-3643] Token ${tokenAddress} ${paused ? 'paused' : 'unpaused'}`);
+}
+
 // ERC-3643: Register Identity
 export function registerIdentity(
   walletAddress: string,
@@ -485,6 +511,46 @@ export function registerIdentity(
   console.log(`[ERC-3643] Identity registered for ${walletAddress}`);
 }
 
+// ERC-3643: Recover a lost wallet's tokens to a wallet of the same identity
+export function recoverAddress(lostWallet: string, newWallet: string, investorIdentity: string): void {
+  if (mockIdentityRegistry.get(newWallet)?.id !== investorIdentity) {
+    throw new Error('IDENTITY_MISMATCH: new wallet is not registered to the investor identity');
+  }
+
+  for (const balances of tokenBalances.values()) {
+    const units = balances.get(lostWallet) ?? 0;
+    if (units > 0) {
+      balances.set(newWallet, (balances.get(newWallet) ?? 0) + units);
+      balances.delete(lostWallet);
+    }
+  }
+
+  const frozen = frozenTokens.get(lostWallet) ?? 0;
+  if (frozen > 0) {
+    frozenTokens.set(newWallet, frozen);
+    frozenTokens.delete(lostWallet);
+  }
+  console.log(`[ERC-3643] Recovered ${lostWallet} to ${newWallet}`);
+}
+
+// ERC-3643: Issue units to a verified holder at primary allocation
+export function issueTokens(tokenAddress: string, holder: string, units: number): void {
+  const balances = tokenBalances.get(tokenAddress) ?? new Map<string, number>();
+  balances.set(holder, (balances.get(holder) ?? 0) + units);
+  tokenBalances.set(tokenAddress, balances);
+  console.log(`[ERC-3643] Issued ${units} units of ${tokenAddress} to ${holder}`);
+}
+
+// ERC-3643: Burn a holder's units at payoff
+export function redeemTokens(tokenAddress: string, holder: string, units: number): void {
+  const balances = tokenBalances.get(tokenAddress);
+  const held = balances?.get(holder) ?? 0;
+  if (!balances || held === 0) return;
+
+  balances.set(holder, Math.max(0, held - units));
+  console.log(`[ERC-3643] Redeemed ${units} units of ${tokenAddress} from ${holder}`);
+}
+
 export function getTokenBalances(tokenAddress: string): Map<string, number> {
   return tokenBalances.get(tokenAddress) ?? new Map();
 }
@@ -0,0 +1,80 @@
+/**
+ * Business Days
+ *
+ * Holiday calendars and business-day adjustment. Calendars are plain text
+ * files named after their currency (USD.txt, EUR.txt, ...) in
+ * HOLIDAY_CALENDAR_DIR (default ./calendars): one YYYY-MM-DD date per line,
+ * optionally followed by the holiday's name, with `#` comments. Weekends are
+ * never business days and need not be listed. Files are read once per
+ * process; restart to pick up edits.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import type { BusinessDayConvention } from '@/lib/types/loan';
+import { addUtcDays } from '@/lib/services/day-count';
+
+const calendars = new Map<string, Set<string>>();
+
+function calendarDir(): string {
+  return process.env.HOLIDAY_CALENDAR_DIR || join(process.cwd(), 'calendars');
+}
+
+/**
+ * Currencies with a holiday calendar file
+ */
+export function listHolidayCalendars(): string[] {
+  const dir = calendarDir();
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => /^[A-Z]{3}\.txt$/.test(f))
+    .map((f) => f.slice(0, 3))
+    .sort();
+}
+
+/**
+ * A calendar's holidays as YYYY-MM-DD strings
+ */
+export function loadHolidayCalendar(calendar: string): Set<string> {
+  const cached = calendars.get(calendar);
+  if (cached) return cached;
+
+  const path = join(calendarDir(), `${calendar}.txt`);
+  if (!/^[A-Z]{3}$/.test(calendar) || !existsSync(path)) {
+    throw new Error(`Holiday calendar not found: ${calendar}`);
+  }
+
+  const holidays = new Set<string>();
+  for (const line of readFileSync(path, 'utf8').split(/\r?\n/)) {
+    const date = line.replace(/#.*/, '').trim().split(/\s+/)[0];
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date)) holidays.add(date);
+  }
+  calendars.set(calendar, holidays);
+  return holidays;
+}
+
+export function isBusinessDay(date: Date, holidays: Set<string>): boolean {
+  const weekday = date.getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !holidays.has(date.toISOString().slice(0, 10));
+}
+
+/**
+ * Move a date that is not a business day: `following` to the next business
+ * day, `modified_following` likewise unless that crosses into the next
+ * month, in which case to the previous one
+ */
+export function adjustBusinessDay(
+  date: Date,
+  convention: BusinessDayConvention,
+  holidays: Set<string>
+): Date {
+  let adjusted = date;
+  while (!isBusinessDay(adjusted, holidays)) adjusted = addUtcDays(adjusted, 1);
+
+  if (convention === 'modified_following' && adjusted.getUTCMonth() !== date.getUTCMonth()) {
+    adjusted = date;
+    while (!isBusinessDay(adjusted, holidays)) adjusted = addUtcDays(adjusted, -1);
+  }
+  return adjusted;
+}
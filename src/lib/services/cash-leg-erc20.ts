@@ -0,0 +1,145 @@
+/**
+ * ERC-20 Cash Leg
+ *
+ * Drives the SettlementCash tokenised deposit (contracts/SettlementCash.sol)
+ * as the settlement agent. Server-side only: signs with
+ * CASH_LEG_AGENT_PRIVATE_KEY against CASH_LEG_RPC_URL (local Hardhat node by
+ * default). Every call waits for its receipt and throws if it reverted.
+ */
+
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  keccak256,
+  toHex,
+  type Hash,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { hardhat } from 'viem/chains';
+
+import { SettlementCashABI } from '../contracts/abi';
+import { logger } from '../utils/logger';
+
+type Address = `0x${string}`;
+
+function getConfig() {
+  const tokenAddress = process.env.CASH_TOKEN_ADDRESS as Address | undefined;
+  const privateKey = process.env.CASH_LEG_AGENT_PRIVATE_KEY as Address | undefined;
+  if (!tokenAddress || !privateKey) {
+    throw new Error('erc20 cash leg requires CASH_TOKEN_ADDRESS and CASH_LEG_AGENT_PRIVATE_KEY');
+  }
+
+  const transport = http(process.env.CASH_LEG_RPC_URL || 'http://127.0.0.1:8545');
+  return {
+    tokenAddress,
+    publicClient: createPublicClient({ chain: hardhat, transport }),
+    walletClient: createWalletClient({
+      account: privateKeyToAccount(privateKey),
+      chain: hardhat,
+      transport,
+    }),
+  };
+}
+
+type CashLegClients = ReturnType<typeof getConfig>;
+
+/**
+ * Wait for a cash-leg transaction's receipt; throws if it reverted
+ */
+async function confirm(
+  { publicClient }: CashLegClients,
+  functionName: 'placeHold' | 'releaseHold' | 'payHold' | 'reversePayment',
+  txHash: Hash
+): Promise<Hash> {
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+  if (receipt.status !== 'success') {
+    throw new Error(`Cash leg ${functionName} reverted (tx ${txHash})`);
+  }
+
+  logger.blockchain.tx(`Cash leg ${functionName}`, txHash);
+  return txHash;
+}
+
+// SettlementCash.HoldStatus.None / Held
+const HOLD_STATUS_NONE = 0;
+const HOLD_STATUS_HELD = 1;
+
+async function holdStatus({ tokenAddress, publicClient }: CashLegClients, holdId: Hash): Promise<number> {
+  const [, , , status] = await publicClient.readContract({
+    address: tokenAddress,
+    abi: SettlementCashABI,
+    functionName: 'holds',
+    args: [holdId],
+  });
+  return status;
+}
+
+function holdIdFor(tradeId: string, version: number, attempt: number): Hash {
+  return keccak256(toHex(`trade:${tradeId}:v${version}:${attempt}`));
+}
+
+/**
+ * A hold id the contract has not seen yet. Ids are per trade version and
+ * attempt: SettlementCash never reuses one, so a trade re-locked after a
+ * release (at the same version or after an amendment) takes the next attempt.
+ */
+export async function unusedHoldIdFor(tradeId: string, version: number): Promise<Hash> {
+  const config = getConfig();
+  for (let attempt = 0; ; attempt++) {
+    const holdId = holdIdFor(tradeId, version, attempt);
+    if ((await holdStatus(config, holdId)) === HOLD_STATUS_NONE) return holdId;
+  }
+}
+
+export async function placeHold(holdId: Hash, holder: Address, amountCents: bigint): Promise<Hash> {
+  const config = getConfig();
+  const txHash = await config.walletClient.writeContract({
+    address: config.tokenAddress,
+    abi: SettlementCashABI,
+    functionName: 'placeHold',
+    args: [holdId, holder, amountCents],
+  });
+  return confirm(config, 'placeHold', txHash);
+}
+
+export async function releaseHold(holdId: Hash): Promise<Hash> {
+  const config = getConfig();
+  const txHash = await config.walletClient.writeContract({
+    address: config.tokenAddress,
+    abi: SettlementCashABI,
+    functionName: 'releaseHold',
+    args: [holdId],
+  });
+  return confirm(config, 'releaseHold', txHash);
+}
+
+/**
+ * Release a hold unless it was already released (safe to retry)
+ */
+export async function releaseHoldIfHeld(holdId: Hash): Promise<Hash | undefined> {
+  const status = await holdStatus(getConfig(), holdId);
+  return status === HOLD_STATUS_HELD ? releaseHold(holdId) : undefined;
+}
+
+export async function payHold(holdId: Hash, payee: Address): Promise<Hash> {
+  const config = getConfig();
+  const txHash = await config.walletClient.writeContract({
+    address: config.tokenAddress,
+    abi: SettlementCashABI,
+    functionName: 'payHold',
+    args: [holdId, payee],
+  });
+  return confirm(config, 'payHold', txHash);
+}
+
+export async function reversePayment(holdId: Hash): Promise<Hash> {
+  const config = getConfig();
+  const txHash = await config.walletClient.writeContract({
+    address: config.tokenAddress,
+    abi: SettlementCashABI,
+    functionName: 'reversePayment',
+    args: [holdId],
+  });
+  return confirm(config, 'reversePayment', txHash);
+}
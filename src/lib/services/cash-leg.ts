@@ -0,0 +1,142 @@
+/**
+ * DvP Cash Leg
+ *
+ * Pays for trades as they settle. When a trade becomes approved the buyer's
+ * cash is locked for its totalValue; at execution that lock is paid to the
+ * seller in step with the token units, and if either leg fails neither
+ * sticks. Trades leaving the workflow (or amended back to proposed) have
+ * their lock released.
+ *
+ * Two backends, picked by CASH_LEG_MODE:
+ * - 'internal' (default): a cash ledger in the database. Payment happens in
+ *   the same DB transaction that moves the units, so the exchange is atomic.
+ * - 'erc20': holds on the SettlementCash tokenised deposit. The on-chain
+ *   payment is made first and reversed if the units fail to settle.
+ */
+
+import type { CashLegMode, CashLock, Trade } from '@/lib/types/loan';
+import {
+  getCashLockForTrade,
+  getTradesWithStaleCashLocks,
+  lockTradeCash,
+  releaseTradeCash,
+} from '@/lib/store/loans';
+import {
+  payHold,
+  placeHold,
+  releaseHold,
+  releaseHoldIfHeld,
+  reversePayment,
+  unusedHoldIdFor,
+} from '@/lib/services/cash-leg-erc20';
+import { logger } from '@/lib/utils/logger';
+
+// Leaves an in-progress approval time to flip the trade's status after locking
+const STALE_LOCK_GRACE_MS = 5 * 60 * 1000;
+
+export function getCashLegMode(): CashLegMode {
+  return process.env.CASH_LEG_MODE === 'erc20' ? 'erc20' : 'internal';
+}
+
+function walletOf(trade: Trade, side: 'buyer' | 'seller'): `0x${string}` {
+  const wallet = trade[side].walletAddress;
+  if (!wallet) throw new Error(`Trade ${side} has no walletAddress for the cash leg`);
+  return wallet as `0x${string}`;
+}
+
+/**
+ * Lock the buyer's cash for the trade's totalValue (idempotent while locked)
+ */
+export async function lockCashForTrade(trade: Trade): Promise<CashLock> {
+  const existing = await getCashLockForTrade(trade.id);
+  if (existing?.status === 'locked') return existing;
+
+  const mode = getCashLegMode();
+  if (mode === 'internal') {
+    return lockTradeCash({ tradeId: trade.id, mode, amount: trade.totalValue });
+  }
+
+  const holdId = await unusedHoldIdFor(trade.id, trade.version ?? 0);
+  const amountCents = BigInt(Math.round(trade.totalValue * 100));
+  await placeHold(holdId, walletOf(trade, 'buyer'), amountCents);
+
+  try {
+    return await lockTradeCash({ tradeId: trade.id, mode, amount: trade.totalValue, externalRef: holdId });
+  } catch (err) {
+    await releaseHold(holdId);
+    throw err;
+  }
+}
+
+/**
+ * Release the trade's cash lock, if it holds one
+ */
+export async function releaseCashForTrade(tradeId: string): Promise<void> {
+  const lock = await getCashLockForTrade(tradeId);
+  if (lock?.status !== 'locked') return;
+
+  // Chain first: if the DB update then fails, the retry finds the hold gone
+  if (lock.mode === 'erc20' && lock.externalRef) {
+    await releaseHoldIfHeld(lock.externalRef as `0x${string}`);
+  }
+  await releaseTradeCash(tradeId);
+}
+
+/**
+ * Best-effort release after a trade left the approved state. A failure is
+ * logged and left for the stale-lock sweep rather than failing the request.
+ */
+export async function releaseCashQuietly(tradeId: string): Promise<void> {
+  try {
+    await releaseCashForTrade(tradeId);
+  } catch (err) {
+    logger.api.warn('Cash lock release failed; sweep will retry', {
+      tradeId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+export type CashPayment = {
+  paymentRef?: string;
+  // Undo the cash leg if the token leg fails to settle
+  reverse: () => Promise<void>;
+};
+
+/**
+ * Make the cash leg ready for settlement. Trades approved before DvP was
+ * enabled are locked here. In erc20 mode the seller is paid on-chain now;
+ * internal-ledger payment happens inside the settlement transaction.
+ */
+export async function prepareCashPayment(trade: Trade): Promise<CashPayment> {
+  const lock = await lockCashForTrade(trade);
+
+  if (lock.mode === 'internal' || !lock.externalRef) {
+    return { reverse: async () => {} };
+  }
+
+  const holdId = lock.externalRef as `0x${string}`;
+  const paymentRef = await payHold(holdId, walletOf(trade, 'seller'));
+
+  return {
+    paymentRef,
+    reverse: async () => {
+      await reversePayment(holdId);
+      logger.api.warn('Reversed cash payment after failed settlement', { tradeId: trade.id, paymentRef });
+    },
+  };
+}
+
+/**
+ * Release locks still held by trades that no longer need them
+ */
+export async function releaseStaleCashLocks(now: Date = new Date()): Promise<number> {
+  const tradeIds = await getTradesWithStaleCashLocks(new Date(now.getTime() - STALE_LOCK_GRACE_MS));
+  for (const tradeId of tradeIds) {
+    await releaseCashQuietly(tradeId);
+  }
+  if (tradeIds.length > 0) {
+    logger.api.info('Released stale cash locks', { count: tradeIds.length });
+  }
+  return tradeIds.length;
+}
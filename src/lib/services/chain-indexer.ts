@@ -0,0 +1,226 @@
+/**
+ * Chain Indexer
+ *
+ * Follows LoanToken events on INDEXER_RPC_URL (a local Hardhat node works)
+ * for every token minted on that chain, and projects them into per-wallet
+ * holdings, partition balances and frozen amounts. Participants' TokenBalance
+ * rows are overwritten from the projection, so the database follows the
+ * chain rather than drifting from it.
+ *
+ * Each token has a checkpoint (last block + hash). Before indexing further
+ * the checkpoint's hash is compared with the chain; if it changed, a reorg
+ * dropped blocks, so the indexer walks back to the newest indexed block still
+ * on the chain, discards what came after and rebuilds from the stored events.
+ * INDEXER_CONFIRMATIONS keeps the indexer that many blocks behind the head.
+ * Events keep their block's time, so positions can be replayed to a date.
+ */
+
+import {
+  BlockNotFoundError,
+  createPublicClient,
+  http,
+  type Hash,
+  type PublicClient,
+} from 'viem';
+
+import { TOKEN_PARTITIONS, type ChainEventName, type IndexedChainEvent } from '@/lib/types/loan';
+import { LoanTokenABI } from '@/lib/contracts/abi';
+import { partitionId } from '@/lib/utils/partitions';
+import {
+  commitIndexedBlocks,
+  getIndexedBlocks,
+  getIndexedTokenAddresses,
+  getIndexerCheckpoint,
+  getUntimedIndexedBlocks,
+  recordIndexedBlockTimestamps,
+  rollbackIndexedBlocks,
+} from '@/lib/store/loans';
+import { logger } from '@/lib/utils/logger';
+
+const INDEXED_EVENTS: ChainEventName[] = [
+  'Issued',
+  'Redeemed',
+  'TransferByPartition',
+  'ControllerTransfer',
+  'TokensFrozen',
+  'TokensUnfrozen',
+  'RecoverySuccess',
+];
+
+const PARTITION_NAMES: Record<string, string> = Object.fromEntries(
+  TOKEN_PARTITIONS.map((name) => [partitionId(name), name])
+);
+
+// Blocks of older events given their block time per token and run
+const TIMESTAMP_BACKFILL_BLOCKS = 100;
+
+export type IndexerRunSummary = {
+  chainId: number;
+  head: number;
+  tokens: Array<{ tokenAddress: string; events: number; toBlock?: number; rolledBack?: number }>;
+};
+
+function intFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+export function isIndexerConfigured(): boolean {
+  return Boolean(process.env.INDEXER_RPC_URL);
+}
+
+export function getIndexerClient(): PublicClient {
+  const rpcUrl = process.env.INDEXER_RPC_URL;
+  if (!rpcUrl) throw new Error('Chain indexer requires INDEXER_RPC_URL');
+  return createPublicClient({ transport: http(rpcUrl) });
+}
+
+async function blockAt(
+  client: PublicClient,
+  blockNumber: number
+): Promise<{ hash: Hash; timestamp: Date } | undefined> {
+  try {
+    const block = await client.getBlock({ blockNumber: BigInt(blockNumber) });
+    return block.hash ? { hash: block.hash, timestamp: new Date(Number(block.timestamp) * 1000) } : undefined;
+  } catch (err) {
+    // The chain is now shorter than this block (e.g. a reset local node)
+    if (err instanceof BlockNotFoundError) return undefined;
+    throw err;
+  }
+}
+
+async function blockHashAt(client: PublicClient, blockNumber: number): Promise<Hash | undefined> {
+  return (await blockAt(client, blockNumber))?.hash;
+}
+
+/**
+ * Give events indexed before block times were kept the time of their block
+ */
+async function backfillBlockTimestamps(client: PublicClient, chainId: number, tokenAddress: string): Promise<void> {
+  const blocks = await getUntimedIndexedBlocks(chainId, tokenAddress, TIMESTAMP_BACKFILL_BLOCKS);
+  if (blocks.length === 0) return;
+
+  const timestamps = new Map<number, Date>();
+  for (const blockNumber of blocks) {
+    const block = await blockAt(client, blockNumber);
+    if (block) timestamps.set(blockNumber, block.timestamp);
+  }
+  await recordIndexedBlockTimestamps({ chainId, tokenAddress, timestamps });
+}
+
+/**
+ * Newest indexed block that is still on the chain, or undefined if none is
+ */
+async function findForkPoint(
+  client: PublicClient,
+  chainId: number,
+  tokenAddress: string
+): Promise<{ blockNumber: number; blockHash: string } | undefined> {
+  for (const block of await getIndexedBlocks(chainId, tokenAddress)) {
+    if ((await blockHashAt(client, block.blockNumber)) === block.blockHash) return block;
+  }
+  return undefined;
+}
+
+function toIndexedEvent(
+  chainId: number,
+  tokenAddress: string,
+  log: {
+    eventName: string;
+    args: unknown;
+    blockNumber: bigint;
+    blockHash: Hash;
+    transactionHash: Hash;
+    logIndex: number;
+  },
+  blockTimestamp: Date | undefined
+): IndexedChainEvent {
+  const args: Record<string, string> = {};
+  for (const [key, value] of Object.entries(log.args as Record<string, unknown>)) {
+    args[key] = key === 'partition' ? (PARTITION_NAMES[value as string] ?? String(value)) : String(value);
+  }
+
+  return {
+    chainId,
+    tokenAddress,
+    blockNumber: Number(log.blockNumber),
+    blockHash: log.blockHash,
+    blockTimestamp,
+    txHash: log.transactionHash,
+    logIndex: log.logIndex,
+    eventName: log.eventName as ChainEventName,
+    args,
+  };
+}
+
+async function indexToken(
+  client: PublicClient,
+  chainId: number,
+  tokenAddress: string,
+  safeHead: number
+): Promise<IndexerRunSummary['tokens'][number]> {
+  let checkpoint = await getIndexerCheckpoint(chainId, tokenAddress);
+  let rolledBack: number | undefined;
+
+  if (checkpoint && (await blockHashAt(client, checkpoint.blockNumber)) !== checkpoint.blockHash) {
+    const fork = await findForkPoint(client, chainId, tokenAddress);
+    rolledBack = await rollbackIndexedBlocks({ chainId, tokenAddress, fork });
+    logger.api.warn('Chain reorg detected; rolled back indexed events', {
+      tokenAddress,
+      from: checkpoint.blockNumber,
+      to: fork?.blockNumber ?? 'start',
+      dropped: rolledBack,
+    });
+    checkpoint = await getIndexerCheckpoint(chainId, tokenAddress);
+  }
+  await backfillBlockTimestamps(client, chainId, tokenAddress);
+
+  const fromBlock = checkpoint ? checkpoint.blockNumber + 1 : intFromEnv('INDEXER_START_BLOCK', 0);
+  const toBlock = Math.min(safeHead, fromBlock + intFromEnv('INDEXER_BATCH_BLOCKS', 2000) - 1);
+  if (fromBlock > toBlock) return { tokenAddress, events: 0, rolledBack };
+
+  const logs = await client.getContractEvents({
+    address: tokenAddress as `0x${string}`,
+    abi: LoanTokenABI,
+    fromBlock: BigInt(fromBlock),
+    toBlock: BigInt(toBlock),
+  });
+
+  const indexed = logs.filter((log) => INDEXED_EVENTS.includes(log.eventName as ChainEventName));
+  const timestamps = new Map<bigint, Date | undefined>();
+  for (const log of indexed) {
+    if (!timestamps.has(log.blockNumber)) {
+      timestamps.set(log.blockNumber, (await blockAt(client, Number(log.blockNumber)))?.timestamp);
+    }
+  }
+  const events = indexed
+    .map((log) => toIndexedEvent(chainId, tokenAddress, log, timestamps.get(log.blockNumber)))
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  const toBlockHash = await blockHashAt(client, toBlock);
+  if (!toBlockHash) return { tokenAddress, events: 0, rolledBack };
+
+  await commitIndexedBlocks({ chainId, tokenAddress, events, toBlock, toBlockHash });
+  return { tokenAddress, events: events.length, toBlock, rolledBack };
+}
+
+/**
+ * Index one batch of blocks for every token on the configured chain
+ */
+export async function runChainIndexer(): Promise<IndexerRunSummary> {
+  const client = getIndexerClient();
+  const chainId = await client.getChainId();
+  const head = Number(await client.getBlockNumber());
+  const safeHead = head - intFromEnv('INDEXER_CONFIRMATIONS', 0);
+
+  const summary: IndexerRunSummary = { chainId, head, tokens: [] };
+  for (const tokenAddress of await getIndexedTokenAddresses(chainId)) {
+    summary.tokens.push(await indexToken(client, chainId, tokenAddress, safeHead));
+  }
+
+  const applied = summary.tokens.reduce((sum, t) => sum + t.events, 0);
+  if (applied > 0) {
+    logger.api.info('Chain indexer applied events', { chainId, head, events: applied });
+  }
+  return summary;
+}
@@ -0,0 +1,220 @@
+/**
+ * Controller Transfers
+ *
+ * Server-side signer for moving loan-token units on behalf of the workflow.
+ * The settlement agent's key (SETTLEMENT_AGENT_PRIVATE_KEY) must be the
+ * token's controller; it calls LoanToken.controllerTransfer with a reference
+ * (`trade:<id>`, `admin:<id>`) as data so each transfer can be traced back to
+ * what caused it. Units pulled in for a payoff are burned from the agent's
+ * own balance with LoanToken.redeem.
+ *
+ * Transfers are submitted without waiting; callers poll for the receipt,
+ * which reports the block time it was mined at.
+ */
+
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  http,
+  toHex,
+  TransactionReceiptNotFoundError,
+  WaitForTransactionReceiptTimeoutError,
+  type Hash,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { base, baseSepolia } from 'viem/chains';
+
+import { LoanTokenABI } from '../contracts/abi';
+import { logger } from '../utils/logger';
+import { partitionId } from '../utils/partitions';
+
+type Address = `0x${string}`;
+
+export type TransferReceipt =
+  | { status: 'pending' }
+  | { status: 'success' | 'reverted'; minedAt: Date };
+
+/**
+ * Public and wallet clients for a server-side key on the app's chain
+ */
+export function getSignerClients(privateKey: Address) {
+  const chain = process.env.NEXT_PUBLIC_CHAIN === 'base' ? base : baseSepolia;
+  const rpcUrl =
+    chain.id === base.id
+      ? process.env.NEXT_PUBLIC_BASE_RPC_URL || 'https://mainnet.base.org'
+      : process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org';
+  const transport = http(rpcUrl);
+
+  return {
+    publicClient: createPublicClient({ chain, transport }),
+    walletClient: createWalletClient({
+      account: privateKeyToAccount(privateKey),
+      chain,
+      transport,
+    }),
+  };
+}
+
+function getConfig() {
+  const privateKey = process.env.SETTLEMENT_AGENT_PRIVATE_KEY as Address | undefined;
+  if (!privateKey) {
+    throw new Error('Real-mode settlement requires SETTLEMENT_AGENT_PRIVATE_KEY');
+  }
+  return getSignerClients(privateKey);
+}
+
+/**
+ * Submit a controller transfer and return its tx hash
+ */
+export async function submitControllerTransfer(params: {
+  reference: string;
+  tokenAddress: string;
+  from: string;
+  to: string;
+  units: number;
+}): Promise<Hash> {
+  const { walletClient } = getConfig();
+
+  const txHash = await walletClient.sendTransaction({
+    to: params.tokenAddress as Address,
+    data: encodeFunctionData({
+      abi: LoanTokenABI,
+      functionName: 'controllerTransfer',
+      args: [
+        params.from as Address,
+        params.to as Address,
+        BigInt(params.units),
+        toHex(params.reference),
+        '0x',
+      ],
+    }),
+  });
+
+  logger.blockchain.tx('Controller transfer submitted', txHash);
+  return txHash;
+}
+
+/**
+ * Wallet of the settlement agent, where units to be burned are collected
+ */
+export function getSettlementAgentAddress(): Address {
+  return getConfig().walletClient.account.address;
+}
+
+/**
+ * LoanToken.VERSION of a deployed token; 1 for tokens deployed before it
+ * existed
+ */
+export async function getLoanTokenVersion(tokenAddress: string): Promise<number> {
+  const { publicClient } = getConfig();
+  try {
+    return Number(
+      await publicClient.readContract({ address: tokenAddress as Address, abi: LoanTokenABI, functionName: 'VERSION' })
+    );
+  } catch (err) {
+    if (
+      err instanceof ContractFunctionExecutionError &&
+      (err.cause instanceof ContractFunctionRevertedError || err.cause instanceof ContractFunctionZeroDataError)
+    ) {
+      return 1;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Burn units the settlement agent holds and return the tx hash
+ */
+export async function submitRedeem(params: {
+  tokenAddress: string;
+  units: number;
+  partition: string;
+}): Promise<Hash> {
+  const { walletClient } = getConfig();
+
+  const txHash = await walletClient.sendTransaction({
+    to: params.tokenAddress as Address,
+    data: encodeFunctionData({
+      abi: LoanTokenABI,
+      functionName: 'redeem',
+      args: [BigInt(params.units), partitionId(params.partition)],
+    }),
+  });
+
+  logger.blockchain.tx('Redeem submitted', txHash);
+  return txHash;
+}
+
+async function toTransferReceipt(
+  publicClient: ReturnType<typeof getSignerClients>['publicClient'],
+  receipt: { status: 'success' | 'reverted'; blockNumber: bigint }
+): Promise<TransferReceipt> {
+  const block = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+  return { status: receipt.status, minedAt: new Date(Number(block.timestamp) * 1000) };
+}
+
+/**
+ * Wait up to `timeoutMs` for a transfer's receipt
+ */
+export async function waitForTransferReceipt(txHash: Hash, timeoutMs: number): Promise<TransferReceipt> {
+  const { publicClient } = getConfig();
+  try {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash, timeout: timeoutMs });
+    return toTransferReceipt(publicClient, receipt);
+  } catch (err) {
+    if (err instanceof WaitForTransactionReceiptTimeoutError) return { status: 'pending' };
+    throw err;
+  }
+}
+
+/**
+ * A transfer's receipt right now, without waiting
+ */
+export async function getTransferReceipt(txHash: Hash): Promise<TransferReceipt> {
+  const { publicClient } = getConfig();
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+    return toTransferReceipt(publicClient, receipt);
+  } catch (err) {
+    if (err instanceof TransactionReceiptNotFoundError) return { status: 'pending' };
+    throw err;
+  }
+}
+
+// How long a multi-step flow waits for each of its transactions
+const STEP_RECEIPT_WAIT_MS = 60 * 1000;
+
+/**
+ * Make sure one step of a multi-step flow is mined. A recorded tx that
+ * succeeded is kept; one that reverted, or none at all, is (re)sent and
+ * recorded before waiting. Throws a Conflict if it reverts or is still
+ * pending, leaving the flow to be retried from the recorded hashes.
+ */
+export async function ensureTxMined(params: {
+  recorded?: string;
+  send: () => Promise<Hash>;
+  record: (txHash: Hash) => Promise<void>;
+  step: string;
+}): Promise<void> {
+  if (params.recorded) {
+    const receipt = await getTransferReceipt(params.recorded as Hash);
+    if (receipt.status === 'success') return;
+    if (receipt.status === 'pending') {
+      throw new Error(`Conflict: ${params.step} not yet mined (tx ${params.recorded}); retry later`);
+    }
+  }
+
+  const txHash = await params.send();
+  await params.record(txHash);
+  const receipt = await waitForTransferReceipt(txHash, STEP_RECEIPT_WAIT_MS);
+  if (receipt.status === 'reverted') {
+    throw new Error(`Conflict: ${params.step} reverted (tx ${txHash})`);
+  }
+  if (receipt.status === 'pending') {
+    throw new Error(`Conflict: ${params.step} not yet mined (tx ${txHash}); retry later`);
+  }
+}
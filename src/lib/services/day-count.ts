@@ -0,0 +1,67 @@
+/**
+ * Day Count Conventions
+ *
+ * Year fractions for interest calculations. Dates are taken as UTC calendar
+ * days; the start date counts and the end date does not.
+ *
+ * - ACT/360:  actual days / 360 (the LMA default for USD loans)
+ * - ACT/365F: actual days / 365, leap years included
+ * - 30/360:   ISDA bond basis, every month counted as 30 days
+ */
+
+import { DAY_COUNT_CONVENTIONS, type DayCountConvention } from '@/lib/types/loan';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function isDayCountConvention(value: unknown): value is DayCountConvention {
+  return DAY_COUNT_CONVENTIONS.includes(value as DayCountConvention);
+}
+
+/**
+ * Midnight UTC of the calendar day `date` falls on
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function addUtcDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Same day `months` later, clamped to the end of a shorter month
+ */
+export function addUtcMonths(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+export function actualDays(start: Date, end: Date): number {
+  return Math.round((startOfUtcDay(end).getTime() - startOfUtcDay(start).getTime()) / MS_PER_DAY);
+}
+
+function days30360(start: Date, end: Date): number {
+  const d1 = Math.min(start.getUTCDate(), 30);
+  const d2 = end.getUTCDate() === 31 && d1 === 30 ? 30 : end.getUTCDate();
+  return (
+    360 * (end.getUTCFullYear() - start.getUTCFullYear()) +
+    30 * (end.getUTCMonth() - start.getUTCMonth()) +
+    (d2 - d1)
+  );
+}
+
+/**
+ * Fraction of a year between two dates under a convention
+ */
+export function yearFraction(convention: DayCountConvention, start: Date, end: Date): number {
+  switch (convention) {
+    case 'ACT/360':
+      return actualDays(start, end) / 360;
+    case 'ACT/365F':
+      return actualDays(start, end) / 365;
+    case '30/360':
+      return days30360(start, end) / 360;
+  }
+}
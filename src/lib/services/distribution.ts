@@ -0,0 +1,143 @@
+/**
+ * Distributions
+ *
+ * Passes a borrower's interest or principal payment through to the loan
+ * token's holders. A distribution is created with a record date and a
+ * payment date (both default to now). Once the record date is reached the
+ * token's positions as of that date become the holders of record, kept as a
+ * record-date position snapshot, and the amount is split among them by
+ * units: each gets the floor of their share in cents, and the leftover cents
+ * go to the largest remainders (ties to the larger holding). Once the
+ * payment date is reached the payables are marked paid, and credited to
+ * cash accounts when the cash leg is internal; with the erc20 cash leg they
+ * are recorded for the paying agent.
+ *
+ * Principal distributions pass through amortisation; they do not burn units.
+ * Dates in the future are picked up by the scheduler's distribution job; a
+ * record date in the past uses the positions held then.
+ */
+
+import type { Distribution, DistributionType, TradeWorkflowActor } from '@/lib/types/loan';
+import {
+  createDistribution,
+  getDueDistributions,
+  getPositionsAsOf,
+  getTokenForDistribution,
+  payDistribution,
+  recordDistributionSnapshot,
+} from '@/lib/store/loans';
+import { getCashLegMode } from '@/lib/services/cash-leg';
+import { logger } from '@/lib/utils/logger';
+import { allocateProRata } from '@/lib/utils/pro-rata';
+
+/**
+ * Snapshot the holders of record and work out what each is owed
+ */
+async function snapshotHolders(distribution: Distribution): Promise<Distribution> {
+  // Largest holding first, so remainder ties favour it
+  const holders = await getPositionsAsOf(distribution.tokenAddress, distribution.recordDate);
+  if (holders.length === 0) {
+    throw new Error('Conflict: no units are held at the record date');
+  }
+
+  const amountCents = BigInt(Math.round(distribution.amount * 100));
+  const shares = allocateProRata(amountCents, holders.map((h) => h.units));
+
+  return recordDistributionSnapshot({
+    id: distribution.id,
+    tokenAddress: distribution.tokenAddress,
+    recordDate: distribution.recordDate,
+    takenBy: distribution.createdBy,
+    payables: holders.map((h, i) => ({
+      participantId: h.participantId,
+      walletAddress: h.walletAddress,
+      units: h.units,
+      amountCents: shares[i],
+    })),
+  });
+}
+
+/**
+ * Carry a distribution as far as `asOf` allows: snapshot once the record
+ * date is reached, pay once the payment date is
+ */
+async function advanceDistribution(distribution: Distribution, asOf: Date): Promise<Distribution> {
+  let current = distribution;
+  if (current.status === 'scheduled' && current.recordDate <= asOf) {
+    current = await snapshotHolders(current);
+    logger.api.info('Distribution holders of record snapshotted', {
+      id: current.id,
+      holders: current.payables.length,
+      totalUnits: current.totalUnits,
+    });
+  }
+  if (current.status === 'payable' && current.paymentDate <= asOf) {
+    current = await payDistribution(current.id);
+    logger.api.info('Distribution paid', {
+      id: current.id,
+      nelId: current.nelId,
+      type: current.type,
+      amount: current.amount,
+    });
+  }
+  return current;
+}
+
+/**
+ * Distribute a borrower payment of `amount` (USD) on a loan to its token
+ * holders, as far as the dates allow right away
+ */
+export async function distributePayment(params: {
+  nelId: string;
+  type: DistributionType;
+  amount: number;
+  recordDate?: Date;
+  paymentDate?: Date;
+  actor: TradeWorkflowActor;
+}): Promise<Distribution> {
+  const token = await getTokenForDistribution(params.nelId);
+  if (!token) throw new Error(`Loan not found: ${params.nelId}`);
+  if (!token.tokenAddress || (token.status !== 'minted' && token.status !== 'trading')) {
+    throw new Error(`Conflict: loan has no live token (${token.status ?? 'not tokenized'})`);
+  }
+
+  const now = new Date();
+  const recordDate = params.recordDate ?? now;
+  if (recordDate <= now && (await getPositionsAsOf(token.tokenAddress, recordDate)).length === 0) {
+    throw new Error('Conflict: no units are held at the record date');
+  }
+
+  const distribution = await createDistribution({
+    loanId: token.loanId,
+    tokenAddress: token.tokenAddress,
+    type: params.type,
+    amountCents: BigInt(Math.round(params.amount * 100)),
+    recordDate,
+    paymentDate: params.paymentDate ?? recordDate,
+    cashLegMode: getCashLegMode(),
+    createdBy: params.actor.wallet,
+  });
+
+  return advanceDistribution(distribution, now);
+}
+
+/**
+ * Snapshot and pay every distribution whose dates have been reached;
+ * returns how many were acted on
+ */
+export async function processDueDistributions(asOf: Date = new Date()): Promise<number> {
+  let processed = 0;
+  for (const distribution of await getDueDistributions(asOf)) {
+    try {
+      await advanceDistribution(distribution, asOf);
+      processed++;
+    } catch (err) {
+      // Left for the next run, e.g. a token with no holders yet
+      logger.api.warn('Distribution not processed', {
+        id: distribution.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return processed;
+}
@@ -0,0 +1,152 @@
+/**
+ * Idempotency Keys
+ *
+ * Mutating trade routes honour an `Idempotency-Key` header. The first request
+ * with a key runs normally and its response is stored; retries with the same
+ * key and body replay that response instead of running the handler again, so
+ * a client retrying a timed-out execute cannot settle a trade twice. Keys are
+ * scoped to the signed-in wallet and the path, so one caller can never be
+ * replayed another's response.
+ *
+ * - Same key, different body            -> 422
+ * - Same key while first is still running -> 409
+ * - Handler failed with 5xx, or answered
+ *   409 / 423 / 429 (retryable)         -> key released, retry runs again
+ */
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '@/lib/db/prisma';
+import { getSession, getSessionToken } from '@/lib/services/wallet-auth';
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_KEY_LENGTH = 255;
+
+// Client errors that depend on state at the time (a version conflict, a held
+// lock, rate limiting) rather than on the request, so a retry may succeed
+const RETRYABLE_CLIENT_STATUSES = new Set([409, 423, 429]);
+
+// Whether a response is final for its request and so is stored for replay
+function isFinalResponse(status: number): boolean {
+  return status < 500 && !RETRYABLE_CLIENT_STATUSES.has(status);
+}
+
+// Signed-in wallet and path of a request; '-' when there is no session
+async function requestScope(req: Request): Promise<string> {
+  const token = getSessionToken(req);
+  const session = token ? await getSession(token) : null;
+  return `${session?.wallet.toLowerCase() ?? '-'}:${new URL(req.url).pathname}`;
+}
+
+function hashRequest(method: string, body: string): string {
+  return createHash('sha256').update(`${method}\n${body}`).digest('hex');
+}
+
+async function claimKey(scope: string, key: string, requestHash: string) {
+  try {
+    await prisma.idempotencyKey.create({
+      data: {
+        scope,
+        key,
+        requestHash,
+        expiresAt: new Date(Date.now() + KEY_TTL_MS),
+      },
+    });
+    return null;
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      return prisma.idempotencyKey.findUnique({ where: { scope_key: { scope, key } } });
+    }
+    throw err;
+  }
+}
+
+/**
+ * Run a route handler at most once per Idempotency-Key (scoped to the wallet
+ * and path).
+ * Requests without the header run unchanged.
+ */
+export async function withIdempotency(
+  req: Request,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = req.headers.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!key) return handler();
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json(
+      { success: false, error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const scope = await requestScope(req);
+  const requestHash = hashRequest(req.method, await req.clone().text());
+
+  let existing = await claimKey(scope, key, requestHash);
+
+  // A lapsed key is free to reuse
+  if (existing && existing.expiresAt < new Date()) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+    existing = await claimKey(scope, key, requestHash);
+  }
+
+  if (existing) {
+    if (existing.requestHash !== requestHash) {
+      return NextResponse.json(
+        { success: false, error: 'Idempotency-Key was already used with a different request' },
+        { status: 422 }
+      );
+    }
+
+    if (existing.completedAt == null || existing.responseStatus == null) {
+      return NextResponse.json(
+        { success: false, error: 'Conflict: a request with this Idempotency-Key is still in progress' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(existing.responseBody, {
+      status: existing.responseStatus,
+      headers: { 'Idempotent-Replayed': 'true' },
+    });
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (err) {
+    await prisma.idempotencyKey.deleteMany({ where: { scope, key } });
+    throw err;
+  }
+
+  if (!isFinalResponse(response.status)) {
+    // Let the client retry with the same key
+    await prisma.idempotencyKey.deleteMany({ where: { scope, key } });
+    return response;
+  }
+
+  const body = await response.clone().json().catch(() => null);
+  await prisma.idempotencyKey.update({
+    where: { scope_key: { scope, key } },
+    data: {
+      responseStatus: response.status,
+      responseBody: body ?? Prisma.JsonNull,
+      completedAt: new Date(),
+    },
+  });
+
+  return response;
+}
+
+/**
+ * Drop keys past their retention window
+ */
+export async function purgeExpiredIdempotencyKeys(now: Date = new Date()): Promise<number> {
+  const result = await prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lt: now } } });
+  return result.count;
+}
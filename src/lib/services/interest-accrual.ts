@@ -0,0 +1,162 @@
+/**
+ * Interest Accrual
+ *
+ * Evaluates each loan's NF2 "Interest Payment" formula,
+ * PRINCIPAL * (RATE_BPS / 10000) * DAY_FRACTION, one UTC calendar day at a
+ * time. The formula's parameters choose the rate (`rateBps`, else the loan's
+ * interestRateBps) and the day count (`dayCountConvention` or `dayCount`,
+ * else ACT/360). Principal is the lenders' funded amount. Floating-rate
+ * loans take each day's rate from the period's reset instead, and are only
+ * accrued as far as their rates have been reset.
+ *
+ * A day is accrued once it is over, from the day the loan was created until
+ * the day before maturity (or before the payoff, if the token was redeemed
+ * earlier). Each day is rounded to the cent and split by units among those
+ * holding the token at the end of that day; the share of unissued units is
+ * not attributed.
+ *
+ * The scheduler's accrual job keeps every loan current; a loan that is far
+ * behind catches up over several runs.
+ */
+
+import type { DayCountConvention } from '@/lib/types/loan';
+import {
+  getLoanAccrualStates,
+  getPositionHistory,
+  recordInterestAccruals,
+  type LoanAccrualState,
+  type NewInterestAccrual,
+} from '@/lib/store/loans';
+import { addUtcDays, isDayCountConvention, startOfUtcDay, yearFraction } from '@/lib/services/day-count';
+import { logger } from '@/lib/utils/logger';
+import { allocateProRata } from '@/lib/utils/pro-rata';
+
+// Days one loan may catch up in a single run
+const MAX_DAYS_PER_RUN = 366;
+
+/**
+ * Rate and day count a loan's interest formula calls for
+ */
+export function interestTerms(state: LoanAccrualState): { rateBps: number; dayCount: DayCountConvention } {
+  const params = state.formulaParameters ?? {};
+  const rateBps = typeof params.rateBps === 'number' ? params.rateBps : state.interestRateBps;
+  const dayCount = params.dayCountConvention ?? params.dayCount;
+  return { rateBps, dayCount: isDayCountConvention(dayCount) ? dayCount : 'ACT/360' };
+}
+
+/**
+ * Split a day's interest among holders by units out of `totalUnits`
+ */
+function holderShares(
+  amountCents: bigint,
+  holders: Array<{ participantId: string; units: number }>,
+  totalUnits: number
+): NewInterestAccrual['shares'] {
+  if (holders.length === 0 || amountCents === BigInt(0)) return [];
+
+  const held = holders.reduce((sum, h) => sum + h.units, 0);
+  // The unissued units take a share too, which is then dropped
+  const split = allocateProRata(amountCents, [...holders.map((h) => h.units), Math.max(0, totalUnits - held)]);
+  return holders.map((h, i) => ({ participantId: h.participantId, units: h.units, amountCents: split[i] }));
+}
+
+// Last instant of a UTC day
+function endOfUtcDay(day: Date): Date {
+  return new Date(addUtcDays(day, 1).getTime() - 1);
+}
+
+/**
+ * Holders in `units`, largest holding first so remainder ties favour it
+ */
+function holdersIn(units: Map<string, number>, asOf: Date): Array<{ participantId: string; units: number }> {
+  const short = [...units].filter(([, u]) => u < 0);
+  if (short.length > 0) {
+    throw new Error(
+      `Conflict: positions as of ${asOf.toISOString()} do not reconcile (negative for ${short.map(([id]) => id).join(', ')})`
+    );
+  }
+  return [...units]
+    .filter(([, u]) => u > 0)
+    .map(([participantId, u]) => ({ participantId, units: u }))
+    .sort((a, b) => b.units - a.units);
+}
+
+/**
+ * Accrue one loan through `through` (inclusive); returns the days added
+ */
+async function accrueLoan(state: LoanAccrualState, through: Date): Promise<number> {
+  const first = state.lastAccrualDate
+    ? addUtcDays(state.lastAccrualDate, 1)
+    : startOfUtcDay(state.accrueFrom);
+  const lastAccruable = addUtcDays(startOfUtcDay(state.accrueUntil), -1);
+  const last = lastAccruable < through ? lastAccruable : through;
+  if (first > last) return 0;
+
+  const { rateBps: fixedRateBps, dayCount } = interestTerms(state);
+
+  // Ownership over the whole range in one read, walked forward a day at a time
+  const history =
+    state.tokenAddress && state.totalUnits
+      ? await getPositionHistory(state.tokenAddress, endOfUtcDay(addUtcDays(first, -1)), endOfUtcDay(last))
+      : undefined;
+  const units = new Map(history?.opening);
+  let applied = 0;
+
+  const accruals: NewInterestAccrual[] = [];
+  for (let day = first; day <= last && accruals.length < MAX_DAYS_PER_RUN; day = addUtcDays(day, 1)) {
+    const rateBps = state.floating
+      ? state.rateResets.find((r) => r.periodStart <= day && day < r.periodEnd)?.allInRateBps
+      : fixedRateBps;
+    // The period's rate is not set yet
+    if (rateBps === undefined) break;
+
+    const dayFraction = yearFraction(dayCount, day, addUtcDays(day, 1));
+    const amountCents = BigInt(Math.round((Number(state.principalCents) * rateBps * dayFraction) / 10000));
+    // Holders at the close of the day
+    const closing = endOfUtcDay(day);
+    const changes = history?.changes ?? [];
+    for (; applied < changes.length && changes[applied].at <= closing; applied++) {
+      const { participantId, delta } = changes[applied];
+      units.set(participantId, (units.get(participantId) ?? 0) + delta);
+    }
+    const holders = history ? holdersIn(units, closing) : [];
+    accruals.push({
+      accrualDate: day,
+      principalCents: state.principalCents,
+      rateBps,
+      dayCount,
+      dayFraction,
+      amountCents,
+      shares: holderShares(amountCents, holders, state.totalUnits ?? 0),
+    });
+  }
+  if (accruals.length === 0) return 0;
+
+  return recordInterestAccruals({ loanId: state.loanId, after: state.lastAccrualDate, accruals });
+}
+
+/**
+ * Accrue every loan (or one) through the last full UTC day before `asOf`;
+ * returns the number of loan-days accrued
+ */
+export async function accrueInterest(options?: { nelId?: string; asOf?: Date }): Promise<number> {
+  const through = addUtcDays(startOfUtcDay(options?.asOf ?? new Date()), -1);
+
+  let accrued = 0;
+  for (const state of await getLoanAccrualStates(options?.nelId)) {
+    try {
+      accrued += await accrueLoan(state, through);
+    } catch (err) {
+      // Picked up again on the next run
+      logger.api.warn('Interest accrual not completed', {
+        nelId: state.nelId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  if (accrued > 0) {
+    logger.api.info('Interest accrued', { loanDays: accrued, through: through.toISOString().slice(0, 10) });
+  }
+  return accrued;
+}
@@ -0,0 +1,190 @@
+/**
+ * Central Limit Order Book
+ *
+ * One book per token. Bids and asks rest at a limit price per unit and are
+ * matched by price-time priority: best price first, then oldest order. A
+ * crossing executes at the resting (maker) order's price.
+ *
+ * Matching never moves balances. Each match is proposed as a trade through
+ * the regular workflow (maker/checker approval, agent execution), with the
+ * incoming order's trader as proposer. Before a pair is matched it is run
+ * through the transfer checks; a resting order whose owner can't trade with
+ * the incoming side is skipped rather than matched.
+ */
+
+import type {
+  LimitOrder,
+  OrderBookDepth,
+  OrderBookLevel,
+  OrderBookMatch,
+  TradeWorkflowActor,
+} from '@/lib/types/loan';
+import {
+  claimOrderBookMatch,
+  completeOrderBookMatch,
+  getLimitOrders,
+  releaseOrderBookMatch,
+} from '@/lib/store/loans';
+import { validateTransferServer } from '@/lib/services/trade-validation-server';
+import { createProposedTrade } from '@/lib/services/trade-proposal';
+import { logger } from '@/lib/utils/logger';
+
+export type MatchOutcome = {
+  matches: OrderBookMatch[];
+  skipped: Array<{ orderId: string; reason: string }>;
+};
+
+function crosses(incoming: LimitOrder, resting: LimitOrder): boolean {
+  return incoming.side === 'bid'
+    ? incoming.pricePerUnit >= resting.pricePerUnit
+    : incoming.pricePerUnit <= resting.pricePerUnit;
+}
+
+/**
+ * Price-time priority: better price first, then earlier order
+ */
+export function comparePriority(a: LimitOrder, b: LimitOrder): number {
+  if (a.pricePerUnit !== b.pricePerUnit) {
+    return a.side === 'bid' ? b.pricePerUnit - a.pricePerUnit : a.pricePerUnit - b.pricePerUnit;
+  }
+  return a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+/**
+ * Match a newly placed order against the opposite side of its book.
+ * Whatever isn't matched keeps resting.
+ */
+export async function matchLimitOrder(
+  incoming: LimitOrder,
+  actor: TradeWorkflowActor
+): Promise<MatchOutcome> {
+  const outcome: MatchOutcome = { matches: [], skipped: [] };
+
+  const candidates = (
+    await getLimitOrders({
+      tokenAddress: incoming.tokenAddress,
+      side: incoming.side === 'bid' ? 'ask' : 'bid',
+      restingOnly: true,
+    })
+  )
+    .filter((resting) => crosses(incoming, resting))
+    .sort(comparePriority);
+
+  // Track the incoming order locally; each claim bumps its version
+  let openUnits = incoming.openUnits;
+  let version = incoming.version;
+
+  for (const resting of candidates) {
+    if (openUnits <= 0) break;
+
+    if (resting.participant.id === incoming.participant.id) {
+      outcome.skipped.push({ orderId: resting.id, reason: 'Self-match prevented' });
+      continue;
+    }
+
+    const [bid, ask] = incoming.side === 'bid' ? [incoming, resting] : [resting, incoming];
+    const seller = ask.participant.walletAddress;
+    const buyer = bid.participant.walletAddress;
+    if (!seller || !buyer) {
+      outcome.skipped.push({ orderId: resting.id, reason: 'Missing walletAddress' });
+      continue;
+    }
+
+    const units = Math.min(openUnits, resting.openUnits);
+    const pricePerUnit = resting.pricePerUnit;
+
+    const validation = await validateTransferServer({
+      tokenAddress: incoming.tokenAddress,
+      seller,
+      buyer,
+      units,
+    });
+    if (!validation.canTransfer) {
+      outcome.skipped.push({ orderId: resting.id, reason: validation.reasonDescription });
+      continue;
+    }
+
+    let matchId: string;
+    try {
+      matchId = await claimOrderBookMatch({
+        tokenAddress: incoming.tokenAddress,
+        bid: bid === incoming ? { id: bid.id, version } : bid,
+        ask: ask === incoming ? { id: ask.id, version } : ask,
+        units,
+        pricePerUnit,
+      });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'Unknown error';
+      // The resting order was taken by another taker (the claim rolled back)
+      if (reason.startsWith('Conflict')) {
+        outcome.skipped.push({ orderId: resting.id, reason });
+        continue;
+      }
+      throw err;
+    }
+    version += 1;
+
+    let tradeId: string | undefined;
+    let reason = 'Unknown error';
+    try {
+      const result = await createProposedTrade({
+        actor,
+        tokenAddress: incoming.tokenAddress,
+        seller,
+        buyer,
+        units,
+        pricePerUnit,
+      });
+      if (result.ok) tradeId = result.trade.id;
+      else reason = result.error;
+    } catch (err) {
+      reason = err instanceof Error ? err.message : reason;
+    }
+
+    if (!tradeId) {
+      await releaseOrderBookMatch(matchId);
+      outcome.skipped.push({ orderId: resting.id, reason });
+      continue;
+    }
+
+    outcome.matches.push(await completeOrderBookMatch(matchId, tradeId));
+    openUnits -= units;
+  }
+
+  if (outcome.matches.length > 0) {
+    logger.api.info('Order book matched', {
+      orderId: incoming.id,
+      matches: outcome.matches.length,
+      units: outcome.matches.reduce((sum, m) => sum + m.units, 0),
+    });
+  }
+
+  return outcome;
+}
+
+function aggregateLevels(orders: LimitOrder[]): OrderBookLevel[] {
+  const levels: OrderBookLevel[] = [];
+  for (const order of orders) {
+    const last = levels[levels.length - 1];
+    if (last && last.pricePerUnit === order.pricePerUnit) {
+      last.units += order.openUnits;
+      last.orders += 1;
+    } else {
+      levels.push({ pricePerUnit: order.pricePerUnit, units: order.openUnits, orders: 1 });
+    }
+  }
+  return levels;
+}
+
+/**
+ * Resting size per price level, best prices first
+ */
+export async function getOrderBookDepth(tokenAddress: string): Promise<OrderBookDepth> {
+  const resting = await getLimitOrders({ tokenAddress, restingOnly: true });
+
+  return {
+    tokenAddress,
+    bids: aggregateLevels(resting.filter((o) => o.side === 'bid').sort(comparePriority)),
+    asks: aggregateLevels(resting.filter((o) => o.side === 'ask').sort(comparePriority)),
+  };
+}
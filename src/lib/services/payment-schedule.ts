@@ -0,0 +1,117 @@
+/**
+ * Payment Schedule
+ *
+ * Interest periods and payment dates for a loan. Unadjusted period ends are
+ * rolled back from maturity one frequency at a time until the loan's start
+ * (the day it was created); whatever is left at the front is a short stub.
+ * Each end date is then moved off weekends and the calendar's holidays by
+ * the business-day convention, and interest is paid on the adjusted end.
+ * Periods run from one adjusted end to the next, so the days in a period
+ * are the days that actually accrue.
+ */
+
+import type {
+  BusinessDayConvention,
+  InterestPeriod,
+  PaymentFrequency,
+  PaymentSchedule,
+  TradeWorkflowActor,
+} from '@/lib/types/loan';
+import { getLoan, savePaymentSchedule } from '@/lib/store/loans';
+import { adjustBusinessDay, loadHolidayCalendar } from '@/lib/services/business-days';
+import { actualDays, addUtcMonths, startOfUtcDay } from '@/lib/services/day-count';
+import { logger } from '@/lib/utils/logger';
+
+const FREQUENCY_MONTHS: Record<PaymentFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  semi_annual: 6,
+};
+
+export const DEFAULT_PAYMENT_FREQUENCY: PaymentFrequency = 'quarterly';
+export const DEFAULT_BUSINESS_DAY_CONVENTION: BusinessDayConvention = 'modified_following';
+
+/**
+ * Interest periods from `start` to `maturity`
+ */
+export function generateInterestPeriods(params: {
+  start: Date;
+  maturity: Date;
+  frequency: PaymentFrequency;
+  businessDayConvention: BusinessDayConvention;
+  holidays: Set<string>;
+}): InterestPeriod[] {
+  const start = startOfUtcDay(params.start);
+  const maturity = startOfUtcDay(params.maturity);
+  if (maturity <= start) return [];
+
+  const months = FREQUENCY_MONTHS[params.frequency];
+  // Stepping from maturity keeps every date on maturity's day of the month
+  const unadjustedEnds: Date[] = [];
+  for (let k = 0; ; k++) {
+    const end = addUtcMonths(maturity, -k * months);
+    if (end <= start) break;
+    unadjustedEnds.unshift(end);
+  }
+  const isStub = addUtcMonths(maturity, -unadjustedEnds.length * months).getTime() !== start.getTime();
+
+  let periodStart = start;
+  return unadjustedEnds.map((unadjustedEndDate, i) => {
+    const endDate = adjustBusinessDay(unadjustedEndDate, params.businessDayConvention, params.holidays);
+    const period: InterestPeriod = {
+      sequence: i + 1,
+      startDate: periodStart,
+      endDate,
+      unadjustedEndDate,
+      paymentDate: endDate,
+      days: actualDays(periodStart, endDate),
+      isStub: i === 0 && isStub,
+    };
+    periodStart = endDate;
+    return period;
+  });
+}
+
+/**
+ * Generate and store a loan's schedule, replacing any it had. The holiday
+ * calendar defaults to the loan's currency.
+ */
+export async function generatePaymentSchedule(params: {
+  nelId: string;
+  frequency?: PaymentFrequency;
+  businessDayConvention?: BusinessDayConvention;
+  calendar?: string;
+  actor?: TradeWorkflowActor;
+}): Promise<PaymentSchedule> {
+  const loan = await getLoan(params.nelId);
+  if (!loan) throw new Error(`Loan not found: ${params.nelId}`);
+
+  const frequency = params.frequency ?? DEFAULT_PAYMENT_FREQUENCY;
+  const businessDayConvention = params.businessDayConvention ?? DEFAULT_BUSINESS_DAY_CONVENTION;
+  const calendar = (params.calendar ?? loan.terms.currency).toUpperCase();
+
+  const periods = generateInterestPeriods({
+    start: loan.createdAt,
+    maturity: new Date(loan.terms.maturityDate),
+    frequency,
+    businessDayConvention,
+    holidays: loadHolidayCalendar(calendar),
+  });
+
+  const schedule = await savePaymentSchedule({
+    nelId: params.nelId,
+    frequency,
+    businessDayConvention,
+    calendar,
+    periods,
+    generatedBy: params.actor?.wallet,
+  });
+
+  logger.api.info('Payment schedule generated', {
+    nelId: params.nelId,
+    frequency,
+    calendar,
+    periods: periods.length,
+  });
+  return schedule;
+}
@@ -0,0 +1,69 @@
+/**
+ * Position Snapshots
+ *
+ * Cap tables of a token at a point in time (see getPositionsAsOf). A token
+ * the chain indexer follows is replayed from its indexed events up to the
+ * time, by block time. Otherwise TokenBalance only holds the current
+ * balances, so earlier positions are worked back from them through the
+ * settled trades, primary allocations, redemptions and forced transfers the
+ * platform recorded since.
+ *
+ * A snapshot freezes such a cap table: it is taken on demand by an agent,
+ * for every live token by the scheduler's snapshot job, and at a
+ * distribution's record date. Snapshots are never updated.
+ */
+
+import type { PositionSnapshot, PositionSnapshotTrigger, TradeWorkflowActor } from '@/lib/types/loan';
+import { createPositionSnapshot, getLiveTokenAddresses, getPositionsAsOf } from '@/lib/store/loans';
+import { logger } from '@/lib/utils/logger';
+
+export async function takePositionSnapshot(params: {
+  tokenAddress: string;
+  asOf?: Date;
+  trigger: PositionSnapshotTrigger;
+  reference?: string;
+  actor: TradeWorkflowActor;
+}): Promise<PositionSnapshot> {
+  const asOf = params.asOf ?? new Date();
+  if (asOf.getTime() > Date.now()) {
+    throw new Error('Conflict: positions are not known for a time in the future');
+  }
+
+  const snapshot = await createPositionSnapshot({
+    tokenAddress: params.tokenAddress,
+    asOf,
+    trigger: params.trigger,
+    reference: params.reference,
+    takenBy: params.actor.wallet,
+    positions: await getPositionsAsOf(params.tokenAddress, asOf),
+  });
+
+  logger.api.info('Position snapshot taken', {
+    id: snapshot.id,
+    tokenAddress: snapshot.tokenAddress,
+    asOf: snapshot.asOf.toISOString(),
+    holders: snapshot.positions.length,
+  });
+  return snapshot;
+}
+
+/**
+ * Snapshot every live token; returns how many were
+ */
+export async function snapshotLiveTokens(actor: TradeWorkflowActor): Promise<number> {
+  const asOf = new Date();
+
+  let taken = 0;
+  for (const tokenAddress of await getLiveTokenAddresses()) {
+    try {
+      await takePositionSnapshot({ tokenAddress, asOf, trigger: 'scheduled', actor });
+      taken++;
+    } catch (err) {
+      logger.api.warn('Position snapshot not taken', {
+        tokenAddress,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return taken;
+}
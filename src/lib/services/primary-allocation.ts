@@ -0,0 +1,286 @@
+/**
+ * Primary Allocation
+ *
+ * Turns a freshly minted token's syndicate into token holders. Each lender
+ * position's share of the facility becomes the same share of the token's
+ * units: the exact figure is floored, and the units lost to flooring go to
+ * the largest remainders (ties to the larger commitment) until the total
+ * matches the rounded sum of the exact figures. What stays unissued, from
+ * rounding or from percentages summing under 100, is reported on the
+ * allocation along with each line's residual.
+ *
+ * Lenders are matched to participants by name, or explicitly by lender
+ * position id. Every lender must resolve to a KYC-approved, accredited
+ * participant with a wallet before anything is issued.
+ *
+ * Mock mode credits the ledger in one transaction. Real mode calls
+ * LoanToken.issue from the token owner's key once per lender, recording each
+ * tx so a failed allocation resumes where it stopped; the ledger follows
+ * through the chain indexer's Issued events.
+ */
+
+import { encodeFunctionData, type Hex } from 'viem';
+
+import type { Participant, PrimaryAllocation, TradeWorkflowActor } from '@/lib/types/loan';
+import { LoanTokenABI } from '@/lib/contracts/abi';
+import {
+  completePrimaryAllocation,
+  createPrimaryAllocation,
+  discardPrimaryAllocation,
+  failPrimaryAllocation,
+  getAllocationForTokenization,
+  getLedgerHolders,
+  getParticipants,
+  getTokenizationForAllocation,
+  recordAllocationLineTx,
+  resumePrimaryAllocation,
+} from '@/lib/store/loans';
+import * as mockService from '@/lib/services/blockchain';
+import { getBlockchainMode } from '@/lib/services/blockchain-factory';
+import { partitionId } from '@/lib/utils/partitions';
+import { ensureTxMined } from '@/lib/services/controller-transfer';
+import { sendAsTokenOwner } from '@/lib/services/token-admin';
+import { logger } from '@/lib/utils/logger';
+
+// A processing allocation untouched for this long is taken to be abandoned
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+// One lender position in a proposed allocation
+export interface AllocationPlanLine {
+  lenderPositionId: string;
+  lenderName: string;
+  participantId?: string;
+  participantName?: string;
+  walletAddress?: string;
+  percentage: number;
+  exactUnits: number;
+  units: number;
+  residual: number;
+  issues: string[]; // Why the lender cannot be issued units; empty when eligible
+}
+
+export interface AllocationPlan {
+  tokenAddress: string;
+  totalUnits: number;
+  allocatedUnits: number;
+  unallocatedUnits: number;
+  eligible: boolean;
+  lines: AllocationPlanLine[];
+}
+
+/**
+ * Split `totalUnits` by percentage: floor each exact share, then hand the
+ * floored-away units to the largest remainders (ties to the earlier line)
+ * until the shares reach round(sum of exact shares), capped at `totalUnits`
+ */
+export function allocateUnits(totalUnits: number, percentages: number[]): number[] {
+  const exact = percentages.map((p) => (p * totalUnits) / 100);
+  const units = exact.map((e) => Math.floor(e));
+  const target = Math.min(totalUnits, Math.round(exact.reduce((sum, e) => sum + e, 0)));
+  let leftover = target - units.reduce((sum, u) => sum + u, 0);
+
+  const byRemainder = exact
+    .map((e, i) => ({ i, remainder: e - units[i] }))
+    .sort((a, b) => (a.remainder === b.remainder ? a.i - b.i : b.remainder - a.remainder));
+  for (const { i } of byRemainder) {
+    if (leftover <= 0) break;
+    units[i] += 1;
+    leftover -= 1;
+  }
+  return units;
+}
+
+function eligibilityIssues(participant: Participant | undefined): string[] {
+  if (!participant) return ['No participant matches this lender'];
+  const issues: string[] = [];
+  if (!participant.walletAddress) issues.push('Participant has no wallet');
+  if (participant.kycStatus !== 'approved') issues.push(`KYC status is ${participant.kycStatus}`);
+  if (!participant.accreditedInvestor) issues.push('Participant is not an accredited investor');
+  return issues;
+}
+
+/**
+ * Work out who gets how many units of a minted token, without issuing any.
+ * `participants` maps lender position ids to participant ids for lenders
+ * whose name differs from their participant's.
+ */
+export async function planPrimaryAllocation(params: {
+  tokenAddress: string;
+  participants?: Record<string, string>;
+}): Promise<AllocationPlan> {
+  const { tokenAddress } = params;
+
+  const tokenization = await getTokenizationForAllocation(tokenAddress);
+  if (!tokenization) throw new Error(`Token not found: ${tokenAddress}`);
+  if (tokenization.lenders.length === 0) {
+    throw new Error('Conflict: loan has no lender positions to allocate');
+  }
+
+  const overrides = params.participants ?? {};
+  const participants = await getParticipants();
+  const units = allocateUnits(
+    tokenization.totalUnits,
+    tokenization.lenders.map((l) => l.percentage)
+  );
+
+  const lines = tokenization.lenders.map((lender, i): AllocationPlanLine => {
+    const overrideId = overrides[lender.lenderPositionId];
+    const participant = overrideId
+      ? participants.find((p) => p.id === overrideId)
+      : participants.find((p) => p.name.toLowerCase() === lender.lenderName.trim().toLowerCase());
+    const exactUnits = (lender.percentage * tokenization.totalUnits) / 100;
+
+    return {
+      lenderPositionId: lender.lenderPositionId,
+      lenderName: lender.lenderName,
+      participantId: participant?.id,
+      participantName: participant?.name,
+      walletAddress: participant?.walletAddress,
+      percentage: lender.percentage,
+      exactUnits,
+      units: units[i],
+      residual: units[i] - exactUnits,
+      issues: overrideId && !participant ? [`Participant ${overrideId} not found`] : eligibilityIssues(participant),
+    };
+  });
+
+  const wallets = lines.map((l) => l.walletAddress).filter((w): w is string => !!w);
+  for (const line of lines) {
+    if (line.walletAddress && wallets.filter((w) => w === line.walletAddress).length > 1) {
+      line.issues.push('Participant is matched to more than one lender');
+    }
+  }
+
+  const allocatedUnits = units.reduce((sum, u) => sum + u, 0);
+  return {
+    tokenAddress,
+    totalUnits: tokenization.totalUnits,
+    allocatedUnits,
+    unallocatedUnits: tokenization.totalUnits - allocatedUnits,
+    eligible: lines.every((l) => l.issues.length === 0),
+    lines,
+  };
+}
+
+function issueCall(walletAddress: string, units: number): Hex {
+  return encodeFunctionData({
+    abi: LoanTokenABI,
+    functionName: 'issue',
+    args: [walletAddress as `0x${string}`, BigInt(units), partitionId('PRIMARY')],
+  });
+}
+
+async function issueOnChain(allocation: PrimaryAllocation): Promise<void> {
+  for (const line of allocation.lines) {
+    if (line.units === 0) continue;
+    await ensureTxMined({
+      recorded: line.txHash,
+      send: () => sendAsTokenOwner(allocation.tokenAddress, issueCall(line.walletAddress, line.units)),
+      record: (txHash) => recordAllocationLineTx(line.id, txHash),
+      step: `issuing ${line.units} units to ${line.walletAddress}`,
+    });
+  }
+}
+
+/**
+ * Record the plan as an allocation, refusing if any lender is ineligible or
+ * units of the token are already held
+ */
+async function beginPrimaryAllocation(params: {
+  tokenizationId: string;
+  plan: AllocationPlan;
+  actor: TradeWorkflowActor;
+}): Promise<PrimaryAllocation> {
+  const { plan } = params;
+
+  if (!plan.eligible) {
+    const blocked = plan.lines.filter((l) => l.issues.length > 0).map((l) => l.lenderName);
+    throw new Error(`Conflict: lenders not eligible for issuance: ${blocked.join(', ')}`);
+  }
+  const held = (await getLedgerHolders(plan.tokenAddress)).some((h) => h.balance > 0);
+  if (held) {
+    throw new Error('Conflict: units of this token are already held');
+  }
+
+  return createPrimaryAllocation({
+    tokenizationId: params.tokenizationId,
+    tokenAddress: plan.tokenAddress,
+    mode: getBlockchainMode(),
+    totalUnits: plan.totalUnits,
+    allocatedBy: params.actor.wallet,
+    lines: plan.lines.map((l) => ({
+      lenderPositionId: l.lenderPositionId,
+      lenderName: l.lenderName,
+      participantId: l.participantId!,
+      walletAddress: l.walletAddress!,
+      percentage: l.percentage,
+      exactUnits: l.exactUnits,
+      units: l.units,
+      residual: l.residual,
+    })),
+  });
+}
+
+/**
+ * Issue a minted token's units to its lenders. A failed allocation is
+ * resumed as it was planned; `participants` only shapes a new one.
+ */
+export async function allocatePrimaryUnits(params: {
+  tokenAddress: string;
+  participants?: Record<string, string>;
+  actor: TradeWorkflowActor;
+}): Promise<PrimaryAllocation> {
+  const { tokenAddress } = params;
+
+  const tokenization = await getTokenizationForAllocation(tokenAddress);
+  if (!tokenization) throw new Error(`Token not found: ${tokenAddress}`);
+
+  const existing = await getAllocationForTokenization(tokenization.id);
+  if (existing?.status === 'completed') {
+    throw new Error('Conflict: token has already been allocated');
+  }
+  if (!existing && tokenization.status !== 'minted') {
+    throw new Error(`Conflict: token is ${tokenization.status}, not freshly minted`);
+  }
+
+  const allocation = existing
+    ? await resumePrimaryAllocation(existing.id, new Date(Date.now() - STALE_PROCESSING_MS))
+    : await beginPrimaryAllocation({
+        tokenizationId: tokenization.id,
+        plan: await planPrimaryAllocation(params),
+        actor: params.actor,
+      });
+
+  try {
+    if (allocation.mode === 'real') {
+      await issueOnChain(allocation);
+    }
+    const completed = await completePrimaryAllocation({
+      id: allocation.id,
+      creditLedger: allocation.mode === 'mock',
+    });
+
+    if (allocation.mode === 'mock') {
+      for (const line of completed.lines) {
+        if (line.units > 0) mockService.issueTokens(tokenAddress, line.walletAddress, line.units);
+      }
+    }
+
+    logger.api.info('Primary allocation completed', {
+      id: completed.id,
+      tokenAddress,
+      lenders: completed.lines.length,
+      allocatedUnits: completed.allocatedUnits,
+      unallocatedUnits: completed.unallocatedUnits,
+    });
+    return completed;
+  } catch (err) {
+    if (allocation.mode === 'mock') {
+      // Nothing was issued, so the allocation can be planned afresh
+      await discardPrimaryAllocation(allocation.id);
+    } else {
+      await failPrimaryAllocation(allocation.id, err instanceof Error ? err.message : 'Unknown error');
+    }
+    throw err;
+  }
+}
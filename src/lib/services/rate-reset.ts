@@ -0,0 +1,246 @@
+/**
+ * Floating Rate Resets
+ *
+ * Sets a floating-rate loan's all-in rate for each interest period from the
+ * reference rate fixings store: the observed reference rate, floored if the
+ * loan has a floor, plus the loan's spread. Periods are the interest periods
+ * of the loan's payment schedule (business-day adjusted), so the rate only
+ * changes on a payment date; a loan without a schedule resets every
+ * `resetFrequencyMonths` from the day it was created until maturity.
+ *
+ * - term: the fixing `lookbackDays` publications before the period starts
+ *   (EURIBOR's T-2, for instance). Set once the period has started.
+ * - compounded: daily fixings compounded in arrears. Each day uses the fixing
+ *   of its publication day, or the one `lookbackDays` publications earlier
+ *   (lookback), weighted by the interest period's days. With
+ *   `observationShift` the whole observation period moves back instead and
+ *   its own days are the weights.
+ *
+ * A rate's publication dates serve as its business days (they need no
+ * holiday calendar), so a compounded period is only set once fixings reach
+ * its last day. Resets are recorded in period order; a period whose fixings
+ * are missing holds back the ones after it.
+ */
+
+import type { FloatingRateTerms, ReferenceRateFixing } from '@/lib/types/loan';
+import {
+  getFloatingRateLoans,
+  getReferenceRateFixings,
+  recordRateReset,
+  type FloatingRateLoan,
+} from '@/lib/store/loans';
+import { actualDays, addUtcDays, addUtcMonths, startOfUtcDay } from '@/lib/services/day-count';
+import { logger } from '@/lib/utils/logger';
+
+// Overnight rates published daily and compounded in arrears
+const COMPOUNDED_RATES = ['SOFR', 'SONIA', 'ESTR', '€STR', 'SARON', 'TONA'];
+
+// A gap between fixings longer than a long weekend means some are missing
+const MAX_FIXING_GAP_DAYS = 4;
+
+type Period = { start: Date; end: Date };
+type Observed = { rateBps: number; fixingsUsed: number };
+
+type NewFixing = { rateName: string; fixingDate: Date; rateBps: number };
+
+/**
+ * Parse a fixings CSV: a `rate_name,fixing_date,rate_percent` header, then
+ * one row per fixing with the date as YYYY-MM-DD and the rate in percent as
+ * published (5.31 for 531 bps). Returns every row's problem, if any.
+ */
+export function parseFixingsCsv(csv: string): { fixings: NewFixing[]; errors: string[] } {
+  const lines = csv.split(/\r?\n/).map((l) => l.trim());
+  const header = lines[0]?.toLowerCase().replace(/\s/g, '');
+  if (header !== 'rate_name,fixing_date,rate_percent') {
+    return { fixings: [], errors: ['Header must be rate_name,fixing_date,rate_percent'] };
+  }
+
+  const fixings: NewFixing[] = [];
+  const errors: string[] = [];
+  lines.slice(1).forEach((line, i) => {
+    if (!line) return;
+    const [rateName, date, percent] = line.split(',').map((c) => c.trim());
+    const fixingDate = /^\d{4}-\d{2}-\d{2}$/.test(date ?? '') ? new Date(`${date}T00:00:00Z`) : undefined;
+    const rate = Number(percent);
+    if (!rateName || !fixingDate || Number.isNaN(fixingDate.getTime()) || !percent || !Number.isFinite(rate)) {
+      errors.push(`Line ${i + 2}: expected rate_name,YYYY-MM-DD,rate_percent`);
+      return;
+    }
+    // Percent to bps, without binary-fraction noise past the published precision
+    fixings.push({ rateName: rateName.toUpperCase(), fixingDate, rateBps: Math.round(rate * 1e6) / 1e4 });
+  });
+  return { fixings, errors };
+}
+
+/**
+ * Reset terms for a loan with no FloatingRateTerms of its own
+ */
+export function defaultFloatingRateTerms(referenceRate: string): FloatingRateTerms {
+  return COMPOUNDED_RATES.includes(referenceRate.toUpperCase())
+    ? { method: 'compounded', resetFrequencyMonths: 3, lookbackDays: 5, observationShift: false }
+    : { method: 'term', resetFrequencyMonths: 3, lookbackDays: 2, observationShift: false };
+}
+
+/**
+ * Interest periods from `start` to `maturity`, every `months` months
+ */
+export function resetPeriods(start: Date, maturity: Date, months: number): Period[] {
+  const first = startOfUtcDay(start);
+  const last = startOfUtcDay(maturity);
+
+  const periods: Period[] = [];
+  for (let i = 1, periodStart = first; periodStart < last; i++) {
+    const next = addUtcMonths(first, i * months);
+    const end = next < last ? next : last;
+    periods.push({ start: periodStart, end });
+    periodStart = end;
+  }
+  return periods;
+}
+
+// Index of the latest fixing published on or before `day`, or -1
+function publicationIndex(fixings: ReferenceRateFixing[], day: Date): number {
+  let lo = 0;
+  let hi = fixings.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (fixings[mid].fixingDate <= day) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Whether the fixing after index `k` is missing rather than a holiday away
+function gapAfter(fixings: ReferenceRateFixing[], k: number, until: Date): boolean {
+  const next = fixings[k + 1]?.fixingDate ?? until;
+  return actualDays(fixings[k].fixingDate, next) > MAX_FIXING_GAP_DAYS;
+}
+
+function termRate(period: Period, terms: FloatingRateTerms, fixings: ReferenceRateFixing[]): Observed | undefined {
+  const k = publicationIndex(fixings, period.start);
+  if (k < 0 || actualDays(fixings[k].fixingDate, period.start) > MAX_FIXING_GAP_DAYS) return undefined;
+
+  const fixing = fixings[k - terms.lookbackDays];
+  return fixing ? { rateBps: fixing.rateBps, fixingsUsed: 1 } : undefined;
+}
+
+function compoundedRate(
+  period: Period,
+  terms: FloatingRateTerms,
+  fixings: ReferenceRateFixing[],
+  basis: number
+): Observed | undefined {
+  const lastDay = addUtcDays(period.end, -1);
+  if (fixings.length === 0 || fixings[fixings.length - 1].fixingDate < lastDay) return undefined;
+
+  // Observation shift moves the window back; a plain lookback moves each day's fixing back
+  let window = period;
+  let lag = terms.lookbackDays;
+  if (terms.observationShift) {
+    const start = fixings[publicationIndex(fixings, period.start) - terms.lookbackDays];
+    const end = fixings[publicationIndex(fixings, period.end) - terms.lookbackDays];
+    if (!start || !end) return undefined;
+    window = { start: start.fixingDate, end: end.fixingDate };
+    lag = 0;
+  }
+
+  let factor = 1;
+  let days = 0;
+  let fixingsUsed = 0;
+  for (let day = window.start; day < window.end; ) {
+    const k = publicationIndex(fixings, day);
+    if (k < 0 || gapAfter(fixings, k, window.end)) return undefined;
+    const fixing = fixings[k - lag];
+    if (!fixing) return undefined;
+
+    // Days up to the next publication accrue at this one's rate
+    let n = 0;
+    while (day < window.end && publicationIndex(fixings, day) === k) {
+      n++;
+      day = addUtcDays(day, 1);
+    }
+    factor *= 1 + ((fixing.rateBps / 10000) * n) / basis;
+    days += n;
+    fixingsUsed++;
+  }
+
+  return days > 0 ? { rateBps: ((factor - 1) * basis * 10000) / days, fixingsUsed } : undefined;
+}
+
+/**
+ * Reset a loan's periods that have started and are not yet set; returns how many were
+ */
+async function resetLoan(loan: FloatingRateLoan, today: Date): Promise<number> {
+  const terms = loan.terms ?? defaultFloatingRateTerms(loan.referenceRate);
+
+  const grid = loan.schedulePeriods?.length
+    ? loan.schedulePeriods
+    : resetPeriods(loan.accrueFrom, loan.maturityDate, terms.resetFrequencyMonths);
+  let periods = grid.filter((p) => !loan.lastResetEnd || p.start >= loan.lastResetEnd);
+  // After the terms or the schedule change, a stub period joins the last reset to the new grid
+  if (loan.lastResetEnd && periods[0] && periods[0].start > loan.lastResetEnd) {
+    periods = [{ start: loan.lastResetEnd, end: periods[0].start }, ...periods];
+  }
+  periods = periods.filter((p) => p.start <= today);
+  if (periods.length === 0) return 0;
+
+  const fixings = await getReferenceRateFixings({ rateName: loan.referenceRate.toUpperCase() });
+  const dayCount = loan.formulaParameters?.dayCountConvention ?? loan.formulaParameters?.dayCount;
+  const basis = dayCount === 'ACT/365F' ? 365 : 360;
+
+  let reset = 0;
+  for (const period of periods) {
+    const observed =
+      terms.method === 'term'
+        ? termRate(period, terms, fixings)
+        : compoundedRate(period, terms, fixings, basis);
+    if (!observed) break;
+
+    const floored =
+      terms.floorBps !== undefined ? Math.max(observed.rateBps, terms.floorBps) : observed.rateBps;
+    await recordRateReset({
+      loanId: loan.loanId,
+      periodStart: period.start,
+      periodEnd: period.end,
+      referenceRate: loan.referenceRate,
+      method: terms.method,
+      referenceRateBps: observed.rateBps,
+      floorBps: terms.floorBps,
+      spreadBps: loan.spreadBps,
+      allInRateBps: floored + loan.spreadBps,
+      lookbackDays: terms.lookbackDays,
+      observationShift: terms.observationShift,
+      fixingsUsed: observed.fixingsUsed,
+    });
+    reset++;
+  }
+  return reset;
+}
+
+/**
+ * Reset every floating-rate loan whose next period can be set; returns the
+ * number of periods reset
+ */
+export async function resetFloatingRates(asOf: Date = new Date()): Promise<number> {
+  const today = startOfUtcDay(asOf);
+
+  let reset = 0;
+  for (const loan of await getFloatingRateLoans()) {
+    try {
+      reset += await resetLoan(loan, today);
+    } catch (err) {
+      logger.api.warn('Rate reset not completed', {
+        nelId: loan.nelId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  if (reset > 0) logger.api.info('Floating rates reset', { periods: reset });
+  return reset;
+}
@@ -0,0 +1,209 @@
+/**
+ * Reconciliation
+ *
+ * Compares the database's view of every minted token with LoanToken on the
+ * indexer's chain: Tokenization.totalUnits against totalSupply, and each
+ * TokenBalance against balanceOf, balanceOfByPartition and getFrozenTokens.
+ * Any wallet the indexer has seen holding units the ledger doesn't know
+ * about is reported too.
+ *
+ * Each difference is a break. Breaks carry over between runs while they
+ * persist, so an operator can take one, investigate and resolve it; a break
+ * a later run no longer finds is resolved automatically.
+ */
+
+import { TOKEN_PARTITIONS, type ReconciliationRun } from '@/lib/types/loan';
+import { LoanTokenABI } from '@/lib/contracts/abi';
+import {
+  completeReconciliationRun,
+  createReconciliationRun,
+  failReconciliationRun,
+  getLedgerHolders,
+  getMintedTokens,
+  getTokenHoldings,
+  type ReconciliationFinding,
+} from '@/lib/store/loans';
+import { getIndexerClient } from '@/lib/services/chain-indexer';
+import { partitionId } from '@/lib/utils/partitions';
+import { logger } from '@/lib/utils/logger';
+
+type Address = `0x${string}`;
+type Client = ReturnType<typeof getIndexerClient>;
+
+type ChainPosition = {
+  balance: number;
+  frozen: number;
+  partitions: Record<string, number>;
+};
+
+async function readChainPosition(client: Client, token: Address, wallet: Address): Promise<ChainPosition> {
+  const read = (functionName: 'balanceOf' | 'getFrozenTokens') =>
+    client.readContract({ address: token, abi: LoanTokenABI, functionName, args: [wallet] });
+
+  const partitions: Record<string, number> = {};
+  for (const name of TOKEN_PARTITIONS) {
+    const units = await client.readContract({
+      address: token,
+      abi: LoanTokenABI,
+      functionName: 'balanceOfByPartition',
+      args: [partitionId(name), wallet],
+    });
+    partitions[name] = Number(units);
+  }
+
+  return {
+    balance: Number(await read('balanceOf')),
+    frozen: Number(await read('getFrozenTokens')),
+    partitions,
+  };
+}
+
+/**
+ * Find every break for one token; returns the findings and holders checked
+ */
+async function reconcileToken(
+  client: Client,
+  token: { tokenAddress: string; totalUnits: number }
+): Promise<{ findings: ReconciliationFinding[]; holders: number }> {
+  const tokenAddress = token.tokenAddress;
+  const findings: ReconciliationFinding[] = [];
+
+  const totalSupply = Number(
+    await client.readContract({
+      address: tokenAddress as Address,
+      abi: LoanTokenABI,
+      functionName: 'totalSupply',
+    })
+  );
+  if (totalSupply !== token.totalUnits) {
+    findings.push({
+      tokenAddress,
+      type: 'supply_mismatch',
+      ledgerAmount: token.totalUnits,
+      chainAmount: totalSupply,
+      details: `Tokenization records ${token.totalUnits} units; totalSupply is ${totalSupply}`,
+    });
+  }
+
+  const ledger = await getLedgerHolders(tokenAddress);
+  const indexedWallets = (await getTokenHoldings(tokenAddress)).map((h) => h.walletAddress.toLowerCase());
+  const ledgerWallets = new Set<string>();
+
+  for (const row of ledger) {
+    const wallet = row.walletAddress?.toLowerCase();
+    if (!wallet) {
+      if (row.balance > 0) {
+        findings.push({
+          tokenAddress,
+          participantId: row.participantId,
+          type: 'missing_holder',
+          ledgerAmount: row.balance,
+          details: `Ledger holds ${row.balance} units for a participant with no wallet`,
+        });
+      }
+      continue;
+    }
+    ledgerWallets.add(wallet);
+
+    const chain = await readChainPosition(client, tokenAddress as Address, wallet as Address);
+    const base = { tokenAddress, walletAddress: wallet, participantId: row.participantId };
+
+    if (row.frozenAmount !== chain.frozen) {
+      findings.push({
+        ...base,
+        type: 'frozen_mismatch',
+        ledgerAmount: row.frozenAmount,
+        chainAmount: chain.frozen,
+        details: `Ledger frozen ${row.frozenAmount} differs from getFrozenTokens ${chain.frozen}`,
+      });
+    }
+
+    if (row.balance > 0 && chain.balance === 0) {
+      findings.push({
+        ...base,
+        type: 'missing_holder',
+        ledgerAmount: row.balance,
+        chainAmount: 0,
+        details: `Ledger holds ${row.balance} units; the wallet holds none on-chain`,
+      });
+    } else if (row.balance !== chain.balance) {
+      findings.push({
+        ...base,
+        type: 'amount_mismatch',
+        ledgerAmount: row.balance,
+        chainAmount: chain.balance,
+        details: `Ledger balance ${row.balance} differs from balanceOf ${chain.balance}`,
+      });
+    } else {
+      // Balances agree, so any difference is in how they split by partition
+      for (const partition of TOKEN_PARTITIONS) {
+        const held = row.partitions[partition] ?? 0;
+        if (held !== chain.partitions[partition]) {
+          findings.push({
+            ...base,
+            type: 'amount_mismatch',
+            partition,
+            ledgerAmount: held,
+            chainAmount: chain.partitions[partition],
+            details: `Ledger ${partition} balance ${held} differs from balanceOfByPartition ${chain.partitions[partition]}`,
+          });
+        }
+      }
+    }
+  }
+
+  // Wallets the indexer has seen hold the token but the ledger has no row for
+  const unknown = indexedWallets.filter((wallet) => !ledgerWallets.has(wallet));
+  for (const wallet of unknown) {
+    const chain = await readChainPosition(client, tokenAddress as Address, wallet as Address);
+    if (chain.balance > 0) {
+      findings.push({
+        tokenAddress,
+        walletAddress: wallet,
+        type: 'unknown_holder',
+        ledgerAmount: 0,
+        chainAmount: chain.balance,
+        details: `Wallet holds ${chain.balance} units on-chain with no ledger balance`,
+      });
+    }
+  }
+
+  return { findings, holders: ledgerWallets.size + unknown.length };
+}
+
+/**
+ * Reconcile every token minted on the indexer's chain and record the run
+ */
+export async function runReconciliation(triggeredBy: string): Promise<ReconciliationRun> {
+  const client = getIndexerClient();
+  const chainId = await client.getChainId();
+  const run = await createReconciliationRun({ chainId, triggeredBy });
+
+  try {
+    const tokens = await getMintedTokens(chainId);
+    const findings: ReconciliationFinding[] = [];
+    let holdersChecked = 0;
+
+    for (const token of tokens) {
+      const result = await reconcileToken(client, token);
+      findings.push(...result.findings);
+      holdersChecked += result.holders;
+    }
+
+    const completed = await completeReconciliationRun({
+      id: run.id,
+      tokenAddresses: tokens.map((t) => t.tokenAddress),
+      holdersChecked,
+      findings,
+    });
+
+    if (findings.length > 0) {
+      logger.api.warn('Reconciliation found breaks', { runId: run.id, breaks: findings.length });
+    }
+    return completed;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await failReconciliationRun(run.id, message);
+    throw err;
+  }
+}
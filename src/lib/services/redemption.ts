@@ -0,0 +1,228 @@
+/**
+ * Redemption
+ *
+ * Pays off a tokenized loan, either at maturity (the scheduler's maturity
+ * job) or when the borrower prepays (an agent request). The payoff defaults
+ * to the face value of the units outstanding; each holder gets their units'
+ * share of it in cents, with leftover cents going to the largest remainders.
+ *
+ * Mock mode burns the ledger balances, pays the holders and marks the
+ * tokenization redeemed in one transaction. Real mode pulls each holder's
+ * units to the settlement agent with controllerTransfer and burns them with
+ * redeem; the ledger balances follow through the chain indexer. Each step's
+ * tx is stored, so a redemption that fails part-way picks up where it left off.
+ * A failed mock redemption changed nothing and is simply discarded.
+ *
+ * With the internal cash leg the payouts are credited to holders' cash
+ * accounts; with the erc20 cash leg they are recorded for the paying agent.
+ */
+
+import type { Redemption, RedemptionTrigger, TradeWorkflowActor } from '@/lib/types/loan';
+import {
+  completeRedemption,
+  countOpenTradesForToken,
+  createRedemption,
+  discardRedemption,
+  failRedemption,
+  getLedgerHolders,
+  getMaturedTokenAddresses,
+  getTokenizationForRedemption,
+  getUnfinishedRedemption,
+  recordRedemptionBurnTx,
+  recordRedemptionPayoutTx,
+  resumeRedemption,
+} from '@/lib/store/loans';
+import * as mockService from '@/lib/services/blockchain';
+import { getBlockchainMode } from '@/lib/services/blockchain-factory';
+import { getCashLegMode } from '@/lib/services/cash-leg';
+import {
+  ensureTxMined,
+  getSettlementAgentAddress,
+  submitControllerTransfer,
+  submitRedeem,
+} from '@/lib/services/controller-transfer';
+import { logger } from '@/lib/utils/logger';
+import { allocateProRata } from '@/lib/utils/pro-rata';
+
+// A processing redemption untouched for this long is taken to be abandoned
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+/**
+ * Compute the payouts and record the redemption. Refused while trades still
+ * need the units, or while any are frozen (they would be paid out regardless).
+ */
+async function beginRedemption(params: {
+  tokenAddress: string;
+  tokenization: NonNullable<Awaited<ReturnType<typeof getTokenizationForRedemption>>>;
+  trigger: RedemptionTrigger;
+  amount?: number;
+  actor: TradeWorkflowActor;
+}): Promise<Redemption> {
+  const { tokenAddress, tokenization } = params;
+  const mode = getBlockchainMode();
+
+  const openTrades = await countOpenTradesForToken(tokenAddress);
+  if (openTrades > 0) {
+    throw new Error(`Conflict: ${openTrades} trade(s) in the token are still open; settle or cancel them first`);
+  }
+
+  const holders = (await getLedgerHolders(tokenAddress)).filter((h) => h.balance > 0);
+  if (holders.length === 0) {
+    throw new Error('Conflict: no units are outstanding');
+  }
+  if (holders.some((h) => h.frozenAmount > 0)) {
+    throw new Error('Conflict: some units are frozen; unfreeze or force-transfer them first');
+  }
+  if (mode === 'real') {
+    if (holders.some((h) => !h.walletAddress)) {
+      throw new Error('Conflict: a holder has no wallet to redeem from');
+    }
+    // LoanToken.controllerTransfer only moves PRIMARY units
+    if (holders.some((h) => (h.partitions.SECONDARY ?? 0) > 0)) {
+      throw new Error('Conflict: SECONDARY units cannot be collected for redemption on-chain');
+    }
+  }
+
+  const units = holders.map((h) => h.balance);
+  const totalUnits = units.reduce((sum, u) => sum + u, 0);
+  const amountCents =
+    params.amount !== undefined
+      ? BigInt(Math.round(params.amount * 100))
+      : tokenization.unitValueCents * BigInt(totalUnits);
+  const shares = allocateProRata(amountCents, units);
+
+  return createRedemption({
+    tokenizationId: tokenization.id,
+    tokenAddress,
+    trigger: params.trigger,
+    amountCents,
+    mode,
+    cashLegMode: getCashLegMode(),
+    triggeredBy: params.actor.wallet,
+    payouts: holders.map((h, i) => ({
+      participantId: h.participantId,
+      walletAddress: h.walletAddress,
+      units: h.balance,
+      amountCents: shares[i],
+    })),
+  });
+}
+
+async function redeemOnChain(redemption: Redemption): Promise<void> {
+  const agent = getSettlementAgentAddress();
+
+  for (const payout of redemption.payouts) {
+    await ensureTxMined({
+      recorded: payout.txHash,
+      send: () =>
+        submitControllerTransfer({
+          reference: `redemption:${redemption.id}`,
+          tokenAddress: redemption.tokenAddress,
+          from: payout.walletAddress!,
+          to: agent,
+          units: payout.units,
+        }),
+      record: (txHash) => recordRedemptionPayoutTx(payout.id, txHash),
+      step: `collecting units from ${payout.walletAddress}`,
+    });
+  }
+
+  await ensureTxMined({
+    recorded: redemption.burnTxHash,
+    send: () =>
+      submitRedeem({
+        tokenAddress: redemption.tokenAddress,
+        units: redemption.totalUnits,
+        partition: 'PRIMARY',
+      }),
+    record: (txHash) => recordRedemptionBurnTx(redemption.id, txHash),
+    step: 'burning the collected units',
+  });
+}
+
+/**
+ * Redeem every outstanding unit of a token and pay the holders. An unfinished
+ * redemption of the token is resumed as it was computed; `amount` (USD) is
+ * only used for a new one.
+ */
+export async function redeemToken(params: {
+  tokenAddress: string;
+  trigger: RedemptionTrigger;
+  amount?: number;
+  actor: TradeWorkflowActor;
+}): Promise<Redemption> {
+  const { tokenAddress, trigger } = params;
+
+  const tokenization = await getTokenizationForRedemption(tokenAddress);
+  if (!tokenization) throw new Error(`Token not found: ${tokenAddress}`);
+  if (tokenization.status === 'redeemed') {
+    throw new Error('Conflict: token is already redeemed');
+  }
+  if (tokenization.status === 'pending') {
+    throw new Error('Conflict: token has not been minted');
+  }
+  if (trigger === 'maturity' && tokenization.maturityDate > new Date()) {
+    throw new Error(`Conflict: loan matures on ${tokenization.maturityDate.toISOString().slice(0, 10)}`);
+  }
+
+  const unfinished = await getUnfinishedRedemption(tokenization.id);
+  const redemption = unfinished
+    ? await resumeRedemption(unfinished.id, new Date(Date.now() - STALE_PROCESSING_MS))
+    : await beginRedemption({ ...params, tokenization });
+
+  try {
+    if (redemption.mode === 'real') {
+      await redeemOnChain(redemption);
+    }
+    const completed = await completeRedemption({
+      id: redemption.id,
+      burnLedger: redemption.mode === 'mock',
+    });
+
+    if (redemption.mode === 'mock') {
+      for (const payout of completed.payouts) {
+        if (payout.walletAddress) {
+          mockService.redeemTokens(tokenAddress, payout.walletAddress, payout.units);
+        }
+      }
+    }
+
+    logger.api.info('Token redeemed', {
+      id: completed.id,
+      tokenAddress,
+      trigger: completed.trigger,
+      units: completed.totalUnits,
+      amount: completed.amount,
+    });
+    return completed;
+  } catch (err) {
+    if (redemption.mode === 'mock') {
+      // Nothing was applied, so the next attempt starts from current balances
+      await discardRedemption(redemption.id);
+    } else {
+      await failRedemption(redemption.id, err instanceof Error ? err.message : 'Unknown error');
+    }
+    throw err;
+  }
+}
+
+/**
+ * Redeem every live token whose loan has matured; returns how many were
+ * redeemed. A token that cannot be redeemed yet is retried on the next run.
+ */
+export async function redeemMaturedTokens(actor: TradeWorkflowActor): Promise<number> {
+  let redeemed = 0;
+  for (const tokenAddress of await getMaturedTokenAddresses(new Date())) {
+    try {
+      await redeemToken({ tokenAddress, trigger: 'maturity', actor });
+      redeemed++;
+    } catch (err) {
+      // Left for the next run, e.g. once open trades are settled
+      logger.api.warn('Maturity redemption not completed', {
+        tokenAddress,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return redeemed;
+}
@@ -0,0 +1,207 @@
+/**
+ * Request for Quote
+ *
+ * A seller invites selected buyers to price a block of loan tokens. Buyers
+ * are screened through the same ERC-3643 transfer checks as a trade, so only
+ * eligible buyers can be invited. Each invited buyer holds at most one live
+ * quote, which they may replace until the RFQ's window closes. Quotes are
+ * sealed: a buyer only ever sees their own.
+ *
+ * Accepting a quote proposes a trade at the quoted price, with the quote
+ * snapshot kept on the trade's workflow as evidence of how it was priced.
+ */
+
+import type {
+  Participant,
+  Rfq,
+  TradeQuoteEvidence,
+  TradeWorkflowActor,
+  TransferValidation,
+} from '@/lib/types/loan';
+import {
+  claimRfqAcceptance,
+  completeRfqAcceptance,
+  expireOverdueRfqs,
+  getParticipantByWallet,
+  releaseRfqAcceptance,
+} from '@/lib/store/loans';
+import { validateTransferServer } from '@/lib/services/trade-validation-server';
+import { createProposedTrade, type ProposeTradeResult } from '@/lib/services/trade-proposal';
+import { logger } from '@/lib/utils/logger';
+
+const MAX_QUOTE_WINDOW_MINUTES = 7 * 24 * 60;
+
+export function getDefaultQuoteWindowMinutes(): number {
+  const minutes = Number(process.env.RFQ_QUOTE_WINDOW_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : 60;
+}
+
+/**
+ * Clamp a requested quote window to (0, 7 days], falling back to the default
+ */
+export function resolveQuoteWindowMinutes(requested?: number): number {
+  if (typeof requested !== 'number' || !Number.isFinite(requested) || requested <= 0) {
+    return getDefaultQuoteWindowMinutes();
+  }
+  return Math.min(requested, MAX_QUOTE_WINDOW_MINUTES);
+}
+
+export type BuyerScreening = {
+  eligible: Array<{ buyer: Participant; validation: TransferValidation }>;
+  ineligible: Array<{ wallet: string; reason: string; validation?: TransferValidation }>;
+};
+
+/**
+ * Run each prospective buyer through the transfer checks for the RFQ's size
+ */
+export async function screenRfqBuyers(params: {
+  tokenAddress: string;
+  seller: string;
+  units: number;
+  buyers: string[];
+}): Promise<BuyerScreening> {
+  const screening: BuyerScreening = { eligible: [], ineligible: [] };
+  const wallets = [...new Set(params.buyers.map((b) => b.toLowerCase()))];
+
+  for (const wallet of wallets) {
+    if (wallet === params.seller.toLowerCase()) {
+      screening.ineligible.push({ wallet, reason: 'Seller cannot quote on their own RFQ' });
+      continue;
+    }
+
+    const buyer = await getParticipantByWallet(
+      params.buyers.find((b) => b.toLowerCase() === wallet) ?? wallet
+    );
+    if (!buyer?.walletAddress) {
+      screening.ineligible.push({ wallet, reason: 'Not a registered participant' });
+      continue;
+    }
+
+    const validation = await validateTransferServer({
+      tokenAddress: params.tokenAddress,
+      seller: params.seller,
+      buyer: buyer.walletAddress,
+      units: params.units,
+    });
+
+    if (validation.canTransfer) {
+      screening.eligible.push({ buyer, validation });
+    } else {
+      screening.ineligible.push({ wallet, reason: validation.reasonDescription, validation });
+    }
+  }
+
+  return screening;
+}
+
+function sameWallet(a: string | undefined, b: string): boolean {
+  return a != null && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * The seller side (issuer or seller wallet) sees every quote
+ */
+export function isRfqOwner(rfq: Rfq, wallet: string): boolean {
+  return sameWallet(rfq.createdBy, wallet) || sameWallet(rfq.seller.walletAddress, wallet);
+}
+
+export function isRfqInvitee(rfq: Rfq, wallet: string): boolean {
+  return rfq.invitees.some((i) => sameWallet(i.buyer.walletAddress, wallet));
+}
+
+/**
+ * The RFQ as `wallet` may see it, or undefined if they're not party to it.
+ * Invitees get their own quote only and no other invitees' eligibility.
+ */
+export function viewRfqFor(rfq: Rfq, wallet: string): Rfq | undefined {
+  if (isRfqOwner(rfq, wallet)) return rfq;
+  if (!isRfqInvitee(rfq, wallet)) return undefined;
+
+  return {
+    ...rfq,
+    invitees: rfq.invitees.filter((i) => sameWallet(i.buyer.walletAddress, wallet)),
+    quotes: rfq.quotes.filter((q) => sameWallet(q.buyer.walletAddress, wallet)),
+  };
+}
+
+/**
+ * Accept a quote: claim the RFQ, then propose the trade at the quoted price.
+ * If the proposal fails (compliance changed, balance reserved elsewhere) the
+ * RFQ is reopened so the seller can pick another quote.
+ */
+export async function acceptRfqQuote(params: {
+  rfq: Rfq;
+  quoteId: string;
+  actor: TradeWorkflowActor;
+  now?: Date;
+}): Promise<ProposeTradeResult> {
+  const { rfq, actor } = params;
+  const now = params.now ?? new Date();
+
+  const quote = rfq.quotes.find((q) => q.id === params.quoteId);
+  if (!quote) {
+    return { ok: false, error: 'Quote not found on this RFQ', status: 404 };
+  }
+  if (rfq.status !== 'open') {
+    return { ok: false, error: `Conflict: RFQ is ${rfq.status}`, status: 409 };
+  }
+  if (rfq.expiresAt <= now) {
+    return { ok: false, error: 'RFQ quote window has closed', status: 409 };
+  }
+  if (quote.validUntil <= now) {
+    return { ok: false, error: 'Quote has expired', status: 409 };
+  }
+
+  const seller = rfq.seller.walletAddress;
+  const buyer = quote.buyer.walletAddress;
+  if (!seller || !buyer) {
+    return { ok: false, error: 'RFQ is missing seller/buyer walletAddress', status: 400 };
+  }
+
+  await claimRfqAcceptance({ id: rfq.id, quoteId: quote.id, expectedVersion: rfq.version });
+
+  const evidence: TradeQuoteEvidence = {
+    rfqId: rfq.id,
+    quoteId: quote.id,
+    pricePerUnit: quote.pricePerUnit,
+    quotedBy: quote.submittedBy,
+    quotedAt: quote.updatedAt.toISOString(),
+    validUntil: quote.validUntil.toISOString(),
+    quotesReceived: rfq.quotes.length,
+  };
+
+  let result: ProposeTradeResult;
+  try {
+    result = await createProposedTrade({
+      actor,
+      tokenAddress: rfq.tokenAddress,
+      seller,
+      buyer,
+      units: rfq.units,
+      pricePerUnit: quote.pricePerUnit,
+      quote: evidence,
+    });
+  } catch (err) {
+    await releaseRfqAcceptance(rfq.id);
+    throw err;
+  }
+
+  if (!result.ok) {
+    await releaseRfqAcceptance(rfq.id);
+    return result;
+  }
+
+  await completeRfqAcceptance(rfq.id, result.trade.id);
+  return result;
+}
+
+/**
+ * Close RFQs whose quote window has passed
+ */
+export async function expireStaleRfqs(now: Date = new Date()): Promise<number> {
+  const count = await expireOverdueRfqs(now);
+  if (count > 0) {
+    logger.api.info('Expired stale RFQs', { count });
+  }
+  return count;
+}
@@ -0,0 +1,163 @@
+/**
+ * In-process Job Scheduler
+ *
+ * Runs periodic background jobs inside the Next.js server process.
+ * Started once from `src/instrumentation.ts`; set SCHEDULER_ENABLED=false
+ * to disable (e.g. when an external cron hits the job routes instead).
+ *
+ * A job never overlaps with itself: if a run is still in flight when the
+ * next tick fires, that tick is skipped.
+ */
+
+import { logger } from '@/lib/utils/logger';
+import { expireStaleTrades, SYSTEM_ACTOR } from '@/lib/services/trade-expiry';
+import { purgeExpiredIdempotencyKeys } from '@/lib/services/idempotency';
+import { expireStaleRfqs } from '@/lib/services/rfq';
+import { releaseStaleCashLocks } from '@/lib/services/cash-leg';
+import { confirmPendingExecutions } from '@/lib/services/trade-execution';
+import { isIndexerConfigured, runChainIndexer } from '@/lib/services/chain-indexer';
+import { runReconciliation } from '@/lib/services/reconciliation';
+import { redeemMaturedTokens } from '@/lib/services/redemption';
+import { accrueInterest } from '@/lib/services/interest-accrual';
+import { resetFloatingRates } from '@/lib/services/rate-reset';
+import { processDueDistributions } from '@/lib/services/distribution';
+import { snapshotLiveTokens } from '@/lib/services/position-snapshot';
+
+export type ScheduledJob = {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+};
+
+type JobState = {
+  job: ScheduledJob;
+  timer: ReturnType<typeof setInterval>;
+  running: boolean;
+};
+
+// Kept on globalThis so hot reloads don't register duplicate timers
+const globalForScheduler = globalThis as unknown as {
+  schedulerJobs: Map<string, JobState> | undefined;
+};
+
+const jobs = globalForScheduler.schedulerJobs ?? new Map<string, JobState>();
+globalForScheduler.schedulerJobs = jobs;
+
+function secondsFromEnv(name: string, fallback: number): number {
+  const seconds = Number(process.env[name]);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : fallback) * 1000;
+}
+
+async function runJob(state: JobState): Promise<void> {
+  if (state.running) return;
+  state.running = true;
+  try {
+    await state.job.run();
+  } catch (err) {
+    logger.scheduler.error(`Job ${state.job.name} failed`, {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  } finally {
+    state.running = false;
+  }
+}
+
+export function scheduleJob(job: ScheduledJob): void {
+  const existing = jobs.get(job.name);
+  if (existing) clearInterval(existing.timer);
+
+  const state: JobState = {
+    job,
+    running: false,
+    timer: setInterval(() => void runJob(state), job.intervalMs),
+  };
+  // Don't keep the process alive just for background jobs
+  state.timer.unref?.();
+
+  jobs.set(job.name, state);
+  logger.scheduler.info(`Scheduled ${job.name}`, { intervalMs: job.intervalMs });
+}
+
+export function stopScheduler(): void {
+  for (const state of jobs.values()) clearInterval(state.timer);
+  jobs.clear();
+}
+
+/**
+ * Register the built-in background jobs
+ */
+export function startScheduler(): void {
+  scheduleJob({
+    name: 'trade-expiry',
+    intervalMs: secondsFromEnv('TRADE_EXPIRY_SWEEP_SECONDS', 60),
+    run: () => expireStaleTrades(),
+  });
+
+  scheduleJob({
+    name: 'rfq-expiry',
+    intervalMs: secondsFromEnv('TRADE_EXPIRY_SWEEP_SECONDS', 60),
+    run: () => expireStaleRfqs(),
+  });
+
+  scheduleJob({
+    name: 'execution-confirmation',
+    intervalMs: secondsFromEnv('EXECUTION_CONFIRM_SWEEP_SECONDS', 30),
+    run: () => confirmPendingExecutions(),
+  });
+
+  if (isIndexerConfigured()) {
+    scheduleJob({
+      name: 'chain-indexer',
+      intervalMs: secondsFromEnv('INDEXER_POLL_SECONDS', 15),
+      run: () => runChainIndexer(),
+    });
+
+    scheduleJob({
+      name: 'reconciliation',
+      intervalMs: secondsFromEnv('RECONCILIATION_INTERVAL_SECONDS', 3600),
+      run: () => runReconciliation(SYSTEM_ACTOR.wallet),
+    });
+  }
+
+  scheduleJob({
+    name: 'maturity-redemption',
+    intervalMs: secondsFromEnv('MATURITY_REDEMPTION_INTERVAL_SECONDS', 3600),
+    run: () => redeemMaturedTokens(SYSTEM_ACTOR),
+  });
+
+  scheduleJob({
+    name: 'rate-reset',
+    intervalMs: secondsFromEnv('RATE_RESET_INTERVAL_SECONDS', 3600),
+    run: () => resetFloatingRates(),
+  });
+
+  scheduleJob({
+    name: 'interest-accrual',
+    intervalMs: secondsFromEnv('INTEREST_ACCRUAL_INTERVAL_SECONDS', 3600),
+    run: () => accrueInterest(),
+  });
+
+  scheduleJob({
+    name: 'distributions',
+    intervalMs: secondsFromEnv('DISTRIBUTION_INTERVAL_SECONDS', 300),
+    run: () => processDueDistributions(),
+  });
+
+  scheduleJob({
+    name: 'position-snapshot',
+    intervalMs: secondsFromEnv('POSITION_SNAPSHOT_INTERVAL_SECONDS', 86400),
+    run: () => snapshotLiveTokens(SYSTEM_ACTOR),
+  });
+
+  scheduleJob({
+    name: 'cash-lock-release',
+    intervalMs: 5 * 60 * 1000,
+    run: () => releaseStaleCashLocks(),
+  });
+
+  scheduleJob({
+    name: 'idempotency-key-purge',
+    intervalMs: 60 * 60 * 1000,
+    run: () => purgeExpiredIdempotencyKeys(),
+  });
+}
@@ -0,0 +1,274 @@
+/**
+ * Settlement Cycles (Multilateral Netting)
+ *
+ * An agent settles every approved trade for a token as one batch instead of
+ * executing them one by one. The cycle nets the trades into one unit and one
+ * cash position per participant, so a buyer who also sells in the same cycle
+ * only delivers the difference. Units only net within a partition, so a
+ * cycle settles one partition of the token.
+ *
+ * Each trade must still pass the execute transition's cheap guards (expiry,
+ * segregation of duties); trades that don't are left approved and reported as
+ * skipped. Compliance is then revalidated on the net transfers rather than on
+ * each gross trade, and if any net transfer fails nothing settles.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import type {
+  NetPosition,
+  Participant,
+  SettlementCycle,
+  TokenPartition,
+  Trade,
+  TradeWorkflowActor,
+  TransferValidation,
+} from '@/lib/types/loan';
+import { getApprovedTradesForToken, settleTradesInCycle } from '@/lib/store/loans';
+import { validateTransferServer } from '@/lib/services/trade-validation-server';
+import { getApprovalPolicy } from '@/lib/services/trade-workflow-policy';
+import { appendWorkflowEvent } from '@/lib/services/trade-workflow';
+import { checkTransition } from '@/lib/services/trade-state-machine';
+import { getBlockchainMode } from '@/lib/services/blockchain-factory';
+import { prepareCashPayment, type CashPayment } from '@/lib/services/cash-leg';
+import { logger } from '@/lib/utils/logger';
+
+// Units one net deliverer passes to one net receiver
+export type NetTransfer = {
+  seller: Participant;
+  buyer: Participant;
+  units: number;
+};
+
+export type NetTransferCheck = NetTransfer & { validation: TransferValidation };
+
+export type SkippedTrade = { tradeId: string; reason: string };
+
+export type SettlementCycleResult =
+  | { ok: true; cycle: SettlementCycle; skipped: SkippedTrade[] }
+  | {
+      ok: false;
+      error: string;
+      status: number;
+      skipped: SkippedTrade[];
+      failures?: NetTransferCheck[];
+    };
+
+function roundCents(usd: number): number {
+  return Math.round(usd * 100) / 100;
+}
+
+/**
+ * Net each participant's units and cash across the trades, deliverers first
+ */
+export function computeNetPositions(trades: Trade[]): NetPosition[] {
+  const positions = new Map<string, NetPosition>();
+  const positionOf = (participant: Participant) => {
+    let position = positions.get(participant.id);
+    if (!position) {
+      position = { participant, netUnits: 0, netCash: 0, grossUnits: 0 };
+      positions.set(participant.id, position);
+    }
+    return position;
+  };
+
+  for (const trade of trades) {
+    const seller = positionOf(trade.seller);
+    const buyer = positionOf(trade.buyer);
+    seller.netUnits -= trade.units;
+    seller.netCash += trade.totalValue;
+    seller.grossUnits += trade.units;
+    buyer.netUnits += trade.units;
+    buyer.netCash -= trade.totalValue;
+    buyer.grossUnits += trade.units;
+  }
+
+  return [...positions.values()]
+    .map((p) => ({ ...p, netCash: roundCents(p.netCash) }))
+    .sort((a, b) => a.netUnits - b.netUnits);
+}
+
+/**
+ * Pair net deliverers with net receivers into the fewest transfers that
+ * realise the net positions. Flat participants don't appear.
+ */
+export function deriveNetTransfers(positions: NetPosition[]): NetTransfer[] {
+  const deliverers = positions
+    .filter((p) => p.netUnits < 0)
+    .map((p) => ({ participant: p.participant, units: -p.netUnits }));
+  const receivers = positions
+    .filter((p) => p.netUnits > 0)
+    .map((p) => ({ participant: p.participant, units: p.netUnits }));
+
+  const transfers: NetTransfer[] = [];
+  let d = 0;
+  let r = 0;
+  while (d < deliverers.length && r < receivers.length) {
+    const units = Math.min(deliverers[d].units, receivers[r].units);
+    transfers.push({ seller: deliverers[d].participant, buyer: receivers[r].participant, units });
+    deliverers[d].units -= units;
+    receivers[r].units -= units;
+    if (deliverers[d].units === 0) d++;
+    if (receivers[r].units === 0) r++;
+  }
+  return transfers;
+}
+
+/**
+ * Run each net transfer through the transfer checks. A deliverer's units
+ * reserved by the cycle's own trades count as available to it, less what its
+ * earlier net transfers already used.
+ */
+async function validateNetTransfers(
+  tokenAddress: string,
+  partition: TokenPartition,
+  transfers: NetTransfer[],
+  trades: Trade[]
+): Promise<NetTransferCheck[]> {
+  const reservedInCycle = new Map<string, number>();
+  for (const trade of trades) {
+    const id = trade.seller.id;
+    reservedInCycle.set(id, (reservedInCycle.get(id) ?? 0) + (trade.reservedUnits ?? 0));
+  }
+
+  const checks: NetTransferCheck[] = [];
+  for (const transfer of transfers) {
+    const seller = transfer.seller.walletAddress;
+    const buyer = transfer.buyer.walletAddress;
+    const ownReservation = reservedInCycle.get(transfer.seller.id) ?? 0;
+
+    const validation =
+      seller && buyer
+        ? await validateTransferServer({
+            tokenAddress,
+            seller,
+            buyer,
+            units: transfer.units,
+            partition,
+            ownReservation,
+          })
+        : ({
+            canTransfer: false,
+            reasonCode: '0x50',
+            reasonDescription: 'Participant is missing walletAddress',
+            checks: [],
+          } satisfies TransferValidation);
+
+    reservedInCycle.set(transfer.seller.id, ownReservation - transfer.units);
+    checks.push({ ...transfer, validation });
+  }
+  return checks;
+}
+
+// Reverse whatever on-chain cash payments were already made
+async function reverseAll(payments: CashPayment[]): Promise<void> {
+  for (const payment of payments) {
+    await payment.reverse();
+  }
+}
+
+/**
+ * Net and settle every eligible approved trade in one partition of a token
+ * in one batch
+ */
+export async function runSettlementCycle(params: {
+  tokenAddress: string;
+  partition?: TokenPartition;
+  actor: TradeWorkflowActor;
+}): Promise<SettlementCycleResult> {
+  const { tokenAddress, actor } = params;
+  const partition = params.partition ?? 'PRIMARY';
+  const now = new Date();
+  const skipped: SkippedTrade[] = [];
+
+  // Net batches move units in the database only; on-chain trades settle one by one
+  if (getBlockchainMode() === 'real') {
+    return {
+      ok: false,
+      error: 'Conflict: settlement cycles are not available in real blockchain mode',
+      status: 409,
+      skipped,
+    };
+  }
+
+  const approved = await getApprovedTradesForToken(tokenAddress, partition);
+  const trades: Trade[] = [];
+  for (const trade of approved) {
+    const check = await checkTransition(
+      'execute',
+      { trade, actor, policy: await getApprovalPolicy(trade.loanId), now },
+      // Compliance is checked on the net transfers below
+      { skipExpensive: true }
+    );
+    if (check.ok) trades.push(trade);
+    else skipped.push({ tradeId: trade.id, reason: check.error });
+  }
+
+  if (trades.length === 0) {
+    return { ok: false, error: 'Conflict: no approved trades ready to settle', status: 409, skipped };
+  }
+
+  const netPositions = computeNetPositions(trades);
+  const checks = await validateNetTransfers(
+    tokenAddress,
+    partition,
+    deriveNetTransfers(netPositions),
+    trades
+  );
+  const failures = checks.filter((c) => !c.validation.canTransfer);
+  if (failures.length > 0) {
+    return {
+      ok: false,
+      error: `Net transfer failed compliance: ${failures[0].validation.reasonDescription}`,
+      status: 409,
+      skipped,
+      failures,
+    };
+  }
+
+  // Cash is made ready per trade; on-chain payments are undone if the batch fails
+  const payments: CashPayment[] = [];
+  const items = [];
+  try {
+    for (const trade of trades) {
+      const payment = await prepareCashPayment(trade);
+      payments.push(payment);
+      items.push({
+        id: trade.id,
+        expectedVersion: trade.version ?? 0,
+        workflow: appendWorkflowEvent({
+          workflow: trade.workflow,
+          from: trade.status,
+          to: 'settled',
+          actor,
+          reason: 'Settled net in a settlement cycle',
+        }),
+        cashPaymentRef: payment.paymentRef,
+      });
+    }
+
+    const cycle = await settleTradesInCycle({
+      tokenAddress,
+      partition,
+      runBy: actor.wallet,
+      txHash: '0x' + uuidv4().replace(/-/g, ''),
+      settlementTime: 2.5,
+      netPositions,
+      trades: items,
+    });
+
+    logger.api.info('Settlement cycle completed', {
+      cycleId: cycle.id,
+      tokenAddress,
+      partition,
+      trades: trades.length,
+      grossUnits: trades.reduce((sum, t) => sum + t.units, 0),
+      netUnits: netPositions.reduce((sum, p) => sum + Math.max(0, p.netUnits), 0),
+    });
+
+    return { ok: true, cycle, skipped };
+  } catch (err) {
+    await reverseAll(payments);
+    throw err;
+  }
+}
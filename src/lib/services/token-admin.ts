@@ -0,0 +1,234 @@
+/**
+ * Token Admin
+ *
+ * Issuer actions on a LoanToken: freezing an address or part of a holder's
+ * units, pausing the token, and forced (controller) transfers. Each action
+ * needs a reason code and is written to the TokenAdminAction audit log.
+ *
+ * Mock mode applies the action to the mock service and the ledger at once.
+ * Real mode sends it from the token owner's key (TOKEN_ADMIN_PRIVATE_KEY),
+ * or the settlement agent's for forced transfers, records it as pending with
+ * its tx hash and waits for it to be mined. Retrying an action that is still
+ * pending resumes from that tx rather than sending another. TokenBalance then follows through the chain indexer, as it does for
+ * executed trades; without one (no INDEXER_RPC_URL) frozen units and forced
+ * transfers are applied to the ledger here once mined.
+ */
+
+import { encodeFunctionData, type Hash, type Hex } from 'viem';
+
+import {
+  TOKEN_ADMIN_REASON_CODES,
+  type TokenAdminAction,
+  type TokenAdminActionType,
+  type TokenAdminReasonCode,
+  type TokenPartition,
+  type TradeWorkflowActor,
+} from '@/lib/types/loan';
+import { LoanTokenABI } from '@/lib/contracts/abi';
+import {
+  adjustFrozenTokens,
+  forceTransferLedgerUnits,
+  getPendingTokenAdminAction,
+  recordPendingTokenAdminAction,
+  recordTokenAdminAction,
+  type NewTokenAdminAction,
+} from '@/lib/store/loans';
+import * as mockService from '@/lib/services/blockchain';
+import { getBlockchainMode } from '@/lib/services/blockchain-factory';
+import { isIndexerConfigured } from '@/lib/services/chain-indexer';
+import {
+  ensureTxMined,
+  getLoanTokenVersion,
+  getSignerClients,
+  submitControllerTransfer,
+} from '@/lib/services/controller-transfer';
+import { logger } from '@/lib/utils/logger';
+
+type Address = `0x${string}`;
+
+export type TokenAdminRequest =
+  | { action: 'freeze_address' | 'unfreeze_address'; wallet: string }
+  | { action: 'freeze_tokens' | 'unfreeze_tokens'; wallet: string; units: number }
+  | { action: 'pause' | 'unpause' }
+  | {
+      action: 'forced_transfer';
+      wallet: string;
+      toWallet: string;
+      units: number;
+      partition: TokenPartition;
+    };
+
+/**
+ * Why a reason code / note pair is unacceptable, if it is
+ */
+export function reasonError(reasonCode: unknown, reason?: string): string | undefined {
+  if (!TOKEN_ADMIN_REASON_CODES.includes(reasonCode as TokenAdminReasonCode)) {
+    return `reasonCode must be one of: ${TOKEN_ADMIN_REASON_CODES.join(', ')}`;
+  }
+  if (reasonCode === 'other' && !reason?.trim()) {
+    return 'A reason is required when reasonCode is other';
+  }
+  return undefined;
+}
+
+async function applyMock(
+  tokenAddress: string,
+  request: TokenAdminRequest,
+  audit: NewTokenAdminAction
+): Promise<TokenAdminAction> {
+  switch (request.action) {
+    case 'freeze_address':
+    case 'unfreeze_address':
+      mockService.freezeAddress(request.wallet, request.action === 'freeze_address');
+      return recordTokenAdminAction(audit);
+
+    case 'pause':
+    case 'unpause':
+      mockService.setTokenPaused(tokenAddress, request.action === 'pause');
+      return recordTokenAdminAction(audit);
+
+    case 'freeze_tokens':
+    case 'unfreeze_tokens': {
+      // The ledger enforces the limits, so it goes first
+      const recorded = await adjustFrozenTokens({ ...audit, ...request });
+      if (request.action === 'freeze_tokens') {
+        mockService.freezeTokensForAddress(request.wallet, request.units);
+      } else {
+        mockService.unfreezeTokensForAddress(request.wallet, request.units);
+      }
+      return recorded;
+    }
+
+    case 'forced_transfer':
+      // The mock token behaves as the current LoanToken
+      return forceTransferLedgerUnits({ ...audit, ...request }, { unfreezeShortfall: true });
+  }
+}
+
+/**
+ * Send an onlyOwner LoanToken call from TOKEN_ADMIN_PRIVATE_KEY
+ */
+export async function sendAsTokenOwner(tokenAddress: string, data: Hex): Promise<Hash> {
+  const privateKey = process.env.TOKEN_ADMIN_PRIVATE_KEY as Address | undefined;
+  if (!privateKey) {
+    throw new Error('Real-mode token admin requires TOKEN_ADMIN_PRIVATE_KEY');
+  }
+  const { walletClient } = getSignerClients(privateKey);
+  return walletClient.sendTransaction({ to: tokenAddress as Address, data });
+}
+
+function ownerCall(request: Exclude<TokenAdminRequest, { action: 'forced_transfer' }>) {
+  switch (request.action) {
+    case 'freeze_address':
+    case 'unfreeze_address':
+      return encodeFunctionData({
+        abi: LoanTokenABI,
+        functionName: 'freezeAddress',
+        args: [request.wallet as Address, request.action === 'freeze_address'],
+      });
+    case 'freeze_tokens':
+    case 'unfreeze_tokens':
+      return encodeFunctionData({
+        abi: LoanTokenABI,
+        functionName: request.action === 'freeze_tokens' ? 'freezeTokens' : 'unfreezeTokens',
+        args: [request.wallet as Address, BigInt(request.units)],
+      });
+    case 'pause':
+    case 'unpause':
+      return encodeFunctionData({ abi: LoanTokenABI, functionName: request.action });
+  }
+}
+
+async function sendOnChain(tokenAddress: string, request: TokenAdminRequest, reference: string): Promise<Hash> {
+  if (request.action === 'forced_transfer') {
+    // LoanToken.controllerTransfer always moves PRIMARY units
+    if (request.partition !== 'PRIMARY') {
+      throw new Error(`Conflict: ${request.partition} units cannot be moved by a controller transfer`);
+    }
+    return submitControllerTransfer({
+      reference,
+      tokenAddress,
+      from: request.wallet,
+      to: request.toWallet,
+      units: request.units,
+    });
+  }
+
+  return sendAsTokenOwner(tokenAddress, ownerCall(request));
+}
+
+async function applyOnChain(
+  tokenAddress: string,
+  request: TokenAdminRequest,
+  audit: NewTokenAdminAction
+): Promise<TokenAdminAction> {
+  const pending = await getPendingTokenAdminAction(audit);
+  let pendingId = pending?.id;
+  let txHash = pending?.txHash;
+
+  await ensureTxMined({
+    recorded: pending?.txHash,
+    // Carried in a forced transfer's calldata so the tx can be traced to its sender
+    send: () => sendOnChain(tokenAddress, request, `admin:${audit.actor}:${Date.now()}`),
+    record: async (hash) => {
+      pendingId = (await recordPendingTokenAdminAction({ ...audit, txHash: hash }, pendingId)).id;
+      txHash = hash;
+    },
+    step: request.action,
+  });
+
+  if (!isIndexerConfigured()) {
+    switch (request.action) {
+      case 'freeze_tokens':
+      case 'unfreeze_tokens':
+        return adjustFrozenTokens({ ...audit, ...request, txHash }, pendingId);
+      case 'forced_transfer':
+        return forceTransferLedgerUnits(
+          { ...audit, ...request, txHash },
+          { unfreezeShortfall: (await getLoanTokenVersion(tokenAddress)) >= 2, pendingId }
+        );
+    }
+  }
+  return recordTokenAdminAction({ ...audit, txHash }, pendingId);
+}
+
+/**
+ * Carry out an issuer admin action and return its audit record
+ */
+export async function performTokenAdminAction(params: {
+  tokenAddress: string;
+  actor: TradeWorkflowActor;
+  reasonCode: TokenAdminReasonCode;
+  reason?: string;
+  request: TokenAdminRequest;
+}): Promise<TokenAdminAction> {
+  const { tokenAddress, actor, request } = params;
+  const mode = getBlockchainMode();
+
+  const audit: NewTokenAdminAction = {
+    tokenAddress,
+    action: request.action as TokenAdminActionType,
+    reasonCode: params.reasonCode,
+    reason: params.reason?.trim() || undefined,
+    actor: actor.wallet,
+    wallet: 'wallet' in request ? request.wallet : undefined,
+    toWallet: 'toWallet' in request ? request.toWallet : undefined,
+    units: 'units' in request ? request.units : undefined,
+    partition: 'partition' in request ? request.partition : undefined,
+    mode,
+  };
+
+  const recorded =
+    mode === 'real'
+      ? await applyOnChain(tokenAddress, request, audit)
+      : await applyMock(tokenAddress, request, audit);
+
+  logger.api.info('Token admin action', {
+    id: recorded.id,
+    action: recorded.action,
+    tokenAddress,
+    reasonCode: recorded.reasonCode,
+    actor: recorded.actor,
+  });
+  return recorded;
+}
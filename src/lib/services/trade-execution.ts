@@ -0,0 +1,256 @@
+/**
+ * Trade Execution
+ *
+ * Settles an approved trade for the workflow execute route. Both modes take
+ * the same steps: the buyer's cash is locked, the trade is claimed as
+ * `executed` (a version compare-and-swap, so two executes can't both go
+ * ahead), and it is `settled` once its transfer is final, with the
+ * settlement time measured from the claim.
+ *
+ * In mock mode nothing goes on-chain, so the transfer is final at once. In
+ * real mode the settlement agent submits a controllerTransfer: the trade
+ * stays `executed` (carrying the tx hash) while the receipt is pending and
+ * settles once it is mined. A reverted transfer puts the trade back to
+ * `approved`. The chain indexer moves real-mode units in TokenBalance;
+ * otherwise they are moved on settling. Cash is paid on settling.
+ *
+ * LoanToken.controllerTransfer only moves PRIMARY units, so in real mode
+ * trades in another partition are refused before anything is locked.
+ */
+
+import type { Trade, TradeWorkflowActor, TransferValidation } from '@/lib/types/loan';
+import {
+  getPendingExecutions,
+  recordExecutionTx,
+  settleTrade,
+  updateTradeWorkflowAndStatus,
+} from '@/lib/store/loans';
+import { getBlockchainMode } from '@/lib/services/blockchain-factory';
+import { appendWorkflowEvent } from '@/lib/services/trade-workflow';
+import { lockCashForTrade, prepareCashPayment } from '@/lib/services/cash-leg';
+import {
+  getTransferReceipt,
+  submitControllerTransfer,
+  waitForTransferReceipt,
+  type TransferReceipt,
+} from '@/lib/services/controller-transfer';
+import { isIndexerConfigured } from '@/lib/services/chain-indexer';
+import { SYSTEM_ACTOR } from '@/lib/services/trade-expiry';
+import { logger } from '@/lib/utils/logger';
+
+// How long the execute request waits for a receipt before leaving it to the sweep
+const RECEIPT_WAIT_MS = 30 * 1000;
+
+async function settleWithCash(
+  trade: Trade,
+  settle: (cashPaymentRef: string | undefined) => Promise<Trade>
+): Promise<Trade> {
+  // DvP: cash is paid only if the units settle, otherwise it is put back
+  const payment = await prepareCashPayment(trade);
+  try {
+    return await settle(payment.paymentRef);
+  } catch (err) {
+    await payment.reverse();
+    throw err;
+  }
+}
+
+function executionStartedAt(trade: Trade): Date | undefined {
+  const event = trade.workflow?.history.findLast((e) => e.to === 'executed');
+  return event ? new Date(event.at) : undefined;
+}
+
+/**
+ * Apply a mined (or still pending) receipt to an executed trade; mock-mode
+ * trades have no tx and are applied a success straight away
+ */
+async function applyReceipt(trade: Trade, txHash: string | undefined, receipt: TransferReceipt): Promise<Trade> {
+  if (receipt.status === 'pending') return trade;
+
+  if (receipt.status === 'reverted') {
+    const workflow = appendWorkflowEvent({
+      workflow: trade.workflow,
+      from: 'executed',
+      to: 'approved',
+      actor: SYSTEM_ACTOR,
+      reason: `On-chain transfer reverted (tx ${txHash})`,
+    });
+    await updateTradeWorkflowAndStatus({
+      id: trade.id,
+      status: 'approved',
+      workflow,
+      validation: trade.validation,
+      txHash: null,
+      expectedVersion: trade.version ?? 0,
+    });
+    logger.api.warn('Trade execution reverted', { tradeId: trade.id, txHash });
+    return { ...trade, status: 'approved', workflow, txHash: undefined, version: (trade.version ?? 0) + 1 };
+  }
+
+  const startedAt = executionStartedAt(trade) ?? receipt.minedAt;
+  const workflow = appendWorkflowEvent({
+    workflow: trade.workflow,
+    from: 'executed',
+    to: 'settled',
+    actor: SYSTEM_ACTOR,
+    reason: txHash ? `Transfer confirmed (tx ${txHash})` : 'Transfer confirmed',
+  });
+
+  return settleWithCash(trade, (cashPaymentRef) =>
+    settleTrade({
+      id: trade.id,
+      expectedVersion: trade.version ?? 0,
+      workflow,
+      validation: trade.validation,
+      txHash,
+      // Block timestamps are whole seconds, so a fast block can land before submission
+      settlementTime: Math.max(0, (receipt.minedAt.getTime() - startedAt.getTime()) / 1000),
+      cashPaymentRef,
+      unitsIndexed: txHash !== undefined && isIndexerConfigured(),
+    })
+  );
+}
+
+/**
+ * Lock the buyer's cash and claim the trade as executed, before any units move
+ */
+async function claimExecution(
+  trade: Trade,
+  actor: TradeWorkflowActor,
+  validation?: TransferValidation
+): Promise<Trade> {
+  await lockCashForTrade(trade);
+
+  const workflow = appendWorkflowEvent({
+    workflow: trade.workflow,
+    from: trade.status,
+    to: 'executed',
+    actor,
+  });
+  await updateTradeWorkflowAndStatus({
+    id: trade.id,
+    status: 'executed',
+    workflow,
+    validation,
+    expectedVersion: trade.version ?? 0,
+  });
+  return { ...trade, status: 'executed', workflow, validation, version: (trade.version ?? 0) + 1 };
+}
+
+/**
+ * Put a claimed trade back to approved when its transfer never went ahead
+ */
+async function releaseExecution(executing: Trade, reason: string): Promise<void> {
+  await updateTradeWorkflowAndStatus({
+    id: executing.id,
+    status: 'approved',
+    workflow: appendWorkflowEvent({
+      workflow: executing.workflow,
+      from: 'executed',
+      to: 'approved',
+      actor: SYSTEM_ACTOR,
+      reason,
+    }),
+    validation: executing.validation,
+    expectedVersion: executing.version ?? 0,
+  });
+}
+
+/**
+ * Submit the trade's transfer on-chain and settle it if the receipt arrives
+ * within RECEIPT_WAIT_MS; otherwise it is returned still `executed`
+ */
+async function executeOnChain(
+  trade: Trade,
+  actor: TradeWorkflowActor,
+  validation?: TransferValidation
+): Promise<Trade> {
+  const seller = trade.seller.walletAddress;
+  const buyer = trade.buyer.walletAddress;
+  if (!seller || !buyer) {
+    throw new Error('Trade is missing seller/buyer walletAddress');
+  }
+  if (trade.partition && trade.partition !== 'PRIMARY') {
+    throw new Error(`Conflict: ${trade.partition} units cannot be moved by a controller transfer`);
+  }
+
+  const executing = await claimExecution(trade, actor, validation);
+
+  let txHash: `0x${string}`;
+  try {
+    txHash = await submitControllerTransfer({
+      reference: `trade:${trade.id}`,
+      tokenAddress: trade.tokenAddress,
+      from: seller,
+      to: buyer,
+      units: trade.units,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await releaseExecution(executing, `Transfer submission failed: ${message}`);
+    throw err;
+  }
+
+  await recordExecutionTx({ id: trade.id, txHash });
+
+  const result = await applyReceipt(
+    { ...executing, txHash },
+    txHash,
+    await waitForTransferReceipt(txHash, RECEIPT_WAIT_MS)
+  );
+  if (result.status === 'approved') {
+    throw new Error(`Conflict: on-chain transfer reverted (tx ${txHash}); trade is approved again`);
+  }
+  return result;
+}
+
+/**
+ * Execute an approved trade that has passed the execute transition's checks
+ */
+export async function executeTrade(params: {
+  trade: Trade;
+  actor: TradeWorkflowActor;
+  validation?: TransferValidation;
+}): Promise<Trade> {
+  const { trade, actor, validation } = params;
+
+  if (getBlockchainMode() === 'real') {
+    return executeOnChain(trade, actor, validation);
+  }
+
+  const executing = await claimExecution(trade, actor, validation);
+  try {
+    return await applyReceipt(executing, undefined, { status: 'success', minedAt: new Date() });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await releaseExecution(executing, `Settlement failed: ${message}`);
+    throw err;
+  }
+}
+
+/**
+ * Settle or revert executed trades whose receipts have since been mined.
+ * A trade claimed as executed but with no recorded tx hash is not touched:
+ * whether its transfer went out is unknown, so an operator has to check.
+ */
+export async function confirmPendingExecutions(): Promise<number> {
+  const pending = await getPendingExecutions();
+  let resolved = 0;
+
+  for (const trade of pending) {
+    const txHash = trade.txHash as `0x${string}`;
+    try {
+      const result = await applyReceipt(trade, txHash, await getTransferReceipt(txHash));
+      if (result.status !== 'executed') resolved++;
+    } catch (err) {
+      // Another confirmation got there first; the next sweep re-checks it
+      if (err instanceof Error && err.message.startsWith('Conflict')) continue;
+      throw err;
+    }
+  }
+
+  if (resolved > 0) {
+    logger.api.info('Confirmed pending trade executions', { count: resolved });
+  }
+  return resolved;
+}
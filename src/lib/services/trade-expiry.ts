@@ -0,0 +1,103 @@
+/**
+ * Trade Expiry
+ *
+ * Proposed and approved trades carry an `expiresAt`. The TTL is resolved from
+ * (in order) the loan's workflow policy, the shortest TTL configured for the
+ * seller's/buyer's participant type, and finally the env defaults.
+ *
+ * A scheduler job sweeps overdue trades into `expired`, attributed to the
+ * system actor so the audit trail shows no human made the transition.
+ */
+
+import type { Participant, Trade, TradeTtlPolicy, TradeWorkflowActor } from '@/lib/types/loan';
+import {
+  getOverdueTrades,
+  getTradeTtlPolicies,
+  updateTradeWorkflowAndStatus,
+} from '@/lib/store/loans';
+import { appendWorkflowEvent } from '@/lib/services/trade-workflow';
+import { releaseCashQuietly } from '@/lib/services/cash-leg';
+import { logger } from '@/lib/utils/logger';
+
+export const SYSTEM_ACTOR: TradeWorkflowActor = { role: 'system', wallet: 'system' };
+
+type ExpiringStatus = 'proposed' | 'approved';
+
+const TTL_FIELD: Record<ExpiringStatus, keyof TradeTtlPolicy> = {
+  proposed: 'proposedTtlMinutes',
+  approved: 'approvedTtlMinutes',
+};
+
+function getDefaultTtlMinutes(status: ExpiringStatus): number {
+  const raw = status === 'proposed'
+    ? process.env.TRADE_PROPOSED_TTL_MINUTES
+    : process.env.TRADE_APPROVED_TTL_MINUTES;
+  const minutes = Number(raw);
+  if (Number.isFinite(minutes) && minutes > 0) return minutes;
+  return status === 'proposed' ? 24 * 60 : 4 * 60;
+}
+
+/**
+ * Compute when a trade entering `status` should expire
+ */
+export async function resolveTradeExpiry(params: {
+  loanId: string;
+  tokenAddress: string;
+  participantTypes: Participant['type'][];
+  status: ExpiringStatus;
+  from?: Date;
+}): Promise<Date> {
+  const field = TTL_FIELD[params.status];
+  const policies = await getTradeTtlPolicies(params);
+
+  const typeTtls = policies.participantTypes
+    .map((p) => p[field])
+    .filter((m): m is number => m != null);
+
+  const minutes =
+    policies.loan?.[field] ??
+    (typeTtls.length > 0 ? Math.min(...typeTtls) : getDefaultTtlMinutes(params.status));
+
+  return new Date((params.from ?? new Date()).getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Move every overdue proposed/approved trade to `expired`
+ */
+export async function expireStaleTrades(now: Date = new Date()): Promise<Trade[]> {
+  const overdue = await getOverdueTrades(now);
+  const expired: Trade[] = [];
+
+  for (const trade of overdue) {
+    const workflow = appendWorkflowEvent({
+      workflow: trade.workflow,
+      from: trade.status,
+      to: 'expired',
+      actor: SYSTEM_ACTOR,
+      reason: `TTL elapsed at ${trade.expiresAt?.toISOString()}`,
+    });
+
+    try {
+      await updateTradeWorkflowAndStatus({
+        id: trade.id,
+        status: 'expired',
+        workflow,
+        validation: trade.validation,
+        expectedVersion: trade.version ?? 0,
+      });
+    } catch (err) {
+      // Someone acted on the trade since we loaded it; the next sweep re-checks it
+      if (err instanceof Error && err.message.startsWith('Conflict')) continue;
+      throw err;
+    }
+
+    await releaseCashQuietly(trade.id);
+    expired.push({ ...trade, status: 'expired', workflow });
+  }
+
+  if (expired.length > 0) {
+    logger.api.info('Expired stale trades', { count: expired.length, tradeIds: expired.map((t) => t.id) });
+  }
+
+  return expired;
+}
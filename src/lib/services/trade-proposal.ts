@@ -0,0 +1,111 @@
+/**
+ * Trade Proposal
+ *
+ * Builds a proposed trade, runs the `propose` transition (compliance
+ * revalidation), stamps the workflow and expiry, and persists it with its
+ * seller reservation. Shared by the propose route, block-order allocation and
+ * RFQ acceptance so every entry point goes through the same checks.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import type {
+  TokenPartition,
+  Trade,
+  TradeQuoteEvidence,
+  TradeWorkflowActor,
+  TransferValidation,
+} from '@/lib/types/loan';
+import { addTrade, getParticipantByWallet, getTradeById } from '@/lib/store/loans';
+import { appendWorkflowEvent } from '@/lib/services/trade-workflow';
+import { getApprovalPolicy } from '@/lib/services/trade-workflow-policy';
+import { resolveTradeExpiry } from '@/lib/services/trade-expiry';
+import { checkTransition } from '@/lib/services/trade-state-machine';
+
+export type ProposeTradeParams = {
+  actor: TradeWorkflowActor;
+  tokenAddress: string;
+  seller: string;
+  buyer: string;
+  units: number;
+  pricePerUnit: number;
+  partition?: TokenPartition;
+  orderId?: string;
+  quote?: TradeQuoteEvidence;
+};
+
+export type ProposeTradeResult =
+  | { ok: true; trade: Trade }
+  | { ok: false; error: string; status: number; validation?: TransferValidation };
+
+function unknownParticipant(name: string, walletAddress: string): Trade['seller'] {
+  return {
+    id: uuidv4(),
+    name,
+    type: 'fund',
+    walletAddress,
+    kycStatus: 'approved',
+    accreditedInvestor: true,
+    jurisdiction: 'US',
+  };
+}
+
+/**
+ * Validate and record a proposed trade. Does NOT move balances.
+ * Store-level conflicts (reservation, order capacity) are thrown.
+ */
+export async function createProposedTrade(params: ProposeTradeParams): Promise<ProposeTradeResult> {
+  const { actor, tokenAddress, seller, buyer, units, pricePerUnit } = params;
+
+  const [sellerParticipant, buyerParticipant] = await Promise.all([
+    getParticipantByWallet(seller),
+    getParticipantByWallet(buyer),
+  ]);
+
+  const trade: Trade = {
+    id: uuidv4(),
+    loanId: 'mock-loan-id',
+    tokenAddress,
+    seller: sellerParticipant ?? unknownParticipant('Unknown Seller', seller),
+    buyer: buyerParticipant ?? unknownParticipant('Unknown Buyer', buyer),
+    units,
+    pricePerUnit,
+    totalValue: units * pricePerUnit,
+    status: 'proposed',
+    partition: params.partition ?? 'PRIMARY',
+    createdAt: new Date(),
+    orderId: params.orderId,
+  };
+
+  const check = await checkTransition('propose', {
+    trade,
+    actor,
+    policy: await getApprovalPolicy(trade.loanId),
+    now: trade.createdAt,
+    from: 'none',
+  });
+  if (!check.ok) return check;
+
+  trade.validation = check.validation;
+  trade.workflow = appendWorkflowEvent({
+    workflow: undefined,
+    from: 'none',
+    to: 'proposed',
+    actor,
+  });
+  if (params.quote) {
+    trade.workflow.quote = params.quote;
+  }
+  trade.expiresAt = await resolveTradeExpiry({
+    loanId: trade.loanId,
+    tokenAddress,
+    participantTypes: [trade.seller.type, trade.buyer.type],
+    status: 'proposed',
+    from: trade.createdAt,
+  });
+
+  const id = await addTrade(trade);
+  const created = await getTradeById(id);
+
+  return { ok: true, trade: created ?? { ...trade, id } };
+}
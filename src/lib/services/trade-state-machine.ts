@@ -0,0 +1,270 @@
+/**
+ * Trade Workflow State Machine
+ *
+ * Single definition of which workflow actions exist, the TradeStatus each is
+ * allowed from and may lead to, the role that performs it and the guards that
+ * must pass. Routes run `checkTransition` instead of ad-hoc status checks,
+ * `appendWorkflowEvent` refuses transitions that are not defined here, and
+ * `getAvailableActions` tells the UI which buttons to render.
+ */
+
+import type {
+  Trade,
+  TradeAction,
+  TradeActionOption,
+  TradeApprovalPolicy,
+  TradeStatus,
+  TradeWorkflowActor,
+  TransferValidation,
+} from '@/lib/types/loan';
+import { validateTransferServer } from '@/lib/services/trade-validation-server';
+import { assertIsProposer, assertSegregationOfDuties } from '@/lib/services/trade-workflow-policy';
+import { assertRole, workflowErrorStatus, type WorkflowActor } from '@/lib/services/trade-workflow-auth';
+
+export type TransitionContext = {
+  trade: Trade;
+  actor: TradeWorkflowActor;
+  policy: TradeApprovalPolicy;
+  now: Date;
+  from?: TradeStatus | 'none'; // Defaults to trade.status; 'none' for a draft being proposed
+  units?: number; // Amended units, when they differ from the trade's
+};
+
+export type GuardResult =
+  | { ok: true; validation?: TransferValidation }
+  | { ok: false; error: string; status: number; validation?: TransferValidation };
+
+export type TransitionGuard = {
+  name: string;
+  // Expensive guards (compliance revalidation) are skipped when listing actions
+  expensive?: boolean;
+  check: (ctx: TransitionContext) => GuardResult | Promise<GuardResult>;
+};
+
+export type TradeTransition = {
+  label: string;
+  from: Array<TradeStatus | 'none'>;
+  to: TradeStatus[];
+  role: TradeWorkflowActor['role'];
+  guards: TransitionGuard[];
+};
+
+const PASS: GuardResult = { ok: true };
+
+// Turn a throwing policy assertion into a guard result
+function fromAssertion(assertion: () => void): GuardResult {
+  try {
+    assertion();
+    return PASS;
+  } catch (err) {
+    const error = err instanceof Error ? err.message : 'Unknown error';
+    return { ok: false, error, status: workflowErrorStatus(error) };
+  }
+}
+
+export function isTradeExpired(trade: Pick<Trade, 'expiresAt'>, now: Date = new Date()): boolean {
+  return trade.expiresAt != null && trade.expiresAt.getTime() <= now.getTime();
+}
+
+const notExpired: TransitionGuard = {
+  name: 'not-expired',
+  check: ({ trade, now }) =>
+    isTradeExpired(trade, now) ? { ok: false, error: 'Trade has expired', status: 409 } : PASS,
+};
+
+const overdue: TransitionGuard = {
+  name: 'overdue',
+  check: ({ trade, now }) =>
+    isTradeExpired(trade, now) ? PASS : { ok: false, error: 'Trade has not expired', status: 409 },
+};
+
+const segregationOfDuties: TransitionGuard = {
+  name: 'segregation-of-duties',
+  check: ({ trade, actor, policy }) =>
+    fromAssertion(() => assertSegregationOfDuties(trade.workflow, actor, policy)),
+};
+
+const isProposer: TransitionGuard = {
+  name: 'is-proposer',
+  check: ({ trade, actor }) => fromAssertion(() => assertIsProposer(trade.workflow, actor)),
+};
+
+const revalidation: TransitionGuard = {
+  name: 'revalidation',
+  expensive: true,
+  check: async ({ trade, units }) => {
+    const seller = trade.seller.walletAddress;
+    const buyer = trade.buyer.walletAddress;
+
+    if (!seller || !buyer) {
+      return { ok: false, error: 'Trade is missing seller/buyer walletAddress', status: 400 };
+    }
+
+    const validation = await validateTransferServer({
+      tokenAddress: trade.tokenAddress,
+      seller,
+      buyer,
+      units: units ?? trade.units,
+      partition: trade.partition,
+      ownReservation: trade.reservedUnits,
+    });
+
+    return validation.canTransfer
+      ? { ok: true, validation }
+      : { ok: false, error: validation.reasonDescription, status: 409, validation };
+  },
+};
+
+export const TRADE_TRANSITIONS: Record<TradeAction, TradeTransition> = {
+  propose: {
+    label: 'Propose',
+    from: ['none'],
+    to: ['proposed'],
+    role: 'trader',
+    guards: [revalidation],
+  },
+  approve: {
+    label: 'Approve',
+    from: ['proposed'],
+    to: ['proposed', 'approved'], // stays proposed until enough distinct approvals
+    role: 'checker',
+    guards: [notExpired, segregationOfDuties, revalidation],
+  },
+  reject: {
+    label: 'Reject',
+    from: ['proposed'],
+    to: ['rejected'],
+    role: 'checker',
+    guards: [], // No four-eyes check: any checker may stop a trade
+  },
+  execute: {
+    label: 'Execute',
+    from: ['approved'],
+    to: ['settled', 'executed'], // executed while an on-chain transfer awaits its receipt
+    role: 'agent',
+    guards: [notExpired, segregationOfDuties, revalidation],
+  },
+  cancel: {
+    label: 'Cancel',
+    from: ['proposed', 'approved'],
+    to: ['cancelled'],
+    role: 'trader',
+    guards: [isProposer],
+  },
+  amend: {
+    label: 'Amend',
+    from: ['proposed', 'approved'],
+    to: ['proposed'],
+    role: 'trader',
+    guards: [isProposer, notExpired, revalidation],
+  },
+  expire: {
+    label: 'Expire',
+    from: ['proposed', 'approved'],
+    to: ['expired'],
+    role: 'system',
+    guards: [overdue],
+  },
+  confirm: {
+    label: 'Confirm settlement',
+    from: ['executed'],
+    to: ['settled'],
+    role: 'system',
+    guards: [],
+  },
+  revert: {
+    label: 'Revert execution',
+    from: ['executed'],
+    to: ['approved'], // the transfer reverted on-chain; the agent may execute again
+    role: 'system',
+    guards: [],
+  },
+};
+
+/**
+ * Assert the actor holds the role an action requires and return it as the
+ * workflow actor for that action. System-only actions are never user-callable.
+ */
+export function assertActionRole(actor: WorkflowActor, action: TradeAction): TradeWorkflowActor {
+  const role = TRADE_TRANSITIONS[action].role;
+  if (role === 'system') {
+    throw new Error(`Forbidden: ${action} is performed by the system only`);
+  }
+  return assertRole(actor, role);
+}
+
+/**
+ * Whether any action moves a trade from `from` to `to`
+ */
+export function isTransitionDefined(from: TradeStatus | 'none', to: TradeStatus): boolean {
+  return Object.values(TRADE_TRANSITIONS).some((t) => t.from.includes(from) && t.to.includes(to));
+}
+
+/**
+ * Run the role, source-state and guard checks for an action.
+ * On success returns the revalidation result (if the action revalidates).
+ */
+export async function checkTransition(
+  action: TradeAction,
+  ctx: TransitionContext,
+  options: { skipExpensive?: boolean } = {}
+): Promise<GuardResult> {
+  const transition = TRADE_TRANSITIONS[action];
+
+  if (ctx.actor.role !== transition.role) {
+    return { ok: false, error: `Forbidden: ${action} requires role ${transition.role}`, status: 403 };
+  }
+
+  const from = ctx.from ?? ctx.trade.status;
+  if (!transition.from.includes(from)) {
+    return {
+      ok: false,
+      error: `Cannot ${action} trade in ${from} state (allowed from: ${transition.from.join(', ')})`,
+      status: 409,
+    };
+  }
+
+  let validation: TransferValidation | undefined;
+  for (const guard of transition.guards) {
+    if (guard.expensive && options.skipExpensive) continue;
+    const result = await guard.check(ctx);
+    if (!result.ok) return result;
+    validation = result.validation ?? validation;
+  }
+
+  return { ok: true, validation };
+}
+
+/**
+ * Actions the actor may take on the trade right now, across all of its roles.
+ * Revalidation is not run here; it happens when the action is submitted.
+ */
+export async function getAvailableActions(
+  trade: Trade,
+  actor: WorkflowActor,
+  policy: TradeApprovalPolicy,
+  now: Date = new Date()
+): Promise<TradeActionOption[]> {
+  const options: TradeActionOption[] = [];
+
+  for (const [action, transition] of Object.entries(TRADE_TRANSITIONS) as Array<
+    [TradeAction, TradeTransition]
+  >) {
+    const role = transition.role;
+    if (transition.from.includes('none') || role === 'system') continue;
+    if (!actor.roles.includes(role)) continue;
+
+    const ctx = { trade, actor: assertRole(actor, role), policy, now };
+    const result = await checkTransition(action, ctx, { skipExpensive: true });
+    if (result.ok) {
+      options.push({
+        action,
+        label: transition.label,
+        role,
+        endpoint: `/api/trades/workflow/${action}`,
+      });
+    }
+  }
+
+  return options;
+}
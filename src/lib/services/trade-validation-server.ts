@@ -1,4 +1,4 @@
-import type { TransferValidation } from '@/lib/types/loan';
+import type { TokenPartition, TransferValidation } from '@/lib/types/loan';
 import { prisma } from '@/lib/db/prisma';
 import { getBlockchainService } from '@/lib/services/blockchain-factory';
 
@@ -7,13 +7,17 @@ export async function validateTransferServer(input: {
   seller: string;
   buyer: string;
   units: number;
+  partition?: TokenPartition; // Defaults to PRIMARY
+  ownReservation?: number; // Units already earmarked by the trade being revalidated
 }): Promise<TransferValidation> {
+  const partition = input.partition ?? 'PRIMARY';
   const service = getBlockchainService();
   const base = await service.validateTransfer(
     input.tokenAddress,
     input.seller,
     input.buyer,
-    input.units
+    input.units,
+    partition
   );
 
   // Override ONLY the balance check using DB (TokenBalance) so the server report
@@ -23,12 +27,34 @@ export async function validateTransferServer(input: {
       tokenAddress: input.tokenAddress,
       participant: { walletAddress: input.seller },
     },
-    select: { balance: true, frozenAmount: true },
+    select: {
+      balance: true,
+      frozenAmount: true,
+      reservedAmount: true,
+      partitions: { where: { partition }, select: { balance: true } },
+    },
+  });
+  const reservedInPartition = await prisma.trade.aggregate({
+    where: {
+      tokenAddress: input.tokenAddress,
+      partition,
+      seller: { walletAddress: input.seller },
+    },
+    _sum: { reservedUnits: true },
   });
 
   const balance = sellerBalance?.balance ?? 0;
   const frozenAmount = sellerBalance?.frozenAmount ?? 0;
-  const available = balance - frozenAmount;
+  // Units held by other in-flight trades are not available to this one
+  const reservedAmount = (sellerBalance?.reservedAmount ?? 0) - (input.ownReservation ?? 0);
+  // The units must also sit in the trade's partition; frozen units count
+  // against every partition, as in LoanToken's transfer check
+  const partitionBalance = sellerBalance?.partitions[0]?.balance ?? 0;
+  const partitionReserved = (reservedInPartition._sum.reservedUnits ?? 0) - (input.ownReservation ?? 0);
+  const available = Math.min(
+    balance - frozenAmount - reservedAmount,
+    partitionBalance - frozenAmount - partitionReserved
+  );
   const hasBalance = available >= input.units;
 
   const checks = base.checks.map((c) =>
@@ -37,8 +63,8 @@ export async function validateTransferServer(input: {
           name: c.name,
           passed: hasBalance,
           details: hasBalance
-            ? `Available: ${available} units (${balance} total, ${frozenAmount} frozen)`
-            : `Insufficient: ${available} available < ${input.units} requested`,
+            ? `Available: ${available} ${partition} units (${partitionBalance} in ${partition}, ${balance} total, ${frozenAmount} frozen, ${reservedAmount} reserved)`
+            : `Insufficient: ${available} ${partition} units available < ${input.units} requested`,
         }
       : c
   );
@@ -1,31 +1,57 @@
-export type DemoTradeRole = 'trader' | 'checker' | 'agent';
+import type { TradeWorkflowActor, TradeWorkflowRole } from '@/lib/types/loan';
+import { getSession, getSessionToken } from '@/lib/services/wallet-auth';
 
-export type DemoActor = {
-  role: DemoTradeRole;
+export type WorkflowActor = {
   wallet: string;
+  roles: TradeWorkflowRole[];
+  organization?: string;
 };
 
-function isDemoRole(value: unknown): value is DemoTradeRole {
-  return value === 'trader' || value === 'checker' || value === 'agent';
-}
-
-export function requireDemoActor(req: Request): DemoActor {
-  const roleHeader = req.headers.get('x-demo-role');
-  const walletHeader = req.headers.get('x-demo-wallet');
-
-  if (!isDemoRole(roleHeader)) {
-    throw new Error('Missing or invalid x-demo-role (expected trader|checker|agent)');
+/**
+ * Resolve the acting wallet from a verified session (SIWE cookie or bearer token).
+ * Never trusts client-supplied role/wallet headers.
+ */
+export async function requireActor(req: Request): Promise<WorkflowActor> {
+  const token = getSessionToken(req);
+  if (!token) {
+    throw new Error('Unauthorized: sign in with your wallet first');
   }
 
-  if (!walletHeader || walletHeader.trim().length < 6) {
-    throw new Error('Missing x-demo-wallet');
+  const session = await getSession(token);
+  if (!session) {
+    throw new Error('Unauthorized: session expired or revoked');
   }
 
-  return { role: roleHeader, wallet: walletHeader.trim() };
+  return { wallet: session.wallet, roles: session.roles, organization: session.organization };
 }
 
-export function assertRole(actor: DemoActor, required: DemoTradeRole) {
-  if (actor.role !== required) {
+/**
+ * Assert the actor holds a role and return the actor as recorded in workflow history
+ */
+export function assertRole(actor: WorkflowActor, required: TradeWorkflowRole): TradeWorkflowActor {
+  if (!actor.roles.includes(required)) {
     throw new Error(`Forbidden: requires role ${required}`);
   }
+  return { role: required, wallet: actor.wallet, organization: actor.organization };
+}
+
+/**
+ * Assert the actor holds at least one of the roles; the first held is recorded
+ */
+export function assertAnyRole(actor: WorkflowActor, roles: TradeWorkflowRole[]): TradeWorkflowActor {
+  const role = roles.find((r) => actor.roles.includes(r));
+  if (!role) {
+    throw new Error(`Forbidden: requires role ${roles.join(' or ')}`);
+  }
+  return { role, wallet: actor.wallet, organization: actor.organization };
+}
+
+/**
+ * Map auth/authorization/concurrency error messages to HTTP status codes
+ */
+export function workflowErrorStatus(message: string): number {
+  if (message.startsWith('Unauthorized')) return 401;
+  if (message.startsWith('Forbidden')) return 403;
+  if (message.startsWith('Conflict')) return 409;
+  return 500;
 }
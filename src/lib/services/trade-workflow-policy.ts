@@ -0,0 +1,97 @@
+import type {
+  TradeApprovalPolicy,
+  TradeWorkflow,
+  TradeWorkflowActor,
+} from '@/lib/types/loan';
+import { getTradeWorkflowPolicy } from '@/lib/store/loans';
+
+// Applied to loans without an explicit TradeWorkflowPolicy row
+export const DEFAULT_APPROVAL_POLICY: TradeApprovalPolicy = {
+  requiredApprovals: 1,
+  approvalsAboveThreshold: 2,
+  segregateOrganizations: true,
+};
+
+export async function getApprovalPolicy(loanId: string): Promise<TradeApprovalPolicy> {
+  return (await getTradeWorkflowPolicy(loanId)) ?? DEFAULT_APPROVAL_POLICY;
+}
+
+/**
+ * Number of distinct checker approvals a trade of this notional needs
+ */
+export function requiredApprovalsFor(policy: TradeApprovalPolicy, totalValue: number): number {
+  if (policy.notionalThreshold != null && totalValue > policy.notionalThreshold) {
+    return Math.max(policy.requiredApprovals, policy.approvalsAboveThreshold);
+  }
+  return policy.requiredApprovals;
+}
+
+/**
+ * Four-eyes check: nobody who already acted on the trade (and, if the policy
+ * says so, nobody from the same organisation) may approve or execute it.
+ * Only history since the last amendment counts, so checkers/agents from
+ * earlier rounds may act again on the new terms; the original proposer is
+ * always excluded, however the trade was amended since.
+ * Rejection is deliberately unguarded: stopping a trade needs no second pair
+ * of eyes.
+ */
+export function assertSegregationOfDuties(
+  workflow: TradeWorkflow | undefined,
+  actor: TradeWorkflowActor,
+  policy: TradeApprovalPolicy
+): void {
+  const wallet = actor.wallet.toLowerCase();
+  const history = workflow?.history ?? [];
+
+  let roundStart = 0;
+  history.forEach((event, i) => {
+    if (event.changes) roundStart = i;
+  });
+
+  const priorActors = history.slice(roundStart).map((event) => event.actor);
+  if (workflow?.proposedBy) priorActors.push(workflow.proposedBy);
+
+  for (const prior of priorActors) {
+    if (prior.wallet.toLowerCase() === wallet) {
+      throw new Error(
+        `Forbidden: four-eyes violation - wallet already acted on this trade as ${prior.role}`
+      );
+    }
+
+    if (
+      policy.segregateOrganizations &&
+      actor.organization &&
+      prior.organization === actor.organization
+    ) {
+      throw new Error(
+        `Forbidden: four-eyes violation - ${actor.organization} already acted on this trade as ${prior.role}`
+      );
+    }
+  }
+}
+
+/**
+ * Only the trader who proposed a trade may cancel or amend it
+ */
+export function assertIsProposer(
+  workflow: TradeWorkflow | undefined,
+  actor: TradeWorkflowActor
+): void {
+  const proposer = workflow?.proposedBy?.wallet;
+  if (!proposer || proposer.toLowerCase() !== actor.wallet.toLowerCase()) {
+    throw new Error('Forbidden: only the proposing trader may change this trade');
+  }
+}
+
+/**
+ * Only the trader who opened an order or RFQ may allocate, accept or cancel it
+ */
+export function assertOpenedBy(
+  record: { createdBy: string },
+  actor: TradeWorkflowActor,
+  what: string
+): void {
+  if (record.createdBy.toLowerCase() !== actor.wallet.toLowerCase()) {
+    throw new Error(`Forbidden: only the trader who opened this ${what} may change it`);
+  }
+}
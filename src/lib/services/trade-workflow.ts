@@ -1,9 +1,13 @@
 import type {
+  Trade,
+  TradeAmendableTerms,
   TradeStatus,
+  TradeTermsChanges,
   TradeWorkflow,
   TradeWorkflowActor,
   TradeWorkflowEvent,
 } from '@/lib/types/loan';
+import { isTransitionDefined } from '@/lib/services/trade-state-machine';
 
 export function ensureWorkflow(existing?: TradeWorkflow): TradeWorkflow {
   if (existing && existing.version === 1 && Array.isArray(existing.history)) return existing;
@@ -16,7 +20,12 @@ export function appendWorkflowEvent(params: {
   to: TradeStatus;
   actor: TradeWorkflowActor;
   reason?: string;
+  changes?: TradeTermsChanges;
 }): TradeWorkflow {
+  if (!isTransitionDefined(params.from, params.to)) {
+    throw new Error(`Conflict: no workflow transition from ${params.from} to ${params.to}`);
+  }
+
   const workflow = ensureWorkflow(params.workflow);
   const event: TradeWorkflowEvent = {
     from: params.from,
@@ -24,6 +33,7 @@ export function appendWorkflowEvent(params: {
     at: new Date().toISOString(),
     actor: params.actor,
     reason: params.reason,
+    changes: params.changes,
   };
 
   const next: TradeWorkflow = {
@@ -31,10 +41,85 @@ export function appendWorkflowEvent(params: {
     history: [...workflow.history, event],
   };
 
-  if (params.to === 'proposed') next.proposedBy = params.actor;
-  if (params.to === 'approved') next.approvedBy = params.actor;
+  if (params.to === 'proposed' && !workflow.proposedBy) next.proposedBy = params.actor;
+  // Leaving `executed` (receipt confirmed or reverted) keeps the original approver and agent
+  if (params.to === 'approved' && params.from === 'proposed') next.approvedBy = params.actor;
   if (params.to === 'rejected') next.rejectedBy = params.actor;
-  if (params.to === 'settled' || params.to === 'executed') next.executedBy = params.actor;
+  if (params.to === 'cancelled') next.cancelledBy = params.actor;
+  if ((params.to === 'settled' || params.to === 'executed') && params.from !== 'executed') {
+    next.executedBy = params.actor;
+  }
 
   return next;
 }
+
+/**
+ * Record a checker approval. The trade stays `proposed` until the policy's
+ * number of distinct approvals is reached, then moves to `approved`.
+ */
+export function recordApproval(params: {
+  workflow?: TradeWorkflow;
+  actor: TradeWorkflowActor;
+  requiredApprovals: number;
+}): { workflow: TradeWorkflow; status: TradeStatus } {
+  const approvals = [...(ensureWorkflow(params.workflow).approvals ?? []), params.actor];
+  const status: TradeStatus = approvals.length >= params.requiredApprovals ? 'approved' : 'proposed';
+
+  const workflow = appendWorkflowEvent({
+    workflow: params.workflow,
+    from: 'proposed',
+    to: status,
+    actor: params.actor,
+    reason: `Approval ${approvals.length} of ${params.requiredApprovals}`,
+  });
+
+  return { workflow: { ...workflow, approvals }, status };
+}
+
+/**
+ * Diff two sets of trade terms; only changed fields are included
+ */
+export function diffTradeTerms(
+  prior: TradeAmendableTerms,
+  next: TradeAmendableTerms
+): TradeTermsChanges {
+  const changes: TradeTermsChanges = {};
+  for (const key of ['units', 'pricePerUnit', 'totalValue'] as const) {
+    if (prior[key] !== next[key]) changes[key] = { from: prior[key], to: next[key] };
+  }
+  return changes;
+}
+
+/**
+ * Record an amendment by the proposer. The trade goes back to `proposed` and
+ * any approvals collected for the prior terms are discarded.
+ */
+export function recordAmendment(params: {
+  workflow?: TradeWorkflow;
+  from: TradeStatus;
+  actor: TradeWorkflowActor;
+  changes: TradeTermsChanges;
+  reason?: string;
+}): TradeWorkflow {
+  const workflow = appendWorkflowEvent({
+    workflow: params.workflow,
+    from: params.from,
+    to: 'proposed',
+    actor: params.actor,
+    reason: params.reason ?? 'Amended by proposer',
+    changes: params.changes,
+  });
+
+  return { ...workflow, approvals: [], approvedBy: undefined };
+}
+
+/**
+ * Reject the request if the client acted on a stale copy of the trade
+ */
+export function assertExpectedVersion(trade: Pick<Trade, 'version'>, expected?: number): void {
+  if (expected !== undefined && expected !== (trade.version ?? 0)) {
+    throw new Error(
+      `Conflict: trade is at version ${trade.version ?? 0}, request was made against ${expected}`
+    );
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Wallet Authentication (Sign-In with Ethereum)
+ *
+ * Challenge/response login for the trade workflow:
+ * 1. Client requests a nonce for its wallet (`issueNonce`)
+ * 2. Client signs an EIP-4361 message containing that nonce
+ * 3. Server verifies the signature, consumes the nonce and opens a session
+ *
+ * Sessions are opaque random tokens. Only their SHA-256 hash is persisted.
+ * Workflow roles are looked up from RoleAssignment on every request, so
+ * revoking a role takes effect immediately.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getAddress, isAddress, verifyMessage } from 'viem';
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+
+import { prisma } from '@/lib/db/prisma';
+import type { TradeWorkflowRole } from '@/lib/types/loan';
+
+export const SESSION_COOKIE = 'lma_session';
+
+const NONCE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+function getSessionTtlMs(): number {
+  const hours = Number(process.env.AUTH_SESSION_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 8) * 60 * 60 * 1000;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function normalizeWallet(wallet: string): string {
+  return wallet.trim().toLowerCase();
+}
+
+export type WalletGrants = {
+  roles: TradeWorkflowRole[];
+  organization?: string;
+};
+
+export type AuthenticatedWallet = WalletGrants & {
+  wallet: string;
+  expiresAt: Date;
+};
+
+/**
+ * Issue a single-use SIWE nonce for a wallet
+ */
+export async function issueNonce(wallet: string): Promise<{ nonce: string; expiresAt: Date }> {
+  if (!isAddress(wallet)) {
+    throw new Error('Invalid wallet address');
+  }
+
+  const nonce = generateSiweNonce();
+  const expiresAt = new Date(Date.now() + NONCE_TTL_MS);
+
+  await prisma.authNonce.create({
+    data: {
+      walletAddress: normalizeWallet(wallet),
+      nonce,
+      expiresAt,
+    },
+  });
+
+  return { nonce, expiresAt };
+}
+
+/**
+ * Verify a signed SIWE message and open a session.
+ * Returns the raw session token (to be set as a cookie) and the session info.
+ */
+export async function verifySignedMessage(params: {
+  message: string;
+  signature: `0x${string}`;
+  domain: string;
+}): Promise<{ token: string; session: AuthenticatedWallet }> {
+  const parsed = parseSiweMessage(params.message);
+
+  if (!parsed.address || !parsed.nonce) {
+    throw new Error('Unauthorized: malformed SIWE message');
+  }
+
+  if (!validateSiweMessage({ message: parsed, domain: params.domain })) {
+    throw new Error('Unauthorized: SIWE message domain or validity window rejected');
+  }
+
+  const wallet = normalizeWallet(parsed.address);
+
+  const nonce = await prisma.authNonce.findUnique({ where: { nonce: parsed.nonce } });
+  if (!nonce || nonce.walletAddress !== wallet) {
+    throw new Error('Unauthorized: unknown nonce');
+  }
+  if (nonce.consumedAt || nonce.expiresAt < new Date()) {
+    throw new Error('Unauthorized: nonce expired or already used');
+  }
+
+  const valid = await verifyMessage({
+    address: getAddress(parsed.address),
+    message: params.message,
+    signature: params.signature,
+  });
+  if (!valid) {
+    throw new Error('Unauthorized: signature does not match wallet');
+  }
+
+  // Consume the nonce atomically so a replayed signature cannot open a second session.
+  const consumed = await prisma.authNonce.updateMany({
+    where: { id: nonce.id, consumedAt: null },
+    data: { consumedAt: new Date() },
+  });
+  if (consumed.count === 0) {
+    throw new Error('Unauthorized: nonce expired or already used');
+  }
+
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + getSessionTtlMs());
+
+  await prisma.authSession.create({
+    data: {
+      tokenHash: hashToken(token),
+      walletAddress: wallet,
+      expiresAt,
+    },
+  });
+
+  return {
+    token,
+    session: { wallet, ...(await getWalletGrants(wallet)), expiresAt },
+  };
+}
+
+/**
+ * Resolve a session token to the authenticated wallet and its current roles
+ */
+export async function getSession(token: string): Promise<AuthenticatedWallet | null> {
+  const session = await prisma.authSession.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    return null;
+  }
+
+  return {
+    wallet: session.walletAddress,
+    ...(await getWalletGrants(session.walletAddress)),
+    expiresAt: session.expiresAt,
+  };
+}
+
+export async function revokeSession(token: string): Promise<void> {
+  await prisma.authSession.updateMany({
+    where: { tokenHash: hashToken(token), revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+export async function getWalletGrants(wallet: string): Promise<WalletGrants> {
+  const normalized = normalizeWallet(wallet);
+  const assignments = await prisma.roleAssignment.findMany({
+    where: { walletAddress: normalized },
+    orderBy: { createdAt: 'asc' },
+  });
+  const roles = assignments.map((a) => a.role as TradeWorkflowRole);
+  const organization = assignments.find((a) => a.organization)?.organization ?? undefined;
+
+  // Bootstrap: wallets listed in WORKFLOW_ADMIN_WALLETS are always agents,
+  // so a fresh deployment has someone able to grant the other roles.
+  const adminWallets = (process.env.WORKFLOW_ADMIN_WALLETS ?? '')
+    .split(',')
+    .map((w) => normalizeWallet(w))
+    .filter(Boolean);
+  if (adminWallets.includes(normalized) && !roles.includes('agent')) {
+    roles.push('agent');
+  }
+
+  return { roles, organization };
+}
+
+/**
+ * Extract the session token from the cookie or an `Authorization: Bearer` header
+ */
+export function getSessionToken(req: Request): string | null {
+  const authHeader = req.headers.get('authorization');
+  if (authHeader?.toLowerCase().startsWith('bearer ')) {
+    return authHeader.slice(7).trim() || null;
+  }
+
+  const cookieHeader = req.headers.get('cookie');
+  if (!cookieHeader) return null;
+
+  for (const part of cookieHeader.split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(rest.join('=')) || null;
+    }
+  }
+  return null;
+}
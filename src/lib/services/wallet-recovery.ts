@@ -0,0 +1,234 @@
+/**
+ * Wallet Recovery
+ *
+ * Moves an investor's holdings from a lost wallet to a new one with
+ * LoanToken.recoveryAddress. The investor files the request while signed in
+ * with the new wallet, a KYC provider confirms that wallet belongs to the
+ * same identity, two different agents approve, and an agent executes it.
+ *
+ * Executing calls recoveryAddress on every token the participant holds, from
+ * the token owner's key in real mode or on the mock service, then points the
+ * participant at the new wallet. On-chain the identity registry must already
+ * bind the new wallet to the participant's identityContract, otherwise the
+ * call reverts with IDENTITY_MISMATCH; in mock mode verifying registers it.
+ */
+
+import { encodeFunctionData } from 'viem';
+
+import type { TradeWorkflowActor, WalletRecovery } from '@/lib/types/loan';
+import { LoanTokenABI } from '@/lib/contracts/abi';
+import {
+  completeWalletRecovery,
+  countPendingExecutionsFor,
+  createWalletRecovery,
+  getHeldTokenAddresses,
+  getParticipantById,
+  updateWalletRecovery,
+} from '@/lib/store/loans';
+import * as mockService from '@/lib/services/blockchain';
+import { getBlockchainMode } from '@/lib/services/blockchain-factory';
+import { waitForTransferReceipt } from '@/lib/services/controller-transfer';
+import { sendAsTokenOwner } from '@/lib/services/token-admin';
+import { logger } from '@/lib/utils/logger';
+
+type Address = `0x${string}`;
+
+// Distinct agents who must approve before a recovery can be executed
+export const RECOVERY_REQUIRED_APPROVALS = 2;
+
+const RECEIPT_WAIT_MS = 60 * 1000;
+
+function assertStatus(recovery: WalletRecovery, status: WalletRecovery['status']): void {
+  if (recovery.status !== status) {
+    throw new Error(`Conflict: recovery is ${recovery.status}, expected ${status}`);
+  }
+}
+
+async function identityOf(recovery: WalletRecovery): Promise<string> {
+  const participant = await getParticipantById(recovery.participantId);
+  if (!participant?.identityContract) {
+    throw new Error('Conflict: participant has no identityContract to recover against');
+  }
+  return participant.identityContract;
+}
+
+/**
+ * File a recovery of lostWallet's holdings to the actor's (new) wallet
+ */
+export async function fileWalletRecovery(params: {
+  actor: { wallet: string };
+  lostWallet: string;
+  statement: string;
+}): Promise<WalletRecovery> {
+  const recovery = await createWalletRecovery({
+    lostWallet: params.lostWallet,
+    newWallet: params.actor.wallet,
+    statement: params.statement,
+    requestedBy: params.actor.wallet,
+  });
+  logger.api.info('Wallet recovery requested', { id: recovery.id, lostWallet: recovery.lostWallet });
+  return recovery;
+}
+
+/**
+ * KYC provider confirms the new wallet belongs to the participant's identity
+ */
+export async function verifyWalletRecovery(params: {
+  recovery: WalletRecovery;
+  actor: TradeWorkflowActor;
+  expectedVersion: number;
+  verificationRef?: string;
+}): Promise<WalletRecovery> {
+  const { recovery, actor } = params;
+  assertStatus(recovery, 'requested');
+  const identity = await identityOf(recovery);
+
+  if (getBlockchainMode() === 'mock') {
+    const registered = mockService.getIdentityInfo(recovery.lostWallet);
+    mockService.registerIdentity(
+      recovery.newWallet,
+      identity,
+      registered?.claims ?? [],
+      registered?.country ?? 0
+    );
+  }
+
+  return updateWalletRecovery({
+    id: recovery.id,
+    from: 'requested',
+    expectedVersion: params.expectedVersion,
+    data: {
+      status: 'identity_verified',
+      verifiedBy: actor.wallet,
+      verifiedAt: new Date(),
+      verificationRef: params.verificationRef,
+    },
+  });
+}
+
+/**
+ * Record an agent's approval; the recovery is approved once enough distinct
+ * agents (none of them its verifier, requester or new wallet) have signed off
+ */
+export async function approveWalletRecovery(params: {
+  recovery: WalletRecovery;
+  actor: TradeWorkflowActor;
+  expectedVersion: number;
+}): Promise<WalletRecovery> {
+  const { recovery, actor } = params;
+  assertStatus(recovery, 'identity_verified');
+
+  const wallet = actor.wallet.toLowerCase();
+  if (recovery.verifiedBy?.toLowerCase() === wallet) {
+    throw new Error('Forbidden: the verifying KYC provider cannot also approve');
+  }
+  if (recovery.requestedBy.toLowerCase() === wallet || recovery.newWallet.toLowerCase() === wallet) {
+    throw new Error('Forbidden: the requester and the new wallet cannot approve their own recovery');
+  }
+  if (recovery.approvals.some((a) => a.wallet.toLowerCase() === wallet)) {
+    throw new Error('Conflict: you have already approved this recovery');
+  }
+
+  const approvals = [...recovery.approvals, actor];
+  return updateWalletRecovery({
+    id: recovery.id,
+    from: 'identity_verified',
+    expectedVersion: params.expectedVersion,
+    data: {
+      approvals,
+      status: approvals.length >= RECOVERY_REQUIRED_APPROVALS ? 'approved' : 'identity_verified',
+    },
+  });
+}
+
+export async function rejectWalletRecovery(params: {
+  recovery: WalletRecovery;
+  actor: TradeWorkflowActor;
+  expectedVersion: number;
+  reason: string;
+}): Promise<WalletRecovery> {
+  const { recovery, actor } = params;
+  if (recovery.status === 'executed' || recovery.status === 'rejected') {
+    throw new Error(`Conflict: recovery is already ${recovery.status}`);
+  }
+
+  return updateWalletRecovery({
+    id: recovery.id,
+    from: recovery.status,
+    expectedVersion: params.expectedVersion,
+    data: { status: 'rejected', rejectedBy: actor.wallet, rejectionReason: params.reason },
+  });
+}
+
+async function recoverOnChain(recovery: WalletRecovery, identity: string, tokens: string[]): Promise<string[]> {
+  const data = encodeFunctionData({
+    abi: LoanTokenABI,
+    functionName: 'recoveryAddress',
+    args: [recovery.lostWallet as Address, recovery.newWallet as Address, identity as Address],
+  });
+
+  // Sequential, so a revert stops before the next token. Re-executing is
+  // safe: a token already recovered has nothing left on the lost wallet.
+  const txHashes: string[] = [];
+  for (const tokenAddress of tokens) {
+    const txHash = await sendAsTokenOwner(tokenAddress, data);
+    const receipt = await waitForTransferReceipt(txHash, RECEIPT_WAIT_MS);
+    if (receipt.status === 'reverted') {
+      throw new Error(`Conflict: recoveryAddress reverted on ${tokenAddress} (tx ${txHash})`);
+    }
+    if (receipt.status === 'pending') {
+      throw new Error(`Conflict: recoveryAddress on ${tokenAddress} not yet mined (tx ${txHash}); retry`);
+    }
+    txHashes.push(txHash);
+  }
+  return txHashes;
+}
+
+/**
+ * Run recoveryAddress for every token held and move the participant to the
+ * new wallet. Waits for any of its trades still settling on-chain.
+ */
+export async function executeWalletRecovery(params: {
+  recovery: WalletRecovery;
+  actor: TradeWorkflowActor;
+  expectedVersion: number;
+}): Promise<{ recovery: WalletRecovery; openTrades: number }> {
+  const { recovery, actor } = params;
+  assertStatus(recovery, 'approved');
+
+  const settling = await countPendingExecutionsFor(recovery.participantId);
+  if (settling > 0) {
+    throw new Error(`Conflict: ${settling} trade(s) are still settling from the lost wallet`);
+  }
+
+  const identity = await identityOf(recovery);
+  const tokens = await getHeldTokenAddresses(recovery.participantId);
+  const mode = getBlockchainMode();
+
+  let txHashes: string[] = [];
+  if (mode === 'real') {
+    txHashes = await recoverOnChain(recovery, identity, tokens);
+  } else {
+    try {
+      mockService.recoverAddress(recovery.lostWallet, recovery.newWallet, identity);
+    } catch (err) {
+      throw new Error(`Conflict: ${err instanceof Error ? err.message : 'recovery refused'}`);
+    }
+  }
+
+  const result = await completeWalletRecovery({
+    id: recovery.id,
+    expectedVersion: params.expectedVersion,
+    executedBy: actor.wallet,
+    txHashes,
+    resyncFromIndexer: mode === 'real',
+  });
+
+  logger.api.info('Wallet recovery executed', {
+    id: recovery.id,
+    participantId: recovery.participantId,
+    tokens: tokens.length,
+    openTrades: result.openTrades,
+  });
+  return result;
+}
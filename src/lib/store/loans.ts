@@ -13,15 +13,83 @@ import type {
   NF2Formula,
   TokenizationData,
   LoanDocument,
-  Participant
+  Participant,
+  BlockOrder,
+  BlockOrderStatus,
+  Rfq,
+  RfqStatus,
+  LimitOrder,
+  LimitOrderStatus,
+  OrderBookMatch,
+  OrderSide,
+  CashAccount,
+  CashLegMode,
+  CashLock,
+  IndexedChainEvent,
+  IndexerCheckpoint,
+  TokenHolding,
+  ReconciliationBreak,
+  ReconciliationBreakStatus,
+  ReconciliationRun,
+  TokenAdminAction,
+  TokenPartition,
+  TradeWorkflowActor,
+  WalletRecovery,
+  WalletRecoveryStatus,
+  Redemption,
+  RedemptionTrigger,
+  PrimaryAllocation,
+  AccruedInterest,
+  DayCountConvention,
+  InterestAccrual,
+  FloatingRateTerms,
+  RateReset,
+  RateResetMethod,
+  ReferenceRateFixing,
+  BusinessDayConvention,
+  InterestPeriod,
+  PaymentFrequency,
+  PaymentSchedule,
+  Distribution,
+  DistributionStatus,
+  DistributionType,
+  HolderStatement,
+  HistoricalPosition,
+  PositionSnapshot,
+  PositionSnapshotTrigger,
+  NetPosition,
+  SettlementCycle,
+  TradeAmendableTerms,
+  TradeApprovalPolicy,
+  TradeTtlPolicy,
+  TransferValidation
 } from '../types/loan';
+import { TOKEN_PARTITIONS } from '../types/loan';
 
 // Re-export types for convenience
 export type { PortfolioSummary, DigitalCreditInstrument, Trade, Participant };
 import type {
+  Prisma,
   Loan as PrismaLoan,
   Participant as PrismaParticipant,
-  Trade as PrismaTrade
+  Trade as PrismaTrade,
+  CashLock as PrismaCashLock,
+  ReconciliationBreak as PrismaReconciliationBreak,
+  ReconciliationRun as PrismaReconciliationRun,
+  TokenAdminAction as PrismaTokenAdminAction,
+  WalletRecovery as PrismaWalletRecovery,
+  Redemption as PrismaRedemption,
+  RedemptionPayout as PrismaRedemptionPayout,
+  PrimaryAllocation as PrismaPrimaryAllocation,
+  PrimaryAllocationLine as PrismaPrimaryAllocationLine,
+  InterestAccrual as PrismaInterestAccrual,
+  InterestAccrualShare as PrismaInterestAccrualShare,
+  LoanRateReset as PrismaLoanRateReset,
+  PaymentSchedule as PrismaPaymentSchedule,
+  InterestPeriod as PrismaInterestPeriod,
+  ChainEvent as PrismaChainEvent,
+  Distribution as PrismaDistribution,
+  DistributionPayable as PrismaDistributionPayable
 } from '@prisma/client';
 
 type PrismaTradeWithRelations = PrismaTrade & {
@@ -196,6 +264,33 @@ function toDomainParticipant(p: PrismaParticipant): Participant {
   };
 }
 
+// Convert Prisma trade (with seller/buyer/loan) to domain type
+function toDomainTrade(t: PrismaTradeWithRelations): Trade {
+  return {
+    id: t.id,
+    loanId: t.loan.nelId,
+    tokenAddress: t.tokenAddress,
+    seller: toDomainParticipant(t.seller),
+    buyer: toDomainParticipant(t.buyer),
+    units: t.units,
+    pricePerUnit: Number(t.pricePerUnit) / 100,
+    totalValue: Number(t.totalValue) / 100,
+    status: t.status as Trade['status'],
+    partition: t.partition,
+    validation: t.validation as unknown as Trade['validation'],
+    workflow: t.workflow as unknown as Trade['workflow'],
+    createdAt: t.createdAt,
+    settledAt: t.settledAt ?? undefined,
+    txHash: t.txHash ?? undefined,
+    settlementTime: t.settlementTime ?? undefined,
+    expiresAt: t.expiresAt ?? undefined,
+    version: t.version,
+    reservedUnits: t.reservedUnits,
+    orderId: t.orderId ?? undefined,
+    settlementCycleId: t.settlementCycleId ?? undefined,
+  };
+}
+
 // Include clause for loading all loan relations
 const loanInclude = {
   documents: true,
@@ -400,8 +495,13 @@ export async function addTrade(trade: Trade): Promise<string> {
   }
 
   const shouldApplyBalance = trade.status === 'executed' || trade.status === 'settled';
+  const shouldReserve = trade.status === 'proposed' || trade.status === 'approved';
 
   const created = await prisma.$transaction(async (tx) => {
+    if (trade.orderId && shouldReserve) {
+      await claimOrderCapacity(tx, trade.orderId, trade.units);
+    }
+
     const createdTrade = await tx.trade.create({
       data: {
         loanId: loan.id,
@@ -412,76 +512,31 @@ export async function addTrade(trade: Trade): Promise<string> {
         pricePerUnit: BigInt(Math.round(trade.pricePerUnit * 100)),
         totalValue: BigInt(Math.round(trade.totalValue * 100)),
         status: trade.status,
+        partition: trade.partition,
         validation: trade.validation as object,
         workflow: trade.workflow as object,
         createdAt: trade.createdAt,
         settledAt: trade.settledAt,
         txHash: trade.txHash,
         settlementTime: trade.settlementTime,
+        expiresAt: trade.expiresAt,
+        reservedUnits: shouldReserve ? trade.units : 0,
+        orderId: trade.orderId,
       },
     });
 
-    if (shouldApplyBalance) {
-      const [sellerBal, buyerBal] = await Promise.all([
-        tx.tokenBalance.findUnique({
-          where: {
-            participantId_tokenAddress: {
-              participantId: sellerId,
-              tokenAddress: trade.tokenAddress,
-            },
-          },
-          select: { balance: true },
-        }),
-        tx.tokenBalance.findUnique({
-          where: {
-            participantId_tokenAddress: {
-              participantId: buyerId,
-              tokenAddress: trade.tokenAddress,
-            },
-          },
-          select: { balance: true },
-        }),
-      ]);
-
-      const sellerBalance = sellerBal?.balance ?? 0;
-      const buyerBalance = buyerBal?.balance ?? 0;
+    if (shouldReserve) {
+      await reserveSellerUnits(tx, sellerId, trade.tokenAddress, createdTrade.partition, trade.units);
+    }
 
-      await Promise.all([
-        tx.tokenBalance.upsert({
-          where: {
-            participantId_tokenAddress: {
-              participantId: sellerId,
-              tokenAddress: trade.tokenAddress,
-            },
-          },
-          update: {
-            balance: Math.max(0, sellerBalance - trade.units),
-          },
-          create: {
-            participantId: sellerId,
-            tokenAddress: trade.tokenAddress,
-            balance: Math.max(0, sellerBalance - trade.units),
-            frozenAmount: 0,
-          },
-        }),
-        tx.tokenBalance.upsert({
-          where: {
-            participantId_tokenAddress: {
-              participantId: buyerId,
-              tokenAddress: trade.tokenAddress,
-            },
-          },
-          update: {
-            balance: buyerBalance + trade.units,
-          },
-          create: {
-            participantId: buyerId,
-            tokenAddress: trade.tokenAddress,
-            balance: buyerBalance + trade.units,
-            frozenAmount: 0,
-          },
-        }),
-      ]);
+    if (shouldApplyBalance) {
+      await moveLedgerUnits(tx, {
+        tokenAddress: trade.tokenAddress,
+        partition: createdTrade.partition,
+        fromParticipantId: sellerId,
+        toParticipantId: buyerId,
+        units: trade.units,
+      });
     }
 
     return createdTrade;
@@ -495,24 +550,188 @@ export async function getTradeById(id: string): Promise<Trade | undefined> {
     where: { id },
     include: { seller: true, buyer: true, loan: true },
   });
-  if (!t) return undefined;
-  return {
-    id: t.id,
-    loanId: t.loan.nelId,
-    tokenAddress: t.tokenAddress,
-    seller: toDomainParticipant(t.seller),
-    buyer: toDomainParticipant(t.buyer),
-    units: t.units,
-    pricePerUnit: Number(t.pricePerUnit) / 100,
-    totalValue: Number(t.totalValue) / 100,
-    status: t.status as Trade['status'],
-    validation: t.validation as unknown as Trade['validation'],
-    workflow: t.workflow as unknown as Trade['workflow'],
-    createdAt: t.createdAt,
-    settledAt: t.settledAt ?? undefined,
-    txHash: t.txHash ?? undefined,
-    settlementTime: t.settlementTime ?? undefined,
-  };
+  return t ? toDomainTrade(t) : undefined;
+}
+
+// Leaving the workflow without settling frees the seller's earmarked units
+const RESERVATION_RELEASING_STATUSES: Trade['status'][] = ['rejected', 'expired', 'cancelled'];
+
+/**
+ * Add `delta` units (negative to remove) to one partition of a participant's
+ * balance, keeping TokenBalance.balance equal to the sum of its partitions
+ */
+async function adjustPartitionUnits(
+  tx: Prisma.TransactionClient,
+  params: { participantId: string; tokenAddress: string; partition: TokenPartition; delta: number }
+): Promise<void> {
+  const { participantId, tokenAddress, partition, delta } = params;
+  if (delta === 0) return;
+
+  if (delta > 0) {
+    const row = await tx.tokenBalance.upsert({
+      where: { participantId_tokenAddress: { participantId, tokenAddress } },
+      update: { balance: { increment: delta } },
+      create: { participantId, tokenAddress, balance: delta, frozenAmount: 0 },
+    });
+    await tx.tokenBalancePartition.upsert({
+      where: { tokenBalanceId_partition: { tokenBalanceId: row.id, partition } },
+      update: { balance: { increment: delta } },
+      create: { tokenBalanceId: row.id, partition, balance: delta },
+    });
+    return;
+  }
+
+  const row = await tx.tokenBalance.findUnique({
+    where: { participantId_tokenAddress: { participantId, tokenAddress } },
+    select: { id: true },
+  });
+  const debited = row
+    ? await tx.tokenBalancePartition.updateMany({
+        where: { tokenBalanceId: row.id, partition, balance: { gte: -delta } },
+        data: { balance: { decrement: -delta } },
+      })
+    : { count: 0 };
+  if (!row || debited.count === 0) {
+    throw new Error(`Conflict: holder has fewer than ${-delta} ${partition} units`);
+  }
+  await tx.tokenBalance.update({
+    where: { id: row.id },
+    data: { balance: { decrement: -delta } },
+  });
+}
+
+// Deliver units from one participant to another within a partition
+async function moveLedgerUnits(
+  tx: Prisma.TransactionClient,
+  params: {
+    tokenAddress: string;
+    partition: TokenPartition;
+    fromParticipantId: string;
+    toParticipantId: string;
+    units: number;
+  }
+): Promise<void> {
+  const { tokenAddress, partition, units } = params;
+  await adjustPartitionUnits(tx, { participantId: params.fromParticipantId, tokenAddress, partition, delta: -units });
+  await adjustPartitionUnits(tx, { participantId: params.toParticipantId, tokenAddress, partition, delta: units });
+}
+
+/**
+ * Earmark seller units for an in-flight trade. Fails if the seller's
+ * unreserved, unfrozen balance can't cover it, in total or in the trade's
+ * partition.
+ */
+async function reserveSellerUnits(
+  tx: Prisma.TransactionClient,
+  participantId: string,
+  tokenAddress: string,
+  partition: TokenPartition,
+  units: number
+): Promise<void> {
+  const row = await tx.tokenBalance.findUnique({
+    where: { participantId_tokenAddress: { participantId, tokenAddress } },
+    include: { partitions: { where: { partition } } },
+  });
+  const available = row ? row.balance - row.frozenAmount - row.reservedAmount : 0;
+
+  if (!row || available < units) {
+    throw new Error(
+      `Conflict: insufficient unreserved balance (${available} available, ${units} requested)`
+    );
+  }
+
+  // Frozen units count against every partition, as on-chain
+  const reservedInPartition = await tx.trade.aggregate({
+    where: { sellerId: participantId, tokenAddress, partition },
+    _sum: { reservedUnits: true },
+  });
+  const availableInPartition =
+    (row.partitions[0]?.balance ?? 0) - row.frozenAmount - (reservedInPartition._sum.reservedUnits ?? 0);
+  if (availableInPartition < units) {
+    throw new Error(
+      `Conflict: insufficient unreserved ${partition} balance (${availableInPartition} available, ${units} requested)`
+    );
+  }
+
+  // CAS on reservedAmount so two proposals can't both take the last units
+  const swapped = await tx.tokenBalance.updateMany({
+    where: { id: row.id, reservedAmount: row.reservedAmount },
+    data: { reservedAmount: { increment: units } },
+  });
+  if (swapped.count === 0) {
+    throw new Error('Conflict: seller balance changed concurrently; retry');
+  }
+}
+
+/**
+ * Set the units a trade holds in its seller's reservation (0 releases it)
+ */
+async function adjustTradeReservation(
+  tx: Prisma.TransactionClient,
+  tradeId: string,
+  units: number
+): Promise<void> {
+  const trade = await tx.trade.findUniqueOrThrow({
+    where: { id: tradeId },
+    select: { sellerId: true, tokenAddress: true, partition: true, reservedUnits: true },
+  });
+
+  const delta = units - trade.reservedUnits;
+  if (delta === 0) return;
+
+  if (delta > 0) {
+    await reserveSellerUnits(tx, trade.sellerId, trade.tokenAddress, trade.partition, delta);
+  } else {
+    await tx.tokenBalance.updateMany({
+      where: { participantId: trade.sellerId, tokenAddress: trade.tokenAddress },
+      data: { reservedAmount: { decrement: -delta } },
+    });
+  }
+
+  await tx.trade.update({ where: { id: tradeId }, data: { reservedUnits: units } });
+}
+
+// Trade statuses that keep holding the units of the block or book order they came from
+const ORDER_COMMITTED_STATUSES: Trade['status'][] = ['proposed', 'approved', 'executed', 'settled'];
+
+/**
+ * Take `units` from a block order's unallocated remainder. Bumping the order's
+ * version makes concurrent allocations from the same order serialize.
+ */
+async function claimOrderCapacity(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  units: number
+): Promise<void> {
+  const order = await tx.blockOrder.findUnique({ where: { id: orderId } });
+  if (!order) throw new Error(`Block order not found: ${orderId}`);
+  if (order.cancelledAt) throw new Error('Conflict: block order is cancelled');
+
+  const committed = await tx.trade.aggregate({
+    where: { orderId, status: { in: ORDER_COMMITTED_STATUSES } },
+    _sum: { units: true },
+  });
+  const remaining = order.totalUnits - (committed._sum.units ?? 0);
+
+  if (units > remaining) {
+    throw new Error(
+      `Conflict: block order has ${remaining} units remaining (${units} requested)`
+    );
+  }
+
+  const swapped = await tx.blockOrder.updateMany({
+    where: { id: orderId, version: order.version },
+    data: { version: { increment: 1 } },
+  });
+  if (swapped.count === 0) {
+    throw new Error('Conflict: block order changed concurrently; retry');
+  }
+}
+
+function assertTradeSwapped(count: number): void {
+  if (count === 0) {
+    throw new Error('Conflict: trade was modified by another request; reload and retry');
+  }
 }
 
 export async function updateTradeWorkflowAndStatus(params: {
@@ -521,28 +740,112 @@ export async function updateTradeWorkflowAndStatus(params: {
   workflow: Trade['workflow'];
   validation?: Trade['validation'];
   settledAt?: Date;
-  txHash?: string;
+  txHash?: string | null;
   settlementTime?: number;
+  expiresAt?: Date | null;
+  expectedVersion: number;
 }): Promise<void> {
-  await prisma.trade.update({
-    where: { id: params.id },
-    data: {
-      status: params.status,
-      workflow: params.workflow as object,
-      validation: params.validation as object,
-      settledAt: params.settledAt,
-      txHash: params.txHash,
-      settlementTime: params.settlementTime,
-    },
+  await prisma.$transaction(async (tx) => {
+    // Compare-and-swap on version so concurrent transitions can't clobber each other
+    const result = await tx.trade.updateMany({
+      where: { id: params.id, version: params.expectedVersion },
+      data: {
+        status: params.status,
+        workflow: params.workflow as object,
+        validation: params.validation as object,
+        settledAt: params.settledAt,
+        txHash: params.txHash,
+        settlementTime: params.settlementTime,
+        expiresAt: params.expiresAt,
+        version: { increment: 1 },
+      },
+    });
+    assertTradeSwapped(result.count);
+
+    if (RESERVATION_RELEASING_STATUSES.includes(params.status)) {
+      await adjustTradeReservation(tx, params.id, 0);
+    }
   });
 }
 
-export async function settleApprovedTrade(params: {
+export async function amendTradeTerms(params: {
   id: string;
+  terms: TradeAmendableTerms;
   workflow: Trade['workflow'];
   validation?: Trade['validation'];
-  txHash: string;
+  expiresAt?: Date;
+  expectedVersion: number;
+}): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const before = await tx.trade.findUniqueOrThrow({
+      where: { id: params.id },
+      select: { units: true, orderId: true },
+    });
+
+    const result = await tx.trade.updateMany({
+      where: { id: params.id, version: params.expectedVersion },
+      data: {
+        status: 'proposed',
+        units: params.terms.units,
+        pricePerUnit: BigInt(Math.round(params.terms.pricePerUnit * 100)),
+        totalValue: BigInt(Math.round(params.terms.totalValue * 100)),
+        workflow: params.workflow as object,
+        validation: params.validation as object,
+        expiresAt: params.expiresAt,
+        version: { increment: 1 },
+      },
+    });
+    assertTradeSwapped(result.count);
+
+    // A child trade can only grow into what its block order has left
+    const growth = params.terms.units - before.units;
+    if (before.orderId && growth > 0) {
+      await claimOrderCapacity(tx, before.orderId, growth);
+    }
+
+    // Resize the earmark to the amended units
+    await adjustTradeReservation(tx, params.id, params.terms.units);
+  });
+}
+
+/**
+ * Attach the on-chain transfer hash to a trade awaiting its receipt
+ */
+export async function recordExecutionTx(params: { id: string; txHash: string }): Promise<void> {
+  const result = await prisma.trade.updateMany({
+    where: { id: params.id, status: 'executed', txHash: null },
+    data: { txHash: params.txHash },
+  });
+  if (result.count === 0) {
+    throw new Error('Conflict: trade is no longer awaiting an execution tx');
+  }
+}
+
+/**
+ * Executed trades with a submitted transfer still awaiting confirmation
+ */
+export async function getPendingExecutions(): Promise<Trade[]> {
+  const trades = await prisma.trade.findMany({
+    where: { status: 'executed', txHash: { not: null } },
+    include: { seller: true, buyer: true, loan: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  return trades.map(toDomainTrade);
+}
+
+/**
+ * Settle an executed trade whose transfer is final, paying its cash leg and
+ * moving its units unless the chain indexer does
+ */
+export async function settleTrade(params: {
+  id: string;
+  workflow: Trade['workflow'];
+  validation?: Trade['validation'];
+  txHash?: string; // Absent in mock mode, where nothing goes on-chain
   settlementTime: number;
+  expectedVersion: number;
+  cashPaymentRef?: string; // On-chain cash payment, when the cash leg is erc20
+  unitsIndexed?: boolean; // The chain indexer moves TokenBalance
 }): Promise<Trade> {
   const settledAt = new Date();
 
@@ -553,12 +856,13 @@ export async function settleApprovedTrade(params: {
     });
 
     if (!current) throw new Error('Trade not found');
-    if (current.status !== 'approved') {
-      throw new Error(`Trade is not approved (status=${current.status})`);
+    if (current.status !== 'executed') {
+      throw new Error(`Trade is not executed (status=${current.status})`);
     }
 
-    const nextTrade = await tx.trade.update({
-      where: { id: params.id },
+    // The version guard makes a retried or concurrent execute settle at most once
+    const swapped = await tx.trade.updateMany({
+      where: { id: params.id, version: params.expectedVersion, status: 'executed' },
       data: {
         status: 'settled',
         workflow: params.workflow as object,
@@ -566,91 +870,42 @@ export async function settleApprovedTrade(params: {
         settledAt,
         txHash: params.txHash,
         settlementTime: params.settlementTime,
+        reservedUnits: 0,
+        version: { increment: 1 },
       },
-      include: { seller: true, buyer: true, loan: true },
     });
+    assertTradeSwapped(swapped.count);
 
-    const [sellerBal, buyerBal] = await Promise.all([
-      tx.tokenBalance.findUnique({
-        where: {
-          participantId_tokenAddress: {
-            participantId: nextTrade.sellerId,
-            tokenAddress: nextTrade.tokenAddress,
-          },
-        },
-        select: { balance: true },
-      }),
-      tx.tokenBalance.findUnique({
-        where: {
-          participantId_tokenAddress: {
-            participantId: nextTrade.buyerId,
-            tokenAddress: nextTrade.tokenAddress,
-          },
-        },
-        select: { balance: true },
-      }),
-    ]);
+    // Cash leg: the buyer's lock is paid to the seller in the same transaction
+    // as the units move, so neither leg can settle without the other
+    await settleCashLock(tx, current, params.cashPaymentRef, settledAt);
 
-    const sellerBalance = sellerBal?.balance ?? 0;
-    const buyerBalance = buyerBal?.balance ?? 0;
+    const nextTrade = await tx.trade.findUniqueOrThrow({
+      where: { id: params.id },
+      include: { seller: true, buyer: true, loan: true },
+    });
 
-    await Promise.all([
-      tx.tokenBalance.upsert({
-        where: {
-          participantId_tokenAddress: {
-            participantId: nextTrade.sellerId,
-            tokenAddress: nextTrade.tokenAddress,
-          },
-        },
-        update: {
-          balance: Math.max(0, sellerBalance - nextTrade.units),
-        },
-        create: {
-          participantId: nextTrade.sellerId,
-          tokenAddress: nextTrade.tokenAddress,
-          balance: Math.max(0, sellerBalance - nextTrade.units),
-          frozenAmount: 0,
-        },
-      }),
-      tx.tokenBalance.upsert({
-        where: {
-          participantId_tokenAddress: {
-            participantId: nextTrade.buyerId,
-            tokenAddress: nextTrade.tokenAddress,
-          },
-        },
-        update: {
-          balance: buyerBalance + nextTrade.units,
-        },
-        create: {
-          participantId: nextTrade.buyerId,
-          tokenAddress: nextTrade.tokenAddress,
-          balance: buyerBalance + nextTrade.units,
-          frozenAmount: 0,
-        },
-      }),
-    ]);
+    // Settlement consumes the earmark placed at proposal
+    await tx.tokenBalance.updateMany({
+      where: { participantId: nextTrade.sellerId, tokenAddress: nextTrade.tokenAddress },
+      data: { reservedAmount: { decrement: current.reservedUnits } },
+    });
+
+    // Units that moved on-chain are projected into TokenBalance by the chain
+    // indexer when it runs; otherwise they move here
+    if (params.unitsIndexed) return nextTrade;
+    await moveLedgerUnits(tx, {
+      tokenAddress: nextTrade.tokenAddress,
+      partition: nextTrade.partition,
+      fromParticipantId: nextTrade.sellerId,
+      toParticipantId: nextTrade.buyerId,
+      units: nextTrade.units,
+    });
 
     return nextTrade;
   });
 
-  return {
-    id: updated.id,
-    loanId: updated.loan.nelId,
-    tokenAddress: updated.tokenAddress,
-    seller: toDomainParticipant(updated.seller),
-    buyer: toDomainParticipant(updated.buyer),
-    units: updated.units,
-    pricePerUnit: Number(updated.pricePerUnit) / 100,
-    totalValue: Number(updated.totalValue) / 100,
-    status: updated.status as Trade['status'],
-    validation: updated.validation as unknown as Trade['validation'],
-    workflow: updated.workflow as unknown as Trade['workflow'],
-    createdAt: updated.createdAt,
-    settledAt: updated.settledAt ?? undefined,
-    txHash: updated.txHash ?? undefined,
-    settlementTime: updated.settlementTime ?? undefined,
-  };
+  return toDomainTrade(updated);
 }
 
 async function ensureParticipant(participant: Participant): Promise<string> {
@@ -695,23 +950,7 @@ export async function getTrades(options?: { status?: Trade['status'] }): Promise
       orderBy: { createdAt: 'desc' },
     });
 
-    return trades.map(t => ({
-      id: t.id,
-      loanId: t.loan.nelId,
-      tokenAddress: t.tokenAddress,
-      seller: toDomainParticipant(t.seller),
-      buyer: toDomainParticipant(t.buyer),
-      units: t.units,
-      pricePerUnit: Number(t.pricePerUnit) / 100,
-      totalValue: Number(t.totalValue) / 100,
-      status: t.status as Trade['status'],
-      validation: t.validation as unknown as Trade['validation'],
-      workflow: t.workflow as unknown as Trade['workflow'],
-      createdAt: t.createdAt,
-      settledAt: t.settledAt ?? undefined,
-      txHash: t.txHash ?? undefined,
-      settlementTime: t.settlementTime ?? undefined,
-    }));
+    return trades.map(toDomainTrade);
   } catch (error) {
     console.error('[Store] Failed to fetch trades, returning empty array:', error);
     return [];
@@ -720,7 +959,7 @@ export async function getTrades(options?: { status?: Trade['status'] }): Promise
 
 export async function getPortfolioSummary(): Promise<PortfolioSummary> {
   try {
-    const [loans, trades] = await Promise.all([
+    const [loans, trades, distributed] = await Promise.all([
       prisma.loan.findMany({
         include: { tokenization: true },
       }),
@@ -730,6 +969,11 @@ export async function getPortfolioSummary(): Promise<PortfolioSummary> {
         take: 5,
         include: { seller: true, buyer: true, loan: true },
       }),
+      prisma.distribution.groupBy({
+        by: ['type'],
+        where: { status: 'paid' },
+        _sum: { amount: true },
+      }),
     ]);
 
     const totalValue = loans.reduce((sum, l) => sum + Number(l.facilityAmount), 0) / 100;
@@ -746,23 +990,7 @@ export async function getPortfolioSummary(): Promise<PortfolioSummary> {
       ? settledTrades.reduce((sum, t) => sum + (t.settlementTime || 0), 0) / settledTrades.length
       : 0;
 
-    const recentTrades: Trade[] = trades.map(t => ({
-      id: t.id,
-      loanId: t.loan.nelId,
-      tokenAddress: t.tokenAddress,
-      seller: toDomainParticipant(t.seller),
-      buyer: toDomainParticipant(t.buyer),
-      units: t.units,
-      pricePerUnit: Number(t.pricePerUnit) / 100,
-      totalValue: Number(t.totalValue) / 100,
-      status: t.status as Trade['status'],
-      validation: t.validation as unknown as Trade['validation'],
-      workflow: t.workflow as unknown as Trade['workflow'],
-      createdAt: t.createdAt,
-      settledAt: t.settledAt ?? undefined,
-      txHash: t.txHash ?? undefined,
-      settlementTime: t.settlementTime ?? undefined,
-    }));
+    const recentTrades: Trade[] = trades.map(toDomainTrade);
 
     return {
       totalLoans: loans.length,
@@ -771,6 +999,8 @@ export async function getPortfolioSummary(): Promise<PortfolioSummary> {
       tokenizationRate: totalValue > 0 ? (tokenizedValue / totalValue) * 100 : 0,
       avgSettlementTime: 27, // Traditional: 27 days average
       avgSettlementTimeTokenized,
+      interestDistributed: centsToUsd(distributed.find((d) => d.type === 'interest')?._sum.amount ?? BigInt(0)),
+      principalDistributed: centsToUsd(distributed.find((d) => d.type === 'principal')?._sum.amount ?? BigInt(0)),
       recentTrades,
     };
   } catch (error) {
@@ -782,18 +1012,3471 @@ export async function getPortfolioSummary(): Promise<PortfolioSummary> {
       tokenizationRate: 0,
       avgSettlementTime: 27,
       avgSettlementTimeTokenized: 0,
+      interestDistributed: 0,
+      principalDistributed: 0,
       recentTrades: [],
     };
   }
 }
 
-// ============ Participant Operations ============
+// ============ Trade Workflow Policy Operations ============
 
-export async function getParticipants(): Promise<Participant[]> {
-  const participants = await prisma.participant.findMany({
-    orderBy: { name: 'asc' },
+export async function getTradeWorkflowPolicy(nelId: string): Promise<TradeApprovalPolicy | undefined> {
+  const policy = await prisma.tradeWorkflowPolicy.findFirst({
+    where: { loan: { nelId } },
   });
-  return participants.map(toDomainParticipant);
+  if (!policy) return undefined;
+  return {
+    requiredApprovals: policy.requiredApprovals,
+    notionalThreshold: policy.notionalThreshold != null
+      ? Number(policy.notionalThreshold) / 100
+      : undefined,
+    approvalsAboveThreshold: policy.approvalsAboveThreshold,
+    segregateOrganizations: policy.segregateOrganizations,
+    proposedTtlMinutes: policy.proposedTtlMinutes ?? undefined,
+    approvedTtlMinutes: policy.approvedTtlMinutes ?? undefined,
+  };
+}
+
+export async function upsertTradeWorkflowPolicy(
+  nelId: string,
+  policy: TradeApprovalPolicy,
+  updatedBy: string
+): Promise<void> {
+  const loan = await prisma.loan.findUnique({ where: { nelId } });
+  if (!loan) throw new Error(`Loan not found: ${nelId}`);
+
+  const data = {
+    requiredApprovals: policy.requiredApprovals,
+    notionalThreshold: policy.notionalThreshold != null
+      ? BigInt(Math.round(policy.notionalThreshold * 100))
+      : null,
+    approvalsAboveThreshold: policy.approvalsAboveThreshold,
+    segregateOrganizations: policy.segregateOrganizations,
+    proposedTtlMinutes: policy.proposedTtlMinutes ?? null,
+    approvedTtlMinutes: policy.approvedTtlMinutes ?? null,
+    updatedBy,
+  };
+
+  await prisma.tradeWorkflowPolicy.upsert({
+    where: { loanId: loan.id },
+    update: data,
+    create: { loanId: loan.id, ...data },
+  });
+}
+
+/**
+ * TTL overrides that apply to a trade: the loan's own policy (looked up the
+ * same way addTrade resolves the loan) and those of the counterparty types.
+ */
+export async function getTradeTtlPolicies(params: {
+  loanId: string;
+  tokenAddress: string;
+  participantTypes: Participant['type'][];
+}): Promise<{ loan?: TradeTtlPolicy; participantTypes: TradeTtlPolicy[] }> {
+  const [loanPolicy, typePolicies] = await Promise.all([
+    prisma.tradeWorkflowPolicy.findFirst({
+      where: {
+        loan: {
+          OR: [
+            { nelId: params.loanId },
+            { tokenization: { tokenAddress: params.tokenAddress } },
+          ],
+        },
+      },
+    }),
+    prisma.participantTypeTradePolicy.findMany({
+      where: { participantType: { in: params.participantTypes } },
+    }),
+  ]);
+
+  const toTtl = (p: { proposedTtlMinutes: number | null; approvedTtlMinutes: number | null }): TradeTtlPolicy => ({
+    proposedTtlMinutes: p.proposedTtlMinutes ?? undefined,
+    approvedTtlMinutes: p.approvedTtlMinutes ?? undefined,
+  });
+
+  return {
+    loan: loanPolicy ? toTtl(loanPolicy) : undefined,
+    participantTypes: typePolicies.map(toTtl),
+  };
+}
+
+export async function getParticipantTypeTtlPolicies(): Promise<
+  Array<TradeTtlPolicy & { participantType: Participant['type'] }>
+> {
+  const policies = await prisma.participantTypeTradePolicy.findMany({
+    orderBy: { participantType: 'asc' },
+  });
+  return policies.map((p) => ({
+    participantType: p.participantType,
+    proposedTtlMinutes: p.proposedTtlMinutes ?? undefined,
+    approvedTtlMinutes: p.approvedTtlMinutes ?? undefined,
+  }));
+}
+
+export async function upsertParticipantTypeTtlPolicy(
+  participantType: Participant['type'],
+  policy: TradeTtlPolicy,
+  updatedBy: string
+): Promise<void> {
+  const data = {
+    proposedTtlMinutes: policy.proposedTtlMinutes ?? null,
+    approvedTtlMinutes: policy.approvedTtlMinutes ?? null,
+    updatedBy,
+  };
+
+  await prisma.participantTypeTradePolicy.upsert({
+    where: { participantType },
+    update: data,
+    create: { participantType, ...data },
+  });
+}
+
+/**
+ * Proposed/approved trades whose TTL elapsed before `now`
+ */
+export async function getOverdueTrades(now: Date): Promise<Trade[]> {
+  const trades = await prisma.trade.findMany({
+    where: {
+      status: { in: ['proposed', 'approved'] },
+      expiresAt: { lt: now },
+    },
+    include: { seller: true, buyer: true, loan: true },
+    orderBy: { expiresAt: 'asc' },
+  });
+  return trades.map(toDomainTrade);
+}
+
+// ============ Block Order Operations ============
+
+const blockOrderInclude = {
+  seller: true,
+  loan: true,
+  trades: {
+    include: { seller: true, buyer: true, loan: true },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.BlockOrderInclude;
+
+type PrismaBlockOrderWithRelations = Prisma.BlockOrderGetPayload<{
+  include: typeof blockOrderInclude;
+}>;
+
+// Fill state is derived from the children so it can never drift from them
+function toDomainBlockOrder(o: PrismaBlockOrderWithRelations): BlockOrder {
+  const trades = o.trades.map(toDomainTrade);
+  const sumUnits = (statuses: Trade['status'][]) =>
+    trades.filter((t) => statuses.includes(t.status)).reduce((sum, t) => sum + t.units, 0);
+
+  const filledUnits = sumUnits(['executed', 'settled']);
+  const allocatedUnits = sumUnits(['proposed', 'approved']);
+  const unallocated = Math.max(0, o.totalUnits - filledUnits - allocatedUnits);
+
+  // Cancelling withdraws whatever is not held by a live child trade,
+  // including units released later by children that fail
+  const cancelledUnits = o.cancelledAt ? unallocated : 0;
+  const remainingUnits = o.cancelledAt ? 0 : unallocated;
+
+  let status: BlockOrderStatus = 'open';
+  if (filledUnits >= o.totalUnits) status = 'filled';
+  else if (o.cancelledAt) status = 'cancelled';
+  else if (filledUnits > 0) status = 'partially_filled';
+
+  return {
+    id: o.id,
+    loanId: o.loan.nelId,
+    tokenAddress: o.tokenAddress,
+    seller: toDomainParticipant(o.seller),
+    totalUnits: o.totalUnits,
+    pricePerUnit: Number(o.pricePerUnit) / 100,
+    status,
+    filledUnits,
+    allocatedUnits,
+    remainingUnits,
+    cancelledUnits,
+    createdBy: o.createdBy,
+    createdAt: o.createdAt,
+    cancelledAt: o.cancelledAt ?? undefined,
+    cancelledBy: o.cancelledBy ?? undefined,
+    version: o.version,
+    trades,
+  };
+}
+
+export async function addBlockOrder(params: {
+  tokenAddress: string;
+  sellerId: string;
+  totalUnits: number;
+  pricePerUnit: number;
+  createdBy: string;
+}): Promise<string> {
+  const loan = await prisma.loan.findFirst({
+    where: { tokenization: { tokenAddress: params.tokenAddress } },
+  });
+  if (!loan) {
+    throw new Error(`Loan not found for token: ${params.tokenAddress}`);
+  }
+
+  const created = await prisma.blockOrder.create({
+    data: {
+      loanId: loan.id,
+      tokenAddress: params.tokenAddress,
+      sellerId: params.sellerId,
+      totalUnits: params.totalUnits,
+      pricePerUnit: BigInt(Math.round(params.pricePerUnit * 100)),
+      createdBy: params.createdBy,
+    },
+  });
+  return created.id;
+}
+
+export async function getBlockOrderById(id: string): Promise<BlockOrder | undefined> {
+  const order = await prisma.blockOrder.findUnique({
+    where: { id },
+    include: blockOrderInclude,
+  });
+  return order ? toDomainBlockOrder(order) : undefined;
+}
+
+export async function getBlockOrders(options?: {
+  tokenAddress?: string;
+  status?: BlockOrderStatus;
+}): Promise<BlockOrder[]> {
+  const orders = await prisma.blockOrder.findMany({
+    where: options?.tokenAddress ? { tokenAddress: options.tokenAddress } : undefined,
+    include: blockOrderInclude,
+    orderBy: { createdAt: 'desc' },
+  });
+  const domain = orders.map(toDomainBlockOrder);
+  return options?.status ? domain.filter((o) => o.status === options.status) : domain;
+}
+
+/**
+ * Withdraw a block order's unallocated units. Child trades already in flight
+ * carry on and settle or fail on their own.
+ */
+export async function cancelBlockOrder(params: {
+  id: string;
+  cancelledBy: string;
+  expectedVersion: number;
+}): Promise<void> {
+  const result = await prisma.blockOrder.updateMany({
+    where: { id: params.id, version: params.expectedVersion, cancelledAt: null },
+    data: {
+      cancelledAt: new Date(),
+      cancelledBy: params.cancelledBy,
+      version: { increment: 1 },
+    },
+  });
+  if (result.count === 0) {
+    throw new Error('Conflict: block order was modified or already cancelled; reload and retry');
+  }
+}
+
+// ============ Cash Leg Operations ============
+
+function centsToUsd(cents: bigint): number {
+  return Number(cents) / 100;
+}
+
+function toDomainCashLock(l: PrismaCashLock): CashLock {
+  return {
+    id: l.id,
+    tradeId: l.tradeId,
+    mode: l.mode as CashLegMode,
+    amount: centsToUsd(l.amount),
+    status: l.status as CashLock['status'],
+    externalRef: l.externalRef ?? undefined,
+    paymentRef: l.paymentRef ?? undefined,
+    createdAt: l.createdAt,
+    lockedAt: l.lockedAt,
+    settledAt: l.settledAt ?? undefined,
+    releasedAt: l.releasedAt ?? undefined,
+  };
+}
+
+export async function getCashAccounts(): Promise<CashAccount[]> {
+  const accounts = await prisma.cashAccount.findMany({
+    include: { participant: true },
+    orderBy: { participant: { name: 'asc' } },
+  });
+  return accounts.map((a) => ({
+    participant: toDomainParticipant(a.participant),
+    currency: a.currency,
+    balance: centsToUsd(a.balance),
+    lockedAmount: centsToUsd(a.lockedAmount),
+    availableAmount: centsToUsd(a.balance - a.lockedAmount),
+  }));
+}
+
+/**
+ * Add (or, with a negative amount, withdraw) unlocked funds on the internal ledger
+ */
+export async function adjustCashAccount(participantId: string, amount: number): Promise<void> {
+  const cents = BigInt(Math.round(amount * 100));
+
+  await prisma.$transaction(async (tx) => {
+    const account = await tx.cashAccount.upsert({
+      where: { participantId },
+      update: {},
+      create: { participantId },
+    });
+    if (account.balance - account.lockedAmount + cents < BigInt(0)) {
+      throw new Error('Conflict: withdrawal exceeds available cash');
+    }
+    const swapped = await tx.cashAccount.updateMany({
+      where: { id: account.id, balance: account.balance, lockedAmount: account.lockedAmount },
+      data: { balance: { increment: cents } },
+    });
+    if (swapped.count === 0) {
+      throw new Error('Conflict: cash account changed concurrently; retry');
+    }
+  });
+}
+
+export async function getCashLockForTrade(tradeId: string): Promise<CashLock | undefined> {
+  const lock = await prisma.cashLock.findUnique({ where: { tradeId } });
+  return lock ? toDomainCashLock(lock) : undefined;
+}
+
+/**
+ * Record a cash lock for a trade. In internal mode this also earmarks the
+ * buyer's ledger balance; erc20 holds are placed on-chain by the caller first.
+ * Re-locking a previously released trade reuses its row.
+ */
+export async function lockTradeCash(params: {
+  tradeId: string;
+  mode: CashLegMode;
+  amount: number;
+  externalRef?: string;
+}): Promise<CashLock> {
+  const cents = BigInt(Math.round(params.amount * 100));
+
+  const lock = await prisma.$transaction(async (tx) => {
+    const existing = await tx.cashLock.findUnique({ where: { tradeId: params.tradeId } });
+    if (existing?.status === 'locked') return existing;
+    if (existing?.status === 'settled') {
+      throw new Error('Conflict: trade cash is already settled');
+    }
+
+    if (params.mode === 'internal') {
+      const trade = await tx.trade.findUniqueOrThrow({
+        where: { id: params.tradeId },
+        select: { buyerId: true },
+      });
+      const account = await tx.cashAccount.findUnique({ where: { participantId: trade.buyerId } });
+      const available = account ? account.balance - account.lockedAmount : BigInt(0);
+
+      if (!account || available < cents) {
+        throw new Error(
+          `Conflict: insufficient buyer cash (${centsToUsd(available)} available, ${centsToUsd(cents)} required)`
+        );
+      }
+
+      const swapped = await tx.cashAccount.updateMany({
+        where: { id: account.id, lockedAmount: account.lockedAmount },
+        data: { lockedAmount: { increment: cents } },
+      });
+      if (swapped.count === 0) {
+        throw new Error('Conflict: buyer cash account changed concurrently; retry');
+      }
+    }
+
+    const data = {
+      mode: params.mode,
+      amount: cents,
+      status: 'locked' as const,
+      externalRef: params.externalRef ?? null,
+      paymentRef: null,
+      lockedAt: new Date(),
+      releasedAt: null,
+    };
+    return existing
+      ? tx.cashLock.update({ where: { id: existing.id }, data })
+      : tx.cashLock.create({ data: { tradeId: params.tradeId, ...data } });
+  });
+
+  return toDomainCashLock(lock);
+}
+
+/**
+ * Release a trade's cash lock (no-op if there's none). Returns the lock as
+ * it was, so erc20 callers know which on-chain hold to release.
+ */
+export async function releaseTradeCash(tradeId: string): Promise<CashLock | undefined> {
+  return prisma.$transaction(async (tx) => {
+    const lock = await tx.cashLock.findUnique({
+      where: { tradeId },
+      include: { trade: { select: { buyerId: true } } },
+    });
+    if (!lock || lock.status !== 'locked') return undefined;
+
+    const swapped = await tx.cashLock.updateMany({
+      where: { id: lock.id, status: 'locked' },
+      data: { status: 'released', releasedAt: new Date() },
+    });
+    if (swapped.count === 0) return undefined;
+
+    if (lock.mode === 'internal') {
+      await tx.cashAccount.updateMany({
+        where: { participantId: lock.trade.buyerId },
+        data: { lockedAmount: { decrement: lock.amount } },
+      });
+    }
+
+    return toDomainCashLock(lock);
+  });
+}
+
+/**
+ * Trades holding cash they no longer need: left the workflow, or amended
+ * back to proposed (the lock is re-taken on re-approval). Locks newer than
+ * `lockedBefore` are skipped, since an approval locks before it flips status.
+ */
+export async function getTradesWithStaleCashLocks(lockedBefore: Date): Promise<string[]> {
+  const locks = await prisma.cashLock.findMany({
+    where: {
+      status: 'locked',
+      lockedAt: { lt: lockedBefore },
+      trade: { status: { in: [...RESERVATION_RELEASING_STATUSES, 'proposed'] } },
+    },
+    select: { tradeId: true },
+  });
+  return locks.map((l) => l.tradeId);
+}
+
+async function settleCashLock(
+  tx: Prisma.TransactionClient,
+  trade: { id: string; buyerId: string; sellerId: string },
+  paymentRef: string | undefined,
+  settledAt: Date
+): Promise<void> {
+  const lock = await tx.cashLock.findUnique({ where: { tradeId: trade.id } });
+  if (!lock || lock.status !== 'locked') {
+    throw new Error('Conflict: buyer cash is not locked for this trade');
+  }
+
+  if (lock.mode === 'internal') {
+    const debited = await tx.cashAccount.updateMany({
+      where: {
+        participantId: trade.buyerId,
+        balance: { gte: lock.amount },
+        lockedAmount: { gte: lock.amount },
+      },
+      data: { balance: { decrement: lock.amount }, lockedAmount: { decrement: lock.amount } },
+    });
+    if (debited.count === 0) {
+      throw new Error('Conflict: buyer cash account no longer covers the lock');
+    }
+
+    await tx.cashAccount.upsert({
+      where: { participantId: trade.sellerId },
+      update: { balance: { increment: lock.amount } },
+      create: { participantId: trade.sellerId, balance: lock.amount },
+    });
+  } else if (!paymentRef) {
+    throw new Error('Conflict: on-chain cash payment missing for erc20 cash leg');
+  }
+
+  await tx.cashLock.update({
+    where: { id: lock.id },
+    data: { status: 'settled', settledAt, paymentRef },
+  });
+}
+
+// ============ Settlement Cycle Operations ============
+
+const settlementCycleInclude = {
+  trades: { select: { id: true }, orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.SettlementCycleInclude;
+
+type PrismaSettlementCycleWithTrades = Prisma.SettlementCycleGetPayload<{
+  include: typeof settlementCycleInclude;
+}>;
+
+function toDomainSettlementCycle(c: PrismaSettlementCycleWithTrades): SettlementCycle {
+  return {
+    id: c.id,
+    tokenAddress: c.tokenAddress,
+    partition: c.partition,
+    runBy: c.runBy,
+    txHash: c.txHash,
+    createdAt: c.createdAt,
+    netPositions: c.netPositions as unknown as NetPosition[],
+    tradeIds: c.trades.map((t) => t.id),
+  };
+}
+
+/**
+ * Approved trades for one token and partition, oldest first
+ */
+export async function getApprovedTradesForToken(
+  tokenAddress: string,
+  partition: TokenPartition
+): Promise<Trade[]> {
+  const trades = await prisma.trade.findMany({
+    where: { tokenAddress, partition, status: 'approved' },
+    include: { seller: true, buyer: true, loan: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  return trades.map(toDomainTrade);
+}
+
+export async function getSettlementCycleById(id: string): Promise<SettlementCycle | undefined> {
+  const cycle = await prisma.settlementCycle.findUnique({
+    where: { id },
+    include: settlementCycleInclude,
+  });
+  return cycle ? toDomainSettlementCycle(cycle) : undefined;
+}
+
+export async function getSettlementCycles(options?: { tokenAddress?: string }): Promise<SettlementCycle[]> {
+  const cycles = await prisma.settlementCycle.findMany({
+    where: options?.tokenAddress ? { tokenAddress: options.tokenAddress } : undefined,
+    include: settlementCycleInclude,
+    orderBy: { createdAt: 'desc' },
+  });
+  return cycles.map(toDomainSettlementCycle);
+}
+
+/**
+ * Settle a batch of approved trades in one transaction. Units move once per
+ * participant by their net position; each trade's cash lock is paid as in a
+ * single execute, which leaves every cash account at its net as well. Any
+ * trade that changed since it was read rolls the whole cycle back.
+ */
+export async function settleTradesInCycle(params: {
+  tokenAddress: string;
+  partition: TokenPartition;
+  runBy: string;
+  txHash: string;
+  settlementTime: number;
+  netPositions: NetPosition[];
+  trades: Array<{
+    id: string;
+    expectedVersion: number;
+    workflow: Trade['workflow'];
+    cashPaymentRef?: string;
+  }>;
+}): Promise<SettlementCycle> {
+  const settledAt = new Date();
+
+  const cycleId = await prisma.$transaction(async (tx) => {
+    const cycle = await tx.settlementCycle.create({
+      data: {
+        tokenAddress: params.tokenAddress,
+        partition: params.partition,
+        runBy: params.runBy,
+        txHash: params.txHash,
+        netPositions: params.netPositions as object,
+      },
+    });
+
+    for (const item of params.trades) {
+      const current = await tx.trade.findUniqueOrThrow({ where: { id: item.id } });
+      if (current.tokenAddress !== params.tokenAddress || current.partition !== params.partition) {
+        throw new Error(`Trade ${item.id} is not for ${params.partition} units of ${params.tokenAddress}`);
+      }
+
+      const swapped = await tx.trade.updateMany({
+        where: {
+          id: item.id,
+          version: item.expectedVersion,
+          status: 'approved',
+          OR: [{ expiresAt: null }, { expiresAt: { gt: settledAt } }],
+        },
+        data: {
+          status: 'settled',
+          workflow: item.workflow as object,
+          settledAt,
+          txHash: params.txHash,
+          settlementTime: params.settlementTime,
+          reservedUnits: 0,
+          settlementCycleId: cycle.id,
+          version: { increment: 1 },
+        },
+      });
+      assertTradeSwapped(swapped.count);
+
+      await tx.tokenBalance.updateMany({
+        where: { participantId: current.sellerId, tokenAddress: params.tokenAddress },
+        data: { reservedAmount: { decrement: current.reservedUnits } },
+      });
+      await settleCashLock(tx, current, item.cashPaymentRef, settledAt);
+    }
+
+    // Deliverers first (positions are sorted by netUnits), so a shortfall
+    // aborts before anyone is credited
+    for (const position of params.netPositions) {
+      try {
+        await adjustPartitionUnits(tx, {
+          participantId: position.participant.id,
+          tokenAddress: params.tokenAddress,
+          partition: params.partition,
+          delta: position.netUnits,
+        });
+      } catch (err) {
+        if (!(err instanceof Error && err.message.startsWith('Conflict'))) throw err;
+        throw new Error(
+          `Conflict: ${position.participant.name} no longer holds the ${-position.netUnits} ${params.partition} units they net deliver`
+        );
+      }
+    }
+
+    return cycle.id;
+  });
+
+  const cycle = await getSettlementCycleById(cycleId);
+  if (!cycle) throw new Error(`Settlement cycle not found: ${cycleId}`);
+  return cycle;
+}
+
+// ============ Order Book Operations ============
+
+const matchTradeStatus = { include: { trade: { select: { status: true } } } } as const;
+
+const limitOrderInclude = {
+  participant: true,
+  loan: true,
+  bidMatches: matchTradeStatus,
+  askMatches: matchTradeStatus,
+} satisfies Prisma.LimitOrderInclude;
+
+type PrismaLimitOrderWithRelations = Prisma.LimitOrderGetPayload<{
+  include: typeof limitOrderInclude;
+}>;
+
+function toDomainLimitOrder(o: PrismaLimitOrderWithRelations): LimitOrder {
+  // A match holds units while its trade is being proposed, is in flight or
+  // settled; if the trade fails, the units go back on the book
+  const filledUnits = [...o.bidMatches, ...o.askMatches]
+    .filter((m) => !m.trade || ORDER_COMMITTED_STATUSES.includes(m.trade.status as Trade['status']))
+    .reduce((sum, m) => sum + m.units, 0);
+
+  const openUnits = o.cancelledAt ? 0 : Math.max(0, o.units - filledUnits);
+
+  let status: LimitOrderStatus = 'open';
+  if (filledUnits >= o.units) status = 'filled';
+  else if (o.cancelledAt) status = 'cancelled';
+  else if (filledUnits > 0) status = 'partially_filled';
+
+  return {
+    id: o.id,
+    loanId: o.loan.nelId,
+    tokenAddress: o.tokenAddress,
+    participant: toDomainParticipant(o.participant),
+    side: o.side as OrderSide,
+    units: o.units,
+    pricePerUnit: Number(o.pricePerUnit) / 100,
+    status,
+    filledUnits,
+    openUnits,
+    createdBy: o.createdBy,
+    createdAt: o.createdAt,
+    cancelledAt: o.cancelledAt ?? undefined,
+    version: o.version,
+  };
+}
+
+export async function addLimitOrder(params: {
+  tokenAddress: string;
+  participantId: string;
+  side: OrderSide;
+  units: number;
+  pricePerUnit: number;
+  createdBy: string;
+}): Promise<string> {
+  const loan = await prisma.loan.findFirst({
+    where: { tokenization: { tokenAddress: params.tokenAddress } },
+  });
+  if (!loan) {
+    throw new Error(`Loan not found for token: ${params.tokenAddress}`);
+  }
+
+  const created = await prisma.limitOrder.create({
+    data: {
+      loanId: loan.id,
+      tokenAddress: params.tokenAddress,
+      participantId: params.participantId,
+      side: params.side,
+      units: params.units,
+      pricePerUnit: BigInt(Math.round(params.pricePerUnit * 100)),
+      createdBy: params.createdBy,
+    },
+  });
+  return created.id;
+}
+
+export async function getLimitOrderById(id: string): Promise<LimitOrder | undefined> {
+  const order = await prisma.limitOrder.findUnique({ where: { id }, include: limitOrderInclude });
+  return order ? toDomainLimitOrder(order) : undefined;
+}
+
+export async function getLimitOrders(options: {
+  tokenAddress?: string;
+  side?: OrderSide;
+  createdBy?: string;
+  restingOnly?: boolean; // Only orders with open units
+}): Promise<LimitOrder[]> {
+  const orders = await prisma.limitOrder.findMany({
+    where: {
+      tokenAddress: options.tokenAddress,
+      side: options.side,
+      createdBy: options.createdBy ? { equals: options.createdBy, mode: 'insensitive' } : undefined,
+      cancelledAt: options.restingOnly ? null : undefined,
+    },
+    include: limitOrderInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+  const domain = orders.map(toDomainLimitOrder);
+  return options.restingOnly ? domain.filter((o) => o.openUnits > 0) : domain;
+}
+
+/**
+ * Record a bid/ask crossing before its trade is proposed. Both orders'
+ * versions are compared-and-bumped, so an order can't be matched by two
+ * takers at once.
+ */
+export async function claimOrderBookMatch(params: {
+  tokenAddress: string;
+  bid: Pick<LimitOrder, 'id' | 'version'>;
+  ask: Pick<LimitOrder, 'id' | 'version'>;
+  units: number;
+  pricePerUnit: number;
+}): Promise<string> {
+  return prisma.$transaction(async (tx) => {
+    for (const order of [params.bid, params.ask]) {
+      const swapped = await tx.limitOrder.updateMany({
+        where: { id: order.id, version: order.version, cancelledAt: null },
+        data: { version: { increment: 1 } },
+      });
+      if (swapped.count === 0) {
+        throw new Error('Conflict: order was matched or cancelled concurrently; retry');
+      }
+    }
+
+    const match = await tx.orderBookMatch.create({
+      data: {
+        tokenAddress: params.tokenAddress,
+        bidOrderId: params.bid.id,
+        askOrderId: params.ask.id,
+        units: params.units,
+        pricePerUnit: BigInt(Math.round(params.pricePerUnit * 100)),
+      },
+    });
+    return match.id;
+  });
+}
+
+export async function completeOrderBookMatch(id: string, tradeId: string): Promise<OrderBookMatch> {
+  const m = await prisma.orderBookMatch.update({ where: { id }, data: { tradeId } });
+  return {
+    id: m.id,
+    bidOrderId: m.bidOrderId,
+    askOrderId: m.askOrderId,
+    units: m.units,
+    pricePerUnit: Number(m.pricePerUnit) / 100,
+    tradeId: m.tradeId ?? undefined,
+    createdAt: m.createdAt,
+  };
+}
+
+/**
+ * Drop a claimed match whose trade could not be proposed
+ */
+export async function releaseOrderBookMatch(id: string): Promise<void> {
+  await prisma.orderBookMatch.deleteMany({ where: { id, tradeId: null } });
+}
+
+export async function cancelLimitOrder(params: { id: string; expectedVersion: number }): Promise<void> {
+  const result = await prisma.limitOrder.updateMany({
+    where: { id: params.id, version: params.expectedVersion, cancelledAt: null },
+    data: { cancelledAt: new Date(), version: { increment: 1 } },
+  });
+  if (result.count === 0) {
+    throw new Error('Conflict: order was modified or already cancelled; reload and retry');
+  }
+}
+
+// ============ RFQ Operations ============
+
+const rfqInclude = {
+  seller: true,
+  loan: true,
+  invitees: { include: { buyer: true } },
+  quotes: {
+    include: { buyer: true },
+    orderBy: [{ pricePerUnit: 'desc' }, { updatedAt: 'asc' }],
+  },
+} satisfies Prisma.RfqInclude;
+
+type PrismaRfqWithRelations = Prisma.RfqGetPayload<{ include: typeof rfqInclude }>;
+
+function toDomainRfq(r: PrismaRfqWithRelations): Rfq {
+  return {
+    id: r.id,
+    loanId: r.loan.nelId,
+    tokenAddress: r.tokenAddress,
+    seller: toDomainParticipant(r.seller),
+    units: r.units,
+    status: r.status as RfqStatus,
+    createdBy: r.createdBy,
+    createdAt: r.createdAt,
+    expiresAt: r.expiresAt,
+    acceptedQuoteId: r.acceptedQuoteId ?? undefined,
+    tradeId: r.tradeId ?? undefined,
+    cancelledAt: r.cancelledAt ?? undefined,
+    version: r.version,
+    invitees: r.invitees.map((i) => ({
+      buyer: toDomainParticipant(i.buyer),
+      validation: (i.validation as unknown as TransferValidation | null) ?? undefined,
+    })),
+    quotes: r.quotes.map((q) => ({
+      id: q.id,
+      rfqId: q.rfqId,
+      buyer: toDomainParticipant(q.buyer),
+      pricePerUnit: Number(q.pricePerUnit) / 100,
+      totalValue: (Number(q.pricePerUnit) * r.units) / 100,
+      validUntil: q.validUntil,
+      submittedBy: q.submittedBy,
+      createdAt: q.createdAt,
+      updatedAt: q.updatedAt,
+    })),
+  };
+}
+
+export async function addRfq(params: {
+  tokenAddress: string;
+  sellerId: string;
+  units: number;
+  createdBy: string;
+  expiresAt: Date;
+  invitees: Array<{ buyerId: string; validation?: TransferValidation }>;
+}): Promise<string> {
+  const loan = await prisma.loan.findFirst({
+    where: { tokenization: { tokenAddress: params.tokenAddress } },
+  });
+  if (!loan) {
+    throw new Error(`Loan not found for token: ${params.tokenAddress}`);
+  }
+
+  const created = await prisma.rfq.create({
+    data: {
+      loanId: loan.id,
+      tokenAddress: params.tokenAddress,
+      sellerId: params.sellerId,
+      units: params.units,
+      createdBy: params.createdBy,
+      expiresAt: params.expiresAt,
+      invitees: {
+        create: params.invitees.map((i) => ({
+          buyerId: i.buyerId,
+          validation: i.validation as object,
+        })),
+      },
+    },
+  });
+  return created.id;
+}
+
+export async function getRfqById(id: string): Promise<Rfq | undefined> {
+  const rfq = await prisma.rfq.findUnique({ where: { id }, include: rfqInclude });
+  return rfq ? toDomainRfq(rfq) : undefined;
+}
+
+export async function getRfqs(options?: { status?: RfqStatus }): Promise<Rfq[]> {
+  const rfqs = await prisma.rfq.findMany({
+    where: options?.status ? { status: options.status } : undefined,
+    include: rfqInclude,
+    orderBy: { createdAt: 'desc' },
+  });
+  return rfqs.map(toDomainRfq);
+}
+
+/**
+ * Submit or replace an invited buyer's quote while the RFQ is open
+ */
+export async function upsertRfqQuote(params: {
+  rfqId: string;
+  buyerId: string;
+  pricePerUnit: number;
+  validUntil: Date;
+  submittedBy: string;
+}): Promise<string> {
+  return prisma.$transaction(async (tx) => {
+    const rfq = await tx.rfq.findUnique({
+      where: { id: params.rfqId },
+      include: { invitees: { where: { buyerId: params.buyerId } } },
+    });
+    if (!rfq) throw new Error(`RFQ not found: ${params.rfqId}`);
+    if (rfq.status !== 'open' || rfq.expiresAt <= new Date()) {
+      throw new Error(`Conflict: RFQ is no longer accepting quotes (status=${rfq.status})`);
+    }
+    if (rfq.invitees.length === 0) {
+      throw new Error('Forbidden: buyer was not invited to this RFQ');
+    }
+
+    const data = {
+      pricePerUnit: BigInt(Math.round(params.pricePerUnit * 100)),
+      validUntil: params.validUntil,
+      submittedBy: params.submittedBy,
+    };
+
+    const quote = await tx.rfqQuote.upsert({
+      where: { rfqId_buyerId: { rfqId: params.rfqId, buyerId: params.buyerId } },
+      update: data,
+      create: { rfqId: params.rfqId, buyerId: params.buyerId, ...data },
+    });
+
+    // Bump the version so an accept racing this re-quote sees a stale RFQ
+    await tx.rfq.update({ where: { id: params.rfqId }, data: { version: { increment: 1 } } });
+
+    return quote.id;
+  });
+}
+
+/**
+ * Move an open RFQ to accepted for `quoteId`. Only one accept can win.
+ */
+export async function claimRfqAcceptance(params: {
+  id: string;
+  quoteId: string;
+  expectedVersion: number;
+}): Promise<void> {
+  const result = await prisma.rfq.updateMany({
+    where: { id: params.id, version: params.expectedVersion, status: 'open' },
+    data: { status: 'accepted', acceptedQuoteId: params.quoteId, version: { increment: 1 } },
+  });
+  if (result.count === 0) {
+    throw new Error('Conflict: RFQ was modified or is no longer open; reload and retry');
+  }
+}
+
+export async function completeRfqAcceptance(id: string, tradeId: string): Promise<void> {
+  await prisma.rfq.update({ where: { id }, data: { tradeId } });
+}
+
+/**
+ * Reopen an RFQ whose accepted quote could not be turned into a trade
+ */
+export async function releaseRfqAcceptance(id: string): Promise<void> {
+  await prisma.rfq.updateMany({
+    where: { id, status: 'accepted', tradeId: null },
+    data: { status: 'open', acceptedQuoteId: null, version: { increment: 1 } },
+  });
+}
+
+export async function cancelRfq(params: { id: string; expectedVersion: number }): Promise<void> {
+  const result = await prisma.rfq.updateMany({
+    where: { id: params.id, version: params.expectedVersion, status: 'open' },
+    data: { status: 'cancelled', cancelledAt: new Date(), version: { increment: 1 } },
+  });
+  if (result.count === 0) {
+    throw new Error('Conflict: RFQ was modified or is no longer open; reload and retry');
+  }
+}
+
+/**
+ * Close open RFQs whose quote window ended before `now`
+ */
+export async function expireOverdueRfqs(now: Date): Promise<number> {
+  const result = await prisma.rfq.updateMany({
+    where: { status: 'open', expiresAt: { lt: now } },
+    data: { status: 'expired', version: { increment: 1 } },
+  });
+  return result.count;
+}
+
+// ============ Chain Indexer Operations ============
+
+function toIndexedChainEvent(row: PrismaChainEvent): IndexedChainEvent {
+  return {
+    chainId: row.chainId,
+    tokenAddress: row.tokenAddress,
+    blockNumber: row.blockNumber,
+    blockHash: row.blockHash,
+    blockTimestamp: row.blockTimestamp ?? undefined,
+    txHash: row.txHash,
+    logIndex: row.logIndex,
+    eventName: row.eventName as IndexedChainEvent['eventName'],
+    args: row.args as IndexedChainEvent['args'],
+  };
+}
+
+type HoldingState = { balance: number; frozenAmount: number; partitions: Map<string, number> };
+
+// Wallets whose holding an event changes (lowercase)
+function walletsOf(event: IndexedChainEvent): string[] {
+  const { from, to, addr, lostWallet, newWallet } = event.args;
+  return [from, to, addr, lostWallet, newWallet].filter(Boolean).map((w) => w.toLowerCase());
+}
+
+function applyChainEvent(state: Map<string, HoldingState>, event: IndexedChainEvent): void {
+  const holding = (wallet: string) => {
+    const key = wallet.toLowerCase();
+    let h = state.get(key);
+    if (!h) {
+      h = { balance: 0, frozenAmount: 0, partitions: new Map() };
+      state.set(key, h);
+    }
+    return h;
+  };
+  const move = (wallet: string, partition: string, delta: number) => {
+    const h = holding(wallet);
+    h.balance += delta;
+    h.partitions.set(partition, (h.partitions.get(partition) ?? 0) + delta);
+  };
+
+  const { args } = event;
+  switch (event.eventName) {
+    case 'Issued':
+      move(args.to, args.partition, Number(args.amount));
+      break;
+    case 'Redeemed':
+      move(args.from, args.partition, -Number(args.amount));
+      break;
+    case 'TransferByPartition':
+      move(args.from, args.partition, -Number(args.value));
+      move(args.to, args.partition, Number(args.value));
+      break;
+    case 'ControllerTransfer':
+      // LoanToken.controllerTransfer always moves the primary partition
+      move(args.from, 'PRIMARY', -Number(args.value));
+      move(args.to, 'PRIMARY', Number(args.value));
+      break;
+    case 'TokensFrozen':
+      holding(args.addr).frozenAmount += Number(args.amount);
+      break;
+    case 'TokensUnfrozen':
+      holding(args.addr).frozenAmount -= Number(args.amount);
+      break;
+    case 'RecoverySuccess': {
+      // Every partition and the frozen designation move to the new wallet
+      const lost = holding(args.lostWallet);
+      for (const [partition, units] of lost.partitions) {
+        move(args.lostWallet, partition, -units);
+        move(args.newWallet, partition, units);
+      }
+      holding(args.newWallet).frozenAmount = lost.frozenAmount;
+      lost.frozenAmount = 0;
+      break;
+    }
+  }
+}
+
+async function loadHoldings(
+  tx: Prisma.TransactionClient,
+  tokenAddress: string,
+  wallets: string[]
+): Promise<Map<string, HoldingState>> {
+  const rows = await tx.tokenHolding.findMany({
+    where: { tokenAddress, walletAddress: { in: wallets } },
+    include: { partitions: true },
+  });
+  return new Map(
+    rows.map((r) => [
+      r.walletAddress,
+      {
+        balance: r.balance,
+        frozenAmount: r.frozenAmount,
+        partitions: new Map(r.partitions.map((p) => [p.partition, p.balance])),
+      },
+    ])
+  );
+}
+
+async function writeHoldings(
+  tx: Prisma.TransactionClient,
+  tokenAddress: string,
+  state: Map<string, HoldingState>
+): Promise<void> {
+  for (const [walletAddress, h] of state) {
+    const row = await tx.tokenHolding.upsert({
+      where: { tokenAddress_walletAddress: { tokenAddress, walletAddress } },
+      update: { balance: h.balance, frozenAmount: h.frozenAmount },
+      create: { tokenAddress, walletAddress, balance: h.balance, frozenAmount: h.frozenAmount },
+    });
+    for (const [partition, balance] of h.partitions) {
+      await tx.tokenPartitionBalance.upsert({
+        where: { holdingId_partition: { holdingId: row.id, partition } },
+        update: { balance },
+        create: { holdingId: row.id, partition, balance },
+      });
+    }
+  }
+}
+
+/**
+ * Copy projected holdings onto the TokenBalance of participants with those
+ * wallets. Reservations are app-side and left as they are.
+ */
+async function syncTokenBalances(
+  tx: Prisma.TransactionClient,
+  tokenAddress: string,
+  state: Map<string, HoldingState>
+): Promise<void> {
+  const participants = await tx.participant.findMany({
+    where: { walletAddress: { not: null } },
+    select: { id: true, walletAddress: true },
+  });
+
+  for (const p of participants) {
+    const h = state.get(p.walletAddress!.toLowerCase());
+    if (!h) continue;
+    const row = await tx.tokenBalance.upsert({
+      where: { participantId_tokenAddress: { participantId: p.id, tokenAddress } },
+      update: { balance: h.balance, frozenAmount: h.frozenAmount },
+      create: { participantId: p.id, tokenAddress, balance: h.balance, frozenAmount: h.frozenAmount },
+    });
+
+    // The ledger models PRIMARY and SECONDARY only; units under an unknown
+    // partition id stay in the projection
+    for (const partition of TOKEN_PARTITIONS) {
+      const balance = h.partitions.get(partition) ?? 0;
+      await tx.tokenBalancePartition.upsert({
+        where: { tokenBalanceId_partition: { tokenBalanceId: row.id, partition } },
+        update: { balance },
+        create: { tokenBalanceId: row.id, partition, balance },
+      });
+    }
+  }
+}
+
+/**
+ * Token addresses minted on a chain, i.e. what the indexer follows
+ */
+export async function getIndexedTokenAddresses(chainId: number): Promise<string[]> {
+  const rows = await prisma.tokenization.findMany({
+    where: { chainId, tokenAddress: { not: null } },
+    select: { tokenAddress: true },
+  });
+  return rows.map((r) => r.tokenAddress!);
+}
+
+export async function getIndexerCheckpoint(
+  chainId: number,
+  tokenAddress: string
+): Promise<IndexerCheckpoint | undefined> {
+  const row = await prisma.indexerCheckpoint.findUnique({
+    where: { chainId_tokenAddress: { chainId, tokenAddress } },
+  });
+  return row ?? undefined;
+}
+
+export async function getIndexerCheckpoints(): Promise<IndexerCheckpoint[]> {
+  return prisma.indexerCheckpoint.findMany({ orderBy: { tokenAddress: 'asc' } });
+}
+
+/**
+ * Blocks with indexed events for a token, newest first (for finding a fork point)
+ */
+export async function getIndexedBlocks(
+  chainId: number,
+  tokenAddress: string
+): Promise<Array<{ blockNumber: number; blockHash: string }>> {
+  return prisma.chainEvent.findMany({
+    where: { chainId, tokenAddress },
+    distinct: ['blockNumber'],
+    select: { blockNumber: true, blockHash: true },
+    orderBy: { blockNumber: 'desc' },
+  });
+}
+
+/**
+ * Blocks with indexed events that have no block time yet, oldest first
+ */
+export async function getUntimedIndexedBlocks(
+  chainId: number,
+  tokenAddress: string,
+  limit: number
+): Promise<number[]> {
+  const rows = await prisma.chainEvent.findMany({
+    where: { chainId, tokenAddress, blockTimestamp: null },
+    distinct: ['blockNumber'],
+    select: { blockNumber: true },
+    orderBy: { blockNumber: 'asc' },
+    take: limit,
+  });
+  return rows.map((r) => r.blockNumber);
+}
+
+export async function recordIndexedBlockTimestamps(params: {
+  chainId: number;
+  tokenAddress: string;
+  timestamps: Map<number, Date>;
+}): Promise<void> {
+  const { chainId, tokenAddress } = params;
+  await prisma.$transaction(
+    [...params.timestamps].map(([blockNumber, blockTimestamp]) =>
+      prisma.chainEvent.updateMany({
+        where: { chainId, tokenAddress, blockNumber },
+        data: { blockTimestamp },
+      })
+    )
+  );
+}
+
+export async function getTokenHoldings(tokenAddress: string): Promise<TokenHolding[]> {
+  const rows = await prisma.tokenHolding.findMany({
+    where: { tokenAddress },
+    include: { partitions: true },
+    orderBy: { balance: 'desc' },
+  });
+  return rows.map((r) => ({
+    tokenAddress: r.tokenAddress,
+    walletAddress: r.walletAddress,
+    balance: r.balance,
+    frozenAmount: r.frozenAmount,
+    partitions: Object.fromEntries(r.partitions.map((p) => [p.partition, p.balance])),
+  }));
+}
+
+/**
+ * Record a range of indexed blocks: store its events, apply them to the
+ * holdings and TokenBalance, and advance the checkpoint, all or nothing
+ */
+export async function commitIndexedBlocks(params: {
+  chainId: number;
+  tokenAddress: string;
+  events: IndexedChainEvent[];
+  toBlock: number;
+  toBlockHash: string;
+}): Promise<void> {
+  const { chainId, tokenAddress, events } = params;
+
+  await prisma.$transaction(async (tx) => {
+    if (events.length > 0) {
+      await tx.chainEvent.createMany({
+        data: events.map((e) => ({ ...e, args: e.args as object })),
+      });
+
+      const state = await loadHoldings(tx, tokenAddress, [...new Set(events.flatMap(walletsOf))]);
+      for (const event of events) applyChainEvent(state, event);
+      await writeHoldings(tx, tokenAddress, state);
+      await syncTokenBalances(tx, tokenAddress, state);
+    }
+
+    await tx.indexerCheckpoint.upsert({
+      where: { chainId_tokenAddress: { chainId, tokenAddress } },
+      update: { blockNumber: params.toBlock, blockHash: params.toBlockHash },
+      create: { chainId, tokenAddress, blockNumber: params.toBlock, blockHash: params.toBlockHash },
+    });
+  });
+}
+
+/**
+ * Undo everything indexed after `forkBlock` (dropped by a reorg) and rebuild
+ * the token's holdings from the events that remain. With no fork block the
+ * token is reset and will be indexed again from the start.
+ */
+export async function rollbackIndexedBlocks(params: {
+  chainId: number;
+  tokenAddress: string;
+  fork?: { blockNumber: number; blockHash: string };
+}): Promise<number> {
+  const { chainId, tokenAddress, fork } = params;
+
+  return prisma.$transaction(async (tx) => {
+    const dropped = await tx.chainEvent.deleteMany({
+      where: { chainId, tokenAddress, blockNumber: { gt: fork?.blockNumber ?? -1 } },
+    });
+
+    const remaining = await tx.chainEvent.findMany({
+      where: { chainId, tokenAddress },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+    });
+
+    // Wallets that lose everything still need their TokenBalance zeroed
+    const previous = await tx.tokenHolding.findMany({ where: { tokenAddress }, select: { walletAddress: true } });
+    const state = new Map<string, HoldingState>(
+      previous.map((h) => [h.walletAddress, { balance: 0, frozenAmount: 0, partitions: new Map() }])
+    );
+    for (const row of remaining) {
+      applyChainEvent(state, toIndexedChainEvent(row));
+    }
+
+    await tx.tokenHolding.deleteMany({ where: { tokenAddress } });
+    await writeHoldings(tx, tokenAddress, state);
+    await syncTokenBalances(tx, tokenAddress, state);
+
+    if (fork) {
+      await tx.indexerCheckpoint.upsert({
+        where: { chainId_tokenAddress: { chainId, tokenAddress } },
+        update: { blockNumber: fork.blockNumber, blockHash: fork.blockHash },
+        create: { chainId, tokenAddress, blockNumber: fork.blockNumber, blockHash: fork.blockHash },
+      });
+    } else {
+      await tx.indexerCheckpoint.deleteMany({ where: { chainId, tokenAddress } });
+    }
+
+    return dropped.count;
+  });
+}
+
+// ============ Reconciliation Operations ============
+
+export type ReconciliationFinding = Pick<
+  ReconciliationBreak,
+  | 'tokenAddress'
+  | 'walletAddress'
+  | 'participantId'
+  | 'type'
+  | 'partition'
+  | 'ledgerAmount'
+  | 'chainAmount'
+  | 'details'
+>;
+
+function toDomainReconciliationRun(r: PrismaReconciliationRun): ReconciliationRun {
+  return {
+    id: r.id,
+    chainId: r.chainId,
+    status: r.status,
+    triggeredBy: r.triggeredBy,
+    tokensChecked: r.tokensChecked,
+    holdersChecked: r.holdersChecked,
+    breakCount: r.breakCount,
+    error: r.error ?? undefined,
+    startedAt: r.startedAt,
+    completedAt: r.completedAt ?? undefined,
+  };
+}
+
+function toDomainReconciliationBreak(b: PrismaReconciliationBreak): ReconciliationBreak {
+  return {
+    id: b.id,
+    runId: b.runId,
+    lastSeenRunId: b.lastSeenRunId,
+    tokenAddress: b.tokenAddress,
+    walletAddress: b.walletAddress ?? undefined,
+    participantId: b.participantId ?? undefined,
+    type: b.type,
+    partition: b.partition ?? undefined,
+    ledgerAmount: b.ledgerAmount ?? undefined,
+    chainAmount: b.chainAmount ?? undefined,
+    details: b.details,
+    status: b.status,
+    assignedTo: b.assignedTo ?? undefined,
+    assignedAt: b.assignedAt ?? undefined,
+    resolvedBy: b.resolvedBy ?? undefined,
+    resolvedAt: b.resolvedAt ?? undefined,
+    resolution: b.resolution ?? undefined,
+    version: b.version,
+    createdAt: b.createdAt,
+  };
+}
+
+// Identifies the same break across runs
+function breakKey(f: ReconciliationFinding): string {
+  const holder = f.walletAddress?.toLowerCase() ?? f.participantId ?? '-';
+  return [f.tokenAddress.toLowerCase(), holder, f.type, f.partition ?? '-'].join(':');
+}
+
+/**
+ * Minted tokens on a chain with the units the ledger says were issued
+ */
+export async function getMintedTokens(
+  chainId: number
+): Promise<Array<{ tokenAddress: string; totalUnits: number }>> {
+  const rows = await prisma.tokenization.findMany({
+    where: { chainId, tokenAddress: { not: null } },
+    select: { tokenAddress: true, totalUnits: true, status: true },
+  });
+  return rows.map((r) => ({
+    tokenAddress: r.tokenAddress!,
+    // Every unit of a redeemed token has been burned
+    totalUnits: r.status === 'redeemed' ? 0 : r.totalUnits,
+  }));
+}
+
+/**
+ * Ledger positions for a token, with the holder's wallet (if any)
+ */
+export async function getLedgerHolders(tokenAddress: string): Promise<
+  Array<{
+    participantId: string;
+    walletAddress?: string;
+    balance: number;
+    frozenAmount: number;
+    partitions: Partial<Record<TokenPartition, number>>;
+  }>
+> {
+  const rows = await prisma.tokenBalance.findMany({
+    where: { tokenAddress },
+    include: { participant: { select: { walletAddress: true } }, partitions: true },
+  });
+  return rows.map((r) => ({
+    participantId: r.participantId,
+    walletAddress: r.participant.walletAddress ?? undefined,
+    balance: r.balance,
+    frozenAmount: r.frozenAmount,
+    partitions: Object.fromEntries(r.partitions.map((p) => [p.partition, p.balance])),
+  }));
+}
+
+export async function createReconciliationRun(params: {
+  chainId: number;
+  triggeredBy: string;
+}): Promise<ReconciliationRun> {
+  return toDomainReconciliationRun(await prisma.reconciliationRun.create({ data: params }));
+}
+
+/**
+ * Record a run's findings. A finding matching an unresolved break refreshes
+ * it (keeping its assignment); unresolved breaks the run no longer sees are
+ * resolved as cleared.
+ */
+export async function completeReconciliationRun(params: {
+  id: string;
+  tokenAddresses: string[];
+  holdersChecked: number;
+  findings: ReconciliationFinding[];
+}): Promise<ReconciliationRun> {
+  const now = new Date();
+
+  const run = await prisma.$transaction(async (tx) => {
+    const { chainId } = await tx.reconciliationRun.findUniqueOrThrow({
+      where: { id: params.id },
+      select: { chainId: true },
+    });
+    // Only breaks this run could have seen again: same chain, tokens it checked
+    const unresolved = await tx.reconciliationBreak.findMany({
+      where: {
+        status: { not: 'resolved' },
+        run: { chainId },
+        tokenAddress: { in: params.tokenAddresses },
+      },
+      select: { id: true, key: true },
+    });
+    const unresolvedByKey = new Map(unresolved.map((b) => [b.key, b.id]));
+    const seen = new Set<string>();
+
+    for (const finding of params.findings) {
+      const key = breakKey(finding);
+      seen.add(key);
+      const existingId = unresolvedByKey.get(key);
+
+      if (existingId) {
+        await tx.reconciliationBreak.update({
+          where: { id: existingId },
+          data: {
+            lastSeenRunId: params.id,
+            ledgerAmount: finding.ledgerAmount ?? null,
+            chainAmount: finding.chainAmount ?? null,
+            details: finding.details,
+            version: { increment: 1 },
+          },
+        });
+      } else {
+        await tx.reconciliationBreak.create({
+          data: { ...finding, key, runId: params.id, lastSeenRunId: params.id },
+        });
+      }
+    }
+
+    const cleared = unresolved.filter((b) => !seen.has(b.key)).map((b) => b.id);
+    if (cleared.length > 0) {
+      await tx.reconciliationBreak.updateMany({
+        where: { id: { in: cleared } },
+        data: {
+          status: 'resolved',
+          resolvedBy: 'system',
+          resolvedAt: now,
+          resolution: `Cleared: not seen by reconciliation run ${params.id}`,
+          version: { increment: 1 },
+        },
+      });
+    }
+
+    return tx.reconciliationRun.update({
+      where: { id: params.id },
+      data: {
+        status: 'completed',
+        tokensChecked: params.tokenAddresses.length,
+        holdersChecked: params.holdersChecked,
+        breakCount: params.findings.length,
+        completedAt: now,
+      },
+    });
+  });
+
+  return toDomainReconciliationRun(run);
+}
+
+export async function failReconciliationRun(id: string, error: string): Promise<void> {
+  await prisma.reconciliationRun.update({
+    where: { id },
+    data: { status: 'failed', error, completedAt: new Date() },
+  });
+}
+
+export async function getReconciliationRuns(limit = 50): Promise<ReconciliationRun[]> {
+  const runs = await prisma.reconciliationRun.findMany({
+    orderBy: { startedAt: 'desc' },
+    take: limit,
+  });
+  return runs.map(toDomainReconciliationRun);
+}
+
+/**
+ * A run with every break it saw (first found by it or earlier)
+ */
+export async function getReconciliationRunById(
+  id: string
+): Promise<{ run: ReconciliationRun; breaks: ReconciliationBreak[] } | undefined> {
+  const run = await prisma.reconciliationRun.findUnique({
+    where: { id },
+    include: { seenBreaks: { orderBy: { createdAt: 'asc' } } },
+  });
+  if (!run) return undefined;
+  return {
+    run: toDomainReconciliationRun(run),
+    breaks: run.seenBreaks.map(toDomainReconciliationBreak),
+  };
+}
+
+export async function getReconciliationBreaks(options?: {
+  status?: ReconciliationBreakStatus;
+  tokenAddress?: string;
+  assignedTo?: string;
+}): Promise<ReconciliationBreak[]> {
+  const breaks = await prisma.reconciliationBreak.findMany({
+    where: {
+      status: options?.status,
+      tokenAddress: options?.tokenAddress,
+      assignedTo: options?.assignedTo,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+  return breaks.map(toDomainReconciliationBreak);
+}
+
+export async function getReconciliationBreakById(id: string): Promise<ReconciliationBreak | undefined> {
+  const b = await prisma.reconciliationBreak.findUnique({ where: { id } });
+  return b ? toDomainReconciliationBreak(b) : undefined;
+}
+
+export async function assignReconciliationBreak(params: {
+  id: string;
+  assignee: string;
+  expectedVersion: number;
+}): Promise<void> {
+  const result = await prisma.reconciliationBreak.updateMany({
+    where: { id: params.id, version: params.expectedVersion, status: { not: 'resolved' } },
+    data: {
+      status: 'assigned',
+      assignedTo: params.assignee,
+      assignedAt: new Date(),
+      version: { increment: 1 },
+    },
+  });
+  if (result.count === 0) {
+    throw new Error('Conflict: break was modified or already resolved; reload and retry');
+  }
+}
+
+export async function resolveReconciliationBreak(params: {
+  id: string;
+  resolvedBy: string;
+  resolution: string;
+  expectedVersion: number;
+}): Promise<void> {
+  const result = await prisma.reconciliationBreak.updateMany({
+    where: { id: params.id, version: params.expectedVersion, status: { not: 'resolved' } },
+    data: {
+      status: 'resolved',
+      resolvedBy: params.resolvedBy,
+      resolvedAt: new Date(),
+      resolution: params.resolution,
+      version: { increment: 1 },
+    },
+  });
+  if (result.count === 0) {
+    throw new Error('Conflict: break was modified or already resolved; reload and retry');
+  }
+}
+
+// ============ Token Admin Operations ============
+
+export type NewTokenAdminAction = Omit<TokenAdminAction, 'id' | 'status' | 'createdAt'>;
+
+function toDomainTokenAdminAction(a: PrismaTokenAdminAction): TokenAdminAction {
+  return {
+    id: a.id,
+    tokenAddress: a.tokenAddress,
+    action: a.action,
+    reasonCode: a.reasonCode,
+    reason: a.reason ?? undefined,
+    actor: a.actor,
+    wallet: a.wallet ?? undefined,
+    toWallet: a.toWallet ?? undefined,
+    units: a.units ?? undefined,
+    partition: a.partition ?? undefined,
+    mode: a.mode as TokenAdminAction['mode'],
+    txHash: a.txHash ?? undefined,
+    status: a.status,
+    createdAt: a.createdAt,
+  };
+}
+
+// Complete the pending row a real-mode action was sent under, or record it anew
+function saveTokenAdminAction(tx: Prisma.TransactionClient, action: NewTokenAdminAction, pendingId?: string) {
+  return pendingId
+    ? tx.tokenAdminAction.update({ where: { id: pendingId }, data: { ...action, status: 'completed' } })
+    : tx.tokenAdminAction.create({ data: action });
+}
+
+/**
+ * A real-mode action with the same effect that was sent but not yet seen
+ * mined, so a retry can resume from its tx instead of sending another
+ */
+export async function getPendingTokenAdminAction(action: NewTokenAdminAction): Promise<TokenAdminAction | undefined> {
+  const row = await prisma.tokenAdminAction.findFirst({
+    where: {
+      tokenAddress: action.tokenAddress,
+      action: action.action,
+      wallet: action.wallet ?? null,
+      toWallet: action.toWallet ?? null,
+      units: action.units ?? null,
+      partition: action.partition ?? null,
+      status: 'pending',
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+  return row ? toDomainTokenAdminAction(row) : undefined;
+}
+
+/**
+ * Record the tx a real-mode action was sent in before waiting for it; a
+ * resent tx replaces the hash on the pending row
+ */
+export async function recordPendingTokenAdminAction(
+  action: NewTokenAdminAction & { txHash: string },
+  pendingId?: string
+): Promise<TokenAdminAction> {
+  const row = pendingId
+    ? await prisma.tokenAdminAction.update({ where: { id: pendingId }, data: { txHash: action.txHash } })
+    : await prisma.tokenAdminAction.create({ data: { ...action, status: 'pending' } });
+  return toDomainTokenAdminAction(row);
+}
+
+async function findParticipantIdByWallet(
+  tx: Prisma.TransactionClient,
+  wallet: string
+): Promise<string> {
+  const participant = await tx.participant.findFirst({
+    where: { walletAddress: { equals: wallet, mode: 'insensitive' } },
+    select: { id: true },
+  });
+  if (!participant) throw new Error(`Conflict: no participant has wallet ${wallet}`);
+  return participant.id;
+}
+
+/**
+ * Record an admin action that changes nothing on the ledger (pause, address
+ * freeze) or whose ledger effect arrives through the chain indexer
+ */
+export async function recordTokenAdminAction(
+  action: NewTokenAdminAction,
+  pendingId?: string
+): Promise<TokenAdminAction> {
+  return toDomainTokenAdminAction(await saveTokenAdminAction(prisma, action, pendingId));
+}
+
+/**
+ * Freeze or unfreeze a holder's units on the ledger and record the action,
+ * with the same limits LoanToken enforces (frozen never exceeds the balance)
+ */
+export async function adjustFrozenTokens(
+  action: NewTokenAdminAction & {
+    action: 'freeze_tokens' | 'unfreeze_tokens';
+    wallet: string;
+    units: number;
+  },
+  pendingId?: string
+): Promise<TokenAdminAction> {
+  const created = await prisma.$transaction(async (tx) => {
+    const participantId = await findParticipantIdByWallet(tx, action.wallet);
+    const row = await tx.tokenBalance.findUnique({
+      where: { participantId_tokenAddress: { participantId, tokenAddress: action.tokenAddress } },
+    });
+    if (!row) throw new Error(`Conflict: ${action.wallet} holds no units of this token`);
+
+    const frozenAmount =
+      action.action === 'freeze_tokens' ? row.frozenAmount + action.units : row.frozenAmount - action.units;
+    if (frozenAmount > row.balance) {
+      throw new Error(`Conflict: freezing ${action.units} units would exceed the balance of ${row.balance}`);
+    }
+    if (frozenAmount < 0) {
+      throw new Error(`Conflict: only ${row.frozenAmount} units are frozen`);
+    }
+
+    const swapped = await tx.tokenBalance.updateMany({
+      where: { id: row.id, balance: row.balance, frozenAmount: row.frozenAmount },
+      data: { frozenAmount },
+    });
+    if (swapped.count === 0) {
+      throw new Error('Conflict: holder balance changed concurrently; retry');
+    }
+
+    return saveTokenAdminAction(tx, action, pendingId);
+  });
+
+  return toDomainTokenAdminAction(created);
+}
+
+/**
+ * Move units between holders regardless of compliance and record the
+ * action. Units reserved by the source's in-flight trades are not taken;
+ * those trades have to be cancelled first. With `unfreezeShortfall`, frozen
+ * units the source no longer has are unfrozen, as LoanToken.controllerTransfer
+ * does from VERSION 2.
+ */
+export async function forceTransferLedgerUnits(
+  action: NewTokenAdminAction & {
+    wallet: string;
+    toWallet: string;
+    units: number;
+    partition: TokenPartition;
+  },
+  options: { unfreezeShortfall: boolean; pendingId?: string }
+): Promise<TokenAdminAction> {
+  const created = await prisma.$transaction(async (tx) => {
+    const fromParticipantId = await findParticipantIdByWallet(tx, action.wallet);
+    const toParticipantId = await findParticipantIdByWallet(tx, action.toWallet);
+
+    const row = await tx.tokenBalance.findUnique({
+      where: {
+        participantId_tokenAddress: { participantId: fromParticipantId, tokenAddress: action.tokenAddress },
+      },
+    });
+    const unreserved = row ? row.balance - row.reservedAmount : 0;
+    if (unreserved < action.units) {
+      throw new Error(
+        `Conflict: ${action.wallet} has ${unreserved} unreserved units; cancel its in-flight trades first`
+      );
+    }
+
+    await moveLedgerUnits(tx, {
+      tokenAddress: action.tokenAddress,
+      partition: action.partition,
+      fromParticipantId,
+      toParticipantId,
+      units: action.units,
+    });
+
+    const remaining = row!.balance - action.units;
+    if (options.unfreezeShortfall && row!.frozenAmount > remaining) {
+      await tx.tokenBalance.update({ where: { id: row!.id }, data: { frozenAmount: remaining } });
+    }
+
+    return saveTokenAdminAction(tx, action, options.pendingId);
+  });
+
+  return toDomainTokenAdminAction(created);
+}
+
+export async function getTokenAdminActions(options?: {
+  tokenAddress?: string;
+  wallet?: string;
+  limit?: number;
+}): Promise<TokenAdminAction[]> {
+  const actions = await prisma.tokenAdminAction.findMany({
+    where: {
+      tokenAddress: options?.tokenAddress,
+      // A forced transfer concerns both wallets
+      OR: options?.wallet
+        ? [
+            { wallet: { equals: options.wallet, mode: 'insensitive' } },
+            { toWallet: { equals: options.wallet, mode: 'insensitive' } },
+          ]
+        : undefined,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: options?.limit ?? 100,
+  });
+  return actions.map(toDomainTokenAdminAction);
+}
+
+// ============ Wallet Recovery Operations ============
+
+// Statuses from which a recovery can still go ahead
+const OPEN_RECOVERY_STATUSES: WalletRecoveryStatus[] = ['requested', 'identity_verified', 'approved'];
+
+function toDomainWalletRecovery(r: PrismaWalletRecovery): WalletRecovery {
+  return {
+    id: r.id,
+    participantId: r.participantId,
+    lostWallet: r.lostWallet,
+    newWallet: r.newWallet,
+    status: r.status,
+    statement: r.statement,
+    requestedBy: r.requestedBy,
+    verifiedBy: r.verifiedBy ?? undefined,
+    verifiedAt: r.verifiedAt ?? undefined,
+    verificationRef: r.verificationRef ?? undefined,
+    approvals: r.approvals as unknown as TradeWorkflowActor[],
+    executedBy: r.executedBy ?? undefined,
+    executedAt: r.executedAt ?? undefined,
+    txHashes: r.txHashes,
+    rejectedBy: r.rejectedBy ?? undefined,
+    rejectionReason: r.rejectionReason ?? undefined,
+    version: r.version,
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt,
+  };
+}
+
+/**
+ * File a recovery for the participant holding lostWallet. A participant has
+ * at most one open recovery, and the new wallet must not belong to anyone.
+ */
+export async function createWalletRecovery(params: {
+  lostWallet: string;
+  newWallet: string;
+  statement: string;
+  requestedBy: string;
+}): Promise<WalletRecovery> {
+  const created = await prisma.$transaction(async (tx) => {
+    const participantId = await findParticipantIdByWallet(tx, params.lostWallet);
+
+    const owner = await tx.participant.findFirst({
+      where: { walletAddress: { equals: params.newWallet, mode: 'insensitive' } },
+      select: { id: true },
+    });
+    if (owner) throw new Error(`Conflict: ${params.newWallet} already belongs to a participant`);
+
+    const open = await tx.walletRecovery.findFirst({
+      where: { participantId, status: { in: OPEN_RECOVERY_STATUSES } },
+      select: { id: true },
+    });
+    if (open) throw new Error(`Conflict: recovery ${open.id} is already open for this participant`);
+
+    return tx.walletRecovery.create({ data: { ...params, participantId, txHashes: [] } });
+  });
+
+  return toDomainWalletRecovery(created);
+}
+
+export async function getWalletRecoveries(options?: {
+  status?: WalletRecoveryStatus;
+  participantId?: string;
+}): Promise<WalletRecovery[]> {
+  const rows = await prisma.walletRecovery.findMany({
+    where: { status: options?.status, participantId: options?.participantId },
+    orderBy: { createdAt: 'desc' },
+  });
+  return rows.map(toDomainWalletRecovery);
+}
+
+export async function getWalletRecoveryById(id: string): Promise<WalletRecovery | undefined> {
+  const row = await prisma.walletRecovery.findUnique({ where: { id } });
+  return row ? toDomainWalletRecovery(row) : undefined;
+}
+
+/**
+ * Move a recovery on from `from`, if nobody else has since (CAS on version)
+ */
+export async function updateWalletRecovery(params: {
+  id: string;
+  from: WalletRecoveryStatus;
+  expectedVersion: number;
+  data: Partial<
+    Pick<
+      WalletRecovery,
+      'status' | 'verifiedBy' | 'verifiedAt' | 'verificationRef' | 'approvals' | 'rejectedBy' | 'rejectionReason'
+    >
+  >;
+}): Promise<WalletRecovery> {
+  const { approvals, ...data } = params.data;
+  const swapped = await prisma.walletRecovery.updateMany({
+    where: { id: params.id, status: params.from, version: params.expectedVersion },
+    data: {
+      ...data,
+      approvals: approvals as object | undefined,
+      version: { increment: 1 },
+    },
+  });
+  if (swapped.count === 0) {
+    throw new Error('Conflict: recovery was modified concurrently; reload and retry');
+  }
+  return (await getWalletRecoveryById(params.id))!;
+}
+
+/**
+ * Trades of a participant whose on-chain transfer is still awaiting its
+ * receipt. They were sent from the lost wallet, so recovery waits for them.
+ */
+export async function countPendingExecutionsFor(participantId: string): Promise<number> {
+  return prisma.trade.count({
+    where: {
+      status: 'executed',
+      OR: [{ sellerId: participantId }, { buyerId: participantId }],
+    },
+  });
+}
+
+/**
+ * Tokens the participant has a balance row for, i.e. what recovery must move
+ */
+export async function getHeldTokenAddresses(participantId: string): Promise<string[]> {
+  const rows = await prisma.tokenBalance.findMany({
+    where: { participantId, OR: [{ balance: { gt: 0 } }, { frozenAmount: { gt: 0 } }] },
+    select: { tokenAddress: true },
+  });
+  return rows.map((r) => r.tokenAddress);
+}
+
+/**
+ * Mark an approved recovery executed and move the participant to the new
+ * wallet. Balances, reservations and open trades are keyed by participant,
+ * so they follow it. The lost wallet's sessions and role grants are revoked.
+ *
+ * In real mode the indexer may already have applied RecoverySuccess while
+ * the participant still had the lost wallet; the new wallet's projected
+ * holdings are copied over here so the ledger doesn't wait for another event.
+ */
+export async function completeWalletRecovery(params: {
+  id: string;
+  expectedVersion: number;
+  executedBy: string;
+  txHashes: string[];
+  resyncFromIndexer: boolean;
+}): Promise<{ recovery: WalletRecovery; openTrades: number }> {
+  return prisma.$transaction(async (tx) => {
+    const swapped = await tx.walletRecovery.updateMany({
+      where: { id: params.id, status: 'approved', version: params.expectedVersion },
+      data: {
+        status: 'executed',
+        executedBy: params.executedBy,
+        executedAt: new Date(),
+        txHashes: params.txHashes,
+        version: { increment: 1 },
+      },
+    });
+    if (swapped.count === 0) {
+      throw new Error('Conflict: recovery was modified concurrently; reload and retry');
+    }
+
+    const recovery = await tx.walletRecovery.findUniqueOrThrow({ where: { id: params.id } });
+    await tx.participant.update({
+      where: { id: recovery.participantId },
+      data: { walletAddress: recovery.newWallet },
+    });
+
+    const lostWallet = recovery.lostWallet.toLowerCase();
+    await tx.authSession.updateMany({
+      where: { walletAddress: lostWallet, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    await tx.roleAssignment.deleteMany({ where: { walletAddress: lostWallet } });
+
+    if (params.resyncFromIndexer) {
+      const held = await tx.tokenBalance.findMany({
+        where: { participantId: recovery.participantId },
+        select: { tokenAddress: true },
+      });
+      for (const { tokenAddress } of held) {
+        const state = await loadHoldings(tx, tokenAddress, [recovery.newWallet.toLowerCase()]);
+        await syncTokenBalances(tx, tokenAddress, state);
+      }
+    }
+
+    const openTrades = await tx.trade.count({
+      where: {
+        status: { in: ['proposed', 'approved'] },
+        OR: [{ sellerId: recovery.participantId }, { buyerId: recovery.participantId }],
+      },
+    });
+
+    return { recovery: toDomainWalletRecovery(recovery), openTrades };
+  });
+}
+
+// ============ Redemption Operations ============
+
+// Trade statuses that still need the token's units
+const REDEMPTION_BLOCKING_STATUSES: Trade['status'][] = [
+  'pending',
+  'validating',
+  'proposed',
+  'approved',
+  'executed',
+];
+
+function toDomainRedemption(
+  r: PrismaRedemption & { payouts: PrismaRedemptionPayout[] }
+): Redemption {
+  return {
+    id: r.id,
+    tokenizationId: r.tokenizationId,
+    tokenAddress: r.tokenAddress,
+    trigger: r.trigger,
+    status: r.status,
+    amount: centsToUsd(r.amount),
+    totalUnits: r.totalUnits,
+    mode: r.mode as Redemption['mode'],
+    cashLegMode: r.cashLegMode as CashLegMode,
+    burnTxHash: r.burnTxHash ?? undefined,
+    triggeredBy: r.triggeredBy,
+    error: r.error ?? undefined,
+    payouts: r.payouts.map((p) => ({
+      id: p.id,
+      participantId: p.participantId,
+      walletAddress: p.walletAddress ?? undefined,
+      units: p.units,
+      amount: centsToUsd(p.amount),
+      txHash: p.txHash ?? undefined,
+    })),
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt,
+    completedAt: r.completedAt ?? undefined,
+  };
+}
+
+/**
+ * The tokenization behind a token address, with what a payoff needs
+ */
+export async function getTokenizationForRedemption(tokenAddress: string): Promise<
+  | {
+      id: string;
+      status: TokenizationData['status'];
+      unitValueCents: bigint;
+      maturityDate: Date;
+    }
+  | undefined
+> {
+  const row = await prisma.tokenization.findFirst({
+    where: { tokenAddress },
+    include: { loan: { select: { maturityDate: true } } },
+  });
+  if (!row) return undefined;
+  return {
+    id: row.id,
+    status: row.status,
+    unitValueCents: row.unitValue,
+    maturityDate: row.loan.maturityDate,
+  };
+}
+
+/**
+ * Addresses of live tokens whose loan has reached maturity
+ */
+export async function getMaturedTokenAddresses(asOf: Date): Promise<string[]> {
+  const rows = await prisma.tokenization.findMany({
+    where: {
+      status: { in: ['minted', 'trading'] },
+      tokenAddress: { not: null },
+      loan: { maturityDate: { lte: asOf } },
+    },
+    select: { tokenAddress: true },
+  });
+  return rows.map((r) => r.tokenAddress!);
+}
+
+export async function countOpenTradesForToken(tokenAddress: string): Promise<number> {
+  return prisma.trade.count({
+    where: { tokenAddress, status: { in: REDEMPTION_BLOCKING_STATUSES } },
+  });
+}
+
+/**
+ * The token's redemption that was started but not completed, if any
+ */
+export async function getUnfinishedRedemption(tokenizationId: string): Promise<Redemption | undefined> {
+  const row = await prisma.redemption.findFirst({
+    where: { tokenizationId, status: { in: ['processing', 'failed'] } },
+    include: { payouts: true },
+  });
+  return row ? toDomainRedemption(row) : undefined;
+}
+
+/**
+ * Record a redemption and its per-holder payouts, computed up front
+ */
+export async function createRedemption(params: {
+  tokenizationId: string;
+  tokenAddress: string;
+  trigger: RedemptionTrigger;
+  amountCents: bigint;
+  mode: Redemption['mode'];
+  cashLegMode: CashLegMode;
+  triggeredBy: string;
+  payouts: Array<{ participantId: string; walletAddress?: string; units: number; amountCents: bigint }>;
+}): Promise<Redemption> {
+  const created = await prisma.$transaction(async (tx) => {
+    const unfinished = await tx.redemption.findFirst({
+      where: { tokenizationId: params.tokenizationId, status: { in: ['processing', 'failed'] } },
+      select: { id: true },
+    });
+    if (unfinished) throw new Error(`Conflict: redemption ${unfinished.id} is already under way`);
+
+    return tx.redemption.create({
+      data: {
+        tokenizationId: params.tokenizationId,
+        tokenAddress: params.tokenAddress,
+        trigger: params.trigger,
+        amount: params.amountCents,
+        totalUnits: params.payouts.reduce((sum, p) => sum + p.units, 0),
+        mode: params.mode,
+        cashLegMode: params.cashLegMode,
+        triggeredBy: params.triggeredBy,
+        payouts: {
+          create: params.payouts.map((p) => ({
+            participantId: p.participantId,
+            walletAddress: p.walletAddress,
+            units: p.units,
+            amount: p.amountCents,
+          })),
+        },
+      },
+      include: { payouts: true },
+    });
+  });
+
+  return toDomainRedemption(created);
+}
+
+/**
+ * Take over a failed (or abandoned processing) redemption to carry on with it.
+ * `updatedBefore` guards against taking one another run is still working on.
+ */
+export async function resumeRedemption(id: string, updatedBefore: Date): Promise<Redemption> {
+  const swapped = await prisma.redemption.updateMany({
+    where: {
+      id,
+      OR: [{ status: 'failed' }, { status: 'processing', updatedAt: { lt: updatedBefore } }],
+    },
+    data: { status: 'processing', error: null },
+  });
+  if (swapped.count === 0) {
+    throw new Error('Conflict: redemption is already being processed');
+  }
+  return (await getRedemptionById(id))!;
+}
+
+export async function recordRedemptionPayoutTx(payoutId: string, txHash: string): Promise<void> {
+  await prisma.redemptionPayout.update({ where: { id: payoutId }, data: { txHash } });
+}
+
+export async function recordRedemptionBurnTx(id: string, burnTxHash: string): Promise<void> {
+  await prisma.redemption.update({ where: { id }, data: { burnTxHash } });
+}
+
+export async function discardRedemption(id: string): Promise<void> {
+  await prisma.redemption.deleteMany({ where: { id, status: 'processing' } });
+}
+
+export async function failRedemption(id: string, error: string): Promise<void> {
+  await prisma.redemption.updateMany({
+    where: { id, status: 'processing' },
+    data: { status: 'failed', error },
+  });
+}
+
+/**
+ * Finish a redemption: pay the holders and mark the tokenization redeemed.
+ * With `burnLedger` (mock mode) the holders' balances are zeroed here, and
+ * only if they still match the payouts; otherwise the indexer burns them.
+ * Payouts are credited to cash accounts when the cash leg is internal.
+ */
+export async function completeRedemption(params: { id: string; burnLedger: boolean }): Promise<Redemption> {
+  const completed = await prisma.$transaction(async (tx) => {
+    const swapped = await tx.redemption.updateMany({
+      where: { id: params.id, status: 'processing' },
+      data: { status: 'completed', completedAt: new Date() },
+    });
+    if (swapped.count === 0) {
+      throw new Error('Conflict: redemption is not processing');
+    }
+
+    const redemption = await tx.redemption.findUniqueOrThrow({
+      where: { id: params.id },
+      include: { payouts: true },
+    });
+
+    for (const payout of redemption.payouts) {
+      if (params.burnLedger) {
+        const row = await tx.tokenBalance.findUnique({
+          where: {
+            participantId_tokenAddress: {
+              participantId: payout.participantId,
+              tokenAddress: redemption.tokenAddress,
+            },
+          },
+        });
+        const burned = row
+          ? await tx.tokenBalance.updateMany({
+              where: { id: row.id, balance: payout.units, frozenAmount: 0, reservedAmount: 0 },
+              data: { balance: 0 },
+            })
+          : { count: 0 };
+        if (!row || burned.count === 0) {
+          throw new Error('Conflict: a holder balance changed since the payoff was computed; retry');
+        }
+        await tx.tokenBalancePartition.updateMany({
+          where: { tokenBalanceId: row.id },
+          data: { balance: 0 },
+        });
+      }
+
+      if (redemption.cashLegMode === 'internal') {
+        await tx.cashAccount.upsert({
+          where: { participantId: payout.participantId },
+          update: { balance: { increment: payout.amount } },
+          create: { participantId: payout.participantId, balance: payout.amount },
+        });
+      }
+    }
+
+    await tx.tokenization.update({
+      where: { id: redemption.tokenizationId },
+      data: { status: 'redeemed' },
+    });
+    return redemption;
+  });
+
+  return toDomainRedemption(completed);
+}
+
+export async function getRedemptions(options?: { tokenAddress?: string }): Promise<Redemption[]> {
+  const rows = await prisma.redemption.findMany({
+    where: { tokenAddress: options?.tokenAddress },
+    include: { payouts: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  return rows.map(toDomainRedemption);
+}
+
+export async function getRedemptionById(id: string): Promise<Redemption | undefined> {
+  const row = await prisma.redemption.findUnique({ where: { id }, include: { payouts: true } });
+  return row ? toDomainRedemption(row) : undefined;
+}
+
+// ============ Primary Allocation Operations ============
+
+function toDomainPrimaryAllocation(
+  a: PrismaPrimaryAllocation & { lines: PrismaPrimaryAllocationLine[] }
+): PrimaryAllocation {
+  return {
+    id: a.id,
+    tokenizationId: a.tokenizationId,
+    tokenAddress: a.tokenAddress,
+    status: a.status,
+    mode: a.mode as PrimaryAllocation['mode'],
+    totalUnits: a.totalUnits,
+    allocatedUnits: a.allocatedUnits,
+    unallocatedUnits: a.unallocatedUnits,
+    allocatedBy: a.allocatedBy,
+    error: a.error ?? undefined,
+    lines: a.lines.map((l) => ({
+      id: l.id,
+      lenderPositionId: l.lenderPositionId,
+      lenderName: l.lenderName,
+      participantId: l.participantId,
+      walletAddress: l.walletAddress,
+      percentage: l.percentage,
+      exactUnits: l.exactUnits,
+      units: l.units,
+      residual: l.residual,
+      txHash: l.txHash ?? undefined,
+    })),
+    createdAt: a.createdAt,
+    updatedAt: a.updatedAt,
+    completedAt: a.completedAt ?? undefined,
+  };
+}
+
+/**
+ * The tokenization behind a token address, with its loan's lender positions
+ */
+export async function getTokenizationForAllocation(tokenAddress: string): Promise<
+  | {
+      id: string;
+      status: TokenizationData['status'];
+      totalUnits: number;
+      lenders: Array<{ lenderPositionId: string; lenderName: string; percentage: number }>;
+    }
+  | undefined
+> {
+  const row = await prisma.tokenization.findFirst({
+    where: { tokenAddress },
+    include: { loan: { include: { lenders: { orderBy: { commitment: 'desc' } } } } },
+  });
+  if (!row) return undefined;
+  return {
+    id: row.id,
+    status: row.status,
+    totalUnits: row.totalUnits,
+    lenders: row.loan.lenders.map((l) => ({
+      lenderPositionId: l.id,
+      lenderName: l.lenderName,
+      percentage: l.percentage,
+    })),
+  };
+}
+
+/**
+ * The token's allocation, whatever its status; a token is allocated once
+ */
+export async function getAllocationForTokenization(
+  tokenizationId: string
+): Promise<PrimaryAllocation | undefined> {
+  const row = await prisma.primaryAllocation.findFirst({
+    where: { tokenizationId },
+    include: { lines: true },
+  });
+  return row ? toDomainPrimaryAllocation(row) : undefined;
+}
+
+/**
+ * Record an allocation and its per-lender lines, computed up front
+ */
+export async function createPrimaryAllocation(params: {
+  tokenizationId: string;
+  tokenAddress: string;
+  mode: PrimaryAllocation['mode'];
+  totalUnits: number;
+  allocatedBy: string;
+  lines: Array<{
+    lenderPositionId: string;
+    lenderName: string;
+    participantId: string;
+    walletAddress: string;
+    percentage: number;
+    exactUnits: number;
+    units: number;
+    residual: number;
+  }>;
+}): Promise<PrimaryAllocation> {
+  const allocatedUnits = params.lines.reduce((sum, l) => sum + l.units, 0);
+
+  const created = await prisma.$transaction(async (tx) => {
+    const existing = await tx.primaryAllocation.findFirst({
+      where: { tokenizationId: params.tokenizationId },
+      select: { id: true },
+    });
+    if (existing) throw new Error(`Conflict: token already has allocation ${existing.id}`);
+
+    return tx.primaryAllocation.create({
+      data: {
+        tokenizationId: params.tokenizationId,
+        tokenAddress: params.tokenAddress,
+        mode: params.mode,
+        totalUnits: params.totalUnits,
+        allocatedUnits,
+        unallocatedUnits: params.totalUnits - allocatedUnits,
+        allocatedBy: params.allocatedBy,
+        lines: { create: params.lines },
+      },
+      include: { lines: true },
+    });
+  });
+
+  return toDomainPrimaryAllocation(created);
+}
+
+/**
+ * Take over a failed (or abandoned processing) allocation to carry on with it
+ */
+export async function resumePrimaryAllocation(id: string, updatedBefore: Date): Promise<PrimaryAllocation> {
+  const swapped = await prisma.primaryAllocation.updateMany({
+    where: {
+      id,
+      OR: [{ status: 'failed' }, { status: 'processing', updatedAt: { lt: updatedBefore } }],
+    },
+    data: { status: 'processing', error: null },
+  });
+  if (swapped.count === 0) {
+    throw new Error('Conflict: allocation is already being processed');
+  }
+  return (await getPrimaryAllocationById(id))!;
+}
+
+export async function recordAllocationLineTx(lineId: string, txHash: string): Promise<void> {
+  await prisma.primaryAllocationLine.update({ where: { id: lineId }, data: { txHash } });
+}
+
+export async function discardPrimaryAllocation(id: string): Promise<void> {
+  await prisma.primaryAllocation.deleteMany({ where: { id, status: 'processing' } });
+}
+
+export async function failPrimaryAllocation(id: string, error: string): Promise<void> {
+  await prisma.primaryAllocation.updateMany({
+    where: { id, status: 'processing' },
+    data: { status: 'failed', error },
+  });
+}
+
+/**
+ * Finish an allocation and open the token for trading. With `creditLedger`
+ * (mock mode) the lines' units are credited to PRIMARY balances here;
+ * otherwise the indexer picks them up from the Issued events.
+ */
+export async function completePrimaryAllocation(params: {
+  id: string;
+  creditLedger: boolean;
+}): Promise<PrimaryAllocation> {
+  const completed = await prisma.$transaction(async (tx) => {
+    const swapped = await tx.primaryAllocation.updateMany({
+      where: { id: params.id, status: 'processing' },
+      data: { status: 'completed', completedAt: new Date() },
+    });
+    if (swapped.count === 0) {
+      throw new Error('Conflict: allocation is not processing');
+    }
+
+    const allocation = await tx.primaryAllocation.findUniqueOrThrow({
+      where: { id: params.id },
+      include: { lines: true },
+    });
+
+    if (params.creditLedger) {
+      for (const line of allocation.lines) {
+        await adjustPartitionUnits(tx, {
+          participantId: line.participantId,
+          tokenAddress: allocation.tokenAddress,
+          partition: 'PRIMARY',
+          delta: line.units,
+        });
+      }
+    }
+
+    await tx.tokenization.update({
+      where: { id: allocation.tokenizationId },
+      data: { status: 'trading' },
+    });
+    return allocation;
+  });
+
+  return toDomainPrimaryAllocation(completed);
+}
+
+export async function getPrimaryAllocations(options?: { tokenAddress?: string }): Promise<PrimaryAllocation[]> {
+  const rows = await prisma.primaryAllocation.findMany({
+    where: { tokenAddress: options?.tokenAddress },
+    include: { lines: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  return rows.map(toDomainPrimaryAllocation);
+}
+
+export async function getPrimaryAllocationById(id: string): Promise<PrimaryAllocation | undefined> {
+  const row = await prisma.primaryAllocation.findUnique({ where: { id }, include: { lines: true } });
+  return row ? toDomainPrimaryAllocation(row) : undefined;
+}
+
+// ============ Interest Accrual Operations ============
+
+// What the accrual engine needs to know about a loan
+export type LoanAccrualState = {
+  loanId: string;
+  nelId: string;
+  accrueFrom: Date; // Loan creation
+  accrueUntil: Date; // Maturity, or the payoff if the token was redeemed earlier
+  principalCents: bigint; // Funded amount across lenders, else the facility
+  interestRateBps: number;
+  floating: boolean; // Rate comes from rateResets rather than interestRateBps
+  rateResets: Array<{ periodStart: Date; periodEnd: Date; allInRateBps: number }>;
+  formulaParameters?: Record<string, unknown>; // Of the NF2 "Interest Payment" formula
+  tokenAddress?: string;
+  totalUnits?: number;
+  lastAccrualDate?: Date;
+};
+
+export type NewInterestAccrual = {
+  accrualDate: Date;
+  principalCents: bigint;
+  rateBps: number;
+  dayCount: DayCountConvention;
+  dayFraction: number;
+  amountCents: bigint;
+  shares: Array<{ participantId: string; units: number; amountCents: bigint }>;
+};
+
+function toDomainInterestAccrual(
+  a: PrismaInterestAccrual & { loan: { nelId: string }; shares: PrismaInterestAccrualShare[] }
+): InterestAccrual {
+  return {
+    id: a.id,
+    nelId: a.loan.nelId,
+    accrualDate: a.accrualDate,
+    principal: centsToUsd(a.principal),
+    rateBps: a.rateBps,
+    dayCount: a.dayCount as DayCountConvention,
+    dayFraction: a.dayFraction,
+    amount: centsToUsd(a.amount),
+    accruedToDate: centsToUsd(a.accruedToDate),
+    shares: a.shares.map((s) => ({
+      participantId: s.participantId,
+      units: s.units,
+      amount: centsToUsd(s.amount),
+    })),
+  };
+}
+
+export async function getLoanAccrualStates(nelId?: string): Promise<LoanAccrualState[]> {
+  const rows = await prisma.loan.findMany({
+    where: { nelId },
+    include: {
+      lenders: { select: { fundedAmount: true } },
+      nf2Formulas: { where: { name: 'Interest Payment' }, take: 1 },
+      tokenization: {
+        include: {
+          redemptions: { where: { status: 'completed' }, select: { completedAt: true }, take: 1 },
+        },
+      },
+      accruals: { orderBy: { accrualDate: 'desc' }, take: 1, select: { accrualDate: true } },
+      rateResets: {
+        select: { periodStart: true, periodEnd: true, allInRateBps: true },
+        orderBy: { periodStart: 'asc' },
+      },
+    },
+  });
+
+  return rows.map((row) => {
+    const lastAccrualDate = row.accruals[0]?.accrualDate;
+    const funded = row.lenders.reduce((sum, l) => sum + l.fundedAmount, BigInt(0));
+    const redeemedAt = row.tokenization?.redemptions[0]?.completedAt ?? undefined;
+    return {
+      loanId: row.id,
+      nelId: row.nelId,
+      accrueFrom: row.createdAt,
+      accrueUntil: redeemedAt && redeemedAt < row.maturityDate ? redeemedAt : row.maturityDate,
+      principalCents: row.lenders.length > 0 ? funded : row.facilityAmount,
+      interestRateBps: row.interestRateBps,
+      floating: isFloatingRate(row),
+      rateResets: row.rateResets.filter((r) => !lastAccrualDate || r.periodEnd > lastAccrualDate),
+      formulaParameters: row.nf2Formulas[0]?.parameters as unknown as Record<string, unknown> | undefined,
+      tokenAddress: row.tokenization?.tokenAddress ?? undefined,
+      totalUnits: row.tokenization?.totalUnits,
+      lastAccrualDate,
+    };
+  });
+}
+
+/**
+ * Append consecutive days of accrual to a loan. `after` is the last accrual
+ * date the caller saw; if another run has accrued since, nothing is written.
+ */
+export async function recordInterestAccruals(params: {
+  loanId: string;
+  after?: Date;
+  accruals: NewInterestAccrual[];
+}): Promise<number> {
+  await prisma.$transaction(async (tx) => {
+    const last = await tx.interestAccrual.findFirst({
+      where: { loanId: params.loanId },
+      orderBy: { accrualDate: 'desc' },
+      select: { accrualDate: true, accruedToDate: true },
+    });
+    if (last?.accrualDate.getTime() !== params.after?.getTime()) {
+      throw new Error('Conflict: loan interest was accrued by another run');
+    }
+
+    let accruedToDate = last?.accruedToDate ?? BigInt(0);
+    for (const accrual of params.accruals) {
+      accruedToDate += accrual.amountCents;
+      await tx.interestAccrual.create({
+        data: {
+          loanId: params.loanId,
+          accrualDate: accrual.accrualDate,
+          principal: accrual.principalCents,
+          rateBps: accrual.rateBps,
+          dayCount: accrual.dayCount,
+          dayFraction: accrual.dayFraction,
+          amount: accrual.amountCents,
+          accruedToDate,
+          shares: {
+            create: accrual.shares.map((s) => ({
+              participantId: s.participantId,
+              units: s.units,
+              amount: s.amountCents,
+            })),
+          },
+        },
+      });
+    }
+  });
+
+  return params.accruals.length;
+}
+
+export async function getInterestAccruals(
+  nelId: string,
+  options?: { from?: Date; to?: Date }
+): Promise<InterestAccrual[]> {
+  const rows = await prisma.interestAccrual.findMany({
+    where: { loan: { nelId }, accrualDate: { gte: options?.from, lte: options?.to } },
+    include: { loan: { select: { nelId: true } }, shares: true },
+    orderBy: { accrualDate: 'asc' },
+  });
+  return rows.map(toDomainInterestAccrual);
+}
+
+/**
+ * Interest accrued on a loan so far, and each token holder's part of it
+ */
+export async function getAccruedInterest(nelId: string): Promise<AccruedInterest> {
+  const [last, byHolder] = await Promise.all([
+    prisma.interestAccrual.findFirst({
+      where: { loan: { nelId } },
+      orderBy: { accrualDate: 'desc' },
+      select: { accrualDate: true, accruedToDate: true },
+    }),
+    prisma.interestAccrualShare.groupBy({
+      by: ['participantId'],
+      where: { accrual: { loan: { nelId } } },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const participants = await prisma.participant.findMany({
+    where: { id: { in: byHolder.map((h) => h.participantId) } },
+    select: { id: true, name: true, walletAddress: true },
+  });
+  const byId = new Map(participants.map((p) => [p.id, p]));
+
+  return {
+    nelId,
+    accruedThrough: last?.accrualDate,
+    accruedToDate: centsToUsd(last?.accruedToDate ?? BigInt(0)),
+    holders: byHolder.map((h) => ({
+      participantId: h.participantId,
+      participantName: byId.get(h.participantId)?.name ?? 'Unknown',
+      walletAddress: byId.get(h.participantId)?.walletAddress ?? undefined,
+      accrued: centsToUsd(h._sum.amount ?? BigInt(0)),
+    })),
+  };
+}
+
+// ============ Floating Rate Operations ============
+
+// A floating-rate loan with what a rate reset needs
+export type FloatingRateLoan = {
+  loanId: string;
+  nelId: string;
+  referenceRate: string;
+  spreadBps: number;
+  accrueFrom: Date;
+  maturityDate: Date;
+  terms?: FloatingRateTerms; // Unset: the reference rate's defaults apply
+  formulaParameters?: Record<string, unknown>;
+  lastResetEnd?: Date; // End of the last period reset
+  schedulePeriods?: Array<{ start: Date; end: Date }>; // The payment schedule's interest periods, if it has one
+};
+
+function isFloatingRate(loan: { interestType: string; referenceRate: string | null }): boolean {
+  return loan.interestType === 'floating' && !!loan.referenceRate;
+}
+
+function toDomainRateReset(r: PrismaLoanRateReset & { loan: { nelId: string } }): RateReset {
+  return {
+    id: r.id,
+    nelId: r.loan.nelId,
+    periodStart: r.periodStart,
+    periodEnd: r.periodEnd,
+    referenceRate: r.referenceRate,
+    method: r.method as RateResetMethod,
+    referenceRateBps: r.referenceRateBps,
+    floorBps: r.floorBps ?? undefined,
+    spreadBps: r.spreadBps,
+    allInRateBps: r.allInRateBps,
+    lookbackDays: r.lookbackDays,
+    observationShift: r.observationShift,
+    fixingsUsed: r.fixingsUsed,
+    createdAt: r.createdAt,
+  };
+}
+
+export async function getReferenceRateFixings(options?: {
+  rateName?: string;
+  from?: Date;
+  to?: Date;
+}): Promise<ReferenceRateFixing[]> {
+  const rows = await prisma.referenceRateFixing.findMany({
+    where: {
+      rateName: options?.rateName,
+      fixingDate: { gte: options?.from, lte: options?.to },
+    },
+    orderBy: [{ rateName: 'asc' }, { fixingDate: 'asc' }],
+  });
+  return rows.map((f) => ({
+    rateName: f.rateName,
+    fixingDate: f.fixingDate,
+    rateBps: f.rateBps,
+    source: f.source as ReferenceRateFixing['source'],
+    updatedBy: f.updatedBy ?? undefined,
+    updatedAt: f.updatedAt,
+  }));
+}
+
+/**
+ * Insert or overwrite fixings, all or none
+ */
+export async function upsertReferenceRateFixings(params: {
+  fixings: Array<{ rateName: string; fixingDate: Date; rateBps: number }>;
+  source: ReferenceRateFixing['source'];
+  updatedBy: string;
+}): Promise<number> {
+  await prisma.$transaction(
+    params.fixings.map((f) =>
+      prisma.referenceRateFixing.upsert({
+        where: { rateName_fixingDate: { rateName: f.rateName, fixingDate: f.fixingDate } },
+        update: { rateBps: f.rateBps, source: params.source, updatedBy: params.updatedBy },
+        create: { ...f, source: params.source, updatedBy: params.updatedBy },
+      })
+    )
+  );
+  return params.fixings.length;
+}
+
+export async function deleteReferenceRateFixing(rateName: string, fixingDate: Date): Promise<boolean> {
+  const deleted = await prisma.referenceRateFixing.deleteMany({ where: { rateName, fixingDate } });
+  return deleted.count > 0;
+}
+
+export async function getFloatingRateTerms(nelId: string): Promise<FloatingRateTerms | undefined> {
+  const terms = await prisma.floatingRateTerms.findFirst({ where: { loan: { nelId } } });
+  if (!terms) return undefined;
+  return {
+    method: terms.method as RateResetMethod,
+    resetFrequencyMonths: terms.resetFrequencyMonths,
+    floorBps: terms.floorBps ?? undefined,
+    lookbackDays: terms.lookbackDays,
+    observationShift: terms.observationShift,
+  };
+}
+
+export async function upsertFloatingRateTerms(
+  nelId: string,
+  terms: FloatingRateTerms,
+  updatedBy: string
+): Promise<void> {
+  const loan = await prisma.loan.findUnique({ where: { nelId } });
+  if (!loan) throw new Error(`Loan not found: ${nelId}`);
+
+  const data = {
+    method: terms.method,
+    resetFrequencyMonths: terms.resetFrequencyMonths,
+    floorBps: terms.floorBps ?? null,
+    lookbackDays: terms.lookbackDays,
+    observationShift: terms.observationShift,
+    updatedBy,
+  };
+
+  await prisma.floatingRateTerms.upsert({
+    where: { loanId: loan.id },
+    update: data,
+    create: { loanId: loan.id, ...data },
+  });
+}
+
+export async function getFloatingRateLoans(): Promise<FloatingRateLoan[]> {
+  const rows = await prisma.loan.findMany({
+    where: { interestType: 'floating', referenceRate: { not: null } },
+    include: {
+      rateTerms: true,
+      nf2Formulas: { where: { name: 'Interest Payment' }, take: 1 },
+      rateResets: { orderBy: { periodStart: 'desc' }, take: 1, select: { periodEnd: true } },
+      paymentSchedule: {
+        include: { periods: { orderBy: { sequence: 'asc' }, select: { startDate: true, endDate: true } } },
+      },
+    },
+  });
+
+  return rows.map((row) => {
+    const params = row.nf2Formulas[0]?.parameters as unknown as Record<string, unknown> | undefined;
+    const formulaSpread = typeof params?.spread === 'number' ? params.spread : 0;
+    return {
+      loanId: row.id,
+      nelId: row.nelId,
+      referenceRate: row.referenceRate!,
+      spreadBps: row.spread ?? formulaSpread,
+      accrueFrom: row.createdAt,
+      maturityDate: row.maturityDate,
+      terms: row.rateTerms
+        ? {
+            method: row.rateTerms.method as RateResetMethod,
+            resetFrequencyMonths: row.rateTerms.resetFrequencyMonths,
+            floorBps: row.rateTerms.floorBps ?? undefined,
+            lookbackDays: row.rateTerms.lookbackDays,
+            observationShift: row.rateTerms.observationShift,
+          }
+        : undefined,
+      formulaParameters: params,
+      lastResetEnd: row.rateResets[0]?.periodEnd,
+      schedulePeriods: row.paymentSchedule?.periods.map((p) => ({ start: p.startDate, end: p.endDate })),
+    };
+  });
+}
+
+/**
+ * Record a period's rate and make it the loan's current interestRateBps.
+ * Periods are reset in order, so one at or before the last is refused.
+ */
+export async function recordRateReset(params: {
+  loanId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  referenceRate: string;
+  method: RateResetMethod;
+  referenceRateBps: number;
+  floorBps?: number;
+  spreadBps: number;
+  allInRateBps: number;
+  lookbackDays: number;
+  observationShift: boolean;
+  fixingsUsed: number;
+}): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const later = await tx.loanRateReset.findFirst({
+      where: { loanId: params.loanId, periodStart: { gte: params.periodStart } },
+      select: { id: true },
+    });
+    if (later) throw new Error('Conflict: period was already reset');
+
+    await tx.loanRateReset.create({ data: params });
+    await tx.loan.update({
+      where: { id: params.loanId },
+      data: { interestRateBps: Math.round(params.allInRateBps) },
+    });
+  });
+}
+
+export async function getRateResets(nelId: string): Promise<RateReset[]> {
+  const rows = await prisma.loanRateReset.findMany({
+    where: { loan: { nelId } },
+    include: { loan: { select: { nelId: true } } },
+    orderBy: { periodStart: 'asc' },
+  });
+  return rows.map(toDomainRateReset);
+}
+
+// ============ Payment Schedule Operations ============
+
+function toDomainPaymentSchedule(
+  s: PrismaPaymentSchedule & { loan: { nelId: string }; periods: PrismaInterestPeriod[] }
+): PaymentSchedule {
+  return {
+    nelId: s.loan.nelId,
+    frequency: s.frequency as PaymentFrequency,
+    businessDayConvention: s.businessDayConvention as BusinessDayConvention,
+    calendar: s.calendar,
+    periods: s.periods.map((p) => ({
+      sequence: p.sequence,
+      startDate: p.startDate,
+      endDate: p.endDate,
+      unadjustedEndDate: p.unadjustedEndDate,
+      paymentDate: p.paymentDate,
+      days: p.days,
+      isStub: p.isStub,
+    })),
+    generatedBy: s.generatedBy ?? undefined,
+    generatedAt: s.updatedAt,
+  };
+}
+
+export async function getPaymentSchedule(nelId: string): Promise<PaymentSchedule | undefined> {
+  const schedule = await prisma.paymentSchedule.findFirst({
+    where: { loan: { nelId } },
+    include: { loan: { select: { nelId: true } }, periods: { orderBy: { sequence: 'asc' } } },
+  });
+  return schedule ? toDomainPaymentSchedule(schedule) : undefined;
+}
+
+/**
+ * Store a loan's schedule, replacing its periods if it already has one
+ */
+export async function savePaymentSchedule(params: {
+  nelId: string;
+  frequency: PaymentFrequency;
+  businessDayConvention: BusinessDayConvention;
+  calendar: string;
+  periods: InterestPeriod[];
+  generatedBy?: string;
+}): Promise<PaymentSchedule> {
+  const loan = await prisma.loan.findUnique({ where: { nelId: params.nelId } });
+  if (!loan) throw new Error(`Loan not found: ${params.nelId}`);
+
+  const data = {
+    frequency: params.frequency,
+    businessDayConvention: params.businessDayConvention,
+    calendar: params.calendar,
+    generatedBy: params.generatedBy ?? null,
+  };
+
+  const schedule = await prisma.$transaction(async (tx) => {
+    const saved = await tx.paymentSchedule.upsert({
+      where: { loanId: loan.id },
+      update: data,
+      create: { loanId: loan.id, ...data },
+    });
+    await tx.interestPeriod.deleteMany({ where: { scheduleId: saved.id } });
+    await tx.interestPeriod.createMany({
+      data: params.periods.map((p) => ({ scheduleId: saved.id, ...p })),
+    });
+    return tx.paymentSchedule.findUniqueOrThrow({
+      where: { id: saved.id },
+      include: { loan: { select: { nelId: true } }, periods: { orderBy: { sequence: 'asc' } } },
+    });
+  });
+  return toDomainPaymentSchedule(schedule);
+}
+
+// ============ Distribution Operations ============
+
+const distributionInclude = {
+  loan: { select: { nelId: true } },
+  payables: { include: { participant: { select: { name: true } } } },
+} satisfies Prisma.DistributionInclude;
+
+function toDomainDistribution(
+  d: PrismaDistribution & {
+    loan: { nelId: string };
+    payables: Array<PrismaDistributionPayable & { participant: { name: string } }>;
+  }
+): Distribution {
+  return {
+    id: d.id,
+    nelId: d.loan.nelId,
+    tokenAddress: d.tokenAddress,
+    type: d.type,
+    status: d.status,
+    amount: centsToUsd(d.amount),
+    recordDate: d.recordDate,
+    paymentDate: d.paymentDate,
+    totalUnits: d.totalUnits ?? undefined,
+    cashLegMode: d.cashLegMode as CashLegMode,
+    createdBy: d.createdBy,
+    payables: d.payables
+      .sort((a, b) => b.units - a.units)
+      .map((p) => ({
+        id: p.id,
+        participantId: p.participantId,
+        participantName: p.participant.name,
+        walletAddress: p.walletAddress ?? undefined,
+        units: p.units,
+        amount: centsToUsd(p.amount),
+        paidAt: p.paidAt ?? undefined,
+      })),
+    createdAt: d.createdAt,
+    snapshotAt: d.snapshotAt ?? undefined,
+    paidAt: d.paidAt ?? undefined,
+  };
+}
+
+/**
+ * A loan's token, if it has been minted
+ */
+export async function getTokenForDistribution(
+  nelId: string
+): Promise<{ loanId: string; tokenAddress?: string; status?: TokenizationData['status'] } | undefined> {
+  const loan = await prisma.loan.findUnique({
+    where: { nelId },
+    include: { tokenization: { select: { tokenAddress: true, status: true } } },
+  });
+  if (!loan) return undefined;
+  return {
+    loanId: loan.id,
+    tokenAddress: loan.tokenization?.tokenAddress ?? undefined,
+    status: loan.tokenization?.status,
+  };
+}
+
+export async function createDistribution(params: {
+  loanId: string;
+  tokenAddress: string;
+  type: DistributionType;
+  amountCents: bigint;
+  recordDate: Date;
+  paymentDate: Date;
+  cashLegMode: CashLegMode;
+  createdBy: string;
+}): Promise<Distribution> {
+  const { amountCents, ...data } = params;
+  const created = await prisma.distribution.create({
+    data: { ...data, amount: amountCents },
+    include: distributionInclude,
+  });
+  return toDomainDistribution(created);
+}
+
+/**
+ * Distributions whose record date or payment date has been reached without
+ * being acted on, oldest record date first
+ */
+export async function getDueDistributions(asOf: Date): Promise<Distribution[]> {
+  const rows = await prisma.distribution.findMany({
+    where: {
+      OR: [
+        { status: 'scheduled', recordDate: { lte: asOf } },
+        { status: 'payable', paymentDate: { lte: asOf } },
+      ],
+    },
+    include: distributionInclude,
+    orderBy: { recordDate: 'asc' },
+  });
+  return rows.map(toDomainDistribution);
+}
+
+/**
+ * Record the holders of record and what each is owed, keeping the holdings
+ * as a record-date position snapshot
+ */
+export async function recordDistributionSnapshot(params: {
+  id: string;
+  tokenAddress: string;
+  recordDate: Date;
+  takenBy: string;
+  payables: Array<{ participantId: string; walletAddress?: string; units: number; amountCents: bigint }>;
+}): Promise<Distribution> {
+  const totalUnits = params.payables.reduce((sum, p) => sum + p.units, 0);
+  const updated = await prisma.$transaction(async (tx) => {
+    const swapped = await tx.distribution.updateMany({
+      where: { id: params.id, status: 'scheduled' },
+      data: { status: 'payable', snapshotAt: new Date(), totalUnits },
+    });
+    if (swapped.count === 0) {
+      throw new Error('Conflict: distribution has already been snapshotted');
+    }
+
+    await tx.positionSnapshot.create({
+      data: {
+        tokenAddress: params.tokenAddress,
+        asOf: params.recordDate,
+        trigger: 'record_date',
+        reference: `distribution:${params.id}`,
+        takenBy: params.takenBy,
+        totalUnits,
+        lines: {
+          create: params.payables.map((p) => ({
+            participantId: p.participantId,
+            walletAddress: p.walletAddress,
+            units: p.units,
+          })),
+        },
+      },
+    });
+
+    await tx.distributionPayable.createMany({
+      data: params.payables.map((p) => ({
+        distributionId: params.id,
+        participantId: p.participantId,
+        walletAddress: p.walletAddress,
+        units: p.units,
+        amount: p.amountCents,
+      })),
+    });
+    return tx.distribution.findUniqueOrThrow({ where: { id: params.id }, include: distributionInclude });
+  });
+  return toDomainDistribution(updated);
+}
+
+/**
+ * Mark a distribution and its payables paid, crediting the holders' cash
+ * accounts when the cash leg is internal
+ */
+export async function payDistribution(id: string): Promise<Distribution> {
+  const paid = await prisma.$transaction(async (tx) => {
+    const paidAt = new Date();
+    const swapped = await tx.distribution.updateMany({
+      where: { id, status: 'payable' },
+      data: { status: 'paid', paidAt },
+    });
+    if (swapped.count === 0) {
+      throw new Error('Conflict: distribution is not payable');
+    }
+
+    const distribution = await tx.distribution.findUniqueOrThrow({ where: { id }, include: { payables: true } });
+    await tx.distributionPayable.updateMany({ where: { distributionId: id }, data: { paidAt } });
+
+    if (distribution.cashLegMode === 'internal') {
+      for (const payable of distribution.payables) {
+        await tx.cashAccount.upsert({
+          where: { participantId: payable.participantId },
+          update: { balance: { increment: payable.amount } },
+          create: { participantId: payable.participantId, balance: payable.amount },
+        });
+      }
+    }
+    return tx.distribution.findUniqueOrThrow({ where: { id }, include: distributionInclude });
+  });
+  return toDomainDistribution(paid);
+}
+
+export async function getDistributions(options?: {
+  nelId?: string;
+  tokenAddress?: string;
+  status?: DistributionStatus;
+}): Promise<Distribution[]> {
+  const rows = await prisma.distribution.findMany({
+    where: {
+      loan: options?.nelId ? { nelId: options.nelId } : undefined,
+      tokenAddress: options?.tokenAddress,
+      status: options?.status,
+    },
+    include: distributionInclude,
+    orderBy: { recordDate: 'desc' },
+  });
+  return rows.map(toDomainDistribution);
+}
+
+export async function getDistributionById(id: string): Promise<Distribution | undefined> {
+  const row = await prisma.distribution.findUnique({ where: { id }, include: distributionInclude });
+  return row ? toDomainDistribution(row) : undefined;
+}
+
+/**
+ * A participant's current positions and their distributions with a payment
+ * date in [from, to]
+ */
+export async function getHolderStatement(
+  participantId: string,
+  options?: { from?: Date; to?: Date }
+): Promise<HolderStatement | undefined> {
+  const participant = await prisma.participant.findUnique({ where: { id: participantId } });
+  if (!participant) return undefined;
+
+  const [balances, payables] = await Promise.all([
+    prisma.tokenBalance.findMany({ where: { participantId, balance: { gt: 0 } } }),
+    prisma.distributionPayable.findMany({
+      where: {
+        participantId,
+        distribution: { paymentDate: { gte: options?.from, lte: options?.to } },
+      },
+      include: { distribution: { include: { loan: { select: { nelId: true } } } } },
+      orderBy: { distribution: { paymentDate: 'asc' } },
+    }),
+  ]);
+
+  const tokens = await prisma.tokenization.findMany({
+    where: { tokenAddress: { in: balances.map((b) => b.tokenAddress) } },
+    include: { loan: { select: { nelId: true } } },
+  });
+  const nelIdByToken = new Map(tokens.map((t) => [t.tokenAddress!, t.loan.nelId]));
+
+  const totals = { interestPaid: BigInt(0), principalPaid: BigInt(0), pending: BigInt(0) };
+  for (const p of payables) {
+    if (!p.paidAt) totals.pending += p.amount;
+    else if (p.distribution.type === 'interest') totals.interestPaid += p.amount;
+    else totals.principalPaid += p.amount;
+  }
+
+  return {
+    participantId,
+    participantName: participant.name,
+    walletAddress: participant.walletAddress ?? undefined,
+    from: options?.from,
+    to: options?.to,
+    positions: balances.map((b) => ({
+      nelId: nelIdByToken.get(b.tokenAddress) ?? '',
+      tokenAddress: b.tokenAddress,
+      units: b.balance,
+    })),
+    distributions: payables.map((p) => ({
+      distributionId: p.distributionId,
+      nelId: p.distribution.loan.nelId,
+      type: p.distribution.type,
+      recordDate: p.distribution.recordDate,
+      paymentDate: p.distribution.paymentDate,
+      units: p.units,
+      amount: centsToUsd(p.amount),
+      paidAt: p.paidAt ?? undefined,
+    })),
+    totals: {
+      interestPaid: centsToUsd(totals.interestPaid),
+      principalPaid: centsToUsd(totals.principalPaid),
+      pending: centsToUsd(totals.pending),
+    },
+  };
+}
+
+// ============ Position History Operations ============
+
+const positionSnapshotInclude = {
+  lines: { include: { participant: { select: { name: true } } }, orderBy: { units: 'desc' } },
+} satisfies Prisma.PositionSnapshotInclude;
+
+type PrismaPositionSnapshotWithLines = Prisma.PositionSnapshotGetPayload<{
+  include: typeof positionSnapshotInclude;
+}>;
+
+function toDomainPositionSnapshot(s: PrismaPositionSnapshotWithLines): PositionSnapshot {
+  return {
+    id: s.id,
+    tokenAddress: s.tokenAddress,
+    asOf: s.asOf,
+    trigger: s.trigger,
+    reference: s.reference ?? undefined,
+    takenBy: s.takenBy,
+    totalUnits: s.totalUnits,
+    positions: s.lines.map((l) => ({
+      participantId: l.participantId,
+      participantName: l.participant.name,
+      walletAddress: l.walletAddress ?? undefined,
+      units: l.units,
+    })),
+    createdAt: s.createdAt,
+  };
+}
+
+// Participant of each wallet (lowercase); a recovered wallet still belongs to its participant
+async function participantsByWallet(): Promise<Map<string, string>> {
+  const [participants, recoveries] = await Promise.all([
+    prisma.participant.findMany({ where: { walletAddress: { not: null } }, select: { id: true, walletAddress: true } }),
+    prisma.walletRecovery.findMany({ where: { status: 'executed' }, select: { participantId: true, lostWallet: true } }),
+  ]);
+  const byWallet = new Map<string, string>();
+  for (const r of recoveries) byWallet.set(r.lostWallet.toLowerCase(), r.participantId);
+  for (const p of participants) byWallet.set(p.walletAddress!.toLowerCase(), p.id);
+  return byWallet;
+}
+
+/**
+ * Each participant's units in a token at `from`, and the dated changes to
+ * them after it through `through` (oldest first)
+ */
+export type PositionHistory = {
+  opening: Map<string, number>;
+  changes: Array<{ at: Date; participantId: string; delta: number }>;
+};
+
+/**
+ * Position history replayed from the indexed chain events by block time.
+ * Wallets that are not participants' are left out.
+ */
+async function indexedPositionHistory(
+  chainId: number,
+  tokenAddress: string,
+  from: Date,
+  through: Date
+): Promise<PositionHistory> {
+  const untimed = await prisma.chainEvent.count({ where: { chainId, tokenAddress, blockTimestamp: null } });
+  if (untimed > 0) {
+    throw new Error('Conflict: block times of indexed events are still being backfilled');
+  }
+
+  const rows = await prisma.chainEvent.findMany({
+    where: { chainId, tokenAddress, blockTimestamp: { lte: through } },
+    orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+  });
+  const byWallet = await participantsByWallet();
+  const state = new Map<string, HoldingState>();
+
+  const opening = new Map<string, number>();
+  const changes: PositionHistory['changes'] = [];
+  let opened = false;
+  const open = () => {
+    for (const [wallet, h] of state) {
+      const participantId = byWallet.get(wallet);
+      if (participantId) opening.set(participantId, (opening.get(participantId) ?? 0) + h.balance);
+    }
+    opened = true;
+  };
+
+  for (const row of rows) {
+    const event = toIndexedChainEvent(row);
+    if (row.blockTimestamp! <= from) {
+      applyChainEvent(state, event);
+      continue;
+    }
+    if (!opened) open();
+
+    const wallets = [...new Set(walletsOf(event))];
+    const before = wallets.map((w) => state.get(w)?.balance ?? 0);
+    applyChainEvent(state, event);
+    wallets.forEach((wallet, i) => {
+      const participantId = byWallet.get(wallet);
+      const delta = (state.get(wallet)?.balance ?? 0) - before[i];
+      if (participantId && delta !== 0) changes.push({ at: row.blockTimestamp!, participantId, delta });
+    });
+  }
+  if (!opened) open();
+
+  return { opening, changes };
+}
+
+/**
+ * Position history worked back from today's TokenBalance by undoing every
+ * settled trade, primary allocation, redemption and forced transfer after
+ * `from`
+ */
+async function recordedPositionHistory(tokenAddress: string, from: Date, through: Date): Promise<PositionHistory> {
+  const after = { gt: from };
+  const [balances, trades, issued, redeemed, forced] = await Promise.all([
+    prisma.tokenBalance.findMany({ where: { tokenAddress }, select: { participantId: true, balance: true } }),
+    prisma.trade.findMany({
+      where: { tokenAddress, status: 'settled', settledAt: after },
+      select: { sellerId: true, buyerId: true, units: true, settledAt: true },
+    }),
+    prisma.primaryAllocationLine.findMany({
+      where: { allocation: { tokenAddress, status: 'completed', completedAt: after } },
+      select: { participantId: true, units: true, allocation: { select: { completedAt: true } } },
+    }),
+    prisma.redemptionPayout.findMany({
+      where: { redemption: { tokenAddress, status: 'completed', completedAt: after } },
+      select: { participantId: true, units: true, redemption: { select: { completedAt: true } } },
+    }),
+    prisma.tokenAdminAction.findMany({
+      where: { tokenAddress, action: 'forced_transfer', createdAt: after },
+      select: { wallet: true, toWallet: true, units: true, createdAt: true },
+    }),
+  ]);
+
+  const later: PositionHistory['changes'] = [];
+  const change = (at: Date, participantId: string | undefined, delta: number) => {
+    if (participantId) later.push({ at, participantId, delta });
+  };
+
+  for (const t of trades) {
+    change(t.settledAt!, t.sellerId, -t.units);
+    change(t.settledAt!, t.buyerId, t.units);
+  }
+  for (const line of issued) change(line.allocation.completedAt!, line.participantId, line.units);
+  for (const payout of redeemed) change(payout.redemption.completedAt!, payout.participantId, -payout.units);
+
+  if (forced.length > 0) {
+    // Forced transfers name wallets
+    const byWallet = await participantsByWallet();
+    for (const f of forced) {
+      change(f.createdAt, f.wallet ? byWallet.get(f.wallet.toLowerCase()) : undefined, -(f.units ?? 0));
+      change(f.createdAt, f.toWallet ? byWallet.get(f.toWallet.toLowerCase()) : undefined, f.units ?? 0);
+    }
+  }
+
+  const opening = new Map<string, number>();
+  for (const b of balances) opening.set(b.participantId, (opening.get(b.participantId) ?? 0) + b.balance);
+  for (const c of later) opening.set(c.participantId, (opening.get(c.participantId) ?? 0) - c.delta);
+
+  return {
+    opening,
+    changes: later.filter((c) => c.at <= through).sort((a, b) => a.at.getTime() - b.at.getTime()),
+  };
+}
+
+/**
+ * Each participant's units in a token at `from` and every change to them up
+ * to `through`, so a caller can walk positions forward over a range without
+ * a query per date. A token the chain indexer follows is replayed from its
+ * indexed events by block time, since the indexer overwrites TokenBalance
+ * from them; any other token is worked back from the platform's own records.
+ */
+export async function getPositionHistory(tokenAddress: string, from: Date, through: Date): Promise<PositionHistory> {
+  const checkpoint = await prisma.indexerCheckpoint.findFirst({ where: { tokenAddress } });
+  return checkpoint
+    ? indexedPositionHistory(checkpoint.chainId, tokenAddress, from, through)
+    : recordedPositionHistory(tokenAddress, from, through);
+}
+
+/**
+ * Each holder's units in a token as of `asOf`, largest holding first (see
+ * getPositionHistory for where they come from)
+ */
+export async function getPositionsAsOf(tokenAddress: string, asOf: Date): Promise<HistoricalPosition[]> {
+  const { opening: units } = await getPositionHistory(tokenAddress, asOf, asOf);
+
+  const short = [...units].filter(([, u]) => u < 0);
+  if (short.length > 0) {
+    throw new Error(
+      `Conflict: positions as of ${asOf.toISOString()} do not reconcile (negative for ${short.map(([id]) => id).join(', ')})`
+    );
+  }
+
+  const held = [...units].filter(([, u]) => u > 0);
+  const participants = await prisma.participant.findMany({
+    where: { id: { in: held.map(([id]) => id) } },
+    select: { id: true, name: true, walletAddress: true },
+  });
+  const byId = new Map(participants.map((p) => [p.id, p]));
+
+  return held
+    .map(([participantId, u]) => ({
+      participantId,
+      participantName: byId.get(participantId)?.name ?? '',
+      walletAddress: byId.get(participantId)?.walletAddress ?? undefined,
+      units: u,
+    }))
+    .sort((a, b) => b.units - a.units);
+}
+
+export async function createPositionSnapshot(params: {
+  tokenAddress: string;
+  asOf: Date;
+  trigger: PositionSnapshotTrigger;
+  reference?: string;
+  takenBy: string;
+  positions: HistoricalPosition[];
+}): Promise<PositionSnapshot> {
+  const created = await prisma.positionSnapshot.create({
+    data: {
+      tokenAddress: params.tokenAddress,
+      asOf: params.asOf,
+      trigger: params.trigger,
+      reference: params.reference,
+      takenBy: params.takenBy,
+      totalUnits: params.positions.reduce((sum, p) => sum + p.units, 0),
+      lines: {
+        create: params.positions.map((p) => ({
+          participantId: p.participantId,
+          walletAddress: p.walletAddress,
+          units: p.units,
+        })),
+      },
+    },
+    include: positionSnapshotInclude,
+  });
+  return toDomainPositionSnapshot(created);
+}
+
+export async function getPositionSnapshots(options?: {
+  tokenAddress?: string;
+  from?: Date;
+  to?: Date;
+}): Promise<PositionSnapshot[]> {
+  const rows = await prisma.positionSnapshot.findMany({
+    where: {
+      tokenAddress: options?.tokenAddress,
+      asOf: { gte: options?.from, lte: options?.to },
+    },
+    include: positionSnapshotInclude,
+    orderBy: { asOf: 'desc' },
+  });
+  return rows.map(toDomainPositionSnapshot);
+}
+
+export async function getPositionSnapshotById(id: string): Promise<PositionSnapshot | undefined> {
+  const row = await prisma.positionSnapshot.findUnique({ where: { id }, include: positionSnapshotInclude });
+  return row ? toDomainPositionSnapshot(row) : undefined;
+}
+
+export async function tokenExists(tokenAddress: string): Promise<boolean> {
+  return (await prisma.tokenization.count({ where: { tokenAddress } })) > 0;
+}
+
+/**
+ * Addresses of tokens that are minted and not yet redeemed
+ */
+export async function getLiveTokenAddresses(): Promise<string[]> {
+  const rows = await prisma.tokenization.findMany({
+    where: { status: { in: ['minted', 'trading'] }, tokenAddress: { not: null } },
+    select: { tokenAddress: true },
+  });
+  return rows.map((r) => r.tokenAddress!);
+}
+
+// ============ Participant Operations ============
+
+export async function getParticipants(): Promise<Participant[]> {
+  const participants = await prisma.participant.findMany({
+    orderBy: { name: 'asc' },
+  });
+  return participants.map(toDomainParticipant);
+}
+
+export async function getParticipantById(id: string): Promise<Participant | undefined> {
+  const participant = await prisma.participant.findUnique({ where: { id } });
+  return participant ? toDomainParticipant(participant) : undefined;
 }
 
 export async function getParticipantByWallet(walletAddress: string): Promise<Participant | undefined> {
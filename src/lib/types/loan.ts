@@ -93,12 +93,17 @@ export interface NF2Formula {
   isOnChain: boolean;
 }
 
+// LoanToken balance partitions (bytes32 keccak256 of the name on-chain)
+export type TokenPartition = 'PRIMARY' | 'SECONDARY';
+
+export const TOKEN_PARTITIONS: TokenPartition[] = ['PRIMARY', 'SECONDARY'];
+
 export interface TokenizationData {
   tokenAddress?: string;
   tokenSymbol: string;
   totalUnits: number;
   unitValue: number; // USD per unit
-  partition: 'PRIMARY' | 'SECONDARY';
+  partition: TokenPartition;
   status: 'pending' | 'minted' | 'trading' | 'redeemed';
   mintedAt?: Date;
   blockchain: string;
@@ -186,11 +191,12 @@ export interface ComplianceCheck {
   details: string;
 }
 
-export type TradeWorkflowRole = 'trader' | 'checker' | 'agent';
+export type TradeWorkflowRole = 'trader' | 'checker' | 'agent' | 'kyc_provider';
 
 export type TradeWorkflowActor = {
-  role: TradeWorkflowRole;
+  role: TradeWorkflowRole | 'system'; // 'system' = scheduler-driven transitions
   wallet: string;
+  organization?: string;
 };
 
 export type TradeStatus =
@@ -201,7 +207,16 @@ export type TradeStatus =
   | 'executed'
   | 'settled'
   | 'rejected'
-  | 'expired';
+  | 'expired'
+  | 'cancelled';
+
+// Trade terms the proposing trader may amend before execution
+export type TradeAmendableTerms = Pick<Trade, 'units' | 'pricePerUnit' | 'totalValue'>;
+
+// Prior -> new value for each amended term
+export type TradeTermsChanges = Partial<{
+  [K in keyof TradeAmendableTerms]: { from: TradeAmendableTerms[K]; to: TradeAmendableTerms[K] };
+}>;
 
 export type TradeWorkflowEvent = {
   from: TradeStatus | 'none';
@@ -209,17 +224,64 @@ export type TradeWorkflowEvent = {
   at: string; // ISO timestamp
   actor: TradeWorkflowActor;
   reason?: string;
+  changes?: TradeTermsChanges; // Present on amendments
 };
 
 export type TradeWorkflow = {
   version: 1;
   history: TradeWorkflowEvent[];
   proposedBy?: TradeWorkflowActor;
+  approvals?: TradeWorkflowActor[]; // Distinct checker approvals (four-eyes)
   approvedBy?: TradeWorkflowActor;
   rejectedBy?: TradeWorkflowActor;
+  cancelledBy?: TradeWorkflowActor;
   executedBy?: TradeWorkflowActor;
+  quote?: TradeQuoteEvidence; // Set when the trade came from an accepted RFQ quote
+};
+
+// Snapshot of the RFQ quote a trade was struck on, kept with the trade
+export type TradeQuoteEvidence = {
+  rfqId: string;
+  quoteId: string;
+  pricePerUnit: number;
+  quotedBy: string; // Wallet that submitted the quote
+  quotedAt: string; // ISO timestamp
+  validUntil: string; // ISO timestamp
+  quotesReceived: number;
+};
+
+export type TradeAction =
+  | 'propose'
+  | 'approve'
+  | 'reject'
+  | 'execute'
+  | 'cancel'
+  | 'amend'
+  | 'expire'
+  | 'confirm'
+  | 'revert';
+
+// A workflow action the current actor may take (see trade-state-machine)
+export type TradeActionOption = {
+  action: TradeAction;
+  label: string;
+  role: TradeWorkflowRole;
+  endpoint: string;
+};
+
+// Per-loan four-eyes policy for the maker/checker workflow
+export type TradeApprovalPolicy = {
+  requiredApprovals: number;
+  notionalThreshold?: number; // USD; above this approvalsAboveThreshold applies
+  approvalsAboveThreshold: number;
+  segregateOrganizations: boolean;
+  proposedTtlMinutes?: number;
+  approvedTtlMinutes?: number;
 };
 
+// How long a trade may sit in proposed/approved before it expires
+export type TradeTtlPolicy = Pick<TradeApprovalPolicy, 'proposedTtlMinutes' | 'approvedTtlMinutes'>;
+
 // Participant/Investor types - Updated for ERC-3643
 export interface Participant {
   id: string;
@@ -246,12 +308,588 @@ export interface Trade {
   pricePerUnit: number;
   totalValue: number;
   status: TradeStatus;
+  partition?: TokenPartition; // Units move in this partition; PRIMARY when omitted
   validation?: TransferValidation;
   workflow?: TradeWorkflow;
   createdAt: Date;
   settledAt?: Date;
   txHash?: string;
   settlementTime?: number; // seconds (for T+0 demo)
+  expiresAt?: Date;
+  version?: number; // Optimistic-lock counter, bumped on each workflow transition
+  reservedUnits?: number; // Seller units earmarked while proposed/approved
+  orderId?: string; // Parent block order, for trades allocated from one
+  settlementCycleId?: string; // Netting cycle that settled it, if batch-settled
+}
+
+export type CashLegMode = 'internal' | 'erc20';
+
+export type CashLockStatus = 'locked' | 'settled' | 'released';
+
+// Buyer cash held against an approved trade until it is paid or released (DvP)
+export type CashLock = {
+  id: string;
+  tradeId: string;
+  mode: CashLegMode;
+  amount: number; // USD
+  status: CashLockStatus;
+  externalRef?: string; // On-chain hold id
+  paymentRef?: string; // On-chain payment tx hash
+  createdAt: Date;
+  lockedAt: Date;
+  settledAt?: Date;
+  releasedAt?: Date;
+};
+
+// Internal-ledger cash account (mock-mode cash leg)
+export type CashAccount = {
+  participant: Participant;
+  currency: string;
+  balance: number; // USD
+  lockedAmount: number;
+  availableAmount: number;
+};
+
+// One participant's net movement across a settlement cycle's trades
+export type NetPosition = {
+  participant: Participant;
+  netUnits: number; // Positive receives units, negative delivers them
+  netCash: number; // USD; positive receives cash, negative pays it
+  grossUnits: number; // Units bought plus units sold before netting
+};
+
+// Batch that settled a token's approved trades on net positions
+export interface SettlementCycle {
+  id: string;
+  tokenAddress: string;
+  partition: TokenPartition;
+  runBy: string;
+  txHash: string;
+  createdAt: Date;
+  netPositions: NetPosition[];
+  tradeIds: string[];
+}
+
+export type ChainEventName =
+  | 'Issued'
+  | 'Redeemed'
+  | 'TransferByPartition'
+  | 'ControllerTransfer'
+  | 'TokensFrozen'
+  | 'TokensUnfrozen'
+  | 'RecoverySuccess';
+
+// LoanToken log as recorded by the chain indexer
+export type IndexedChainEvent = {
+  chainId: number;
+  tokenAddress: string;
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp?: Date;
+  txHash: string;
+  logIndex: number;
+  eventName: ChainEventName;
+  args: Record<string, string>; // uint256 as decimal strings, partitions by name when known
+};
+
+export type IndexerCheckpoint = {
+  chainId: number;
+  tokenAddress: string;
+  blockNumber: number;
+  blockHash: string;
+  updatedAt: Date;
+};
+
+// A wallet's on-chain holding of a token, as projected by the indexer
+export type TokenHolding = {
+  tokenAddress: string;
+  walletAddress: string;
+  balance: number;
+  frozenAmount: number;
+  partitions: Record<string, number>;
+};
+
+export type ReconciliationRunStatus = 'running' | 'completed' | 'failed';
+
+export type ReconciliationBreakType =
+  | 'missing_holder' // On the ledger but holds nothing on-chain
+  | 'amount_mismatch'
+  | 'frozen_mismatch'
+  | 'unknown_holder' // Holds on-chain but not on the ledger
+  | 'supply_mismatch'; // Tokenization.totalUnits vs LoanToken.totalSupply
+
+export type ReconciliationBreakStatus = 'open' | 'assigned' | 'resolved';
+
+export interface ReconciliationBreak {
+  id: string;
+  runId: string; // Run that first found it
+  lastSeenRunId: string;
+  tokenAddress: string;
+  walletAddress?: string;
+  participantId?: string;
+  type: ReconciliationBreakType;
+  partition?: string;
+  ledgerAmount?: number;
+  chainAmount?: number;
+  details: string;
+  status: ReconciliationBreakStatus;
+  assignedTo?: string;
+  assignedAt?: Date;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  resolution?: string;
+  version: number;
+  createdAt: Date;
+}
+
+export interface ReconciliationRun {
+  id: string;
+  chainId: number;
+  status: ReconciliationRunStatus;
+  triggeredBy: string;
+  tokensChecked: number;
+  holdersChecked: number;
+  breakCount: number;
+  error?: string;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export type TokenAdminActionType =
+  | 'freeze_address'
+  | 'unfreeze_address'
+  | 'freeze_tokens'
+  | 'unfreeze_tokens'
+  | 'pause'
+  | 'unpause'
+  | 'forced_transfer';
+
+export type TokenAdminReasonCode =
+  | 'regulatory_order'
+  | 'court_order'
+  | 'sanctions'
+  | 'aml_investigation'
+  | 'lost_wallet'
+  | 'error_correction'
+  | 'other'; // Needs a free-text reason
+
+export const TOKEN_ADMIN_REASON_CODES: TokenAdminReasonCode[] = [
+  'regulatory_order',
+  'court_order',
+  'sanctions',
+  'aml_investigation',
+  'lost_wallet',
+  'error_correction',
+  'other',
+];
+
+// pending: sent on-chain, not yet seen mined; resumed from txHash on retry
+export type TokenAdminActionStatus = 'pending' | 'completed';
+
+// Audit record of an issuer admin action; never modified once completed
+export interface TokenAdminAction {
+  id: string;
+  tokenAddress: string;
+  action: TokenAdminActionType;
+  reasonCode: TokenAdminReasonCode;
+  reason?: string;
+  actor: string;
+  wallet?: string;
+  toWallet?: string;
+  units?: number;
+  partition?: TokenPartition;
+  mode: 'mock' | 'real';
+  txHash?: string;
+  status: TokenAdminActionStatus;
+  createdAt: Date;
+}
+
+export type WalletRecoveryStatus =
+  | 'requested'
+  | 'identity_verified'
+  | 'approved'
+  | 'executed'
+  | 'rejected';
+
+// Move of a participant's holdings from a lost wallet to a new one
+export interface WalletRecovery {
+  id: string;
+  participantId: string;
+  lostWallet: string;
+  newWallet: string;
+  status: WalletRecoveryStatus;
+  statement: string;
+  requestedBy: string;
+  verifiedBy?: string;
+  verifiedAt?: Date;
+  verificationRef?: string;
+  approvals: TradeWorkflowActor[];
+  executedBy?: string;
+  executedAt?: Date;
+  txHashes: string[];
+  rejectedBy?: string;
+  rejectionReason?: string;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RedemptionTrigger = 'maturity' | 'prepayment';
+
+export type RedemptionStatus = 'processing' | 'completed' | 'failed';
+
+// One holder's share of a redemption
+export interface RedemptionPayout {
+  id: string;
+  participantId: string;
+  walletAddress?: string;
+  units: number;
+  amount: number; // USD
+  txHash?: string;
+}
+
+// Payoff of a tokenized loan: units burned, amount paid out pro rata
+export interface Redemption {
+  id: string;
+  tokenizationId: string;
+  tokenAddress: string;
+  trigger: RedemptionTrigger;
+  status: RedemptionStatus;
+  amount: number; // USD
+  totalUnits: number;
+  mode: 'mock' | 'real';
+  cashLegMode: CashLegMode;
+  burnTxHash?: string;
+  triggeredBy: string;
+  error?: string;
+  payouts: RedemptionPayout[];
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export type DayCountConvention = 'ACT/360' | 'ACT/365F' | '30/360';
+
+export const DAY_COUNT_CONVENTIONS: DayCountConvention[] = ['ACT/360', 'ACT/365F', '30/360'];
+
+// A token holder's part of a day's accrual, by units held
+export interface InterestAccrualShare {
+  participantId: string;
+  units: number;
+  amount: number; // USD
+}
+
+// Interest accrued on a loan over one calendar day (UTC)
+export interface InterestAccrual {
+  id: string;
+  nelId: string;
+  accrualDate: Date;
+  principal: number; // USD outstanding that day
+  rateBps: number; // All-in annual rate (fractional after a floating reset)
+  dayCount: DayCountConvention;
+  dayFraction: number;
+  amount: number; // USD
+  accruedToDate: number; // USD, running total including this day
+  shares: InterestAccrualShare[];
+}
+
+// Interest accrued on a loan so far, in total and by token holder
+export interface AccruedInterest {
+  nelId: string;
+  accruedThrough?: Date; // Last accrual date
+  accruedToDate: number; // USD
+  holders: Array<{ participantId: string; participantName: string; walletAddress?: string; accrued: number }>;
+}
+
+// 'term': one fixing per period (EURIBOR, Term SOFR);
+// 'compounded': daily fixings compounded in arrears (SOFR, SONIA)
+export type RateResetMethod = 'term' | 'compounded';
+
+export interface ReferenceRateFixing {
+  rateName: string;
+  fixingDate: Date;
+  rateBps: number;
+  source: 'csv' | 'api';
+  updatedBy?: string;
+  updatedAt: Date;
+}
+
+// How a floating-rate loan's all-in rate is reset each interest period
+export interface FloatingRateTerms {
+  method: RateResetMethod;
+  resetFrequencyMonths: number; // Used only when the loan has no payment schedule
+  floorBps?: number; // Applied to the reference rate, before the spread
+  lookbackDays: number; // Publication days the fixings are taken before the period
+  observationShift: boolean; // Compounded only
+}
+
+// All-in rate set for one interest period
+export interface RateReset {
+  id: string;
+  nelId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  referenceRate: string;
+  method: RateResetMethod;
+  referenceRateBps: number; // Before the floor
+  floorBps?: number;
+  spreadBps: number;
+  allInRateBps: number;
+  lookbackDays: number;
+  observationShift: boolean;
+  fixingsUsed: number;
+  createdAt: Date;
+}
+
+export type PaymentFrequency = 'monthly' | 'quarterly' | 'semi_annual';
+
+export const PAYMENT_FREQUENCIES: PaymentFrequency[] = ['monthly', 'quarterly', 'semi_annual'];
+
+// How a payment date that falls on a weekend or holiday is moved
+export type BusinessDayConvention = 'following' | 'modified_following';
+
+export const BUSINESS_DAY_CONVENTIONS: BusinessDayConvention[] = ['following', 'modified_following'];
+
+// One interest period; the start counts and the end does not
+export interface InterestPeriod {
+  sequence: number; // From 1
+  startDate: Date;
+  endDate: Date; // Business-day adjusted
+  unadjustedEndDate: Date;
+  paymentDate: Date;
+  days: number;
+  isStub: boolean; // Shorter than the frequency (the first period only)
+}
+
+export interface PaymentSchedule {
+  nelId: string;
+  frequency: PaymentFrequency;
+  businessDayConvention: BusinessDayConvention;
+  calendar: string; // Holiday calendar, by currency
+  periods: InterestPeriod[];
+  generatedBy?: string;
+  generatedAt: Date;
+}
+
+export type DistributionType = 'interest' | 'principal';
+
+// scheduled: waiting for the record date; payable: holders snapshotted,
+// waiting for the payment date; paid: holders paid
+export type DistributionStatus = 'scheduled' | 'payable' | 'paid';
+
+// What one holder of record is owed from a distribution
+export interface DistributionPayable {
+  id: string;
+  participantId: string;
+  participantName: string;
+  walletAddress?: string;
+  units: number;
+  amount: number; // USD
+  paidAt?: Date;
+}
+
+// A borrower payment passed through to token holders pro rata by units
+export interface Distribution {
+  id: string;
+  nelId: string;
+  tokenAddress: string;
+  type: DistributionType;
+  status: DistributionStatus;
+  amount: number; // USD
+  recordDate: Date;
+  paymentDate: Date;
+  totalUnits?: number; // Units held at the record date
+  cashLegMode: CashLegMode;
+  createdBy: string;
+  payables: DistributionPayable[];
+  createdAt: Date;
+  snapshotAt?: Date;
+  paidAt?: Date;
+}
+
+// A participant's positions and the distributions paid or owed to them
+export interface HolderStatement {
+  participantId: string;
+  participantName: string;
+  walletAddress?: string;
+  from?: Date;
+  to?: Date;
+  positions: Array<{ nelId: string; tokenAddress: string; units: number }>;
+  distributions: Array<{
+    distributionId: string;
+    nelId: string;
+    type: DistributionType;
+    recordDate: Date;
+    paymentDate: Date;
+    units: number;
+    amount: number; // USD
+    paidAt?: Date;
+  }>;
+  totals: { interestPaid: number; principalPaid: number; pending: number }; // USD
+}
+
+// A holder's units in a token at some point in time
+export interface HistoricalPosition {
+  participantId: string;
+  participantName: string;
+  walletAddress?: string;
+  units: number;
+}
+
+export type PositionSnapshotTrigger = 'on_demand' | 'scheduled' | 'record_date';
+
+// Immutable cap table of a token as of a point in time
+export interface PositionSnapshot {
+  id: string;
+  tokenAddress: string;
+  asOf: Date;
+  trigger: PositionSnapshotTrigger;
+  reference?: string; // e.g. distribution:<id>
+  takenBy: string;
+  totalUnits: number;
+  positions: HistoricalPosition[];
+  createdAt: Date;
+}
+
+export type PrimaryAllocationStatus = 'processing' | 'completed' | 'failed';
+
+// One lender position's units in a primary allocation
+export interface PrimaryAllocationLine {
+  id: string;
+  lenderPositionId: string;
+  lenderName: string;
+  participantId: string;
+  walletAddress: string;
+  percentage: number; // Share of total facility
+  exactUnits: number; // Before rounding
+  units: number;
+  residual: number; // units - exactUnits
+  txHash?: string;
+}
+
+// Issuance of a minted token's units to the lenders of record
+export interface PrimaryAllocation {
+  id: string;
+  tokenizationId: string;
+  tokenAddress: string;
+  status: PrimaryAllocationStatus;
+  mode: 'mock' | 'real';
+  totalUnits: number;
+  allocatedUnits: number;
+  unallocatedUnits: number;
+  allocatedBy: string;
+  error?: string;
+  lines: PrimaryAllocationLine[];
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export type OrderSide = 'bid' | 'ask';
+
+export type LimitOrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled';
+
+// Limit order on a token's central order book (price-time priority)
+export interface LimitOrder {
+  id: string;
+  loanId: string;
+  tokenAddress: string;
+  participant: Participant;
+  side: OrderSide;
+  units: number;
+  pricePerUnit: number;
+  status: LimitOrderStatus;
+  filledUnits: number; // Matched into trades that are live or settled
+  openUnits: number; // Still resting on the book
+  createdBy: string;
+  createdAt: Date;
+  cancelledAt?: Date;
+  version: number;
+}
+
+export type OrderBookMatch = {
+  id: string;
+  bidOrderId: string;
+  askOrderId: string;
+  units: number;
+  pricePerUnit: number;
+  tradeId?: string;
+  createdAt: Date;
+};
+
+// Aggregated resting size at one price
+export type OrderBookLevel = {
+  pricePerUnit: number;
+  units: number;
+  orders: number;
+};
+
+export type OrderBookDepth = {
+  tokenAddress: string;
+  bids: OrderBookLevel[]; // Best (highest) first
+  asks: OrderBookLevel[]; // Best (lowest) first
+};
+
+export type RfqStatus = 'open' | 'accepted' | 'cancelled' | 'expired';
+
+export type RfqQuote = {
+  id: string;
+  rfqId: string;
+  buyer: Participant;
+  pricePerUnit: number;
+  totalValue: number;
+  validUntil: Date;
+  submittedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+// Invited buyer and the eligibility check that admitted them
+export type RfqInvitee = {
+  buyer: Participant;
+  validation?: TransferValidation;
+};
+
+// Seller's request for time-boxed quotes from selected eligible buyers
+export interface Rfq {
+  id: string;
+  loanId: string;
+  tokenAddress: string;
+  seller: Participant;
+  units: number;
+  status: RfqStatus;
+  createdBy: string;
+  createdAt: Date;
+  expiresAt: Date;
+  acceptedQuoteId?: string;
+  tradeId?: string;
+  cancelledAt?: Date;
+  version: number;
+  invitees: RfqInvitee[];
+  quotes: RfqQuote[];
+}
+
+export type BlockOrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled';
+
+// One seller's block, split across buyers as independently settled child trades
+export interface BlockOrder {
+  id: string;
+  loanId: string;
+  tokenAddress: string;
+  seller: Participant;
+  totalUnits: number;
+  pricePerUnit: number;
+  status: BlockOrderStatus;
+  filledUnits: number; // Settled by child trades
+  allocatedUnits: number; // Held by proposed/approved child trades
+  remainingUnits: number; // Still available to allocate
+  cancelledUnits: number; // Withdrawn when the order was cancelled
+  createdBy: string;
+  createdAt: Date;
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  version: number;
+  trades: Trade[];
 }
 
 // Dashboard aggregates
@@ -262,5 +900,7 @@ export interface PortfolioSummary {
   tokenizationRate: number;
   avgSettlementTime: number; // days
   avgSettlementTimeTokenized: number; // seconds
+  interestDistributed: number; // USD paid to token holders
+  principalDistributed: number; // USD
   recentTrades: Trade[];
 }
@@ -34,6 +34,7 @@ const serviceColors: Record<string, string> = {
   'nel-protocol': colors.blue,
   'api': colors.bright,
   'ui': colors.gray,
+  'scheduler': colors.magenta,
 };
 
 function getTimestamp(): string {
@@ -138,6 +139,7 @@ export const logger = {
   nel: new Logger('nel-protocol'),
   api: new Logger('api'),
   ui: new Logger('ui'),
+  scheduler: new Logger('scheduler'),
 };
 
 // Create custom logger for any service
@@ -0,0 +1,13 @@
+/**
+ * Token Partitions
+ *
+ * Partition ids as LoanToken defines them. Kept free of server-only imports,
+ * as the real blockchain service is bundled for the browser too.
+ */
+
+import { keccak256, toHex, type Hash } from 'viem';
+
+// bytes32 partition id: keccak256 of the name
+export function partitionId(name: string): Hash {
+  return keccak256(toHex(name));
+}
@@ -0,0 +1,26 @@
+/**
+ * Pro-Rata Allocation
+ *
+ * Splits cash amounts among token holders by units, as redemptions,
+ * distributions and interest accrual all do.
+ */
+
+/**
+ * Split `amount` cents by units, handing leftover cents to the largest
+ * remainders (ties to the earlier holder), so the shares sum to `amount`
+ */
+export function allocateProRata(amount: bigint, units: number[]): bigint[] {
+  const total = BigInt(units.reduce((sum, u) => sum + u, 0));
+  const shares = units.map((u) => (amount * BigInt(u)) / total);
+  let leftover = amount - shares.reduce((sum, s) => sum + s, BigInt(0));
+
+  const byRemainder = units
+    .map((u, i) => ({ i, remainder: (amount * BigInt(u)) % total }))
+    .sort((a, b) => (a.remainder === b.remainder ? a.i - b.i : a.remainder > b.remainder ? -1 : 1));
+  for (const { i } of byRemainder) {
+    if (leftover === BigInt(0)) break;
+    shares[i] += BigInt(1);
+    leftover -= BigInt(1);
+  }
+  return shares;
+}